@@ -0,0 +1,335 @@
+// Shared by the TypeScript schedule tests and the SQL parity test, so that
+// calculateNextExpectedDate() and calculate_next_expected_date() give the same answers,
+// and getScheduleOccurrences() and get_income_calendar() expand the same calendars
+
+export interface IncomeScheduleCase {
+  name: string;
+  schedule_type: string;
+  schedule_config: any;
+  reference_date: string;
+  expected: string | null;
+}
+
+export interface IncomeCalendarCase {
+  name: string;
+  schedule_type: string;
+  schedule_config: any;
+  from: string;
+  to: string;
+  expected: string[];
+}
+
+export const incomeScheduleCases: IncomeScheduleCase[] = [
+  {
+    name: 'weekly: later in the same week',
+    schedule_type: 'weekly',
+    schedule_config: { day_of_week: 5 },
+    reference_date: '2026-10-19',
+    expected: '2026-10-23'
+  },
+  {
+    name: 'weekly: on the pay day moves a week on',
+    schedule_type: 'weekly',
+    schedule_config: { day_of_week: 1 },
+    reference_date: '2026-10-19',
+    expected: '2026-10-26'
+  },
+  {
+    name: 'weekly: Sunday pay day from Saturday',
+    schedule_type: 'weekly',
+    schedule_config: { day_of_week: 0 },
+    reference_date: '2026-10-24',
+    expected: '2026-10-25'
+  },
+  {
+    name: 'biweekly: before the start date',
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+    reference_date: '2025-12-31',
+    expected: '2026-01-02'
+  },
+  {
+    name: 'biweekly: on a pay day moves two weeks on',
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+    reference_date: '2026-01-02',
+    expected: '2026-01-16'
+  },
+  {
+    name: 'biweekly: the day after a pay day skips the off week',
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+    reference_date: '2026-01-03',
+    expected: '2026-01-16'
+  },
+  {
+    name: 'biweekly: in an off week',
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+    reference_date: '2026-01-10',
+    expected: '2026-01-16'
+  },
+  {
+    name: 'biweekly: start date that is not a pay day',
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-01' },
+    reference_date: '2026-10-19',
+    expected: '2026-10-23'
+  },
+  {
+    name: 'biweekly: across a year end',
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+    reference_date: '2026-12-26',
+    expected: '2027-01-01'
+  },
+  {
+    name: 'monthly: later this month',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: 15 },
+    reference_date: '2026-10-01',
+    expected: '2026-10-15'
+  },
+  {
+    name: 'monthly: on the day moves to next month',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: 15 },
+    reference_date: '2026-10-15',
+    expected: '2026-11-15'
+  },
+  {
+    name: 'monthly: the 31st in a 30-day month',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: 31 },
+    reference_date: '2026-04-10',
+    expected: '2026-04-30'
+  },
+  {
+    name: 'monthly: the 31st in February',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: 31 },
+    reference_date: '2026-01-31',
+    expected: '2026-02-28'
+  },
+  {
+    name: 'monthly: the 30th in a leap-year February',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: 30 },
+    reference_date: '2028-02-01',
+    expected: '2028-02-29'
+  },
+  {
+    name: 'monthly: last day',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: -1 },
+    reference_date: '2026-02-28',
+    expected: '2026-03-31'
+  },
+  {
+    name: 'monthly: last day from mid-month',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: -1 },
+    reference_date: '2026-11-15',
+    expected: '2026-11-30'
+  },
+  {
+    name: 'semi_monthly: first of the two',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [1, 15] },
+    reference_date: '2026-10-19',
+    expected: '2026-11-01'
+  },
+  {
+    name: 'semi_monthly: second of the two',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [1, 15] },
+    reference_date: '2026-10-01',
+    expected: '2026-10-15'
+  },
+  {
+    name: 'semi_monthly: 15th and last day',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [15, -1] },
+    reference_date: '2026-02-15',
+    expected: '2026-02-28'
+  },
+  {
+    name: 'semi_monthly: last day rolls into next month',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [15, -1] },
+    reference_date: '2026-02-28',
+    expected: '2026-03-15'
+  },
+  {
+    name: 'semi_monthly: pay dates out of order',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [-1, 15] },
+    reference_date: '2026-10-31',
+    expected: '2026-11-15'
+  },
+  {
+    name: 'semi_monthly: the 30th in February',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [15, 30] },
+    reference_date: '2026-02-20',
+    expected: '2026-02-28'
+  },
+  {
+    name: 'quarterly: first month of the quarter',
+    schedule_type: 'quarterly',
+    schedule_config: { month_of_quarter: 1, day_of_month: 15 },
+    reference_date: '2026-10-19',
+    expected: '2027-01-15'
+  },
+  {
+    name: 'quarterly: later this quarter',
+    schedule_type: 'quarterly',
+    schedule_config: { month_of_quarter: 3, day_of_month: 1 },
+    reference_date: '2026-10-19',
+    expected: '2026-12-01'
+  },
+  {
+    name: 'quarterly: on the day moves a quarter on',
+    schedule_type: 'quarterly',
+    schedule_config: { month_of_quarter: 2, day_of_month: 10 },
+    reference_date: '2026-11-10',
+    expected: '2027-02-10'
+  },
+  {
+    name: 'quarterly: last day of the quarter',
+    schedule_type: 'quarterly',
+    schedule_config: { month_of_quarter: 3, day_of_month: -1 },
+    reference_date: '2026-12-31',
+    expected: '2027-03-31'
+  },
+  {
+    name: 'quarterly: the 31st in a 30-day month',
+    schedule_type: 'quarterly',
+    schedule_config: { month_of_quarter: 1, day_of_month: 31 },
+    reference_date: '2026-04-01',
+    expected: '2026-04-30'
+  },
+  {
+    name: 'yearly: later this year',
+    schedule_type: 'yearly',
+    schedule_config: { month: 12, day_of_month: 25 },
+    reference_date: '2026-10-19',
+    expected: '2026-12-25'
+  },
+  {
+    name: 'yearly: passed this year',
+    schedule_type: 'yearly',
+    schedule_config: { month: 4, day_of_month: 15 },
+    reference_date: '2026-10-19',
+    expected: '2027-04-15'
+  },
+  {
+    name: 'yearly: leap day in a common year',
+    schedule_type: 'yearly',
+    schedule_config: { month: 2, day_of_month: 29 },
+    reference_date: '2026-01-01',
+    expected: '2026-02-28'
+  },
+  {
+    name: 'yearly: last day of February in a leap year',
+    schedule_type: 'yearly',
+    schedule_config: { month: 2, day_of_month: -1 },
+    reference_date: '2027-03-01',
+    expected: '2028-02-29'
+  },
+  {
+    name: 'one_time: in the future',
+    schedule_type: 'one_time',
+    schedule_config: { date: '2026-12-01' },
+    reference_date: '2026-10-19',
+    expected: '2026-12-01'
+  },
+  {
+    name: 'one_time: already passed',
+    schedule_type: 'one_time',
+    schedule_config: { date: '2026-01-01' },
+    reference_date: '2026-10-19',
+    expected: '2026-01-01'
+  },
+  {
+    name: 'weekly: incomplete config',
+    schedule_type: 'weekly',
+    schedule_config: {},
+    reference_date: '2026-10-19',
+    expected: null
+  },
+  {
+    name: 'semi_monthly: no pay dates',
+    schedule_type: 'semi_monthly',
+    schedule_config: {},
+    reference_date: '2026-10-19',
+    expected: null
+  }
+];
+
+export const incomeCalendarCases: IncomeCalendarCase[] = [
+  {
+    name: 'weekly: every pay day in a month',
+    schedule_type: 'weekly',
+    schedule_config: { day_of_week: 1 },
+    from: '2026-10-01',
+    to: '2026-10-31',
+    expected: ['2026-10-05', '2026-10-12', '2026-10-19', '2026-10-26']
+  },
+  {
+    name: 'biweekly: pay days stepped from the start date',
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+    from: '2026-10-01',
+    to: '2026-10-31',
+    expected: ['2026-10-09', '2026-10-23']
+  },
+  {
+    name: 'monthly: the 31st through short months',
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: 31 },
+    from: '2026-01-01',
+    to: '2026-06-30',
+    expected: ['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31', '2026-06-30']
+  },
+  {
+    name: 'semi_monthly: occurrences on both ends of the range',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [15, -1] },
+    from: '2026-01-15',
+    to: '2026-03-15',
+    expected: ['2026-01-15', '2026-01-31', '2026-02-15', '2026-02-28', '2026-03-15']
+  },
+  {
+    name: 'semi_monthly: pay dates out of order',
+    schedule_type: 'semi_monthly',
+    schedule_config: { pay_dates: [-1, 15] },
+    from: '2026-02-01',
+    to: '2026-02-28',
+    expected: ['2026-02-15', '2026-02-28']
+  },
+  {
+    name: 'quarterly: last day of each quarter',
+    schedule_type: 'quarterly',
+    schedule_config: { month_of_quarter: 3, day_of_month: -1 },
+    from: '2026-01-01',
+    to: '2026-12-31',
+    expected: ['2026-03-31', '2026-06-30', '2026-09-30', '2026-12-31']
+  },
+  {
+    name: 'yearly: leap day across a common and a leap year',
+    schedule_type: 'yearly',
+    schedule_config: { month: 2, day_of_month: 29 },
+    from: '2027-01-01',
+    to: '2028-12-31',
+    expected: ['2027-02-28', '2028-02-29']
+  },
+  {
+    name: 'one_time: inside the range',
+    schedule_type: 'one_time',
+    schedule_config: { date: '2026-11-20' },
+    from: '2026-11-01',
+    to: '2026-11-30',
+    expected: ['2026-11-20']
+  }
+];
\ No newline at end of file
@@ -11,8 +11,10 @@ import {
   Payee, 
   Transaction, 
   TransactionType,
+  TransactionStatus,
   PayeeType,
-  EnvelopeType
+  EnvelopeType,
+  ExchangeRateQuote
 } from '@nvlp/types';
 
 /**
@@ -213,6 +215,7 @@ export const sampleEnvelopes: Envelope[] = [
     display_order: 1,
     notify_on_low_balance: false,
     is_active: true,
+    is_archived: false,
     created_at: '2024-01-01T00:00:00Z',
     updated_at: '2024-01-20T00:00:00Z',
   },
@@ -227,6 +230,7 @@ export const sampleEnvelopes: Envelope[] = [
     display_order: 2,
     notify_on_low_balance: false,
     is_active: true,
+    is_archived: false,
     created_at: '2024-01-01T00:00:00Z',
     updated_at: '2024-01-01T00:00:00Z',
   },
@@ -242,6 +246,7 @@ export const sampleEnvelopes: Envelope[] = [
     notify_on_low_balance: true,
     low_balance_threshold: 50.00,
     is_active: true,
+    is_archived: false,
     created_at: '2024-01-01T00:00:00Z',
     updated_at: '2024-01-15T00:00:00Z',
   },
@@ -264,6 +269,8 @@ export const sampleTransactions: Transaction[] = [
     payee_id: undefined,
     is_cleared: true,
     is_reconciled: false,
+    is_split: false,
+    status: TransactionStatus.POSTED,
     is_deleted: false,
     created_at: '2024-01-01T10:00:00Z',
     updated_at: '2024-01-01T10:00:00Z',
@@ -281,6 +288,8 @@ export const sampleTransactions: Transaction[] = [
     payee_id: undefined,
     is_cleared: true,
     is_reconciled: false,
+    is_split: false,
+    status: TransactionStatus.POSTED,
     is_deleted: false,
     created_at: '2024-01-01T11:00:00Z',
     updated_at: '2024-01-01T11:00:00Z',
@@ -298,6 +307,8 @@ export const sampleTransactions: Transaction[] = [
     payee_id: 'payee-grocery-store',
     is_cleared: true,
     is_reconciled: false,
+    is_split: false,
+    status: TransactionStatus.POSTED,
     is_deleted: false,
     created_at: '2024-01-08T14:30:00Z',
     updated_at: '2024-01-08T14:30:00Z',
@@ -315,12 +326,25 @@ export const sampleTransactions: Transaction[] = [
     payee_id: undefined,
     is_cleared: false,
     is_reconciled: false,
+    is_split: false,
+    status: TransactionStatus.POSTED,
     is_deleted: false,
     created_at: '2024-01-15T16:45:00Z',
     updated_at: '2024-01-15T16:45:00Z',
   },
 ];
 
+/**
+ * Sample exchange rates, as a provider would quote them
+ */
+export const sampleExchangeRates: ExchangeRateQuote[] = [
+  { base_currency: 'USD', quote_currency: 'EUR', rate: 0.91, rate_date: '2024-01-02' },
+  { base_currency: 'USD', quote_currency: 'GBP', rate: 0.79, rate_date: '2024-01-02' },
+  { base_currency: 'USD', quote_currency: 'EUR', rate: 0.92, rate_date: '2024-01-03' },
+  { base_currency: 'USD', quote_currency: 'GBP', rate: 0.78, rate_date: '2024-01-05' },
+  { base_currency: 'EUR', quote_currency: 'USD', rate: 1.09, rate_date: '2024-01-03' },
+];
+
 /**
  * Helper function to create a complete test dataset
  */
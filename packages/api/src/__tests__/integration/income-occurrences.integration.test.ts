@@ -0,0 +1,139 @@
+/**
+ * Checks how posted income is matched to the scheduled occurrences of its source.
+ * Needs a database with the migrations applied and the service role key, since it
+ * sets up its own user and budget.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+const shouldRunIntegration = !!process.env.SUPABASE_URL &&
+  !!process.env.SUPABASE_SERVICE_ROLE_KEY &&
+  process.env.RUN_INTEGRATION_TESTS === 'true';
+
+const describeIntegration = shouldRunIntegration ? describe : describe.skip;
+
+describeIntegration('Income occurrences', () => {
+  let client: SupabaseClient;
+  let userId: string;
+  let budgetId: string;
+
+  const single = async (query: PromiseLike<{ data: any; error: any }>) => {
+    const { data, error } = await query;
+    expect(error).toBeNull();
+    return data;
+  };
+
+  // Every other Friday from 2026-01-02
+  const createSource = async () => single(
+    client.from('income_sources')
+      .insert({
+        budget_id: budgetId,
+        name: 'Paycheck',
+        expected_amount: 2000,
+        schedule_type: 'biweekly',
+        schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+        next_expected_date: '2026-01-02'
+      })
+      .select()
+      .single()
+  );
+
+  const postIncome = async (sourceId: string, date: string, amount = 2000) => single(
+    client.from('transactions')
+      .insert({
+        budget_id: budgetId,
+        transaction_type: 'income',
+        income_source_id: sourceId,
+        amount,
+        transaction_date: date
+      })
+      .select()
+      .single()
+  );
+
+  const getOccurrences = async (sourceId: string) => single(
+    client.from('income_occurrences')
+      .select('*')
+      .eq('income_source_id', sourceId)
+      .order('expected_date', { ascending: true })
+  );
+
+  const getSource = async (sourceId: string) => single(
+    client.from('income_sources').select('*').eq('id', sourceId).single()
+  );
+
+  beforeAll(async () => {
+    client = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+    const { data, error } = await client.auth.admin.createUser({
+      email: `income-occurrences-${Date.now()}@example.com`,
+      password: `Pw-${Date.now()}-income-occurrences`,
+      email_confirm: true
+    });
+    expect(error).toBeNull();
+    userId = data.user!.id;
+
+    const budget = await single(
+      client.from('budgets').insert({ user_id: userId, name: 'Income occurrences' }).select().single()
+    );
+    budgetId = budget.id;
+  });
+
+  afterAll(async () => {
+    if (userId) {
+      await client.auth.admin.deleteUser(userId);
+    }
+  });
+
+  it('should record skipped occurrences as missed and advance next_expected_date', async () => {
+    const source = await createSource();
+
+    const income = await postIncome(source.id, '2026-01-16');
+    const occurrences = await getOccurrences(source.id);
+
+    expect(occurrences.map((o: any) => [o.expected_date, o.status])).toEqual([
+      ['2026-01-02', 'missed'],
+      ['2026-01-16', 'received']
+    ]);
+    expect(occurrences[1].transaction_id).toBe(income.id);
+    expect((await getSource(source.id)).next_expected_date).toBe('2026-01-30');
+  });
+
+  it('should upgrade a missed occurrence to received when earlier income is posted out of order', async () => {
+    const source = await createSource();
+    await postIncome(source.id, '2026-01-16');
+
+    const late = await postIncome(source.id, '2026-01-05', 1950);
+    const occurrences = await getOccurrences(source.id);
+
+    expect(occurrences).toHaveLength(2);
+    expect(occurrences[0]).toMatchObject({
+      expected_date: '2026-01-02',
+      status: 'received',
+      transaction_id: late.id,
+      received_date: '2026-01-05'
+    });
+    expect(Number(occurrences[0].actual_amount)).toBe(1950);
+    expect(occurrences[1].status).toBe('received');
+    expect((await getSource(source.id)).next_expected_date).toBe('2026-01-30');
+  });
+
+  it('should mark an occurrence missed again when its out-of-order income is deleted', async () => {
+    const source = await createSource();
+    await postIncome(source.id, '2026-01-16');
+    const late = await postIncome(source.id, '2026-01-05');
+
+    await single(client.from('transactions')
+      .update({ is_deleted: true, deleted_at: new Date().toISOString() })
+      .eq('id', late.id)
+      .select()
+      .single());
+    const occurrences = await getOccurrences(source.id);
+
+    expect(occurrences.map((o: any) => [o.expected_date, o.status])).toEqual([
+      ['2026-01-02', 'missed'],
+      ['2026-01-16', 'received']
+    ]);
+    expect((await getSource(source.id)).next_expected_date).toBe('2026-01-30');
+  });
+});
\ No newline at end of file
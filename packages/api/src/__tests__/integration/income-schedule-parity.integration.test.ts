@@ -0,0 +1,98 @@
+/**
+ * Checks calculate_next_expected_date() and the get_income_calendar() expansion in the
+ * database against the same fixtures as the TypeScript implementation. Needs a
+ * database with the migrations applied and the service role key, since the calendar
+ * check sets up its own user and budget.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { calculateNextExpectedDate, getScheduleOccurrences } from '../../utils/income-schedule';
+import { incomeCalendarCases, incomeScheduleCases } from '../fixtures/income-schedules';
+
+const shouldRunIntegration = !!process.env.SUPABASE_URL &&
+  !!process.env.SUPABASE_SERVICE_ROLE_KEY &&
+  process.env.RUN_INTEGRATION_TESTS === 'true';
+
+const describeIntegration = shouldRunIntegration ? describe : describe.skip;
+
+describeIntegration('Income Schedule SQL Parity', () => {
+  let client: SupabaseClient;
+  let userId: string;
+  let budgetId: string;
+
+  beforeAll(async () => {
+    client = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+    const { data, error } = await client.auth.admin.createUser({
+      email: `income-schedule-parity-${Date.now()}@example.com`,
+      password: `Pw-${Date.now()}-income-schedule-parity`,
+      email_confirm: true
+    });
+    expect(error).toBeNull();
+    userId = data.user!.id;
+
+    const { data: budget, error: budgetError } = await client.from('budgets')
+      .insert({ user_id: userId, name: 'Income schedule parity' })
+      .select()
+      .single();
+    expect(budgetError).toBeNull();
+    budgetId = budget.id;
+  });
+
+  afterAll(async () => {
+    if (userId) {
+      await client.auth.admin.deleteUser(userId);
+    }
+  });
+
+  describe('calculate_next_expected_date', () => {
+    it.each(incomeScheduleCases.map(c => [c.name, c]))('%s', async (_name, scheduleCase) => {
+      const { data, error } = await client.rpc('calculate_next_expected_date', {
+        schedule_type: scheduleCase.schedule_type,
+        schedule_config: scheduleCase.schedule_config,
+        reference_date: scheduleCase.reference_date
+      });
+
+      expect(error).toBeNull();
+      expect(data).toBe(scheduleCase.expected);
+      expect(calculateNextExpectedDate(
+        scheduleCase.schedule_type,
+        scheduleCase.schedule_config,
+        scheduleCase.reference_date
+      )).toBe(data);
+    });
+  });
+
+  describe('get_income_calendar', () => {
+    it.each(incomeCalendarCases.map(c => [c.name, c]))('%s', async (_name, calendarCase) => {
+      const { data: source, error: sourceError } = await client.from('income_sources')
+        .insert({
+          budget_id: budgetId,
+          name: calendarCase.name,
+          schedule_type: calendarCase.schedule_type,
+          schedule_config: calendarCase.schedule_config
+        })
+        .select()
+        .single();
+      expect(sourceError).toBeNull();
+
+      const { data, error } = await client.rpc('get_income_calendar', {
+        p_budget_id: budgetId,
+        p_from: calendarCase.from,
+        p_to: calendarCase.to
+      });
+
+      expect(error).toBeNull();
+      const dates = (data as any[])
+        .filter(entry => entry.income_source_id === source.id)
+        .map(entry => entry.expected_date);
+      expect(dates).toEqual(calendarCase.expected);
+      expect(getScheduleOccurrences(
+        calendarCase.schedule_type,
+        calendarCase.schedule_config,
+        calendarCase.from,
+        calendarCase.to
+      )).toEqual(dates);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,211 @@
+/**
+ * Checks that the features which post transactions or total balances handle envelopes
+ * in another currency, or reject them where they only work in the budget currency. Needs a database with the migrations applied and the service
+ * role key, since it sets up its own user and budgets.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+const shouldRunIntegration = !!process.env.SUPABASE_URL &&
+  !!process.env.SUPABASE_SERVICE_ROLE_KEY &&
+  process.env.RUN_INTEGRATION_TESTS === 'true';
+
+const describeIntegration = shouldRunIntegration ? describe : describe.skip;
+
+const isoDate = (date: Date) => date.toISOString().split('T')[0];
+
+describeIntegration('Multi-currency envelopes', () => {
+  let client: SupabaseClient;
+  let userId: string;
+
+  const today = new Date();
+  const lastMonthStart = isoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1)));
+
+  const toBudgetCurrency = async (amount: number, date = isoDate(today)) => {
+    const { data: rate } = await client.rpc('get_exchange_rate', { p_from: 'EUR', p_to: 'USD', p_date: date });
+    return Math.round(amount * Number(rate) * 100) / 100;
+  };
+
+  const single = async (query: PromiseLike<{ data: any; error: any }>) => {
+    const { data, error } = await query;
+    expect(error).toBeNull();
+    return data;
+  };
+
+  const createBudget = async (availableAmount: number) => single(
+    client.from('budgets')
+      .insert({ user_id: userId, name: 'Multi-currency', currency: 'USD', available_amount: availableAmount })
+      .select()
+      .single()
+  );
+
+  const createEnvelope = async (budgetId: string, fields: Record<string, unknown> = {}) => single(
+    client.from('envelopes')
+      .insert({ budget_id: budgetId, name: 'Paris', currency: 'EUR', ...fields })
+      .select()
+      .single()
+  );
+
+  const allocate = async (budgetId: string, envelopeId: string, amount: number, date = isoDate(today)) => single(
+    client.from('transactions')
+      .insert({
+        budget_id: budgetId,
+        transaction_type: 'allocation',
+        amount,
+        currency: 'EUR',
+        transaction_date: date,
+        to_envelope_id: envelopeId
+      })
+      .select()
+      .single()
+  );
+
+  const getRow = async (table: string, id: string) => single(
+    client.from(table).select('*').eq('id', id).single()
+  );
+
+  beforeAll(async () => {
+    client = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+    const { data, error } = await client.auth.admin.createUser({
+      email: `multi-currency-${Date.now()}@example.com`,
+      password: `Pw-${Date.now()}-multi-currency`,
+      email_confirm: true
+    });
+    expect(error).toBeNull();
+    userId = data.user!.id;
+
+    // An old rate so every date in the tests has one; newer provider rates take precedence
+    const { error: rateError } = await client.from('exchange_rates').upsert({
+      base_currency: 'EUR', quote_currency: 'USD', rate: 1.1, rate_date: '2000-01-01', source: 'test'
+    }, { onConflict: 'base_currency,quote_currency,rate_date', ignoreDuplicates: true });
+    expect(rateError).toBeNull();
+  });
+
+  afterAll(async () => {
+    if (userId) {
+      await client.auth.admin.deleteUser(userId);
+    }
+  });
+
+  it('should reject a scheduled transaction that is not in its envelope currency', async () => {
+    const budget = await createBudget(0);
+    const envelope = await createEnvelope(budget.id);
+
+    const { error } = await client.from('scheduled_transactions').insert({
+      budget_id: budget.id,
+      name: 'Top up',
+      transaction_type: 'allocation',
+      amount: 50,
+      to_envelope_id: envelope.id,
+      schedule_type: 'monthly',
+      schedule_config: { day_of_month: 1 }
+    });
+
+    expect(error?.code).toBe('23514');
+  });
+
+  it('should keep savings envelopes in the budget currency', async () => {
+    const budget = await createBudget(0);
+
+    const { error } = await client.from('envelopes')
+      .insert({ budget_id: budget.id, name: 'Rainy day', currency: 'EUR', envelope_type: 'savings' });
+
+    expect(error?.code).toBe('23514');
+  });
+
+  it('should reject an allocation plan step for an envelope in another currency', async () => {
+    const budget = await createBudget(1000);
+    const envelope = await createEnvelope(budget.id, { target_amount: 100 });
+    const plan = await single(client.from('allocation_plans').insert({ budget_id: budget.id, name: 'Trip' }).select().single());
+
+    const { error } = await client.from('allocation_plan_steps').insert({
+      plan_id: plan.id, envelope_id: envelope.id, step_type: 'fill_to_target', step_order: 1
+    });
+
+    expect(error?.code).toBe('23514');
+  });
+
+  it('should reject carrying balances in another currency into a cloned budget', async () => {
+    const budget = await createBudget(500);
+    const envelope = await createEnvelope(budget.id);
+    await allocate(budget.id, envelope.id, 100);
+
+    const { error } = await client.rpc('clone_budget', { p_budget_id: budget.id, p_name: 'Copy', p_mode: 'balances' });
+
+    expect(error?.code).toBe('23514');
+  });
+
+  it('should return a reset envelope balance to available in the budget currency at close', async () => {
+    const budget = await createBudget(500);
+    const envelope = await createEnvelope(budget.id);
+    await allocate(budget.id, envelope.id, 80, lastMonthStart);
+    await single(client.from('budget_rollover_rules').insert({
+      budget_id: budget.id, envelope_type: 'regular', rollover_rule: 'reset'
+    }).select().single());
+    const before = await getRow('budgets', budget.id);
+
+    await single(client.rpc('close_budget_period', { p_budget_id: budget.id, p_period_start: lastMonthStart }));
+    const envelopeAfter = await getRow('envelopes', envelope.id);
+    const after = await getRow('budgets', budget.id);
+
+    expect(Number(envelopeAfter.current_balance)).toBe(0);
+    const lastMonthEnd = isoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0)));
+    expect(Number(after.available_amount)).toBeCloseTo(
+      Number(before.available_amount) + await toBudgetCurrency(80, lastMonthEnd),
+      2
+    );
+  });
+
+  it('should total category balances in the budget currency', async () => {
+    const budget = await createBudget(500);
+    const category = await single(client.from('categories').insert({ budget_id: budget.id, name: 'Travel' }).select().single());
+    const envelope = await createEnvelope(budget.id, { category_id: category.id });
+    await allocate(budget.id, envelope.id, 200);
+
+    const after = await getRow('categories', category.id);
+
+    expect(Number(after.total)).toBeCloseTo(await toBudgetCurrency(200), 2);
+  });
+
+  it('should forecast with envelope balances in the budget currency', async () => {
+    const budget = await createBudget(500);
+    const envelope = await createEnvelope(budget.id);
+    await allocate(budget.id, envelope.id, 200);
+
+    const forecast = await single(client.rpc('get_cash_flow_forecast', { p_budget_id: budget.id, p_forecast_months: 1 }));
+
+    expect(Number(forecast.current_position.total_envelope_balance)).toBeCloseTo(await toBudgetCurrency(200), 2);
+  });
+
+  it('should split a transaction in another currency once it is moved back to the budget currency', async () => {
+    const budget = await createBudget(0);
+    const [groceries, household] = await Promise.all([
+      createEnvelope(budget.id, { name: 'Groceries', currency: null }),
+      createEnvelope(budget.id, { name: 'Household', currency: null })
+    ]);
+    const payee = await single(client.from('payees').insert({ budget_id: budget.id, name: 'Market' }).select().single());
+    const expense = await single(client.from('transactions').insert({
+      budget_id: budget.id,
+      transaction_type: 'expense',
+      payee_id: payee.id,
+      amount: 50,
+      currency: 'EUR',
+      transaction_date: isoDate(today),
+      from_envelope_id: groceries.id
+    }).select().single());
+
+    const split = await single(client.rpc('replace_transaction_splits', {
+      p_transaction_id: expense.id,
+      p_splits: [
+        { envelope_id: groceries.id, amount: 30 },
+        { envelope_id: household.id, amount: 25 }
+      ],
+      p_fields: { currency: null, payee_id: payee.id }
+    }));
+
+    expect(split.currency).toBeNull();
+    expect(split.is_split).toBe(true);
+    expect(Number(split.amount)).toBe(55);
+  });
+});
\ No newline at end of file
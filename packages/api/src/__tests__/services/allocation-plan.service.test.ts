@@ -0,0 +1,134 @@
+import { AllocationPlanService } from '../../services/allocation-plan.service';
+import { AllocationStepType, ErrorCode } from '@nvlp/types';
+
+describe('AllocationPlanService', () => {
+  let service: AllocationPlanService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const planId = 'plan-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+  const plan = {
+    id: planId,
+    budget_id: budgetId,
+    name: 'Paycheck',
+    is_active: true,
+    steps: [
+      { id: 'step-2', step_type: 'remainder', envelope_id: 'env-2', step_order: 1 },
+      { id: 'step-1', step_type: 'fixed', envelope_id: 'env-1', amount: 500, step_order: 0 }
+    ]
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      in: jest.fn(),
+      single: jest.fn(),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new AllocationPlanService(mockClient);
+  });
+
+  describe('createPlan', () => {
+    it('should require the remainder step to be last', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.createPlan(budgetId, {
+        name: 'Paycheck',
+        steps: [
+          { envelope_id: 'env-1', step_type: AllocationStepType.REMAINDER },
+          { envelope_id: 'env-2', step_type: AllocationStepType.FIXED, amount: 100 }
+        ]
+      })).rejects.toThrow('The remainder step must be the last step');
+      expect(mockClient.insert).not.toHaveBeenCalled();
+    });
+
+    it('should reject percentages adding up to more than 100', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.createPlan(budgetId, {
+        name: 'Paycheck',
+        steps: [
+          { envelope_id: 'env-1', step_type: AllocationStepType.PERCENTAGE, percentage: 60 },
+          { envelope_id: 'env-2', step_type: AllocationStepType.PERCENTAGE, percentage: 50 }
+        ]
+      })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should insert the plan and save its steps in order', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: { id: planId, budget_id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: plan, error: null })
+        .mockResolvedValueOnce(budgetAccess);
+      mockClient.in.mockResolvedValueOnce({ data: [{ id: 'env-1' }, { id: 'env-2' }], error: null });
+      mockClient.rpc.mockResolvedValueOnce({ data: [], error: null });
+
+      const result = await service.createPlan(budgetId, {
+        name: ' Paycheck ',
+        steps: [
+          { envelope_id: 'env-1', step_type: AllocationStepType.FIXED, amount: 500, percentage: 10 },
+          { envelope_id: 'env-2', step_type: AllocationStepType.REMAINDER }
+        ]
+      });
+
+      expect(mockClient.insert).toHaveBeenCalledWith({ budget_id: budgetId, name: 'Paycheck' });
+      expect(mockClient.rpc).toHaveBeenCalledWith('replace_allocation_plan_steps', {
+        p_plan_id: planId,
+        p_steps: [
+          { envelope_id: 'env-1', step_type: 'fixed', amount: 500, percentage: null },
+          { envelope_id: 'env-2', step_type: 'remainder', amount: null, percentage: null }
+        ]
+      });
+      expect(result.steps!.map(step => step.id)).toEqual(['step-1', 'step-2']);
+    });
+  });
+
+  describe('runPlan', () => {
+    beforeEach(() => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: plan, error: null })
+        .mockResolvedValueOnce(budgetAccess);
+    });
+
+    it('should run the plan against the income transaction', async () => {
+      const runResult = { plan_id: planId, total_allocated: 1200, shortfall: 0, allocations: [] };
+      mockClient.rpc.mockResolvedValueOnce({ data: runResult, error: null });
+
+      const result = await service.runPlan(planId, { income_transaction_id: 'tx-income' });
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('run_allocation_plan', {
+        p_plan_id: planId,
+        p_amount: null,
+        p_income_transaction_id: 'tx-income',
+        p_preview: false
+      });
+      expect(result).toEqual(runResult);
+    });
+
+    it('should surface a shortfall as a validation error', async () => {
+      mockClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: '23514',
+          message: 'Not enough available to cover the allocation plan: it needs 1500.00 but only 1200.00 is available'
+        }
+      });
+
+      await expect(service.runPlan(planId, { amount: 1200 })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Not enough available to cover the allocation plan: it needs 1500.00 but only 1200.00 is available'
+      });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { AttachmentService } from '../../services/attachment.service';
+import { FileSystemAttachmentStorage } from '../../utils/attachment-storage';
+import { ApiError } from '@nvlp/types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('AttachmentService', () => {
+  let service: AttachmentService;
+  let storage: FileSystemAttachmentStorage;
+  let rootDir: string;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const transactionId = 'tx-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+  const transaction = { data: { id: transactionId, budget_id: budgetId, is_deleted: false }, error: null };
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nvlp-attachments-'));
+    storage = new FileSystemAttachmentStorage(rootDir);
+
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      delete: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      single: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new AttachmentService(mockClient, storage);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('createUpload', () => {
+    it('should reserve the attachment under the budget and transaction folders', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(transaction)
+        .mockResolvedValueOnce(budgetAccess)
+        .mockImplementationOnce(async () => ({
+          data: { id: 'att-1', ...mockClient.insert.mock.calls[0][0], is_uploaded: false },
+          error: null
+        }));
+
+      const upload = await service.createUpload(transactionId, {
+        file_name: 'Costco receipt?.jpg',
+        content_type: 'image/jpeg',
+        size_bytes: 48213
+      });
+
+      const inserted = mockClient.insert.mock.calls[0][0];
+      expect(inserted.storage_path).toMatch(new RegExp(`^${budgetId}/${transactionId}/[0-9a-f-]{36}/Costco receipt_\\.jpg$`));
+      expect(inserted.file_name).toBe('Costco receipt?.jpg');
+      expect(inserted.uploaded_by).toBe('test-user-id');
+      expect(upload.upload_url).toBe(`file://${rootDir}/${inserted.storage_path}`);
+      expect(upload.attachment.is_uploaded).toBe(false);
+    });
+
+    it('should reject unsupported content types before touching the database', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(transaction)
+        .mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.createUpload(transactionId, {
+        file_name: 'statement.docx',
+        content_type: 'application/msword' as any,
+        size_bytes: 1024
+      })).rejects.toThrow(ApiError);
+      expect(mockClient.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upload lifecycle', () => {
+    const attachment = {
+      id: 'att-1',
+      transaction_id: transactionId,
+      budget_id: budgetId,
+      file_name: 'receipt.pdf',
+      content_type: 'application/pdf',
+      size_bytes: 5,
+      storage_path: `${budgetId}/${transactionId}/key-1/receipt.pdf`,
+      is_uploaded: false,
+      is_deleted: false
+    };
+
+    it('should not complete an upload until the file exists in storage', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: attachment, error: null })
+        .mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.completeUpload('att-1')).rejects.toThrow('File has not been uploaded yet');
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark the attachment uploaded and hand out a download url', async () => {
+      await storage.put(attachment.storage_path, '%PDF-');
+      const uploaded = { ...attachment, is_uploaded: true };
+      mockClient.single
+        .mockResolvedValueOnce({ data: attachment, error: null })
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: uploaded, error: null })
+        .mockResolvedValueOnce({ data: uploaded, error: null })
+        .mockResolvedValueOnce(budgetAccess);
+
+      await service.completeUpload('att-1');
+      const download = await service.getDownloadUrl('att-1', 60);
+
+      expect(mockClient.update).toHaveBeenCalledWith(expect.objectContaining({ is_uploaded: true }));
+      expect(download.url).toBe(`file://${rootDir}/${attachment.storage_path}?expires_in=60`);
+    });
+
+    it('should remove the file when the attachment is deleted', async () => {
+      await storage.put(attachment.storage_path, '%PDF-');
+      mockClient.single
+        .mockResolvedValueOnce({ data: { ...attachment, is_uploaded: true }, error: null })
+        .mockResolvedValueOnce(budgetAccess);
+      mockClient.eq
+        .mockReturnValueOnce(mockClient)
+        .mockReturnValueOnce(mockClient)
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce({ error: null });
+
+      await service.deleteAttachment('att-1');
+
+      expect(await storage.exists(attachment.storage_path)).toBe(false);
+      expect(mockClient.delete).toHaveBeenCalled();
+    });
+  });
+
+  describe('FileSystemAttachmentStorage', () => {
+    it('should refuse paths that escape the storage root', async () => {
+      await expect(storage.put('../outside.txt', 'x')).rejects.toThrow('Invalid attachment path');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { BillService } from '../../services/bill.service';
+import { BillStatus, ErrorCode } from '@nvlp/types';
+
+describe('BillService', () => {
+  let service: BillService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+
+  const billRow = (overrides: any) => ({
+    payee_id: 'payee-1',
+    payee_name: 'Electric Co',
+    payee_type: 'regular',
+    due_date: '2026-10-15',
+    window_start: '2026-09-30',
+    window_end: '2026-10-30',
+    amount_due: null,
+    amount_paid: 0,
+    payment_count: 0,
+    last_payment_date: null,
+    status: 'unpaid',
+    days_until_due: 0,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      single: jest.fn().mockResolvedValue(budgetAccess),
+      rpc: jest.fn().mockResolvedValue({ data: [], error: null }),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new BillService(mockClient);
+  });
+
+  describe('getBills', () => {
+    it('should list bills due in the range with amounts as numbers', async () => {
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [
+          billRow({
+            payee_id: 'payee-card',
+            payee_name: 'Visa',
+            payee_type: 'debt',
+            due_date: '2026-10-03',
+            amount_due: '35.00',
+            amount_paid: '35.00',
+            payment_count: 1,
+            last_payment_date: '2026-09-29',
+            status: 'paid',
+            days_until_due: -12
+          }),
+          billRow({ days_until_due: 0 })
+        ],
+        error: null
+      });
+
+      const bills = await service.getBills(budgetId, { from: '2026-10-01', to: '2026-10-31', as_of: '2026-10-15' });
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_bills', {
+        p_budget_id: budgetId,
+        p_from: '2026-10-01',
+        p_to: '2026-10-31',
+        p_as_of: '2026-10-15'
+      });
+      expect(bills[0]).toMatchObject({
+        payee_name: 'Visa',
+        amount_due: 35,
+        amount_paid: 35,
+        last_payment_date: '2026-09-29',
+        status: BillStatus.PAID
+      });
+      expect(bills[1].amount_due).toBeUndefined();
+      expect(bills[1].last_payment_date).toBeUndefined();
+    });
+
+    it('should default to the current month', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-02-10T12:00:00Z'));
+
+      try {
+        await service.getBills(budgetId);
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_bills', {
+        p_budget_id: budgetId,
+        p_from: '2024-02-01',
+        p_to: '2024-02-29',
+        p_as_of: '2024-02-10'
+      });
+    });
+
+    it('should filter by status', async () => {
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [billRow({ status: 'overdue' }), billRow({ payee_id: 'payee-2', status: 'paid' })],
+        error: null
+      });
+
+      const bills = await service.getBills(budgetId, { status: BillStatus.OVERDUE });
+
+      expect(bills.map(bill => bill.payee_id)).toEqual(['payee-1']);
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(service.getBills(budgetId, { from: '2026-10-31', to: '2026-10-01' })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'from must not be after to'
+      });
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should reject dates in other formats', async () => {
+      await expect(service.getBills(budgetId, { as_of: '10/15/2026' })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'as_of must be in YYYY-MM-DD format'
+      });
+    });
+  });
+
+  describe('getReminders', () => {
+    it('should look back two months for overdue bills and ahead for unpaid ones', async () => {
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [
+          billRow({ payee_id: 'payee-late', due_date: '2026-10-01', status: 'overdue', days_until_due: -14 }),
+          billRow({ payee_id: 'payee-paid', due_date: '2026-10-14', status: 'paid', days_until_due: -1 }),
+          billRow({ payee_id: 'payee-partial', due_date: '2026-10-16', status: 'partial', days_until_due: 1 }),
+          billRow({ payee_id: 'payee-soon', due_date: '2026-10-18', status: 'unpaid', days_until_due: 3 })
+        ],
+        error: null
+      });
+
+      const reminders = await service.getReminders(budgetId, 3, '2026-10-15');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_bills', {
+        p_budget_id: budgetId,
+        p_from: '2026-08-14',
+        p_to: '2026-10-18',
+        p_as_of: '2026-10-15'
+      });
+      expect(reminders.as_of).toBe('2026-10-15');
+      expect(reminders.overdue.map(bill => bill.payee_id)).toEqual(['payee-late']);
+      expect(reminders.upcoming.map(bill => bill.payee_id)).toEqual(['payee-partial', 'payee-soon']);
+    });
+
+    it('should reject a negative reminder window', async () => {
+      await expect(service.getReminders(budgetId, -1)).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR
+      });
+    });
+  });
+});
\ No newline at end of file
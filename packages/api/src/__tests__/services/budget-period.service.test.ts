@@ -0,0 +1,110 @@
+import { BudgetPeriodService } from '../../services/budget-period.service';
+import { EnvelopeType, ErrorCode, RolloverRule } from '@nvlp/types';
+
+describe('BudgetPeriodService', () => {
+  let service: BudgetPeriodService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+
+  const envelopeRow = (overrides: any) => ({
+    period_start: '2026-09-01',
+    period_end: '2026-09-30',
+    envelope_type: 'regular',
+    opening_balance: 0,
+    rollover_rule: 'carry_over',
+    rollover_adjustment: 0,
+    is_closed: false,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      single: jest.fn().mockResolvedValue(budgetAccess),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new BudgetPeriodService(mockClient);
+  });
+
+  it('should default envelope types without a rule to carry over', async () => {
+    mockClient.eq
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockResolvedValueOnce({ data: [{ envelope_type: 'savings', rollover_rule: 'reset' }], error: null });
+
+    const rules = await service.getRolloverRules(budgetId);
+
+    expect(rules).toEqual([
+      { budget_id: budgetId, envelope_type: EnvelopeType.REGULAR, rollover_rule: RolloverRule.CARRY_OVER },
+      { budget_id: budgetId, envelope_type: EnvelopeType.DEBT, rollover_rule: RolloverRule.CARRY_OVER },
+      { budget_id: budgetId, envelope_type: EnvelopeType.SAVINGS, rollover_rule: RolloverRule.RESET }
+    ]);
+  });
+
+  it('should total a month across envelopes', async () => {
+    mockClient.rpc.mockResolvedValueOnce({
+      data: [
+        envelopeRow({ envelope_id: 'env-1', assigned: 300.1, spent: 120.2, available: 179.9 }),
+        envelopeRow({ envelope_id: 'env-2', assigned: 50, spent: 75.25, available: -25.25 })
+      ],
+      error: null
+    });
+
+    const period = await service.getPeriod(budgetId, '2026-09');
+
+    expect(mockClient.rpc).toHaveBeenCalledWith('get_envelope_period_summary', {
+      p_budget_id: budgetId,
+      p_period_start: '2026-09-01'
+    });
+    expect(period).toMatchObject({
+      period_start: '2026-09-01',
+      period_end: '2026-09-30',
+      is_closed: false,
+      assigned: 350.1,
+      spent: 195.45,
+      available: 154.65
+    });
+  });
+
+  it('should group history rows by month', async () => {
+    mockClient.rpc.mockResolvedValueOnce({
+      data: [
+        envelopeRow({ period_start: '2026-08-01', period_end: '2026-08-31', envelope_id: 'env-1', assigned: 100, spent: 80, available: 20, is_closed: true }),
+        envelopeRow({ envelope_id: 'env-1', assigned: 100, spent: 90, available: 30 })
+      ],
+      error: null
+    });
+
+    const history = await service.getPeriodHistory(budgetId, '2026-08', '2026-09');
+
+    expect(history.map(period => [period.period_start, period.is_closed, period.spent])).toEqual([
+      ['2026-08-01', true, 80],
+      ['2026-09-01', false, 90]
+    ]);
+  });
+
+  it('should not close a month that has not ended', async () => {
+    const currentMonth = new Date().toISOString().slice(0, 7);
+
+    await expect(service.closePeriod(budgetId, currentMonth)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: 'Only months that have ended can be closed'
+    });
+    expect(mockClient.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject months in the wrong format', async () => {
+    await expect(service.getPeriod(budgetId, '2026-9')).rejects.toThrow('Month must be in YYYY-MM format');
+  });
+});
\ No newline at end of file
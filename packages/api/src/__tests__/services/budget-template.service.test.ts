@@ -0,0 +1,155 @@
+import { BudgetTemplateService } from '../../services/budget-template.service';
+import { BudgetTemplateContent, EnvelopeType, ErrorCode, TemplateConflictMode } from '@nvlp/types';
+
+describe('BudgetTemplateService', () => {
+  let service: BudgetTemplateService;
+  let mockClient: any;
+  let results: Record<string, any[]>;
+  let inserts: Record<string, any[]>;
+
+  const budgetId = 'budget-123';
+
+  const content: BudgetTemplateContent = {
+    format_version: 1,
+    categories: [
+      { key: 'category-2', parent_key: 'category-1', name: 'Utilities', is_income: false, display_order: 0 },
+      { key: 'category-1', name: 'Bills', is_income: false, display_order: 0 }
+    ],
+    envelopes: [
+      { name: 'Rent', category_key: 'category-1', envelope_type: EnvelopeType.REGULAR, target_amount: 1500, display_order: 1, notify_on_low_balance: false },
+      { name: 'Power', category_key: 'category-2', envelope_type: EnvelopeType.REGULAR, target_amount: 120, display_order: 0, notify_on_low_balance: true }
+    ],
+    income_sources: [
+      { name: 'Paycheck', expected_amount: 2000, schedule_type: 'biweekly', schedule_config: { day_of_week: 5, start_date: '2026-01-02' } }
+    ]
+  };
+
+  // Each table answers its queries in order, whether the query ends on single()
+  // or is awaited directly
+  const queryFor = (table: string) => {
+    const query: any = {};
+    ['select', 'eq', 'order'].forEach(method => {
+      query[method] = jest.fn(() => query);
+    });
+    query.insert = jest.fn((rows: any[]) => {
+      (inserts[table] = inserts[table] || []).push(rows);
+      return query;
+    });
+    query.single = jest.fn(() => Promise.resolve(results[table].shift()));
+    query.then = (resolve: any, reject: any) => Promise.resolve(results[table].shift()).then(resolve, reject);
+    return query;
+  };
+
+  beforeEach(() => {
+    inserts = {};
+    results = {
+      budget_templates: [{ data: { id: 'template-1', user_id: 'other-user', version: 3, template: content }, error: null }],
+      budgets: [{ data: { id: budgetId }, error: null }]
+    };
+
+    mockClient = {
+      from: jest.fn((table: string) => queryFor(table)),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new BudgetTemplateService(mockClient);
+  });
+
+  const applyResult = {
+    budget_id: budgetId,
+    categories_created: 1,
+    envelopes_created: 1,
+    income_sources_created: 1,
+    skipped: [
+      { item_type: 'category', name: 'Bills' },
+      { item_type: 'envelope', name: 'Rent' }
+    ],
+    renamed: []
+  };
+
+  it('should apply the template in a single apply_budget_template call', async () => {
+    mockClient.rpc.mockResolvedValueOnce({ data: applyResult, error: null });
+
+    const result = await service.applyTemplate('template-1', budgetId);
+
+    expect(mockClient.rpc).toHaveBeenCalledTimes(1);
+    expect(mockClient.rpc).toHaveBeenCalledWith('apply_budget_template', {
+      p_budget_id: budgetId,
+      p_template: content,
+      p_conflict_mode: TemplateConflictMode.SKIP
+    });
+    expect(inserts).toEqual({});
+    expect(result).toEqual(applyResult);
+  });
+
+  it('should pass the conflict mode through when renaming', async () => {
+    const renamed = [
+      { item_type: 'category', template_name: 'Bills', created_name: 'Bills (2)' },
+      { item_type: 'envelope', template_name: 'Rent', created_name: 'Rent (2)' }
+    ];
+    mockClient.rpc.mockResolvedValueOnce({ data: { ...applyResult, skipped: [], renamed }, error: null });
+
+    const result = await service.applyTemplate('template-1', budgetId, { conflict_mode: TemplateConflictMode.RENAME });
+
+    expect(mockClient.rpc.mock.calls[0][1].p_conflict_mode).toBe(TemplateConflictMode.RENAME);
+    expect(result.renamed).toEqual(renamed);
+  });
+
+  it('should list the conflicts when failing', async () => {
+    const conflicts = [
+      { item_type: 'category', name: 'Bills' },
+      { item_type: 'envelope', name: 'Rent' }
+    ];
+    mockClient.rpc.mockResolvedValueOnce({
+      data: { ...applyResult, categories_created: 0, envelopes_created: 0, income_sources_created: 0, skipped: [], conflicts },
+      error: null
+    });
+
+    await expect(service.applyTemplate('template-1', budgetId, { conflict_mode: TemplateConflictMode.FAIL }))
+      .rejects.toMatchObject({
+        code: ErrorCode.CONFLICT,
+        message: 'Template conflicts with existing items: Category "Bills", Envelope "Rent"',
+        details: { conflicts }
+      });
+  });
+
+  it('should create the budget and its layout in one create_budget_from_template call', async () => {
+    mockClient.rpc.mockResolvedValueOnce({ data: { ...applyResult, budget_id: 'budget-new' }, error: null });
+
+    const result = await service.createBudgetFromTemplate('template-1', { name: 'Household 2027', currency: 'EUR' });
+
+    expect(mockClient.rpc).toHaveBeenCalledTimes(1);
+    expect(mockClient.rpc).toHaveBeenCalledWith('create_budget_from_template', {
+      p_template: content,
+      p_name: 'Household 2027',
+      p_description: null,
+      p_currency: 'EUR',
+      p_is_active: true
+    });
+    expect(mockClient.from).not.toHaveBeenCalledWith('budgets');
+    expect(result.budget_id).toBe('budget-new');
+  });
+
+  it('should reject template files from a newer format', async () => {
+    const file = JSON.stringify({
+      format: 'nvlp-budget-template',
+      name: 'Starter',
+      version: 2,
+      exported_at: '2026-10-01T00:00:00Z',
+      template: { ...content, format_version: 2 }
+    });
+
+    await expect(service.importTemplate(file)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: 'Template format version 2 is newer than this app supports'
+    });
+    await expect(service.importTemplate('not json')).rejects.toThrow('Template file is not valid JSON');
+    expect(mockClient.from).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
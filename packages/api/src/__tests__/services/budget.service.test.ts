@@ -0,0 +1,87 @@
+import { BudgetService } from '../../services/budget.service';
+import { BudgetCloneMode, ErrorCode } from '@nvlp/types';
+
+describe('BudgetService', () => {
+  let service: BudgetService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const budgetAccess = { data: { id: budgetId, name: '2026' }, error: null };
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      single: jest.fn(),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new BudgetService(mockClient);
+  });
+
+  describe('cloneBudget', () => {
+    it('should copy the structure only by default', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({ data: { id: 'budget-456', name: '2027' }, error: null });
+
+      const budget = await service.cloneBudget(budgetId, { name: ' 2027 ' });
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('clone_budget', {
+        p_budget_id: budgetId,
+        p_name: '2027',
+        p_mode: BudgetCloneMode.STRUCTURE
+      });
+      expect(budget).toEqual({ id: 'budget-456', name: '2027' });
+    });
+
+    it('should pass the opening balance date when carrying balances over', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({ data: { id: 'budget-456' }, error: null });
+
+      await service.cloneBudget(budgetId, {
+        name: '2027',
+        mode: BudgetCloneMode.BALANCES,
+        as_of_date: '2026-12-31'
+      });
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('clone_budget', {
+        p_budget_id: budgetId,
+        p_name: '2027',
+        p_mode: 'balances',
+        p_as_of: '2026-12-31'
+      });
+    });
+
+    it('should surface the reason a clone was refused', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          code: '23514',
+          message: 'Budget has a negative available amount; cover it before carrying balances over'
+        }
+      });
+
+      await expect(service.cloneBudget(budgetId, { name: '2027', mode: BudgetCloneMode.BALANCES }))
+        .rejects.toMatchObject({
+          code: ErrorCode.VALIDATION_ERROR,
+          message: 'Budget has a negative available amount; cover it before carrying balances over'
+        });
+    });
+
+    it('should reject unknown modes before copying anything', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.cloneBudget(budgetId, { name: '2027', mode: 'everything' as BudgetCloneMode }))
+        .rejects.toThrow('Clone mode must be structure, balances or full');
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
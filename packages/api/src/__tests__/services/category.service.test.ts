@@ -0,0 +1,164 @@
+import { CategoryService } from '../../services/category.service';
+import { ErrorCode } from '@nvlp/types';
+
+describe('CategoryService', () => {
+  let service: CategoryService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+
+  const category = (id: string, name: string, parentId: string | null, displayOrder: number) => ({
+    id,
+    budget_id: budgetId,
+    parent_id: parentId,
+    name,
+    is_income: false,
+    is_system: false,
+    display_order: displayOrder,
+    total: 0
+  });
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      order: jest.fn(),
+      single: jest.fn(),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new CategoryService(mockClient);
+  });
+
+  it('should nest categories and roll totals up through every level', async () => {
+    mockClient.single.mockResolvedValueOnce(budgetAccess);
+    mockClient.order.mockResolvedValueOnce({
+      data: [
+        category('cat-savings', 'Savings', null, 1),
+        category('cat-power', 'Power', 'cat-utilities', 0),
+        category('cat-bills', 'Bills', null, 0),
+        category('cat-utilities', 'Utilities', 'cat-bills', 0)
+      ],
+      error: null
+    });
+    // Budget access (2) and the categories query, then the envelopes query ends on its eq
+    mockClient.eq
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockResolvedValueOnce({
+        data: [
+          { id: 'env-power', category_id: 'cat-power', current_balance: '100.10', target_amount: '150.00', envelope_type: 'regular', is_active: true },
+          { id: 'env-phone', category_id: 'cat-utilities', current_balance: '20.20', target_amount: '500.00', envelope_type: 'debt', is_active: true },
+          { id: 'env-old', category_id: 'cat-savings', current_balance: '0.00', target_amount: '900.00', envelope_type: 'savings', is_active: false },
+          { id: 'env-misc', category_id: null, current_balance: '5.00', target_amount: null, envelope_type: 'regular', is_active: true }
+        ],
+        error: null
+      });
+    mockClient.rpc.mockResolvedValueOnce({
+      data: [
+        { envelope_id: 'env-power', assigned: '60.00', spent: '45.50' },
+        { envelope_id: 'env-old', assigned: '0.00', spent: '10.00' }
+      ],
+      error: null
+    });
+
+    const tree = await service.getCategoryTree(budgetId, '2026-02');
+
+    expect(mockClient.rpc).toHaveBeenCalledWith('get_envelope_activity', {
+      p_budget_id: budgetId,
+      p_from: '2026-02-01',
+      p_to: '2026-02-28'
+    });
+    expect(tree.categories.map(node => node.name)).toEqual(['Bills', 'Savings']);
+
+    const [bills, savings] = tree.categories;
+    const power = bills.children[0].children[0];
+    expect(power).toMatchObject({ id: 'cat-power', depth: 2, children: [] });
+    expect(bills.own_totals).toEqual({ envelope_count: 0, balance: 0, target_amount: 0, assigned: 0, spent: 0 });
+    expect(bills.children[0].own_totals).toEqual({ envelope_count: 1, balance: 20.2, target_amount: 0, assigned: 0, spent: 0 });
+    expect(bills.totals).toEqual({ envelope_count: 2, balance: 120.3, target_amount: 150, assigned: 60, spent: 45.5 });
+    expect(savings.totals).toEqual({ envelope_count: 0, balance: 0, target_amount: 0, assigned: 0, spent: 10 });
+    expect(tree.uncategorized).toEqual({ envelope_count: 1, balance: 5, target_amount: 0, assigned: 0, spent: 0 });
+    expect(tree.totals).toEqual({ envelope_count: 3, balance: 125.3, target_amount: 150, assigned: 60, spent: 55.5 });
+  });
+
+  it('should not move a category under one of its subcategories', async () => {
+    mockClient.single
+      .mockResolvedValueOnce({ data: category('cat-bills', 'Bills', null, 0), error: null })
+      .mockResolvedValueOnce(budgetAccess);
+    // Category lookup (1) and budget access (2), then the parent check ends on its eq
+    mockClient.eq
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockResolvedValueOnce({
+        data: [
+          { id: 'cat-bills', parent_id: null },
+          { id: 'cat-utilities', parent_id: 'cat-bills' },
+          { id: 'cat-power', parent_id: 'cat-utilities' }
+        ],
+        error: null
+      });
+
+    await expect(service.updateCategory('cat-bills', { parent_id: 'cat-power' }))
+      .rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'A category cannot be moved under itself or one of its subcategories'
+      });
+    expect(mockClient.rpc).not.toHaveBeenCalled();
+    expect(mockClient.update).not.toHaveBeenCalled();
+  });
+
+  it('should move a subtree with move_category when the parent changes', async () => {
+    const utilities = category('cat-utilities', 'Utilities', 'cat-bills', 2);
+    const moved = { ...utilities, parent_id: null, display_order: 0 };
+
+    mockClient.single
+      .mockResolvedValueOnce({ data: utilities, error: null })
+      .mockResolvedValueOnce(budgetAccess);
+    mockClient.rpc.mockResolvedValueOnce({ data: moved, error: null });
+
+    const result = await service.updateCategory('cat-utilities', { parent_id: null, display_order: 0 });
+
+    expect(result).toEqual(moved);
+    expect(mockClient.rpc).toHaveBeenCalledWith('move_category', {
+      p_category_id: 'cat-utilities',
+      p_parent_id: null,
+      p_display_order: 0,
+      p_fields: {}
+    });
+    expect(mockClient.update).not.toHaveBeenCalled();
+  });
+
+  it('should rename in the same move_category call when moving', async () => {
+    const utilities = category('cat-utilities', 'Utilities', 'cat-bills', 2);
+    const moved = { ...utilities, parent_id: null, display_order: 3, name: 'Home utilities' };
+
+    mockClient.single
+      .mockResolvedValueOnce({ data: utilities, error: null })
+      .mockResolvedValueOnce(budgetAccess);
+    mockClient.rpc.mockResolvedValueOnce({ data: moved, error: null });
+
+    const result = await service.updateCategory('cat-utilities', { parent_id: null, name: 'Home utilities' });
+
+    expect(result).toEqual(moved);
+    expect(mockClient.rpc).toHaveBeenCalledTimes(1);
+    expect(mockClient.rpc).toHaveBeenCalledWith('move_category', {
+      p_category_id: 'cat-utilities',
+      p_parent_id: null,
+      p_display_order: null,
+      p_fields: { name: 'Home utilities' }
+    });
+    expect(mockClient.update).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
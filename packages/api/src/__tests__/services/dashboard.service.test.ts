@@ -0,0 +1,181 @@
+import { DashboardService } from '../../services/dashboard.service';
+import { CacheManager } from '../../utils/cache';
+import { ErrorCode } from '@nvlp/types';
+
+describe('DashboardService', () => {
+  let service: DashboardService;
+  let mockClient: any;
+  let results: Record<string, any[]>;
+  let rates: Record<string, number | null>;
+
+  const budgetId = 'budget-123';
+
+  // Each table answers its queries in order, whether the query ends on single()
+  // or is awaited directly
+  const queryFor = (table: string) => {
+    const query: any = {};
+    ['select', 'eq', 'lt', 'in', 'gte', 'lte', 'order', 'limit'].forEach(method => {
+      query[method] = jest.fn(() => query);
+    });
+    query.single = jest.fn(() => Promise.resolve(results[table].shift()));
+    query.then = (resolve: any, reject: any) => Promise.resolve(results[table].shift()).then(resolve, reject);
+    return query;
+  };
+
+  beforeEach(() => {
+    CacheManager.getInstance().clearAll();
+
+    rates = { EUR: 1.0869, GBP: 1.27 };
+    results = {
+      budgets: [{ data: { available_amount: 250, currency: 'USD' }, error: null }],
+      envelopes: [
+        {
+          data: [
+            { id: 'env-rent', current_balance: 100.1, currency: null },
+            { id: 'env-paris', current_balance: 200, currency: 'EUR' },
+            { id: 'env-london', current_balance: 50, currency: 'GBP' }
+          ],
+          error: null
+        },
+        { data: [], error: null }
+      ],
+      transactions: [
+        { data: [], error: null },
+        { data: [], error: null },
+        { data: [], error: null },
+        { data: [], error: null }
+      ]
+    };
+
+    mockClient = {
+      from: jest.fn((table: string) => queryFor(table)),
+      rpc: jest.fn((fn: string, params: any) => {
+        if (fn === 'get_exchange_rate') {
+          return Promise.resolve({ data: rates[params.p_from], error: null });
+        }
+        return Promise.resolve({
+          data: [{
+            envelope_id: 'env-paris',
+            goal_type: 'monthly',
+            target_amount: 300,
+            current_balance: 200,
+            funded_this_period: 200,
+            required_this_period: 300,
+            funded_percentage: 66.67,
+            underfunded_amount: 100
+          }],
+          error: null
+        });
+      }),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new DashboardService(mockClient);
+  });
+
+  describe('getDashboardSummary', () => {
+    it('should convert envelopes in other currencies to the budget currency', async () => {
+      const summary = await service.getDashboardSummary(budgetId);
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_exchange_rate', expect.objectContaining({ p_from: 'EUR', p_to: 'USD' }));
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_exchange_rate', expect.objectContaining({ p_from: 'GBP', p_to: 'USD' }));
+      expect(summary.currency).toBe('USD');
+      expect(summary.total_envelope_balance).toBe(380.98);
+      expect(summary.envelope_count).toBe(3);
+      expect(summary.goal_summary).toEqual({
+        goal_count: 1,
+        underfunded_count: 1,
+        required_this_period: 326.07,
+        funded_this_period: 217.38,
+        underfunded_amount: 108.69
+      });
+    });
+
+    it('should not look up rates when every envelope uses the budget currency', async () => {
+      results.envelopes[0].data = [{ id: 'env-rent', current_balance: 100.1, currency: null }];
+
+      const summary = await service.getDashboardSummary(budgetId);
+
+      expect(mockClient.rpc).not.toHaveBeenCalledWith('get_exchange_rate', expect.anything());
+      expect(summary.total_envelope_balance).toBe(100.1);
+    });
+
+    it('should fail rather than total a currency it has no rate for', async () => {
+      rates.GBP = null;
+
+      await expect(service.getDashboardSummary(budgetId)).rejects.toMatchObject({
+        code: ErrorCode.NOT_FOUND,
+        message: expect.stringContaining('No exchange rate from GBP to USD')
+      });
+    });
+  });
+
+  describe('getCashFlowTimeline', () => {
+    const dayRow = (overrides: any) => ({
+      income: '0.00',
+      bills: '0.00',
+      scheduled: '0.00',
+      average_spending: '20.00',
+      events: [],
+      ...overrides
+    });
+
+    it('should flag the days the projected balance goes negative', async () => {
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [
+          dayRow({ day: '2026-10-19', opening_balance: '50.00', net_flow: '-20.00', projected_balance: '30.00', is_negative: false }),
+          dayRow({
+            day: '2026-10-20',
+            opening_balance: '30.00',
+            bills: '45.00',
+            net_flow: '-65.00',
+            projected_balance: '-35.00',
+            is_negative: true,
+            events: [{ type: 'bill', name: 'Electric Co', amount: '-45.00', source_id: 'payee-1' }]
+          }),
+          dayRow({
+            day: '2026-10-21',
+            opening_balance: '-35.00',
+            income: '2000.00',
+            net_flow: '1980.00',
+            projected_balance: '1945.00',
+            is_negative: false,
+            events: [{ type: 'income', name: 'Paycheck', amount: '2000.00', source_id: 'income-1' }]
+          })
+        ],
+        error: null
+      });
+
+      const timeline = await service.getCashFlowTimeline(budgetId, 3, '2026-10-19');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_cash_flow_timeline', {
+        p_budget_id: budgetId,
+        p_days: 3,
+        p_start: '2026-10-19'
+      });
+      expect(timeline).toMatchObject({
+        currency: 'USD',
+        start_date: '2026-10-19',
+        end_date: '2026-10-21',
+        starting_balance: 50,
+        lowest_balance: -35,
+        lowest_balance_date: '2026-10-20',
+        negative_days: ['2026-10-20']
+      });
+      expect(timeline.days[1]).toMatchObject({ bills: 45, projected_balance: -35, is_negative: true });
+      expect(timeline.days[2].events).toEqual([{ type: 'income', name: 'Paycheck', amount: 2000, source_id: 'income-1' }]);
+    });
+
+    it('should reject a timeline longer than a year', async () => {
+      await expect(service.getCashFlowTimeline(budgetId, 400)).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR
+      });
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
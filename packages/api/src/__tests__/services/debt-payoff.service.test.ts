@@ -0,0 +1,96 @@
+import { DebtPayoffService } from '../../services/debt-payoff.service';
+import { DebtPayoffStrategy, ErrorCode } from '@nvlp/types';
+
+describe('DebtPayoffService', () => {
+  let service: DebtPayoffService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      gt: jest.fn().mockReturnThis(),
+      in: jest.fn().mockReturnThis(),
+      order: jest.fn(),
+      single: jest.fn().mockResolvedValue({ data: { id: budgetId }, error: null }),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new DebtPayoffService(mockClient);
+  });
+
+  it('should match debt envelopes to the payee they were last paid to, then by name', async () => {
+    // Budget access (2), envelopes (3), then the payees query ends on its third eq
+    mockClient.eq
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockReturnValueOnce(mockClient)
+      .mockResolvedValueOnce({
+        data: [
+          { id: 'payee-visa', name: 'Visa', interest_rate: '22.99', minimum_payment: '35.00', due_date: 12 },
+          { id: 'payee-bank', name: 'Car Loan', interest_rate: '5.50', minimum_payment: '250.00', due_date: null },
+          { id: 'payee-old', name: 'Old Card', interest_rate: '29.99', minimum_payment: '25.00', due_date: 1 }
+        ],
+        error: null
+      });
+    mockClient.order
+      .mockResolvedValueOnce({
+        data: [
+          { id: 'env-car', name: 'Car Loan', target_amount: '8400.00' },
+          { id: 'env-card', name: 'Credit Card', target_amount: '1250.75' }
+        ],
+        error: null
+      })
+      .mockResolvedValueOnce({
+        data: [
+          { from_envelope_id: 'env-card', payee_id: 'payee-visa' },
+          { from_envelope_id: 'env-card', payee_id: 'payee-old' }
+        ],
+        error: null
+      });
+
+    const debts = await service.getDebts(budgetId);
+
+    expect(debts).toEqual([
+      {
+        envelope_id: 'env-car',
+        name: 'Car Loan',
+        payee_id: 'payee-bank',
+        balance: 8400,
+        interest_rate: 5.5,
+        minimum_payment: 250,
+        due_date: undefined
+      },
+      {
+        envelope_id: 'env-card',
+        name: 'Credit Card',
+        payee_id: 'payee-visa',
+        balance: 1250.75,
+        interest_rate: 22.99,
+        minimum_payment: 35,
+        due_date: 12
+      }
+    ]);
+  });
+
+  it('should require an order for the custom strategy', async () => {
+    await expect(service.planPayoff(budgetId, { strategy: DebtPayoffStrategy.CUSTOM }))
+      .rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'custom_order is required for the custom strategy'
+      });
+    expect(mockClient.from).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
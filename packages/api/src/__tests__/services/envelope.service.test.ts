@@ -0,0 +1,252 @@
+import { EnvelopeService } from '../../services/envelope.service';
+import { EnvelopeGoalType, EnvelopeType, ErrorCode } from '@nvlp/types';
+
+describe('EnvelopeService', () => {
+  let service: EnvelopeService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      delete: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      single: jest.fn(),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new EnvelopeService(mockClient);
+  });
+
+  describe('goals', () => {
+    it('should require a target date for target_by_date goals', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.createEnvelope(budgetId, {
+        name: 'Vacation',
+        target_amount: 1200,
+        goal_type: EnvelopeGoalType.TARGET_BY_DATE
+      })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Target date is required for target_by_date goals'
+      });
+      expect(mockClient.insert).not.toHaveBeenCalled();
+    });
+
+    it('should not allow a goal on a debt envelope', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({
+          data: { id: 'env-1', budget_id: budgetId, envelope_type: EnvelopeType.DEBT, target_amount: 5000 },
+          error: null
+        })
+        .mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.updateEnvelope('env-1', { goal_type: EnvelopeGoalType.MONTHLY }))
+        .rejects.toThrow('Debt envelopes cannot have a funding goal');
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+
+    it('should allow clearing a goal', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({
+          data: { id: 'env-1', budget_id: budgetId, envelope_type: EnvelopeType.REGULAR, goal_type: EnvelopeGoalType.MONTHLY },
+          error: null
+        })
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: { id: 'env-1' }, error: null });
+
+      await service.updateEnvelope('env-1', { goal_type: null });
+
+      expect(mockClient.update).toHaveBeenCalledWith(expect.objectContaining({ goal_type: null }));
+    });
+
+    it('should total what is still needed this month', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [
+          { envelope_id: 'env-1', goal_type: 'monthly', required_this_period: 100, funded_this_period: 40, underfunded_amount: 60 },
+          { envelope_id: 'env-2', goal_type: 'target_by_date', required_this_period: 33.33, funded_this_period: 50, underfunded_amount: 0 },
+          { envelope_id: 'env-3', goal_type: 'minimum_balance', required_this_period: 0.1, funded_this_period: 0, underfunded_amount: 0.2 }
+        ],
+        error: null
+      });
+
+      const summary = await service.getGoalSummary(budgetId, '2026-10-19');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_envelope_goal_progress', {
+        p_budget_id: budgetId,
+        p_as_of: '2026-10-19'
+      });
+      expect(summary).toEqual({
+        goal_count: 3,
+        underfunded_count: 2,
+        required_this_period: 133.43,
+        funded_this_period: 90,
+        underfunded_amount: 60.2
+      });
+    });
+  });
+
+  describe('archive and merge', () => {
+    const envelope = (overrides: any) => ({
+      data: { budget_id: budgetId, current_balance: 0, is_archived: false, ...overrides },
+      error: null
+    });
+
+    it('should merge one envelope into another', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(envelope({ id: 'env-1', current_balance: 25 }))
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce(envelope({ id: 'env-2', current_balance: 100 }))
+        .mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({ data: { id: 'env-2', current_balance: 125 }, error: null });
+
+      const merged = await service.mergeEnvelopes('env-1', 'env-2');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('merge_envelopes', {
+        p_source_id: 'env-1',
+        p_target_id: 'env-2'
+      });
+      expect(merged.current_balance).toBe(125);
+    });
+
+    it('should report reconciled transfers between the envelopes as a conflict', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(envelope({ id: 'env-1' }))
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce(envelope({ id: 'env-2' }))
+        .mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({
+        data: null,
+        error: { code: '55000', message: 'Transaction tx-1 has been reconciled; unlock it to make changes' }
+      });
+
+      await expect(service.mergeEnvelopes('env-1', 'env-2')).rejects.toMatchObject({
+        code: ErrorCode.CONFLICT
+      });
+    });
+
+    it('should send the unlock header when reconciled transfers may be removed', async () => {
+      const setHeader = jest.fn().mockResolvedValue({ data: { id: 'env-2' }, error: null });
+      mockClient.single
+        .mockResolvedValueOnce(envelope({ id: 'env-1' }))
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce(envelope({ id: 'env-2' }))
+        .mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockReturnValueOnce({ setHeader });
+
+      await service.mergeEnvelopes('env-1', 'env-2', true);
+
+      expect(setHeader).toHaveBeenCalledWith('X-Unlock-Reconciled', 'true');
+    });
+
+    it('should not merge into an archived envelope', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(envelope({ id: 'env-1' }))
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce(envelope({ id: 'env-2', is_archived: true }))
+        .mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.mergeEnvelopes('env-1', 'env-2')).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Cannot merge into an archived envelope'
+      });
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should only archive envelopes with a zero balance', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(envelope({ id: 'env-1', current_balance: 12.5 }))
+        .mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.archiveEnvelope('env-1')).rejects.toThrow(
+        'Only envelopes with a zero balance can be archived; move or merge the remaining balance first'
+      );
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should suggest archive or merge when transactions block a delete', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(envelope({ id: 'env-1' }))
+        .mockResolvedValueOnce(budgetAccess);
+      mockClient.eq
+        .mockReturnValueOnce(mockClient)
+        .mockReturnValueOnce(mockClient)
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce({ error: { code: '23503', message: 'violates foreign key constraint' } });
+
+      await expect(service.deleteEnvelope('env-1')).rejects.toMatchObject({
+        code: ErrorCode.CONFLICT,
+        message: 'Envelope has transactions; archive it or merge it into another envelope instead'
+      });
+    });
+  });
+
+  describe('savings', () => {
+    it('should only allow an APY on savings envelopes', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.createEnvelope(budgetId, {
+        name: 'Groceries',
+        envelope_type: EnvelopeType.REGULAR,
+        apy: 4.5
+      })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Only savings envelopes can earn interest'
+      });
+      expect(mockClient.insert).not.toHaveBeenCalled();
+    });
+
+    it('should group projected months by envelope', async () => {
+      const month = (overrides: any) => ({
+        envelope_id: 'env-1',
+        month_start: '2026-10-01',
+        month_end: '2026-10-31',
+        opening_balance: 1000,
+        contributions: 100,
+        interest: 4.08,
+        projected_balance: 1104.08,
+        ...overrides
+      });
+
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [
+          month({}),
+          month({
+            month_start: '2026-11-01',
+            month_end: '2026-11-30',
+            opening_balance: 1104.08,
+            interest: 4.91,
+            projected_balance: 1208.99
+          }),
+          month({ envelope_id: 'env-2', opening_balance: 50, contributions: 0, interest: 0, projected_balance: 50 })
+        ],
+        error: null
+      });
+
+      const projections = await service.getSavingsProjection(budgetId, 2);
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_savings_projection', {
+        p_budget_id: budgetId,
+        p_months: 2
+      });
+      expect(projections.map(({ months, ...totals }) => ({ ...totals, months: months.length }))).toEqual([
+        { envelope_id: 'env-1', current_balance: 1000, total_contributions: 200, total_interest: 8.99, projected_balance: 1208.99, months: 2 },
+        { envelope_id: 'env-2', current_balance: 50, total_contributions: 0, total_interest: 0, projected_balance: 50, months: 1 }
+      ]);
+      expect(projections[0].months[0]).not.toHaveProperty('envelope_id');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { ExchangeRateService } from '../../services/exchange-rate.service';
+import { FixtureExchangeRateProvider } from '../../utils/exchange-rates';
+import { ErrorCode } from '@nvlp/types';
+import { sampleExchangeRates } from '../fixtures';
+
+describe('ExchangeRateService', () => {
+  let service: ExchangeRateService;
+  let mockClient: any;
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn(),
+      upsert: jest.fn().mockReturnThis(),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new ExchangeRateService(mockClient, new FixtureExchangeRateProvider(sampleExchangeRates));
+  });
+
+  describe('refreshRates', () => {
+    it('should store the latest provider rate on or before the date for each currency', async () => {
+      mockClient.select.mockResolvedValueOnce({ data: [], error: null });
+
+      await service.refreshRates('usd', '2024-01-04');
+
+      expect(mockClient.from).toHaveBeenCalledWith('exchange_rates');
+      expect(mockClient.upsert).toHaveBeenCalledWith([
+        { base_currency: 'USD', quote_currency: 'EUR', rate: 0.92, rate_date: '2024-01-03', source: 'fixture' },
+        { base_currency: 'USD', quote_currency: 'GBP', rate: 0.79, rate_date: '2024-01-02', source: 'fixture' }
+      ], { onConflict: 'base_currency,quote_currency,rate_date' });
+    });
+
+    it('should not write anything when the provider has no rates', async () => {
+      const rates = await service.refreshRates('USD', '2023-12-31');
+
+      expect(rates).toEqual([]);
+      expect(mockClient.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('convert', () => {
+    it('should convert with the stored rate and round to the cent', async () => {
+      mockClient.rpc.mockResolvedValueOnce({ data: 1.0869, error: null });
+
+      const conversion = await service.convert(45.55, 'EUR', 'USD', '2024-01-04');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_exchange_rate', {
+        p_from: 'EUR',
+        p_to: 'USD',
+        p_date: '2024-01-04'
+      });
+      expect(conversion).toEqual({
+        amount: 45.55,
+        from_currency: 'EUR',
+        to_currency: 'USD',
+        rate: 1.0869,
+        converted_amount: 49.51,
+        rate_date: '2024-01-04'
+      });
+    });
+
+    it('should not look up a rate between a currency and itself', async () => {
+      const conversion = await service.convert(10, 'USD', 'USD', '2024-01-04');
+
+      expect(conversion.converted_amount).toBe(10);
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing rate', async () => {
+      mockClient.rpc.mockResolvedValueOnce({ data: null, error: null });
+
+      await expect(service.convert(10, 'JPY', 'USD', '2024-01-04')).rejects.toMatchObject({
+        code: ErrorCode.NOT_FOUND,
+        message: 'No exchange rate from JPY to USD on or before 2024-01-04'
+      });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,309 @@
+import { ImportService } from '../../services/import.service';
+import { ApiError, ErrorCode, ImportBatchStatus, ImportRowStatus, TransactionType } from '@nvlp/types';
+
+describe('ImportService', () => {
+  let service: ImportService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      ilike: jest.fn().mockReturnThis(),
+      gte: jest.fn().mockReturnThis(),
+      lte: jest.fn(),
+      order: jest.fn(),
+      single: jest.fn(),
+      functions: {
+        invoke: jest.fn()
+      },
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new ImportService(mockClient);
+  });
+
+  describe('createImportBatch', () => {
+    it('should suggest payees and flag rows already in the budget', async () => {
+      const budgetAccess = { data: { id: budgetId }, error: null };
+      mockClient.single
+        .mockResolvedValueOnce(budgetAccess)  // createImportBatch
+        .mockResolvedValueOnce(budgetAccess)  // getActiveRules
+        .mockResolvedValueOnce(budgetAccess)  // searchPayees('starbucks')
+        .mockResolvedValueOnce(budgetAccess)  // searchPayees('shell')
+        .mockResolvedValueOnce({ data: { id: 'batch-1' }, error: null });
+      mockClient.order
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce({ data: [], error: null })  // no rules
+        .mockResolvedValueOnce({ data: [{ id: 'payee-sbux', name: 'Starbucks' }], error: null })
+        .mockResolvedValueOnce({ data: [], error: null });
+      mockClient.lte.mockResolvedValueOnce({
+        data: [{ id: 'tx-existing', transaction_date: '2024-01-17', amount: '30.00', description: 'Shell Oil', payee_id: null }],
+        error: null
+      });
+
+      await service.createImportBatch(budgetId, {
+        format: 'csv',
+        content: 'Date,Description,Amount\n2024-01-15,POS STARBUCKS #12,-4.50\n2024-01-16,PAYROLL,2000\n2024-01-17,SHELL OIL 5744,-30',
+        csv_mapping: { date: 'Date', description: 'Description', amount: 'Amount' },
+        default_envelope_id: 'envelope-spending'
+      });
+
+      expect(mockClient.ilike).toHaveBeenCalledWith('name', '%starbucks%');
+      expect(mockClient.gte).toHaveBeenCalledWith('transaction_date', '2024-01-15');
+      expect(mockClient.lte).toHaveBeenCalledWith('transaction_date', '2024-01-17');
+
+      const { rows } = mockClient.insert.mock.calls[0][0];
+      expect(rows[0]).toMatchObject({
+        transaction_type: TransactionType.EXPENSE,
+        amount: 4.5,
+        payee_id: 'payee-sbux',
+        payee_match_score: 1,
+        from_envelope_id: 'envelope-spending',
+        status: ImportRowStatus.PENDING
+      });
+      expect(rows[1]).toMatchObject({ transaction_type: TransactionType.INCOME, amount: 2000, status: ImportRowStatus.PENDING });
+      expect(rows[1].payee_id).toBeUndefined();
+      expect(rows[2]).toMatchObject({ status: ImportRowStatus.DUPLICATE, duplicate_of: 'tx-existing' });
+    });
+
+    it('should fill rows from matching auto-apply rules', async () => {
+      const budgetAccess = { data: { id: budgetId }, error: null };
+      mockClient.single
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: { id: 'batch-1' }, error: null });
+      mockClient.order
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce({
+          data: [{
+            id: 'rule-streaming',
+            name: 'Streaming',
+            priority: 10,
+            is_active: true,
+            auto_apply: true,
+            match_description_pattern: 'netflix|hulu',
+            set_envelope_id: 'envelope-subscriptions',
+            set_payee_id: 'payee-netflix',
+            set_description: 'Netflix',
+            created_at: '2024-01-01T00:00:00Z'
+          }],
+          error: null
+        })
+        .mockResolvedValueOnce({ data: [], error: null });
+      mockClient.lte.mockResolvedValueOnce({ data: [], error: null });
+
+      await service.createImportBatch(budgetId, {
+        format: 'ofx',
+        content: '<STMTTRN><DTPOSTED>20240201<TRNAMT>-15.49<NAME>NETFLIX.COM 866-579</STMTTRN>',
+        default_envelope_id: 'envelope-spending'
+      });
+
+      const { rows } = mockClient.insert.mock.calls[0][0];
+      expect(rows[0]).toMatchObject({
+        from_envelope_id: 'envelope-subscriptions',
+        payee_id: 'payee-netflix',
+        description: 'Netflix',
+        payee_name: 'NETFLIX.COM 866-579',
+        rule_suggestion: { rule_id: 'rule-streaming', auto_apply: true }
+      });
+    });
+
+    it('should require a column mapping for CSV imports', async () => {
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+
+      await expect(service.createImportBatch(budgetId, { format: 'csv', content: 'a,b' }))
+        .rejects.toThrow('csv_mapping is required for CSV imports');
+    });
+  });
+
+  describe('commitImportBatch', () => {
+    const batch = {
+      id: 'batch-1',
+      budget_id: budgetId,
+      format: 'ofx',
+      status: ImportBatchStatus.PENDING_REVIEW,
+      rows: [
+        {
+          row_index: 0,
+          transaction_date: '2024-01-15',
+          amount: 4.5,
+          transaction_type: TransactionType.EXPENSE,
+          description: 'STARBUCKS',
+          payee_id: 'payee-sbux',
+          from_envelope_id: 'envelope-spending',
+          income_source_id: 'left-over-from-review',
+          status: ImportRowStatus.CONFIRMED
+        },
+        {
+          row_index: 1,
+          transaction_date: '2024-01-17',
+          amount: 30,
+          transaction_type: TransactionType.EXPENSE,
+          description: 'SHELL OIL',
+          status: ImportRowStatus.DUPLICATE,
+          duplicate_of: 'tx-existing'
+        }
+      ]
+    };
+
+    // getImportBatch and the budget check chain on select(); the claim ends with it
+    const mockClaim = (result: any) => {
+      mockClient.select
+        .mockReturnValueOnce(mockClient)
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce(result);
+    };
+
+    it('should post confirmed rows through the bulk transactions endpoint', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: batch, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: { ...batch, status: ImportBatchStatus.COMMITTED }, error: null });
+      mockClaim({ data: [{ ...batch, status: ImportBatchStatus.COMMITTING }], error: null });
+      mockClient.functions.invoke.mockResolvedValueOnce({
+        data: { transactions: [{ id: 'tx-new' }], created_count: 1 },
+        error: null
+      });
+
+      await service.commitImportBatch('batch-1');
+
+      expect(mockClient.functions.invoke).toHaveBeenCalledWith(`bulk-operations/budgets/${budgetId}/bulk/transactions`, {
+        body: {
+          transactions: [{
+            transaction_type: TransactionType.EXPENSE,
+            amount: 4.5,
+            transaction_date: '2024-01-15',
+            description: 'STARBUCKS',
+            from_envelope_id: 'envelope-spending',
+            payee_id: 'payee-sbux',
+            is_cleared: true
+          }]
+        }
+      });
+
+      expect(mockClient.update.mock.calls[0][0].status).toBe(ImportBatchStatus.COMMITTING);
+      expect(mockClient.eq).toHaveBeenCalledWith('status', ImportBatchStatus.PENDING_REVIEW);
+
+      const update = mockClient.update.mock.calls[1][0];
+      expect(update.status).toBe(ImportBatchStatus.COMMITTED);
+      expect(update.rows[0].transaction_id).toBe('tx-new');
+      expect(update.rows[1].transaction_id).toBeUndefined();
+    });
+
+    it('should not post anything when another commit has already claimed the batch', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: batch, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClaim({ data: [], error: null });
+
+      await expect(service.commitImportBatch('batch-1')).rejects.toMatchObject({
+        code: ErrorCode.CONFLICT,
+        message: 'Import batch is already being committed'
+      });
+      expect(mockClient.functions.invoke).not.toHaveBeenCalled();
+      expect(mockClient.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hand the batch back for review when the bulk insert fails', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: batch, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClaim({ data: [{ ...batch, status: ImportBatchStatus.COMMITTING }], error: null });
+      mockClient.functions.invoke.mockResolvedValueOnce({ data: null, error: { message: 'Validation failed' } });
+
+      await expect(service.commitImportBatch('batch-1')).rejects.toThrow('Failed to create imported transactions');
+
+      expect(mockClient.update).toHaveBeenCalledTimes(2);
+      expect(mockClient.update.mock.calls[1][0].status).toBe(ImportBatchStatus.PENDING_REVIEW);
+      expect(mockClient.eq).toHaveBeenLastCalledWith('status', ImportBatchStatus.COMMITTING);
+    });
+
+    it('should reject confirmed rows that are missing required references', async () => {
+      const incomplete = {
+        ...batch,
+        rows: [{ ...batch.rows[0], payee_id: undefined }]
+      };
+      mockClient.single
+        .mockResolvedValueOnce({ data: incomplete, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClaim({ data: [{ ...incomplete, status: ImportBatchStatus.COMMITTING }], error: null });
+
+      await expect(service.commitImportBatch('batch-1')).rejects.toThrow(ApiError);
+      expect(mockClient.functions.invoke).not.toHaveBeenCalled();
+      expect(mockClient.update.mock.calls[1][0].status).toBe(ImportBatchStatus.PENDING_REVIEW);
+    });
+  });
+
+  describe('updateImportRows', () => {
+    const batch = {
+      id: 'batch-1',
+      budget_id: budgetId,
+      format: 'csv',
+      status: ImportBatchStatus.PENDING_REVIEW,
+      rows: [{
+        row_index: 0,
+        transaction_date: '2024-01-15',
+        amount: 4.5,
+        transaction_type: TransactionType.EXPENSE,
+        description: 'STARBUCKS',
+        status: ImportRowStatus.PENDING
+      }]
+    };
+
+    it('should only change the fields a review may edit', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: batch, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: batch, error: null });
+
+      await service.updateImportRows('batch-1', [{
+        row_index: 0,
+        status: ImportRowStatus.CONFIRMED,
+        payee_id: 'payee-sbux',
+        amount: 4500,
+        transaction_id: 'tx-forged'
+      } as any]);
+
+      const [row] = mockClient.update.mock.calls[0][0].rows;
+      expect(row).toMatchObject({ status: ImportRowStatus.CONFIRMED, payee_id: 'payee-sbux', amount: 4.5 });
+      expect(row.transaction_id).toBeUndefined();
+    });
+
+    it('should reject an unknown row status', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: batch, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+
+      await expect(service.updateImportRows('batch-1', [{ row_index: 0, status: 'posted' as ImportRowStatus }]))
+        .rejects.toThrow('Invalid status for import row 0');
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelImportBatch', () => {
+    it('should refuse to cancel a batch that left review in the meantime', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: { id: 'batch-1', budget_id: budgetId, status: ImportBatchStatus.PENDING_REVIEW, rows: [] }, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: null, error: { code: 'PGRST116' } });
+
+      await expect(service.cancelImportBatch('batch-1')).rejects.toMatchObject({
+        code: ErrorCode.CONFLICT,
+        message: 'Import batch is no longer pending review'
+      });
+      expect(mockClient.eq).toHaveBeenCalledWith('status', ImportBatchStatus.PENDING_REVIEW);
+    });
+  });
+});
\ No newline at end of file
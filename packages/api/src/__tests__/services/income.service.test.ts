@@ -0,0 +1,193 @@
+import { IncomeService } from '../../services/income.service';
+import { IncomeOccurrenceStatus } from '@nvlp/types';
+
+describe('IncomeService', () => {
+  let service: IncomeService;
+  let mockClient: any;
+  let results: Record<string, any[]>;
+  let queries: Record<string, any>;
+
+  const budgetId = 'budget-123';
+
+  // Each table answers its queries in order, whether the query ends on single()
+  // or is awaited directly
+  const queryFor = (table: string) => {
+    const query: any = {};
+    ['select', 'eq', 'not', 'lt', 'gte', 'lte', 'order'].forEach(method => {
+      query[method] = jest.fn(() => query);
+    });
+    query.single = jest.fn(() => Promise.resolve(results[table].shift()));
+    query.then = (resolve: any, reject: any) => Promise.resolve(results[table].shift()).then(resolve, reject);
+    queries[table] = query;
+    return query;
+  };
+
+  const incomeSource = (overrides: any) => ({
+    id: 'income-1',
+    budget_id: budgetId,
+    name: 'Paycheck',
+    expected_amount: 2000,
+    schedule_type: 'biweekly',
+    schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    queries = {};
+    results = {
+      budgets: [{ data: { id: budgetId }, error: null }]
+    };
+
+    mockClient = {
+      from: jest.fn((table: string) => queryFor(table)),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new IncomeService(mockClient);
+  });
+
+  describe('getOverdueIncomeSources', () => {
+    it('should report a paycheck as late while a payment could still match it', async () => {
+      results.income_sources = [{ data: [incomeSource({ next_expected_date: '2026-10-09' })], error: null }];
+
+      const [source] = await service.getOverdueIncomeSources(budgetId, '2026-10-12');
+
+      expect(source.days_overdue).toBe(3);
+      expect(source.overdue_status).toBe('late');
+      expect(source.missed_dates).toEqual([]);
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should list the occurrences too old to match as missed', async () => {
+      results.income_sources = [{ data: [incomeSource({ next_expected_date: '2026-09-25' })], error: null }];
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [{ occurrence_date: '2026-09-25' }, { occurrence_date: '2026-10-09' }],
+        error: null
+      });
+
+      const [source] = await service.getOverdueIncomeSources(budgetId, '2026-10-19');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_schedule_occurrences', {
+        p_schedule_type: 'biweekly',
+        p_schedule_config: { day_of_week: 5, start_date: '2026-01-02' },
+        p_start_date: '2026-09-25',
+        p_count: 24,
+        p_until: '2026-10-11'
+      });
+      expect(source.days_overdue).toBe(24);
+      expect(source.overdue_status).toBe('missed');
+      expect(source.missed_dates).toEqual(['2026-09-25', '2026-10-09']);
+    });
+  });
+
+  describe('listIncomeOccurrences', () => {
+    it('should compare each occurrence with what was received', async () => {
+      results.income_occurrences = [{
+        data: [
+          {
+            id: 'occ-2',
+            income_source_id: 'income-1',
+            budget_id: budgetId,
+            expected_date: '2026-10-09',
+            expected_amount: '2000.00',
+            status: 'received',
+            transaction_id: 'txn-2',
+            actual_amount: '1950.25',
+            received_date: '2026-10-08',
+            created_at: '2026-10-08T00:00:00Z'
+          },
+          {
+            id: 'occ-1',
+            income_source_id: 'income-1',
+            budget_id: budgetId,
+            expected_date: '2026-09-25',
+            expected_amount: '2000.00',
+            status: 'missed',
+            transaction_id: null,
+            actual_amount: null,
+            received_date: null,
+            created_at: '2026-10-08T00:00:00Z'
+          }
+        ],
+        error: null
+      }];
+
+      const occurrences = await service.listIncomeOccurrences(budgetId, { income_source_id: 'income-1' });
+
+      expect(queries.income_occurrences.eq).toHaveBeenCalledWith('income_source_id', 'income-1');
+      expect(occurrences[0]).toMatchObject({
+        status: IncomeOccurrenceStatus.RECEIVED,
+        expected_amount: 2000,
+        actual_amount: 1950.25,
+        variance: -49.75,
+        days_late: -1
+      });
+      expect(occurrences[1]).toMatchObject({ status: IncomeOccurrenceStatus.MISSED, expected_amount: 2000 });
+      expect(occurrences[1].variance).toBeUndefined();
+      expect(occurrences[1].days_late).toBeUndefined();
+    });
+  });
+
+  describe('getIncomeCalendar', () => {
+    it('should expand every active source across the range with settled figures', async () => {
+      results.income_sources = [{
+        data: [
+          incomeSource({}),
+          incomeSource({
+            id: 'income-2',
+            name: 'Dividends',
+            expected_amount: 120,
+            schedule_type: 'quarterly',
+            schedule_config: { month_of_quarter: 1, day_of_month: -1 }
+          })
+        ],
+        error: null
+      }];
+      results.income_occurrences = [{
+        data: [{
+          id: 'occ-1',
+          income_source_id: 'income-1',
+          budget_id: budgetId,
+          expected_date: '2026-10-09',
+          expected_amount: '1900.00',
+          status: 'received',
+          transaction_id: 'txn-1',
+          actual_amount: '1950.25',
+          received_date: '2026-10-09',
+          created_at: '2026-10-09T00:00:00Z'
+        }],
+        error: null
+      }];
+
+      const calendar = await service.getIncomeCalendar(budgetId, '2026-10-01', '2026-10-31');
+
+      expect(calendar).toEqual([
+        expect.objectContaining({
+          income_source_id: 'income-1',
+          expected_date: '2026-10-09',
+          expected_amount: 1900,
+          status: 'received',
+          actual_amount: 1950.25,
+          transaction_id: 'txn-1'
+        }),
+        expect.objectContaining({ income_source_id: 'income-1', expected_date: '2026-10-23', expected_amount: 2000, status: 'expected' }),
+        expect.objectContaining({ income_source_id: 'income-2', expected_date: '2026-10-31', expected_amount: 120, status: 'expected' })
+      ]);
+    });
+
+    it('should reject a range longer than a year', async () => {
+      await expect(service.getIncomeCalendar(budgetId, '2026-01-01', '2027-01-02')).rejects.toMatchObject({
+        message: 'The calendar is limited to 366 days'
+      });
+    });
+  });
+});
\ No newline at end of file
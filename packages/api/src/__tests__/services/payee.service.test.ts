@@ -0,0 +1,128 @@
+import { PayeeService } from '../../services/payee.service';
+import { ErrorCode } from '@nvlp/types';
+
+describe('PayeeService', () => {
+  let service: PayeeService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+
+  const payee = (id: string, name: string, totalPaid: number = 0) => ({
+    id,
+    budget_id: budgetId,
+    name,
+    payee_type: 'regular',
+    total_paid: totalPaid,
+    is_active: true
+  });
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      order: jest.fn(),
+      single: jest.fn(),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new PayeeService(mockClient);
+  });
+
+  describe('mergePayees', () => {
+    it('should merge through one rpc call and keep the source name as an alias', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: payee('payee-amzn', 'AMZN Mktp'), error: null })
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: payee('payee-amazon', 'Amazon'), error: null })
+        .mockResolvedValueOnce(budgetAccess);
+      mockClient.rpc.mockResolvedValueOnce({ data: payee('payee-amazon', 'Amazon', 182.4), error: null });
+
+      const merged = await service.mergePayees('payee-amzn', 'payee-amazon');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('merge_payees', {
+        p_source_id: 'payee-amzn',
+        p_target_id: 'payee-amazon',
+        p_normalized_source_name: 'amzn mktp'
+      });
+      expect(merged.total_paid).toBe(182.4);
+    });
+
+    it('should not merge a payee into itself', async () => {
+      await expect(service.mergePayees('payee-amazon', 'payee-amazon')).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'A payee cannot be merged into itself'
+      });
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('aliases', () => {
+    it('should store the alias with its normalized form', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: payee('payee-amazon', 'Amazon'), error: null })
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: { id: 'alias-1' }, error: null });
+
+      await service.addAlias('payee-amazon', ' AMZN Mktp US* ');
+
+      expect(mockClient.insert).toHaveBeenCalledWith({
+        payee_id: 'payee-amazon',
+        budget_id: budgetId,
+        alias: 'AMZN Mktp US*',
+        normalized_alias: 'amzn mktp us'
+      });
+    });
+
+    it('should report an alias that already points at a payee', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: payee('payee-amazon', 'Amazon'), error: null })
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: null, error: { code: '23505', message: 'duplicate key' } });
+
+      await expect(service.addAlias('payee-amazon', 'Amazon.com')).rejects.toMatchObject({
+        code: ErrorCode.CONFLICT,
+        message: 'Alias "Amazon.com" already belongs to a payee'
+      });
+    });
+
+    it('should reject aliases with nothing left to match after normalizing', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: payee('payee-amazon', 'Amazon'), error: null })
+        .mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.addAlias('payee-amazon', 'POS #1234'))
+        .rejects.toThrow('Alias must contain a word to match on');
+      expect(mockClient.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suggestDuplicates', () => {
+    it('should pair similar names and list the payee with more paid first', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+      mockClient.order.mockResolvedValueOnce({
+        data: [
+          payee('payee-amazon', 'Amazon', 40),
+          payee('payee-amazon-com', 'Amazon.com', 120),
+          payee('payee-shell', 'Shell Oil', 300)
+        ],
+        error: null
+      });
+
+      const suggestions = await service.suggestDuplicates(budgetId);
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0].payee.id).toBe('payee-amazon-com');
+      expect(suggestions[0].duplicate.id).toBe('payee-amazon');
+      expect(suggestions[0].score).toBeGreaterThanOrEqual(0.75);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { RuleService } from '../../services/rule.service';
+import { ApiError } from '@nvlp/types';
+
+describe('RuleService', () => {
+  let service: RuleService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const rule = {
+    id: 'rule-groceries',
+    budget_id: budgetId,
+    name: 'Groceries',
+    priority: 10,
+    is_active: true,
+    auto_apply: true,
+    match_description_pattern: 'whole foods|trader joe',
+    match_max_amount: 300,
+    set_envelope_id: 'envelope-groceries',
+    created_at: '2024-01-01T00:00:00Z'
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      gte: jest.fn().mockReturnThis(),
+      order: jest.fn().mockReturnThis(),
+      limit: jest.fn(),
+      single: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new RuleService(mockClient);
+  });
+
+  describe('suggest', () => {
+    it('should use the highest-priority matching rule', async () => {
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClient.order
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce({
+          data: [
+            { ...rule, id: 'rule-catch-all', priority: 50, match_description_pattern: '.*', set_envelope_id: 'envelope-misc' },
+            rule,
+            { ...rule, id: 'rule-disabled', priority: 1, is_active: false }
+          ],
+          error: null
+        });
+
+      const suggestion = await service.suggest(budgetId, { amount: 84.12, description: 'WHOLE FOODS MKT #10' });
+
+      expect(suggestion).toEqual({
+        rule_id: 'rule-groceries',
+        rule_name: 'Groceries',
+        auto_apply: true,
+        from_envelope_id: 'envelope-groceries',
+        payee_id: undefined,
+        description: undefined
+      });
+    });
+  });
+
+  describe('testRule', () => {
+    it('should report which past expenses the rule would have matched', async () => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: rule, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClient.limit.mockResolvedValueOnce({
+        data: [
+          { id: 'tx-1', transaction_date: '2024-03-02', amount: '62.10', description: 'Trader Joe #552', from_envelope_id: 'envelope-groceries' },
+          { id: 'tx-2', transaction_date: '2024-02-27', amount: '45.00', description: 'WHOLE FOODS', from_envelope_id: 'envelope-dining' },
+          { id: 'tx-3', transaction_date: '2024-02-20', amount: '450.00', description: 'Whole Foods catering', from_envelope_id: 'envelope-party' },
+          { id: 'tx-4', transaction_date: '2024-02-18', amount: '12.00', description: 'Parking', from_envelope_id: 'envelope-car' }
+        ],
+        error: null
+      });
+
+      const result = await service.testRule('rule-groceries', { start_date: '2024-01-01', limit: 100 });
+
+      expect(mockClient.eq).toHaveBeenCalledWith('transaction_type', 'expense');
+      expect(mockClient.gte).toHaveBeenCalledWith('transaction_date', '2024-01-01');
+      expect(mockClient.limit).toHaveBeenCalledWith(100);
+      expect(result.rule_id).toBe('rule-groceries');
+      expect(result.scanned_count).toBe(4);
+      expect(result.matches.map(match => [match.transaction_id, match.would_change])).toEqual([
+        ['tx-1', false],
+        ['tx-2', true]
+      ]);
+      expect(result.change_count).toBe(1);
+    });
+  });
+
+  describe('createRule', () => {
+    it('should reject an invalid description pattern', async () => {
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+
+      await expect(service.createRule(budgetId, {
+        name: 'Broken',
+        match_description_pattern: '(unclosed',
+        set_envelope_id: 'envelope-groceries'
+      })).rejects.toThrow(ApiError);
+    });
+  });
+});
\ No newline at end of file
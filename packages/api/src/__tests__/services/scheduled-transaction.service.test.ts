@@ -0,0 +1,255 @@
+import { ScheduledTransactionService } from '../../services/scheduled-transaction.service';
+import { TransactionService } from '../../services/transaction.service';
+import { ApiError, ErrorCode, TransactionType } from '@nvlp/types';
+
+describe('ScheduledTransactionService', () => {
+  let service: ScheduledTransactionService;
+  let mockClient: any;
+  let createTransaction: jest.SpyInstance;
+
+  const budgetId = 'budget-123';
+  const rent = {
+    id: 'scheduled-rent',
+    budget_id: budgetId,
+    name: 'Rent',
+    transaction_type: TransactionType.EXPENSE,
+    amount: 1200,
+    description: null,
+    from_envelope_id: 'envelope-rent',
+    to_envelope_id: null,
+    payee_id: 'payee-landlord',
+    income_source_id: null,
+    schedule_type: 'monthly',
+    schedule_config: { day_of_month: 1 },
+    next_occurrence_date: '2024-01-01',
+    end_date: null,
+    is_active: true,
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      not: jest.fn().mockReturnThis(),
+      lte: jest.fn().mockReturnThis(),
+      order: jest.fn(),
+      single: jest.fn(),
+      rpc: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    // Mock budget verification and the due templates query
+    mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+    mockClient.order.mockResolvedValueOnce({ data: [rent], error: null });
+
+    createTransaction = jest.spyOn(TransactionService.prototype, 'createTransaction');
+    service = new ScheduledTransactionService(mockClient);
+  });
+
+  afterEach(() => {
+    createTransaction.mockRestore();
+  });
+
+  describe('postDueTransactions', () => {
+    it('should catch up on every missed occurrence and advance the schedule', async () => {
+      mockClient.rpc
+        .mockResolvedValueOnce({
+          data: [{ occurrence_date: '2024-01-01' }, { occurrence_date: '2024-02-01' }],
+          error: null
+        })
+        .mockResolvedValueOnce({ data: '2024-03-01', error: null });
+      createTransaction
+        .mockResolvedValueOnce({ id: 'tx-jan' })
+        .mockResolvedValueOnce({ id: 'tx-feb' });
+
+      const [result] = await service.postDueTransactions(budgetId, '2024-02-15');
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_schedule_occurrences', expect.objectContaining({
+        p_start_date: '2024-01-01',
+        p_until: '2024-02-15'
+      }));
+      expect(createTransaction).toHaveBeenCalledTimes(2);
+      expect(createTransaction).toHaveBeenCalledWith(budgetId, expect.objectContaining({
+        transaction_type: TransactionType.EXPENSE,
+        amount: 1200,
+        description: 'Rent',
+        transaction_date: '2024-02-01',
+        from_envelope_id: 'envelope-rent',
+        payee_id: 'payee-landlord',
+        scheduled_transaction_id: 'scheduled-rent'
+      }));
+      expect(result.posted_dates).toEqual(['2024-01-01', '2024-02-01']);
+      expect(result.transaction_ids).toEqual(['tx-jan', 'tx-feb']);
+      expect(result.next_occurrence_date).toBe('2024-03-01');
+      expect(mockClient.update).toHaveBeenCalledWith(expect.objectContaining({
+        last_posted_date: '2024-02-01',
+        next_occurrence_date: '2024-03-01',
+        is_active: true
+      }));
+    });
+
+    it('should stop at the first occurrence that fails validation', async () => {
+      mockClient.rpc
+        .mockResolvedValueOnce({
+          data: [{ occurrence_date: '2024-01-01' }, { occurrence_date: '2024-02-01' }],
+          error: null
+        })
+        .mockResolvedValueOnce({ data: '2024-02-01', error: null });
+      createTransaction
+        .mockResolvedValueOnce({ id: 'tx-jan' })
+        .mockRejectedValueOnce(new ApiError(ErrorCode.VALIDATION_ERROR, 'Cannot spend from inactive envelope'));
+
+      const [result] = await service.postDueTransactions(budgetId, '2024-02-15');
+
+      expect(result.posted_dates).toEqual(['2024-01-01']);
+      expect(result.error).toBe('Cannot spend from inactive envelope');
+      expect(result.next_occurrence_date).toBe('2024-02-01');
+    });
+
+    it('should skip occurrences already posted by an overlapping run', async () => {
+      mockClient.rpc
+        .mockResolvedValueOnce({ data: [{ occurrence_date: '2024-01-01' }], error: null })
+        .mockResolvedValueOnce({ data: '2024-02-01', error: null });
+      createTransaction.mockRejectedValueOnce(new ApiError(ErrorCode.ALREADY_EXISTS, 'Resource already exists'));
+
+      const [result] = await service.postDueTransactions(budgetId, '2024-01-15');
+
+      expect(result.error).toBeUndefined();
+      expect(result.posted_dates).toEqual(['2024-01-01']);
+      expect(result.transaction_ids).toEqual([]);
+      expect(result.next_occurrence_date).toBe('2024-02-01');
+    });
+
+    it('should deactivate a one-time schedule once it has posted', async () => {
+      mockClient.order.mockReset();
+      mockClient.order.mockResolvedValueOnce({
+        data: [{ ...rent, schedule_type: 'one_time', schedule_config: { date: '2024-01-01' } }],
+        error: null
+      });
+      mockClient.rpc
+        .mockResolvedValueOnce({ data: [{ occurrence_date: '2024-01-01' }], error: null })
+        .mockResolvedValueOnce({ data: '2024-01-01', error: null });
+      createTransaction.mockResolvedValueOnce({ id: 'tx-once' });
+
+      const [result] = await service.postDueTransactions(budgetId, '2024-01-15');
+
+      expect(result.next_occurrence_date).toBeUndefined();
+      expect(mockClient.update).toHaveBeenCalledWith(expect.objectContaining({
+        next_occurrence_date: null,
+        is_active: false
+      }));
+    });
+
+    it('should post a template in another currency in that currency', async () => {
+      mockClient.order.mockReset();
+      mockClient.order.mockResolvedValueOnce({
+        data: [{ ...rent, amount: 950, currency: 'EUR', from_envelope_id: 'envelope-paris-flat' }],
+        error: null
+      });
+      mockClient.rpc
+        .mockResolvedValueOnce({ data: [{ occurrence_date: '2024-01-01' }], error: null })
+        .mockResolvedValueOnce({ data: '2024-02-01', error: null });
+      createTransaction.mockResolvedValueOnce({ id: 'tx-eur' });
+
+      await service.postDueTransactions(budgetId, '2024-01-15');
+
+      expect(createTransaction).toHaveBeenCalledWith(budgetId, expect.objectContaining({
+        amount: 950,
+        currency: 'EUR',
+        from_envelope_id: 'envelope-paris-flat'
+      }));
+    });
+  });
+
+  describe('createScheduledTransaction', () => {
+    it('should reject an unsupported currency', async () => {
+      await expect(service.createScheduledTransaction(budgetId, {
+        name: 'Rent',
+        transaction_type: TransactionType.EXPENSE,
+        amount: 1200,
+        currency: 'XYZ',
+        from_envelope_id: 'envelope-rent',
+        payee_id: 'payee-landlord',
+        schedule_type: 'monthly',
+        schedule_config: { day_of_month: 1 }
+      })).rejects.toThrow('Unsupported currency');
+    });
+
+    it('should reject an expense without a payee', async () => {
+      await expect(service.createScheduledTransaction(budgetId, {
+        name: 'Rent',
+        transaction_type: TransactionType.EXPENSE,
+        amount: 1200,
+        from_envelope_id: 'envelope-rent',
+        schedule_type: 'monthly',
+        schedule_config: { day_of_month: 1 }
+      })).rejects.toThrow('Expense transactions require from_envelope_id and payee_id');
+    });
+
+    it('should reject income without an income source', async () => {
+      await expect(service.createScheduledTransaction(budgetId, {
+        name: 'Paycheck',
+        transaction_type: TransactionType.INCOME,
+        amount: 2000,
+        to_envelope_id: 'envelope-rent',
+        schedule_type: 'biweekly',
+        schedule_config: { day_of_week: 5 }
+      })).rejects.toThrow('Income transactions require income_source_id');
+    });
+
+    it('should reject a transfer with only one envelope', async () => {
+      await expect(service.createScheduledTransaction(budgetId, {
+        name: 'Top up',
+        transaction_type: TransactionType.TRANSFER,
+        amount: 50,
+        from_envelope_id: 'envelope-rent',
+        schedule_type: 'monthly',
+        schedule_config: { day_of_month: 1 }
+      })).rejects.toThrow('Transfer transactions require from_envelope_id and to_envelope_id');
+    });
+
+    it('should reject a payee from another budget', async () => {
+      mockClient.insert = jest.fn().mockReturnThis();
+      mockClient.single
+        .mockResolvedValueOnce({ data: { id: 'envelope-rent' }, error: null })
+        .mockResolvedValueOnce({ data: null, error: { code: 'PGRST116' } });
+
+      await expect(service.createScheduledTransaction(budgetId, {
+        name: 'Rent',
+        transaction_type: TransactionType.EXPENSE,
+        amount: 1200,
+        from_envelope_id: 'envelope-rent',
+        payee_id: 'payee-elsewhere',
+        schedule_type: 'monthly',
+        schedule_config: { day_of_month: 1 }
+      })).rejects.toMatchObject({
+        code: ErrorCode.NOT_FOUND,
+        message: 'Payee not found or does not belong to this budget'
+      });
+      expect(mockClient.eq).toHaveBeenCalledWith('budget_id', budgetId);
+      expect(mockClient.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateScheduledTransaction', () => {
+    it('should reject moving the template to an envelope in another budget', async () => {
+      mockClient.single.mockReset();
+      mockClient.single
+        .mockResolvedValueOnce({ data: rent, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: null, error: { code: 'PGRST116' } });
+
+      await expect(service.updateScheduledTransaction(rent.id, {
+        from_envelope_id: 'envelope-elsewhere'
+      })).rejects.toThrow('Envelope not found or does not belong to this budget');
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { TagService } from '../../services/tag.service';
+import { ApiError, ErrorCode } from '@nvlp/types';
+
+describe('TagService', () => {
+  let service: TagService;
+  let mockClient: any;
+
+  const budgetId = 'budget-123';
+  const transactionId = 'tx-123';
+  const budgetAccess = { data: { id: budgetId }, error: null };
+
+  beforeEach(() => {
+    mockClient = {
+      from: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      insert: jest.fn().mockReturnThis(),
+      delete: jest.fn().mockReturnThis(),
+      upsert: jest.fn(),
+      eq: jest.fn().mockReturnThis(),
+      in: jest.fn(),
+      not: jest.fn(),
+      single: jest.fn(),
+      auth: {
+        getUser: jest.fn().mockResolvedValue({
+          data: { user: { id: 'test-user-id' } },
+          error: null
+        })
+      }
+    };
+
+    service = new TagService(mockClient);
+  });
+
+  describe('createTag', () => {
+    it('should trim the name and insert the tag', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: { id: 'tag-1', budget_id: budgetId, name: 'Vacation 2026' }, error: null });
+
+      await service.createTag(budgetId, { name: '  Vacation 2026 ', color: '#1E88E5' });
+
+      expect(mockClient.insert).toHaveBeenCalledWith({
+        budget_id: budgetId,
+        name: 'Vacation 2026',
+        color: '#1E88E5'
+      });
+    });
+
+    it('should report a duplicate name as already existing', async () => {
+      mockClient.single
+        .mockResolvedValueOnce(budgetAccess)
+        .mockResolvedValueOnce({ data: null, error: { code: '23505', message: 'duplicate key value' } });
+
+      await expect(service.createTag(budgetId, { name: 'tax-deductible' }))
+        .rejects.toMatchObject({ code: ErrorCode.ALREADY_EXISTS, message: 'A tag with this name already exists' });
+    });
+
+    it('should reject colors that are not hex', async () => {
+      mockClient.single.mockResolvedValueOnce(budgetAccess);
+
+      await expect(service.createTag(budgetId, { name: 'Work', color: 'blue' })).rejects.toThrow(ApiError);
+      expect(mockClient.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setTransactionTags', () => {
+    beforeEach(() => {
+      mockClient.single
+        .mockResolvedValueOnce({ data: { budget_id: budgetId }, error: null })
+        .mockResolvedValueOnce(budgetAccess);
+    });
+
+    it('should drop tags outside the new set and add the missing ones', async () => {
+      mockClient.in.mockResolvedValueOnce({ data: [{ id: 'tag-1' }, { id: 'tag-2' }], error: null });
+      mockClient.not.mockResolvedValueOnce({ error: null });
+      mockClient.upsert.mockResolvedValueOnce({ error: null });
+      jest.spyOn(service, 'getTransactionTags').mockResolvedValueOnce([]);
+
+      await service.setTransactionTags(transactionId, ['tag-1', 'tag-2', 'tag-1']);
+
+      expect(mockClient.not).toHaveBeenCalledWith('tag_id', 'in', '(tag-1,tag-2)');
+      expect(mockClient.upsert).toHaveBeenCalledWith(
+        [
+          { transaction_id: transactionId, tag_id: 'tag-1', budget_id: budgetId },
+          { transaction_id: transactionId, tag_id: 'tag-2', budget_id: budgetId }
+        ],
+        { onConflict: 'transaction_id,tag_id', ignoreDuplicates: true }
+      );
+    });
+
+    it('should reject tags from another budget', async () => {
+      mockClient.in.mockResolvedValueOnce({ data: [{ id: 'tag-1' }], error: null });
+
+      await expect(service.setTransactionTags(transactionId, ['tag-1', 'tag-other-budget']))
+        .rejects.toThrow('Tag not found or does not belong to this budget');
+      expect(mockClient.delete).not.toHaveBeenCalled();
+      expect(mockClient.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { TransactionService } from '../../services/transaction.service';
 import { createClient } from '@supabase/supabase-js';
-import { Database, ApiError, ErrorCode } from '@nvlp/types';
+import { Database, ApiError, ErrorCode, TransactionType, TransactionStatus } from '@nvlp/types';
 
 // Mock Supabase client
 jest.mock('@supabase/supabase-js');
@@ -195,4 +195,583 @@ describe('TransactionService', () => {
       expect(mockClient.limit).toHaveBeenCalledWith(20);
     });
   });
+  describe('createTransaction with splits', () => {
+    const budgetId = 'budget-123';
+    const baseRequest = {
+      transaction_type: TransactionType.EXPENSE,
+      amount: 120,
+      transaction_date: '2024-01-08',
+      payee_id: 'payee-grocery-store',
+    };
+
+    beforeEach(() => {
+      // Mock budget verification
+      mockClient.single.mockResolvedValueOnce({
+        data: { id: budgetId },
+        error: null
+      });
+    });
+
+    it('should reject splits that do not add up to the transaction amount', async () => {
+      await expect(service.createTransaction(budgetId, {
+        ...baseRequest,
+        splits: [
+          { envelope_id: 'envelope-groceries', amount: 80 },
+          { envelope_id: 'envelope-household', amount: 30 }
+        ]
+      })).rejects.toThrow('Split amounts must add up to the transaction amount');
+    });
+
+    it('should reject a split transaction that also sets from_envelope_id', async () => {
+      await expect(service.createTransaction(budgetId, {
+        ...baseRequest,
+        from_envelope_id: 'envelope-groceries',
+        splits: [
+          { envelope_id: 'envelope-groceries', amount: 80 },
+          { envelope_id: 'envelope-household', amount: 40 }
+        ]
+      })).rejects.toThrow(ApiError);
+    });
+
+    it('should reject splits on non-expense transactions', async () => {
+      await expect(service.createTransaction(budgetId, {
+        transaction_type: TransactionType.TRANSFER,
+        amount: 50,
+        transaction_date: '2024-01-15',
+        from_envelope_id: 'envelope-groceries',
+        to_envelope_id: 'envelope-emergency',
+        splits: [
+          { envelope_id: 'envelope-groceries', amount: 25 },
+          { envelope_id: 'envelope-household', amount: 25 }
+        ]
+      })).rejects.toThrow('Only expense transactions can be split');
+    });
+
+    it('should create the parent and split lines through a single rpc call', async () => {
+      const created = { id: 'tx-split', ...baseRequest, is_split: true };
+      const splits = [
+        { envelope_id: 'envelope-groceries', amount: 80.55 },
+        { envelope_id: 'envelope-household', amount: 39.45 }
+      ];
+
+      // Mock envelope and payee lookups
+      mockClient.in = jest.fn().mockResolvedValueOnce({
+        data: [
+          { id: 'envelope-groceries', is_active: true },
+          { id: 'envelope-household', is_active: true }
+        ],
+        error: null
+      });
+      mockClient.single.mockResolvedValueOnce({
+        data: { id: 'payee-grocery-store', is_active: true },
+        error: null
+      });
+      mockClient.rpc = jest.fn().mockResolvedValueOnce({ data: created, error: null });
+
+      const result = await service.createTransaction(budgetId, { ...baseRequest, splits });
+
+      expect(result).toEqual(created);
+      expect(mockClient.rpc).toHaveBeenCalledWith('create_split_transaction', {
+        p_budget_id: budgetId,
+        p_transaction: baseRequest,
+        p_splits: splits,
+      });
+    });
+  });
+  describe('reconciliation', () => {
+    const budgetId = 'budget-123';
+    const request = { statement_date: '2024-01-31', statement_balance: 1250.5 };
+    const unreconciled = [
+      { id: 'tx-paycheck', transaction_type: TransactionType.INCOME, amount: 1500, is_cleared: true },
+      { id: 'tx-groceries', transaction_type: TransactionType.EXPENSE, amount: 249.5, is_cleared: true },
+      { id: 'tx-check', transaction_type: TransactionType.EXPENSE, amount: 40, is_cleared: false }
+    ];
+
+    beforeEach(() => {
+      mockClient.lte = jest.fn().mockReturnThis();
+      mockClient.limit = jest.fn();
+      mockClient.order = jest.fn()
+        .mockReturnValueOnce(mockClient)  // reconciliations by statement_date
+        .mockReturnValueOnce(mockClient)  // then by completed_at
+        .mockResolvedValueOnce({ data: unreconciled, error: null });
+      mockClient.rpc = jest.fn();
+
+      // Budget access for startReconciliation and listReconciliations
+      mockClient.single
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClient.limit.mockResolvedValueOnce({ data: [], error: null });
+    });
+
+    it('should compare the cleared balance with the statement', async () => {
+      mockClient.rpc.mockResolvedValueOnce({ data: '1250.00', error: null });
+
+      const session = await service.startReconciliation(budgetId, request);
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('get_cleared_balance', {
+        p_budget_id: budgetId,
+        p_as_of: '2024-01-31'
+      });
+      expect(mockClient.lte).toHaveBeenCalledWith('transaction_date', '2024-01-31');
+      expect(session.cleared_balance).toBe(1250);
+      expect(session.difference).toBe(0.5);
+      expect(session.cleared_transactions.map(t => t.id)).toEqual(['tx-paycheck', 'tx-groceries']);
+      expect(session.uncleared_transactions.map(t => t.id)).toEqual(['tx-check']);
+    });
+
+    it('should not complete while the balances differ', async () => {
+      mockClient.rpc.mockResolvedValueOnce({ data: '1250.00', error: null });
+
+      await expect(service.completeReconciliation(budgetId, request))
+        .rejects.toThrow('difference 0.50');
+      expect(mockClient.rpc).not.toHaveBeenCalledWith('complete_reconciliation', expect.anything());
+    });
+
+    it('should lock cleared transactions and record the reconciliation in one rpc call', async () => {
+      const record = { id: 'rec-1', budget_id: budgetId, ...request, cleared_balance: 1250.5, transaction_count: 2 };
+      mockClient.rpc
+        .mockResolvedValueOnce({ data: '1250.50', error: null })
+        .mockResolvedValueOnce({ data: record, error: null });
+
+      const result = await service.completeReconciliation(budgetId, request);
+
+      expect(mockClient.rpc).toHaveBeenLastCalledWith('complete_reconciliation', {
+        p_budget_id: budgetId,
+        p_statement_date: '2024-01-31',
+        p_statement_balance: 1250.5
+      });
+      expect(result).toEqual(record);
+    });
+  });
+
+  describe('updateTransaction on reconciled transactions', () => {
+    const reconciled = {
+      id: 'tx-reconciled',
+      budget_id: 'budget-123',
+      transaction_type: TransactionType.EXPENSE,
+      amount: 25,
+      is_reconciled: true,
+      is_split: false
+    };
+
+    beforeEach(() => {
+      mockClient.update = jest.fn().mockReturnThis();
+      mockClient.setHeader = jest.fn().mockReturnThis();
+      mockClient.single
+        .mockResolvedValueOnce({ data: reconciled, error: null })
+        .mockResolvedValueOnce({ data: { id: 'budget-123' }, error: null });
+    });
+
+    it('should reject edits unless the transaction is explicitly unlocked', async () => {
+      await expect(service.updateTransaction('tx-reconciled', { description: 'Edited' }))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply edits when unlock_reconciled is set', async () => {
+      mockClient.single.mockResolvedValueOnce({ data: { ...reconciled, description: 'Edited' }, error: null });
+
+      await service.updateTransaction('tx-reconciled', { description: 'Edited', unlock_reconciled: true });
+
+      expect(mockClient.update).toHaveBeenCalledWith(expect.not.objectContaining({ unlock_reconciled: true }));
+      expect(mockClient.update).toHaveBeenCalledWith(expect.objectContaining({ description: 'Edited' }));
+      expect(mockClient.setHeader).toHaveBeenCalledWith('X-Unlock-Reconciled', 'true');
+    });
+
+    it('should not soft delete a reconciled transaction unless it is unlocked', async () => {
+      await expect(service.softDeleteTransaction('tx-reconciled'))
+        .rejects.toMatchObject({ code: ErrorCode.CONFLICT });
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+
+    it('should soft delete an unlocked reconciled transaction past the database lock', async () => {
+      mockClient.setHeader = jest.fn().mockResolvedValue({ error: null });
+
+      await service.softDeleteTransaction('tx-reconciled', true);
+
+      expect(mockClient.update).toHaveBeenCalledWith(expect.objectContaining({ is_deleted: true }));
+      expect(mockClient.setHeader).toHaveBeenCalledWith('X-Unlock-Reconciled', 'true');
+    });
+  });
+  describe('updateTransaction with splits', () => {
+    const existing = {
+      id: 'tx-groceries',
+      budget_id: 'budget-123',
+      transaction_type: TransactionType.EXPENSE,
+      amount: 120,
+      transaction_date: '2024-01-08',
+      from_envelope_id: 'envelope-groceries',
+      payee_id: 'payee-grocery-store',
+      is_reconciled: false,
+      is_split: false
+    };
+    const splits = [
+      { envelope_id: 'envelope-groceries', amount: 90 },
+      { envelope_id: 'envelope-household', amount: 40 }
+    ];
+
+    beforeEach(() => {
+      mockClient.update = jest.fn().mockReturnThis();
+      mockClient.in = jest.fn().mockResolvedValueOnce({
+        data: [
+          { id: 'envelope-groceries', is_active: true },
+          { id: 'envelope-household', is_active: true }
+        ],
+        error: null
+      });
+      mockClient.single
+        .mockResolvedValueOnce({ data: existing, error: null })
+        .mockResolvedValueOnce({ data: { id: 'budget-123' }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'payee-grocery-store', is_active: true }, error: null });
+    });
+
+    it('should replace the lines and the other fields in a single rpc call', async () => {
+      const updated = { ...existing, amount: 130, description: 'Weekly shop', from_envelope_id: null, is_split: true };
+      mockClient.rpc = jest.fn().mockResolvedValueOnce({ data: updated, error: null });
+
+      const result = await service.updateTransaction('tx-groceries', { description: 'Weekly shop', amount: 130, splits });
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('replace_transaction_splits', {
+        p_transaction_id: 'tx-groceries',
+        p_splits: splits,
+        p_fields: { description: 'Weekly shop' }
+      });
+      expect(mockClient.update).not.toHaveBeenCalled();
+      expect(result).toEqual(updated);
+    });
+
+    it('should reject split descriptions longer than 255 characters', async () => {
+      mockClient.rpc = jest.fn();
+
+      await expect(service.updateTransaction('tx-groceries', {
+        splits: [{ ...splits[0], description: 'x'.repeat(256) }, splits[1]]
+      })).rejects.toThrow('255 characters');
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should move a transaction in another currency back to the budget currency in the same call', async () => {
+      mockClient.single.mockReset();
+      mockClient.single
+        .mockResolvedValueOnce({ data: { ...existing, currency: 'EUR', original_amount: 110, exchange_rate: 1.09 }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'budget-123' }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'payee-grocery-store', is_active: true }, error: null });
+      mockClient.rpc = jest.fn().mockResolvedValueOnce({ data: { ...existing, amount: 130, is_split: true }, error: null });
+
+      await service.updateTransaction('tx-groceries', { currency: null, splits });
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('replace_transaction_splits', {
+        p_transaction_id: 'tx-groceries',
+        p_splits: splits,
+        p_fields: { currency: null }
+      });
+    });
+
+    it('should reject splitting a transaction that stays in another currency', async () => {
+      mockClient.single.mockReset();
+      mockClient.single
+        .mockResolvedValueOnce({ data: { ...existing, currency: 'EUR', original_amount: 110, exchange_rate: 1.09 }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'budget-123' }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'payee-grocery-store', is_active: true }, error: null });
+      mockClient.rpc = jest.fn();
+
+      await expect(service.updateTransaction('tx-groceries', { currency: 'EUR', splits }))
+        .rejects.toThrow('Split transactions must be recorded in the budget currency');
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+  describe('createTransaction with rules', () => {
+    it('should fill an empty envelope from a matching auto-apply rule', async () => {
+      const budgetId = 'budget-123';
+      const created = { id: 'tx-coffee' };
+
+      mockClient.insert = jest.fn().mockReturnThis();
+      mockClient.order = jest.fn()
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce({
+          data: [{
+            id: 'rule-coffee',
+            name: 'Coffee',
+            priority: 10,
+            is_active: true,
+            auto_apply: true,
+            match_payee_id: 'payee-coffee-shop',
+            set_envelope_id: 'envelope-coffee',
+            created_at: '2024-01-01T00:00:00Z'
+          }],
+          error: null
+        });
+      mockClient.single
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })        // createTransaction
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })        // rules lookup
+        .mockResolvedValueOnce({ data: { is_active: true }, error: null })     // envelope
+        .mockResolvedValueOnce({ data: { is_active: true }, error: null })     // payee
+        .mockResolvedValueOnce({ data: created, error: null });
+
+      await service.createTransaction(budgetId, {
+        transaction_type: TransactionType.EXPENSE,
+        amount: 4.75,
+        transaction_date: '2024-01-08',
+        payee_id: 'payee-coffee-shop'
+      });
+
+      expect(mockClient.insert).toHaveBeenCalledWith(expect.objectContaining({
+        from_envelope_id: 'envelope-coffee',
+        payee_id: 'payee-coffee-shop'
+      }));
+    });
+  });
+  describe('future-dated transactions', () => {
+    const budgetId = 'budget-123';
+    const nextMonth = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    it('should accept a transaction dated after today', async () => {
+      mockClient.insert = jest.fn().mockReturnThis();
+      mockClient.single
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'envelope-rent', is_active: true }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'tx-rent', status: TransactionStatus.SCHEDULED }, error: null });
+
+      const result = await service.createTransaction(budgetId, {
+        transaction_type: TransactionType.ALLOCATION,
+        amount: 1500,
+        transaction_date: nextMonth,
+        to_envelope_id: 'envelope-rent'
+      });
+
+      expect(mockClient.insert).toHaveBeenCalledWith(expect.objectContaining({ transaction_date: nextMonth }));
+      expect(result.status).toBe(TransactionStatus.SCHEDULED);
+    });
+
+    it('should reject a future-dated split transaction', async () => {
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClient.order = jest.fn()
+        .mockReturnValueOnce(mockClient)
+        .mockResolvedValueOnce({ data: [], error: null });
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+
+      await expect(service.createTransaction(budgetId, {
+        transaction_type: TransactionType.EXPENSE,
+        amount: 120,
+        transaction_date: nextMonth,
+        payee_id: 'payee-grocery-store',
+        splits: [
+          { envelope_id: 'envelope-groceries', amount: 80 },
+          { envelope_id: 'envelope-household', amount: 40 }
+        ]
+      })).rejects.toThrow('Split transactions cannot be future-dated');
+    });
+
+    it('should post due transactions for the budget', async () => {
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+      mockClient.rpc = jest.fn().mockResolvedValueOnce({ data: 3, error: null });
+
+      await expect(service.postDueTransactions(budgetId)).resolves.toBe(3);
+      expect(mockClient.rpc).toHaveBeenCalledWith('post_due_transactions', { p_budget_id: budgetId });
+    });
+  });
+
+  describe('foreign currency transactions', () => {
+    const budgetId = 'budget-123';
+
+    it('should record the original currency and rate with the transaction', async () => {
+      mockClient.insert = jest.fn().mockReturnThis();
+      mockClient.single
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'envelope-paris', is_active: true }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'tx-paris', amount: 108.69, original_amount: 100 }, error: null });
+
+      const result = await service.createTransaction(budgetId, {
+        transaction_type: TransactionType.ALLOCATION,
+        amount: 100,
+        currency: 'EUR',
+        exchange_rate: 1.0869,
+        transaction_date: '2024-01-08',
+        to_envelope_id: 'envelope-paris'
+      });
+
+      expect(mockClient.insert).toHaveBeenCalledWith(expect.objectContaining({
+        amount: 100,
+        currency: 'EUR',
+        exchange_rate: 1.0869
+      }));
+      expect(result.amount).toBe(108.69);
+    });
+
+    it('should surface a missing exchange rate as a validation error', async () => {
+      mockClient.insert = jest.fn().mockReturnThis();
+      mockClient.single
+        .mockResolvedValueOnce({ data: { id: budgetId }, error: null })
+        .mockResolvedValueOnce({ data: { id: 'envelope-paris', is_active: true }, error: null })
+        .mockResolvedValueOnce({
+          data: null,
+          error: {
+            code: '23514',
+            message: 'No exchange rate from EUR to USD on or before 2024-01-08; give one with the transaction'
+          }
+        });
+
+      await expect(service.createTransaction(budgetId, {
+        transaction_type: TransactionType.ALLOCATION,
+        amount: 100,
+        currency: 'EUR',
+        transaction_date: '2024-01-08',
+        to_envelope_id: 'envelope-paris'
+      })).rejects.toMatchObject({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'No exchange rate from EUR to USD on or before 2024-01-08; give one with the transaction'
+      });
+    });
+
+    it('should reject an exchange rate without a currency', async () => {
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+
+      await expect(service.createTransaction(budgetId, {
+        transaction_type: TransactionType.ALLOCATION,
+        amount: 100,
+        exchange_rate: 1.0869,
+        transaction_date: '2024-01-08',
+        to_envelope_id: 'envelope-paris'
+      })).rejects.toThrow('An exchange rate can only be given with a currency');
+    });
+  });
+
+  describe('listTransactions keyset pagination', () => {
+    const budgetId = 'budget-123';
+    const rows = [
+      { id: 'b7c1', transaction_date: '2024-03-05', amount: 20 },
+      { id: 'a4f9', transaction_date: '2024-03-05', amount: 15 },
+      { id: 'f210', transaction_date: '2024-03-01', amount: 60 }
+    ];
+
+    beforeEach(() => {
+      mockClient.or = jest.fn().mockReturnThis();
+      mockClient.order = jest.fn().mockReturnThis();
+      mockClient.limit = jest.fn();
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+    });
+
+    it('should return the first page with a total and a cursor for the next one', async () => {
+      mockClient.limit.mockResolvedValueOnce({ data: rows, error: null, count: 1250 });
+
+      const page = await service.listTransactions(budgetId, undefined, { limit: 2 });
+
+      expect(mockClient.select).toHaveBeenCalledWith('*', { count: 'exact' });
+      expect(mockClient.order).toHaveBeenNthCalledWith(1, 'transaction_date', { ascending: false });
+      expect(mockClient.order).toHaveBeenNthCalledWith(2, 'id', { ascending: false });
+      expect(mockClient.limit).toHaveBeenCalledWith(3);
+      expect(mockClient.or).not.toHaveBeenCalled();
+      expect(page).toEqual({
+        data: rows.slice(0, 2),
+        total: 1250,
+        totalIsEstimate: false,
+        page: 1,
+        pageSize: 2,
+        hasMore: true,
+        next_cursor: '1:1250:2024-03-05:a4f9'
+      });
+    });
+
+    it('should continue after the cursor row with the first page total and without counting again', async () => {
+      mockClient.limit.mockResolvedValueOnce({ data: rows.slice(2), error: null, count: null });
+
+      const page = await service.listTransactions(budgetId, undefined, {
+        limit: 2,
+        cursor: '1:1250:2024-03-05:a4f9',
+        count: 'estimated'
+      });
+
+      expect(mockClient.select).toHaveBeenCalledWith('*', {});
+      expect(mockClient.or).toHaveBeenCalledWith(
+        'transaction_date.lt.2024-03-05,and(transaction_date.eq.2024-03-05,id.lt.a4f9)'
+      );
+      expect(page).toMatchObject({ page: 2, hasMore: false, next_cursor: null, total: 1250, totalIsEstimate: true });
+    });
+
+    it('should return every row from the array helpers by paging internally without counting', async () => {
+      const fullPage = Array.from({ length: 501 }, (_, i) => ({
+        id: `tx-${String(1000 - i).padStart(4, '0')}`,
+        transaction_date: '2024-02-01',
+        is_cleared: false
+      }));
+      mockClient.limit
+        .mockResolvedValueOnce({ data: fullPage, error: null, count: null })
+        .mockResolvedValueOnce({ data: rows, error: null, count: null });
+
+      const result = await service.getPendingTransactions(budgetId);
+
+      expect(result).toHaveLength(503);
+      expect(mockClient.select).toHaveBeenCalledWith('*');
+      expect(mockClient.select).not.toHaveBeenCalledWith('*', expect.objectContaining({ count: expect.anything() }));
+      expect(mockClient.limit).toHaveBeenNthCalledWith(1, 501);
+      expect(mockClient.or).toHaveBeenCalledWith(
+        'transaction_date.lt.2024-02-01,and(transaction_date.eq.2024-02-01,id.lt.tx-0501)'
+      );
+    });
+
+    it('should filter by tag through an inner join on the budget\'s transaction tags', async () => {
+      mockClient.in = jest.fn().mockReturnThis();
+      mockClient.limit.mockResolvedValueOnce({ data: rows, error: null, count: 3 });
+
+      await service.listTransactions(budgetId, { tagIds: ['tag-travel', 'tag-work'] }, { limit: 5 });
+
+      expect(mockClient.select).toHaveBeenCalledWith('*, transaction_tags!inner()', { count: 'exact' });
+      expect(mockClient.eq).toHaveBeenCalledWith('transaction_tags.budget_id', budgetId);
+      expect(mockClient.in).toHaveBeenCalledWith('transaction_tags.tag_id', ['tag-travel', 'tag-work']);
+      expect(mockClient.in).not.toHaveBeenCalledWith('id', expect.anything());
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(service.listTransactions(budgetId, undefined, { cursor: "1:2024-03-05:x),id.gt.(0" }))
+        .rejects.toThrow('Invalid pagination cursor');
+      expect(mockClient.limit).not.toHaveBeenCalled();
+    });
+  });
+  describe('searchTransactions', () => {
+    const budgetId = 'budget-123';
+
+    beforeEach(() => {
+      mockClient.rpc = jest.fn();
+      mockClient.single.mockResolvedValueOnce({ data: { id: budgetId }, error: null });
+    });
+
+    it('should pass the query and filters to the search rpc and keep only matched highlights', async () => {
+      mockClient.rpc.mockResolvedValueOnce({
+        data: [{
+          transaction_record: { id: 'tx-amzn', amount: 42.99, transaction_date: '2024-04-12' },
+          search_rank: 0.6,
+          description_highlight: null,
+          payee_highlight: '<mark>Amazon</mark>.com',
+          envelope_highlight: null
+        }],
+        error: null
+      });
+
+      const results = await service.searchTransactions(budgetId, '  amazon  ', {
+        startDate: '2024-03-01',
+        endDate: '2024-05-31',
+        transactionType: TransactionType.EXPENSE
+      }, { limit: 20 });
+
+      expect(mockClient.rpc).toHaveBeenCalledWith('search_transactions', expect.objectContaining({
+        p_budget_id: budgetId,
+        p_query: 'amazon',
+        p_start_date: '2024-03-01',
+        p_end_date: '2024-05-31',
+        p_transaction_type: TransactionType.EXPENSE,
+        p_payee_id: null,
+        p_limit: 20,
+        p_offset: 0
+      }));
+      expect(results).toEqual([{
+        transaction: { id: 'tx-amzn', amount: 42.99, transaction_date: '2024-04-12' },
+        rank: 0.6,
+        highlights: { payee_name: '<mark>Amazon</mark>.com' }
+      }]);
+    });
+
+    it('should reject an empty query', async () => {
+      await expect(service.searchTransactions(budgetId, '   ')).rejects.toThrow('Search query is required');
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { simulateDebtPayoff } from '../../utils/debt-payoff';
+import { DebtPayoffDebt, DebtPayoffStrategy } from '@nvlp/types';
+
+describe('Debt Payoff', () => {
+  const debt = (overrides: Partial<DebtPayoffDebt>): DebtPayoffDebt => ({
+    envelope_id: 'env-1',
+    name: 'Card',
+    balance: 0,
+    interest_rate: 0,
+    minimum_payment: 0,
+    ...overrides
+  });
+
+  it('should roll a paid-off minimum into the next debt', () => {
+    const plan = simulateDebtPayoff([
+      debt({ envelope_id: 'env-car', name: 'Car', balance: 300, minimum_payment: 50 }),
+      debt({ envelope_id: 'env-card', name: 'Card', balance: 100, minimum_payment: 50 })
+    ], {
+      strategy: DebtPayoffStrategy.SNOWBALL,
+      extra_monthly_payment: 0,
+      start_month: '2026-11'
+    });
+
+    expect(plan.debts.map(d => [d.envelope_id, d.payoff_order, d.payoff_month])).toEqual([
+      ['env-card', 1, '2026-12'],
+      ['env-car', 2, '2027-02']
+    ]);
+    expect(plan.schedule.map(month => month.payments.find(p => p.envelope_id === 'env-car')?.payment))
+      .toEqual([50, 50, 100, 100]);
+    expect(plan).toMatchObject({
+      is_paid_off: true,
+      payoff_month: '2027-02',
+      months_to_payoff: 4,
+      monthly_payment: 100,
+      total_interest: 0,
+      total_paid: 400
+    });
+  });
+
+  it('should send extra payments to the highest rate first with avalanche', () => {
+    const debts = [
+      debt({ envelope_id: 'env-card', name: 'Card', balance: 1000, interest_rate: 24, minimum_payment: 50 }),
+      debt({ envelope_id: 'env-loan', name: 'Loan', balance: 500, interest_rate: 6, minimum_payment: 50 })
+    ];
+    const options = { extra_monthly_payment: 100, start_month: '2026-11' };
+
+    const avalanche = simulateDebtPayoff(debts, { ...options, strategy: DebtPayoffStrategy.AVALANCHE });
+    const snowball = simulateDebtPayoff(debts, { ...options, strategy: DebtPayoffStrategy.SNOWBALL });
+
+    expect(avalanche.schedule[0]).toEqual({
+      month: '2026-11',
+      payments: [
+        { envelope_id: 'env-card', payment: 150, interest: 20, balance: 870 },
+        { envelope_id: 'env-loan', payment: 50, interest: 2.5, balance: 452.5 }
+      ],
+      total_payment: 200,
+      total_interest: 22.5,
+      remaining_balance: 1322.5
+    });
+    expect(snowball.debts[0].envelope_id).toBe('env-loan');
+    expect(avalanche.total_interest).toBeLessThan(snowball.total_interest);
+    expect(avalanche.total_paid).toBeCloseTo(1500 + avalanche.total_interest, 2);
+  });
+
+  it('should follow the custom order and put unlisted debts after it', () => {
+    const plan = simulateDebtPayoff([
+      debt({ envelope_id: 'env-a', name: 'A', balance: 100, minimum_payment: 10 }),
+      debt({ envelope_id: 'env-b', name: 'B', balance: 900, minimum_payment: 10 }),
+      debt({ envelope_id: 'env-c', name: 'C', balance: 500, minimum_payment: 10 })
+    ], {
+      strategy: DebtPayoffStrategy.CUSTOM,
+      custom_order: ['env-b'],
+      extra_monthly_payment: 50,
+      start_month: '2026-11'
+    });
+
+    expect(plan.debts.map(d => d.envelope_id)).toEqual(['env-b', 'env-a', 'env-c']);
+    expect(plan.schedule[0].payments.find(p => p.envelope_id === 'env-b')?.payment).toBe(60);
+  });
+
+  it('should stop when payments do not cover interest', () => {
+    const plan = simulateDebtPayoff([
+      debt({ balance: 1000, interest_rate: 24, minimum_payment: 10 })
+    ], {
+      strategy: DebtPayoffStrategy.SNOWBALL,
+      extra_monthly_payment: 0,
+      start_month: '2026-11'
+    });
+
+    expect(plan.schedule).toHaveLength(1);
+    expect(plan.is_paid_off).toBe(false);
+    expect(plan.payoff_month).toBeUndefined();
+    expect(plan.debts[0].payoff_month).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { calculateNextExpectedDate, getScheduleOccurrences } from '../../utils/income-schedule';
+import { incomeCalendarCases, incomeScheduleCases } from '../fixtures/income-schedules';
+
+describe('Income Schedule', () => {
+  describe('calculateNextExpectedDate', () => {
+    it.each(incomeScheduleCases.map(c => [c.name, c]))('%s', (_name, scheduleCase) => {
+      expect(calculateNextExpectedDate(
+        scheduleCase.schedule_type,
+        scheduleCase.schedule_config,
+        scheduleCase.reference_date
+      )).toBe(scheduleCase.expected);
+    });
+
+    it('should not expand a source without a schedule', () => {
+      expect(calculateNextExpectedDate(undefined, undefined, '2026-10-19')).toBeNull();
+    });
+  });
+
+  describe('getScheduleOccurrences', () => {
+    it.each(incomeCalendarCases.map(c => [c.name, c]))('%s', (_name, calendarCase) => {
+      expect(getScheduleOccurrences(
+        calendarCase.schedule_type,
+        calendarCase.schedule_config,
+        calendarCase.from,
+        calendarCase.to
+      )).toEqual(calendarCase.expected);
+    });
+
+    it('should not list a one-time payment outside the range', () => {
+      expect(getScheduleOccurrences('one_time', { date: '2026-11-20' }, '2026-12-01', '2026-12-31')).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -204,6 +204,16 @@ describe('PostgREST Headers', () => {
       });
     });
 
+    it('should read the total of a page with no rows', () => {
+      const headers = new Headers({
+        'Content-Range': '*/0',
+      });
+
+      const info = extractPaginationInfo(headers);
+
+      expect(info).toEqual({ totalCount: 0 });
+    });
+
     it('should return empty object when no Content-Range header', () => {
       const headers = new Headers({});
       
@@ -0,0 +1,127 @@
+import { parseCSV, parseOFX } from '../../utils/statement-parser';
+import { findAliasMatch, similarity } from '../../utils/fuzzy-match';
+import { ApiError } from '@nvlp/types';
+
+describe('Statement Parser', () => {
+  describe('parseOFX', () => {
+    it('should parse SGML statements with unclosed leaf tags', () => {
+      const ofx = [
+        'OFXHEADER:100',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20240115120000[-5:EST]',
+        '<TRNAMT>-42.17',
+        '<FITID>2024011501',
+        '<NAME>TRADER JOE&amp;S #552',
+        '<MEMO>POS PURCHASE',
+        '</STMTTRN>',
+        '<STMTTRN>',
+        '<TRNTYPE>CREDIT',
+        '<DTPOSTED>20240116',
+        '<TRNAMT>1500.00',
+        '<FITID>2024011602',
+        '<MEMO>PAYROLL',
+        '</STMTTRN>',
+        '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+      ].join('\n');
+
+      const rows = parseOFX(ofx);
+
+      expect(rows).toEqual([
+        {
+          transaction_date: '2024-01-15',
+          amount: -42.17,
+          description: 'TRADER JOE&S #552',
+          payee_name: 'TRADER JOE&S #552',
+          memo: 'POS PURCHASE',
+          external_id: '2024011501',
+        },
+        {
+          transaction_date: '2024-01-16',
+          amount: 1500,
+          description: 'PAYROLL',
+          payee_name: undefined,
+          memo: undefined,
+          external_id: '2024011602',
+        },
+      ]);
+    });
+
+    it('should parse XML statements', () => {
+      const ofx = '<STMTTRN><DTPOSTED>20240201</DTPOSTED><TRNAMT>-9.99</TRNAMT><NAME>NETFLIX</NAME></STMTTRN>';
+
+      expect(parseOFX(ofx)[0]).toMatchObject({ transaction_date: '2024-02-01', amount: -9.99, description: 'NETFLIX' });
+    });
+
+    it('should reject files without transactions', () => {
+      expect(() => parseOFX('<OFX></OFX>')).toThrow(ApiError);
+    });
+  });
+
+  describe('parseCSV', () => {
+    it('should map a signed amount column by header name', () => {
+      const csv = 'Date,Description,Amount\n01/15/2024,"COFFEE, INC",-4.50\n01/16/2024,Refund,"1,020.00"\n';
+
+      const rows = parseCSV(csv, {
+        date: 'Date',
+        description: 'Description',
+        amount: 'Amount',
+        date_format: 'MM/DD/YYYY',
+      });
+
+      expect(rows).toEqual([
+        { transaction_date: '2024-01-15', amount: -4.5, description: 'COFFEE, INC', payee_name: 'COFFEE, INC', memo: undefined, external_id: undefined },
+        { transaction_date: '2024-01-16', amount: 1020, description: 'Refund', payee_name: 'Refund', memo: undefined, external_id: undefined },
+      ]);
+    });
+
+    it('should combine debit and credit columns by index', () => {
+      const csv = '15/01/2024;Groceries;12.30;\r\n16/01/2024;Salary;;2000\r\n';
+
+      const rows = parseCSV(csv, {
+        date: 0,
+        description: 1,
+        debit: 2,
+        credit: 3,
+        date_format: 'DD/MM/YYYY',
+        delimiter: ';',
+        has_header: false,
+      });
+
+      expect(rows.map(row => [row.transaction_date, row.amount])).toEqual([
+        ['2024-01-15', -12.3],
+        ['2024-01-16', 2000],
+      ]);
+    });
+
+    it('should report the line of an invalid date', () => {
+      const csv = 'Date,Description,Amount\n2024-02-30,Bad,1.00';
+
+      expect(() => parseCSV(csv, { date: 'Date', description: 'Description', amount: 'Amount' }))
+        .toThrow('Invalid date on CSV line 2');
+    });
+  });
+
+  describe('similarity', () => {
+    it('should ignore bank noise when comparing names', () => {
+      expect(similarity('POS PURCHASE STARBUCKS #1234', 'Starbucks')).toBe(1);
+      expect(similarity('AMAZON MKTPLACE PMTS', 'Amazon Marketplace')).toBeGreaterThan(0.6);
+      expect(similarity('SHELL OIL 5744', 'Whole Foods')).toBeLessThan(0.3);
+    });
+  });
+
+  describe('findAliasMatch', () => {
+    const aliases = [
+      { payee_id: 'payee-amazon', normalized_alias: 'amzn mktp' },
+      { payee_id: 'payee-amazon', normalized_alias: 'amazon' },
+      { payee_id: 'payee-prime', normalized_alias: 'amazon prime' }
+    ];
+
+    it('should match aliases as whole words and prefer the longest', () => {
+      expect(findAliasMatch('AMZN Mktp US*2K3LQ1', aliases)?.payee_id).toBe('payee-amazon');
+      expect(findAliasMatch('POS AMAZON PRIME*MEMBERSHIP', aliases)?.payee_id).toBe('payee-prime');
+      expect(findAliasMatch('Amazonia Travel', aliases)).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { AllocationPlanService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Database,
+  AllocationPlan,
+  AllocationPlanCreateRequest,
+  AllocationPlanUpdateRequest,
+  AllocationPlanRunRequest,
+  AllocationPlanRunResult
+} from '@nvlp/types';
+
+export interface AllocationPlanRouteHandlers {
+  listPlans: (budgetId: string, incomeSourceId?: string) => Promise<AllocationPlan[]>;
+  getPlan: (id: string) => Promise<AllocationPlan>;
+  createPlan: (budgetId: string, request: AllocationPlanCreateRequest) => Promise<AllocationPlan>;
+  updatePlan: (id: string, updates: AllocationPlanUpdateRequest) => Promise<AllocationPlan>;
+  deletePlan: (id: string) => Promise<void>;
+  previewPlan: (id: string, request?: AllocationPlanRunRequest) => Promise<AllocationPlanRunResult>;
+  runPlan: (id: string, request?: AllocationPlanRunRequest) => Promise<AllocationPlanRunResult>;
+}
+
+export function createAllocationPlanRoutes(client: SupabaseClient<Database>): AllocationPlanRouteHandlers {
+  const allocationPlanService = new AllocationPlanService(client);
+
+  return {
+    listPlans: async (budgetId: string, incomeSourceId?: string) => {
+      return await allocationPlanService.listPlans(budgetId, incomeSourceId);
+    },
+
+    getPlan: async (id: string) => {
+      return await allocationPlanService.getPlan(id);
+    },
+
+    createPlan: async (budgetId: string, request: AllocationPlanCreateRequest) => {
+      return await allocationPlanService.createPlan(budgetId, request);
+    },
+
+    updatePlan: async (id: string, updates: AllocationPlanUpdateRequest) => {
+      return await allocationPlanService.updatePlan(id, updates);
+    },
+
+    deletePlan: async (id: string) => {
+      await allocationPlanService.deletePlan(id);
+    },
+
+    previewPlan: async (id: string, request?: AllocationPlanRunRequest) => {
+      return await allocationPlanService.previewPlan(id, request);
+    },
+
+    runPlan: async (id: string, request?: AllocationPlanRunRequest) => {
+      return await allocationPlanService.runPlan(id, request);
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { AttachmentService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { 
+  Database, 
+  Attachment, 
+  AttachmentUpload, 
+  AttachmentUploadRequest,
+  AttachmentDownload
+} from '@nvlp/types';
+
+export interface AttachmentRouteHandlers {
+  listAttachments: (transactionId: string) => Promise<Attachment[]>;
+  getAttachment: (id: string) => Promise<Attachment>;
+  createUpload: (transactionId: string, request: AttachmentUploadRequest) => Promise<AttachmentUpload>;
+  completeUpload: (id: string) => Promise<Attachment>;
+  getDownloadUrl: (id: string, expiresInSeconds?: number) => Promise<AttachmentDownload>;
+  deleteAttachment: (id: string) => Promise<void>;
+}
+
+export function createAttachmentRoutes(client: SupabaseClient<Database>): AttachmentRouteHandlers {
+  const attachmentService = new AttachmentService(client);
+
+  return {
+    listAttachments: async (transactionId: string) => {
+      return await attachmentService.listAttachments(transactionId);
+    },
+
+    getAttachment: async (id: string) => {
+      return await attachmentService.getAttachment(id);
+    },
+
+    createUpload: async (transactionId: string, request: AttachmentUploadRequest) => {
+      return await attachmentService.createUpload(transactionId, request);
+    },
+
+    completeUpload: async (id: string) => {
+      return await attachmentService.completeUpload(id);
+    },
+
+    getDownloadUrl: async (id: string, expiresInSeconds?: number) => {
+      return await attachmentService.getDownloadUrl(id, expiresInSeconds);
+    },
+
+    deleteAttachment: async (id: string) => {
+      await attachmentService.deleteAttachment(id);
+    },
+  };
+}
\ No newline at end of file
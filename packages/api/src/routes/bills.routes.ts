@@ -0,0 +1,22 @@
+import { BillService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, Bill, BillFilters, BillReminders } from '@nvlp/types';
+
+export interface BillRouteHandlers {
+  getBills: (budgetId: string, filters?: BillFilters) => Promise<Bill[]>;
+  getReminders: (budgetId: string, daysAhead?: number, asOf?: string) => Promise<BillReminders>;
+}
+
+export function createBillRoutes(client: SupabaseClient<Database>): BillRouteHandlers {
+  const billService = new BillService(client);
+
+  return {
+    getBills: async (budgetId: string, filters?: BillFilters) => {
+      return await billService.getBills(budgetId, filters);
+    },
+
+    getReminders: async (budgetId: string, daysAhead?: number, asOf?: string) => {
+      return await billService.getReminders(budgetId, daysAhead, asOf);
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { BudgetPeriodService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Database,
+  BudgetPeriod,
+  BudgetPeriodSummary,
+  BudgetRolloverRule,
+  EnvelopeType,
+  RolloverRule
+} from '@nvlp/types';
+
+export interface BudgetPeriodRouteHandlers {
+  getRolloverRules: (budgetId: string) => Promise<BudgetRolloverRule[]>;
+  setRolloverRule: (budgetId: string, envelopeType: EnvelopeType, rolloverRule: RolloverRule) => Promise<BudgetRolloverRule>;
+  getPeriod: (budgetId: string, month?: string) => Promise<BudgetPeriodSummary>;
+  getPeriodHistory: (budgetId: string, fromMonth: string, toMonth: string) => Promise<BudgetPeriodSummary[]>;
+  listClosedPeriods: (budgetId: string) => Promise<BudgetPeriod[]>;
+  closePeriod: (budgetId: string, month: string) => Promise<BudgetPeriodSummary>;
+}
+
+export function createBudgetPeriodRoutes(client: SupabaseClient<Database>): BudgetPeriodRouteHandlers {
+  const budgetPeriodService = new BudgetPeriodService(client);
+
+  return {
+    getRolloverRules: async (budgetId: string) => {
+      return await budgetPeriodService.getRolloverRules(budgetId);
+    },
+
+    setRolloverRule: async (budgetId: string, envelopeType: EnvelopeType, rolloverRule: RolloverRule) => {
+      return await budgetPeriodService.setRolloverRule(budgetId, envelopeType, rolloverRule);
+    },
+
+    getPeriod: async (budgetId: string, month?: string) => {
+      return await budgetPeriodService.getPeriod(budgetId, month);
+    },
+
+    getPeriodHistory: async (budgetId: string, fromMonth: string, toMonth: string) => {
+      return await budgetPeriodService.getPeriodHistory(budgetId, fromMonth, toMonth);
+    },
+
+    listClosedPeriods: async (budgetId: string) => {
+      return await budgetPeriodService.listClosedPeriods(budgetId);
+    },
+
+    closePeriod: async (budgetId: string, month: string) => {
+      return await budgetPeriodService.closePeriod(budgetId, month);
+    }
+  };
+}
\ No newline at end of file
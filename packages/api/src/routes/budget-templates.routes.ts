@@ -0,0 +1,71 @@
+import { BudgetTemplateService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Database,
+  BudgetCreateRequest,
+  BudgetTemplate,
+  BudgetTemplateApplyRequest,
+  BudgetTemplateApplyResult,
+  BudgetTemplateFile,
+  BudgetTemplateSaveRequest,
+  BudgetTemplateUpdateRequest
+} from '@nvlp/types';
+
+export interface BudgetTemplateRouteHandlers {
+  listTemplates: () => Promise<BudgetTemplate[]>;
+  getTemplate: (id: string) => Promise<BudgetTemplate>;
+  saveBudgetAsTemplate: (budgetId: string, request: BudgetTemplateSaveRequest) => Promise<BudgetTemplate>;
+  resaveTemplate: (id: string, budgetId: string) => Promise<BudgetTemplate>;
+  updateTemplate: (id: string, updates: BudgetTemplateUpdateRequest) => Promise<BudgetTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+  applyTemplate: (id: string, budgetId: string, request?: BudgetTemplateApplyRequest) => Promise<BudgetTemplateApplyResult>;
+  createBudgetFromTemplate: (id: string, request: BudgetCreateRequest) => Promise<BudgetTemplateApplyResult>;
+  exportTemplate: (id: string) => Promise<BudgetTemplateFile>;
+  importTemplate: (file: BudgetTemplateFile | string, request?: Partial<BudgetTemplateSaveRequest>) => Promise<BudgetTemplate>;
+}
+
+export function createBudgetTemplateRoutes(client: SupabaseClient<Database>): BudgetTemplateRouteHandlers {
+  const budgetTemplateService = new BudgetTemplateService(client);
+
+  return {
+    listTemplates: async () => {
+      return await budgetTemplateService.listTemplates();
+    },
+
+    getTemplate: async (id: string) => {
+      return await budgetTemplateService.getTemplate(id);
+    },
+
+    saveBudgetAsTemplate: async (budgetId: string, request: BudgetTemplateSaveRequest) => {
+      return await budgetTemplateService.saveBudgetAsTemplate(budgetId, request);
+    },
+
+    resaveTemplate: async (id: string, budgetId: string) => {
+      return await budgetTemplateService.resaveTemplate(id, budgetId);
+    },
+
+    updateTemplate: async (id: string, updates: BudgetTemplateUpdateRequest) => {
+      return await budgetTemplateService.updateTemplate(id, updates);
+    },
+
+    deleteTemplate: async (id: string) => {
+      await budgetTemplateService.deleteTemplate(id);
+    },
+
+    applyTemplate: async (id: string, budgetId: string, request?: BudgetTemplateApplyRequest) => {
+      return await budgetTemplateService.applyTemplate(id, budgetId, request);
+    },
+
+    createBudgetFromTemplate: async (id: string, request: BudgetCreateRequest) => {
+      return await budgetTemplateService.createBudgetFromTemplate(id, request);
+    },
+
+    exportTemplate: async (id: string) => {
+      return await budgetTemplateService.exportTemplate(id);
+    },
+
+    importTemplate: async (file: BudgetTemplateFile | string, request?: Partial<BudgetTemplateSaveRequest>) => {
+      return await budgetTemplateService.importTemplate(file, request);
+    }
+  };
+}
\ No newline at end of file
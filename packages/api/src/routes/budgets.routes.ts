@@ -1,6 +1,6 @@
 import { BudgetService } from '../services';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { Database, Budget, BudgetCreateRequest, BudgetUpdateRequest } from '@nvlp/types';
+import { Database, Budget, BudgetCreateRequest, BudgetUpdateRequest, BudgetCloneRequest } from '@nvlp/types';
 
 export interface BudgetRouteHandlers {
   listBudgets: () => Promise<Budget[]>;
@@ -8,6 +8,7 @@ export interface BudgetRouteHandlers {
   createBudget: (request: BudgetCreateRequest) => Promise<Budget>;
   updateBudget: (id: string, updates: BudgetUpdateRequest) => Promise<Budget>;
   deleteBudget: (id: string) => Promise<void>;
+  cloneBudget: (id: string, request: BudgetCloneRequest) => Promise<Budget>;
   setDefaultBudget: (budgetId: string) => Promise<void>;
   getDefaultBudget: () => Promise<Budget | null>;
   setupDefaults: (budgetId: string) => Promise<void>;
@@ -38,6 +39,10 @@ export function createBudgetRoutes(client: SupabaseClient<Database>): BudgetRout
       await budgetService.deleteBudget(id);
     },
 
+    cloneBudget: async (id: string, request: BudgetCloneRequest) => {
+      return await budgetService.cloneBudget(id, request);
+    },
+
     setDefaultBudget: async (budgetId: string) => {
       await budgetService.setDefaultBudget(budgetId);
     },
@@ -1,6 +1,6 @@
 import { CategoryService } from '../services';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { Database, Category, CategoryCreateRequest, CategoryUpdateRequest, CategoryType } from '@nvlp/types';
+import { Database, Category, CategoryCreateRequest, CategoryUpdateRequest, CategoryMoveRequest, CategoryTree, CategoryType } from '@nvlp/types';
 
 export interface CategoryRouteHandlers {
   listCategories: (budgetId: string) => Promise<Category[]>;
@@ -8,7 +8,8 @@ export interface CategoryRouteHandlers {
   createCategory: (budgetId: string, request: CategoryCreateRequest) => Promise<Category>;
   updateCategory: (id: string, updates: CategoryUpdateRequest) => Promise<Category>;
   deleteCategory: (id: string) => Promise<void>;
-  getCategoryTree: (budgetId: string) => Promise<Category[]>;
+  moveCategory: (id: string, request: CategoryMoveRequest) => Promise<Category>;
+  getCategoryTree: (budgetId: string, month?: string) => Promise<CategoryTree>;
 }
 
 export function createCategoryRoutes(client: SupabaseClient<Database>): CategoryRouteHandlers {
@@ -35,8 +36,12 @@ export function createCategoryRoutes(client: SupabaseClient<Database>): Category
       await categoryService.deleteCategory(id);
     },
 
-    getCategoryTree: async (budgetId: string) => {
-      return await categoryService.getCategoryTree(budgetId);
+    moveCategory: async (id: string, request: CategoryMoveRequest) => {
+      return await categoryService.moveCategory(id, request);
+    },
+
+    getCategoryTree: async (budgetId: string, month?: string) => {
+      return await categoryService.getCategoryTree(budgetId, month);
     }
   };
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { DebtPayoffService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, DebtPayoffDebt, DebtPayoffPlan, DebtPayoffRequest } from '@nvlp/types';
+
+export interface DebtPayoffRouteHandlers {
+  getDebts: (budgetId: string) => Promise<DebtPayoffDebt[]>;
+  planPayoff: (budgetId: string, request: DebtPayoffRequest) => Promise<DebtPayoffPlan>;
+  comparePayoffStrategies: (budgetId: string, request?: Omit<DebtPayoffRequest, 'strategy'>) => Promise<DebtPayoffPlan[]>;
+}
+
+export function createDebtPayoffRoutes(client: SupabaseClient<Database>): DebtPayoffRouteHandlers {
+  const debtPayoffService = new DebtPayoffService(client);
+
+  return {
+    getDebts: async (budgetId: string) => {
+      return await debtPayoffService.getDebts(budgetId);
+    },
+
+    planPayoff: async (budgetId: string, request: DebtPayoffRequest) => {
+      return await debtPayoffService.planPayoff(budgetId, request);
+    },
+
+    comparePayoffStrategies: async (budgetId: string, request?: Omit<DebtPayoffRequest, 'strategy'>) => {
+      return await debtPayoffService.comparePayoffStrategies(budgetId, request);
+    }
+  };
+}
\ No newline at end of file
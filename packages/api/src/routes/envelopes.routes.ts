@@ -1,16 +1,27 @@
 import { EnvelopeService, TransactionService } from '../services';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { Database, Envelope, EnvelopeCreateRequest, EnvelopeUpdateRequest, Transaction } from '@nvlp/types';
+import { Database, Envelope, EnvelopeCreateRequest, EnvelopeUpdateRequest, EnvelopeProjectedBalance, EnvelopeGoalProgress, EnvelopeGoalSummary, SavingsProjection, Transaction } from '@nvlp/types';
 
 export interface EnvelopeRouteHandlers {
-  listEnvelopes: (budgetId: string) => Promise<Envelope[]>;
+  listEnvelopes: (budgetId: string, includeArchived?: boolean) => Promise<Envelope[]>;
   getEnvelope: (id: string) => Promise<Envelope>;
   createEnvelope: (budgetId: string, request: EnvelopeCreateRequest) => Promise<Envelope>;
   updateEnvelope: (id: string, updates: EnvelopeUpdateRequest) => Promise<Envelope>;
   deleteEnvelope: (id: string) => Promise<void>;
+  archiveEnvelope: (id: string) => Promise<Envelope>;
+  unarchiveEnvelope: (id: string) => Promise<Envelope>;
+  mergeEnvelopes: (sourceId: string, targetId: string, unlockReconciled?: boolean) => Promise<Envelope>;
   getNegativeBalanceEnvelopes: (budgetId: string) => Promise<Envelope[]>;
   getLowBalanceEnvelopes: (budgetId: string) => Promise<Envelope[]>;
   getEnvelopeTransactions: (id: string, limit?: number) => Promise<Transaction[]>;
+  getProjectedBalances: (budgetId: string, throughDate?: string) => Promise<EnvelopeProjectedBalance[]>;
+  getProjectedBalance: (id: string, throughDate?: string) => Promise<EnvelopeProjectedBalance>;
+  getGoalProgress: (budgetId: string, asOf?: string) => Promise<EnvelopeGoalProgress[]>;
+  getEnvelopeGoalProgress: (id: string, asOf?: string) => Promise<EnvelopeGoalProgress>;
+  getGoalSummary: (budgetId: string, asOf?: string) => Promise<EnvelopeGoalSummary>;
+  getSavingsProjection: (budgetId: string, months?: number) => Promise<SavingsProjection[]>;
+  getEnvelopeSavingsProjection: (id: string, months?: number) => Promise<SavingsProjection>;
+  postSavingsInterest: (budgetId: string, asOf?: string) => Promise<number>;
 }
 
 export function createEnvelopeRoutes(client: SupabaseClient<Database>): EnvelopeRouteHandlers {
@@ -18,8 +29,8 @@ export function createEnvelopeRoutes(client: SupabaseClient<Database>): Envelope
   const transactionService = new TransactionService(client);
 
   return {
-    listEnvelopes: async (budgetId: string) => {
-      return await envelopeService.listEnvelopes(budgetId);
+    listEnvelopes: async (budgetId: string, includeArchived?: boolean) => {
+      return await envelopeService.listEnvelopes(budgetId, includeArchived);
     },
 
     getEnvelope: async (id: string) => {
@@ -38,6 +49,18 @@ export function createEnvelopeRoutes(client: SupabaseClient<Database>): Envelope
       await envelopeService.deleteEnvelope(id);
     },
 
+    archiveEnvelope: async (id: string) => {
+      return await envelopeService.archiveEnvelope(id);
+    },
+
+    unarchiveEnvelope: async (id: string) => {
+      return await envelopeService.unarchiveEnvelope(id);
+    },
+
+    mergeEnvelopes: async (sourceId: string, targetId: string, unlockReconciled?: boolean) => {
+      return await envelopeService.mergeEnvelopes(sourceId, targetId, unlockReconciled);
+    },
+
     getNegativeBalanceEnvelopes: async (budgetId: string) => {
       return await envelopeService.getNegativeBalanceEnvelopes(budgetId);
     },
@@ -48,6 +71,38 @@ export function createEnvelopeRoutes(client: SupabaseClient<Database>): Envelope
 
     getEnvelopeTransactions: async (id: string, limit?: number) => {
       return await transactionService.getTransactionsByEnvelope(id, limit);
+    },
+
+    getProjectedBalances: async (budgetId: string, throughDate?: string) => {
+      return await envelopeService.getProjectedBalances(budgetId, throughDate);
+    },
+
+    getProjectedBalance: async (id: string, throughDate?: string) => {
+      return await envelopeService.getProjectedBalance(id, throughDate);
+    },
+
+    getGoalProgress: async (budgetId: string, asOf?: string) => {
+      return await envelopeService.getGoalProgress(budgetId, asOf);
+    },
+
+    getEnvelopeGoalProgress: async (id: string, asOf?: string) => {
+      return await envelopeService.getEnvelopeGoalProgress(id, asOf);
+    },
+
+    getGoalSummary: async (budgetId: string, asOf?: string) => {
+      return await envelopeService.getGoalSummary(budgetId, asOf);
+    },
+
+    getSavingsProjection: async (budgetId: string, months?: number) => {
+      return await envelopeService.getSavingsProjection(budgetId, months);
+    },
+
+    getEnvelopeSavingsProjection: async (id: string, months?: number) => {
+      return await envelopeService.getEnvelopeSavingsProjection(id, months);
+    },
+
+    postSavingsInterest: async (budgetId: string, asOf?: string) => {
+      return await envelopeService.postSavingsInterest(budgetId, asOf);
     }
   };
 }
\ No newline at end of file
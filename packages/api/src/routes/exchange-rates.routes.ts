@@ -0,0 +1,27 @@
+import { ExchangeRateService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, ExchangeRate, ExchangeRateFilters, CurrencyConversion } from '@nvlp/types';
+
+export interface ExchangeRateRouteHandlers {
+  listRates: (filters?: ExchangeRateFilters) => Promise<ExchangeRate[]>;
+  getRate: (from: string, to: string, date?: string) => Promise<number>;
+  convert: (amount: number, from: string, to: string, date?: string) => Promise<CurrencyConversion>;
+}
+
+export function createExchangeRateRoutes(client: SupabaseClient<Database>): ExchangeRateRouteHandlers {
+  const exchangeRateService = new ExchangeRateService(client);
+
+  return {
+    listRates: async (filters?: ExchangeRateFilters) => {
+      return await exchangeRateService.listRates(filters);
+    },
+
+    getRate: async (from: string, to: string, date?: string) => {
+      return await exchangeRateService.getRate(from, to, date);
+    },
+
+    convert: async (amount: number, from: string, to: string, date?: string) => {
+      return await exchangeRateService.convert(amount, from, to, date);
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { ImportService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { 
+  Database, 
+  ImportBatch, 
+  ImportBatchStatus,
+  ImportRequest, 
+  ImportRowUpdate
+} from '@nvlp/types';
+
+export interface ImportRouteHandlers {
+  listImportBatches: (budgetId: string, status?: ImportBatchStatus) => Promise<ImportBatch[]>;
+  getImportBatch: (id: string) => Promise<ImportBatch>;
+  createImportBatch: (budgetId: string, request: ImportRequest) => Promise<ImportBatch>;
+  updateImportRows: (id: string, updates: ImportRowUpdate[]) => Promise<ImportBatch>;
+  commitImportBatch: (id: string) => Promise<ImportBatch>;
+  cancelImportBatch: (id: string) => Promise<ImportBatch>;
+}
+
+export function createImportRoutes(client: SupabaseClient<Database>): ImportRouteHandlers {
+  const importService = new ImportService(client);
+
+  return {
+    listImportBatches: async (budgetId: string, status?: ImportBatchStatus) => {
+      return await importService.listImportBatches(budgetId, status);
+    },
+
+    getImportBatch: async (id: string) => {
+      return await importService.getImportBatch(id);
+    },
+
+    createImportBatch: async (budgetId: string, request: ImportRequest) => {
+      return await importService.createImportBatch(budgetId, request);
+    },
+
+    updateImportRows: async (id: string, updates: ImportRowUpdate[]) => {
+      return await importService.updateImportRows(id, updates);
+    },
+
+    commitImportBatch: async (id: string) => {
+      return await importService.commitImportBatch(id);
+    },
+
+    cancelImportBatch: async (id: string) => {
+      return await importService.cancelImportBatch(id);
+    }
+  };
+}
\ No newline at end of file
@@ -1,6 +1,15 @@
 import { IncomeService } from '../services';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { Database, IncomeSource, IncomeSourceCreateRequest, IncomeSourceUpdateRequest } from '@nvlp/types';
+import {
+  Database,
+  IncomeSource,
+  IncomeSourceCreateRequest,
+  IncomeSourceUpdateRequest,
+  IncomeOccurrence,
+  IncomeOccurrenceFilters,
+  IncomeCalendarEntry,
+  OverdueIncomeSource
+} from '@nvlp/types';
 
 export interface IncomeSourceRouteHandlers {
   listIncomeSources: (budgetId: string) => Promise<IncomeSource[]>;
@@ -8,8 +17,10 @@ export interface IncomeSourceRouteHandlers {
   createIncomeSource: (budgetId: string, request: IncomeSourceCreateRequest) => Promise<IncomeSource>;
   updateIncomeSource: (id: string, updates: IncomeSourceUpdateRequest) => Promise<IncomeSource>;
   deleteIncomeSource: (id: string) => Promise<void>;
-  getOverdueIncomeSources: (budgetId: string) => Promise<IncomeSource[]>;
+  getOverdueIncomeSources: (budgetId: string, asOf?: string) => Promise<OverdueIncomeSource[]>;
   getUpcomingIncomeSources: (budgetId: string, days?: number) => Promise<IncomeSource[]>;
+  listIncomeOccurrences: (budgetId: string, filters?: IncomeOccurrenceFilters) => Promise<IncomeOccurrence[]>;
+  getIncomeCalendar: (budgetId: string, from: string, to: string) => Promise<IncomeCalendarEntry[]>;
 }
 
 export function createIncomeSourceRoutes(client: SupabaseClient<Database>): IncomeSourceRouteHandlers {
@@ -36,12 +47,20 @@ export function createIncomeSourceRoutes(client: SupabaseClient<Database>): Inco
       await incomeService.deleteIncomeSource(id);
     },
 
-    getOverdueIncomeSources: async (budgetId: string) => {
-      return await incomeService.getOverdueIncomeSources(budgetId);
+    getOverdueIncomeSources: async (budgetId: string, asOf?: string) => {
+      return await incomeService.getOverdueIncomeSources(budgetId, asOf);
     },
 
     getUpcomingIncomeSources: async (budgetId: string, days?: number) => {
       return await incomeService.getUpcomingIncomeSources(budgetId, days);
+    },
+
+    listIncomeOccurrences: async (budgetId: string, filters?: IncomeOccurrenceFilters) => {
+      return await incomeService.listIncomeOccurrences(budgetId, filters);
+    },
+
+    getIncomeCalendar: async (budgetId: string, from: string, to: string) => {
+      return await incomeService.getIncomeCalendar(budgetId, from, to);
     }
   };
 }
\ No newline at end of file
@@ -4,4 +4,15 @@ export * from './categories.routes';
 export * from './envelopes.routes';
 export * from './income-sources.routes';
 export * from './payees.routes';
-export * from './transactions.routes';
\ No newline at end of file
+export * from './transactions.routes';
+export * from './scheduled-transactions.routes';
+export * from './imports.routes';
+export * from './rules.routes';
+export * from './attachments.routes';
+export * from './tags.routes';
+export * from './allocation-plans.routes';
+export * from './budget-periods.routes';
+export * from './debt-payoff.routes';
+export * from './budget-templates.routes';
+export * from './exchange-rates.routes';
+export * from './bills.routes';
\ No newline at end of file
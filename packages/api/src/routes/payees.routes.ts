@@ -1,6 +1,14 @@
 import { PayeeService, TransactionService } from '../services';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { Database, Payee, PayeeCreateRequest, PayeeUpdateRequest, Transaction } from '@nvlp/types';
+import {
+  Database,
+  Payee,
+  PayeeAlias,
+  PayeeCreateRequest,
+  PayeeUpdateRequest,
+  PayeeDuplicateSuggestion,
+  Transaction
+} from '@nvlp/types';
 
 export interface PayeeRouteHandlers {
   listPayees: (budgetId: string) => Promise<Payee[]>;
@@ -12,6 +20,12 @@ export interface PayeeRouteHandlers {
   getRecentPayees: (budgetId: string, limit?: number) => Promise<Payee[]>;
   getTopPayees: (budgetId: string, limit?: number) => Promise<Payee[]>;
   getPayeeTransactions: (id: string, limit?: number) => Promise<Transaction[]>;
+  listAliases: (payeeId: string) => Promise<PayeeAlias[]>;
+  addAlias: (payeeId: string, alias: string) => Promise<PayeeAlias>;
+  removeAlias: (aliasId: string) => Promise<void>;
+  findPayeeByAlias: (budgetId: string, description: string) => Promise<Payee | undefined>;
+  mergePayees: (sourceId: string, targetId: string) => Promise<Payee>;
+  suggestDuplicates: (budgetId: string, threshold?: number) => Promise<PayeeDuplicateSuggestion[]>;
 }
 
 export function createPayeeRoutes(client: SupabaseClient<Database>): PayeeRouteHandlers {
@@ -53,6 +67,30 @@ export function createPayeeRoutes(client: SupabaseClient<Database>): PayeeRouteH
 
     getPayeeTransactions: async (id: string, limit?: number) => {
       return await transactionService.getTransactionsByPayee(id, limit);
+    },
+
+    listAliases: async (payeeId: string) => {
+      return await payeeService.listAliases(payeeId);
+    },
+
+    addAlias: async (payeeId: string, alias: string) => {
+      return await payeeService.addAlias(payeeId, alias);
+    },
+
+    removeAlias: async (aliasId: string) => {
+      await payeeService.removeAlias(aliasId);
+    },
+
+    findPayeeByAlias: async (budgetId: string, description: string) => {
+      return await payeeService.findPayeeByAlias(budgetId, description);
+    },
+
+    mergePayees: async (sourceId: string, targetId: string) => {
+      return await payeeService.mergePayees(sourceId, targetId);
+    },
+
+    suggestDuplicates: async (budgetId: string, threshold?: number) => {
+      return await payeeService.suggestDuplicates(budgetId, threshold);
     }
   };
 }
\ No newline at end of file
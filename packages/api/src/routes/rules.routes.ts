@@ -0,0 +1,61 @@
+import { RuleService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { 
+  Database, 
+  TransactionRule, 
+  TransactionRuleCreateRequest, 
+  TransactionRuleUpdateRequest,
+  RuleMatchInput,
+  RuleSuggestion,
+  RuleTestOptions,
+  RuleTestResult
+} from '@nvlp/types';
+
+export interface RuleRouteHandlers {
+  listRules: (budgetId: string) => Promise<TransactionRule[]>;
+  getRule: (id: string) => Promise<TransactionRule>;
+  createRule: (budgetId: string, request: TransactionRuleCreateRequest) => Promise<TransactionRule>;
+  updateRule: (id: string, updates: TransactionRuleUpdateRequest) => Promise<TransactionRule>;
+  deleteRule: (id: string) => Promise<void>;
+  suggest: (budgetId: string, input: RuleMatchInput) => Promise<RuleSuggestion | null>;
+  testRule: (id: string, options?: RuleTestOptions) => Promise<RuleTestResult>;
+  testRuleDefinition: (budgetId: string, request: TransactionRuleCreateRequest, options?: RuleTestOptions) => Promise<RuleTestResult>;
+}
+
+export function createRuleRoutes(client: SupabaseClient<Database>): RuleRouteHandlers {
+  const ruleService = new RuleService(client);
+
+  return {
+    listRules: async (budgetId: string) => {
+      return await ruleService.listRules(budgetId);
+    },
+
+    getRule: async (id: string) => {
+      return await ruleService.getRule(id);
+    },
+
+    createRule: async (budgetId: string, request: TransactionRuleCreateRequest) => {
+      return await ruleService.createRule(budgetId, request);
+    },
+
+    updateRule: async (id: string, updates: TransactionRuleUpdateRequest) => {
+      return await ruleService.updateRule(id, updates);
+    },
+
+    deleteRule: async (id: string) => {
+      await ruleService.deleteRule(id);
+    },
+
+    suggest: async (budgetId: string, input: RuleMatchInput) => {
+      return await ruleService.suggest(budgetId, input);
+    },
+
+    testRule: async (id: string, options?: RuleTestOptions) => {
+      return await ruleService.testRule(id, options);
+    },
+
+    testRuleDefinition: async (budgetId: string, request: TransactionRuleCreateRequest, options?: RuleTestOptions) => {
+      return await ruleService.testRuleDefinition(budgetId, request, options);
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { ScheduledTransactionService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { 
+  Database, 
+  ScheduledTransaction, 
+  ScheduledTransactionCreateRequest, 
+  ScheduledTransactionUpdateRequest,
+  ScheduledTransactionPreview,
+  ScheduledTransactionRunResult
+} from '@nvlp/types';
+
+export interface ScheduledTransactionRouteHandlers {
+  listScheduledTransactions: (budgetId: string) => Promise<ScheduledTransaction[]>;
+  getScheduledTransaction: (id: string) => Promise<ScheduledTransaction>;
+  createScheduledTransaction: (budgetId: string, request: ScheduledTransactionCreateRequest) => Promise<ScheduledTransaction>;
+  updateScheduledTransaction: (id: string, updates: ScheduledTransactionUpdateRequest) => Promise<ScheduledTransaction>;
+  deleteScheduledTransaction: (id: string) => Promise<void>;
+  previewOccurrences: (id: string, count?: number) => Promise<ScheduledTransactionPreview>;
+  postDueTransactions: (budgetId: string, asOf?: string) => Promise<ScheduledTransactionRunResult[]>;
+}
+
+export function createScheduledTransactionRoutes(client: SupabaseClient<Database>): ScheduledTransactionRouteHandlers {
+  const scheduledTransactionService = new ScheduledTransactionService(client);
+
+  return {
+    listScheduledTransactions: async (budgetId: string) => {
+      return await scheduledTransactionService.listScheduledTransactions(budgetId);
+    },
+
+    getScheduledTransaction: async (id: string) => {
+      return await scheduledTransactionService.getScheduledTransaction(id);
+    },
+
+    createScheduledTransaction: async (budgetId: string, request: ScheduledTransactionCreateRequest) => {
+      return await scheduledTransactionService.createScheduledTransaction(budgetId, request);
+    },
+
+    updateScheduledTransaction: async (id: string, updates: ScheduledTransactionUpdateRequest) => {
+      return await scheduledTransactionService.updateScheduledTransaction(id, updates);
+    },
+
+    deleteScheduledTransaction: async (id: string) => {
+      await scheduledTransactionService.deleteScheduledTransaction(id);
+    },
+
+    previewOccurrences: async (id: string, count?: number) => {
+      return await scheduledTransactionService.previewOccurrences(id, count);
+    },
+
+    postDueTransactions: async (budgetId: string, asOf?: string) => {
+      return await scheduledTransactionService.postDueTransactions(budgetId, asOf);
+    }
+  };
+}
\ No newline at end of file
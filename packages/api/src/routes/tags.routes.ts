@@ -0,0 +1,62 @@
+import { TagService } from '../services';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Database,
+  Tag,
+  TagCreateRequest,
+  TagUpdateRequest
+} from '@nvlp/types';
+
+export interface TagRouteHandlers {
+  listTags: (budgetId: string) => Promise<Tag[]>;
+  getTag: (id: string) => Promise<Tag>;
+  createTag: (budgetId: string, request: TagCreateRequest) => Promise<Tag>;
+  updateTag: (id: string, updates: TagUpdateRequest) => Promise<Tag>;
+  deleteTag: (id: string) => Promise<void>;
+  getTransactionTags: (transactionId: string) => Promise<Tag[]>;
+  setTransactionTags: (transactionId: string, tagIds: string[]) => Promise<Tag[]>;
+  addTagToTransaction: (transactionId: string, tagId: string) => Promise<void>;
+  removeTagFromTransaction: (transactionId: string, tagId: string) => Promise<void>;
+}
+
+export function createTagRoutes(client: SupabaseClient<Database>): TagRouteHandlers {
+  const tagService = new TagService(client);
+
+  return {
+    listTags: async (budgetId: string) => {
+      return await tagService.listTags(budgetId);
+    },
+
+    getTag: async (id: string) => {
+      return await tagService.getTag(id);
+    },
+
+    createTag: async (budgetId: string, request: TagCreateRequest) => {
+      return await tagService.createTag(budgetId, request);
+    },
+
+    updateTag: async (id: string, updates: TagUpdateRequest) => {
+      return await tagService.updateTag(id, updates);
+    },
+
+    deleteTag: async (id: string) => {
+      await tagService.deleteTag(id);
+    },
+
+    getTransactionTags: async (transactionId: string) => {
+      return await tagService.getTransactionTags(transactionId);
+    },
+
+    setTransactionTags: async (transactionId: string, tagIds: string[]) => {
+      return await tagService.setTransactionTags(transactionId, tagIds);
+    },
+
+    addTagToTransaction: async (transactionId: string, tagId: string) => {
+      await tagService.addTagToTransaction(transactionId, tagId);
+    },
+
+    removeTagFromTransaction: async (transactionId: string, tagId: string) => {
+      await tagService.removeTagFromTransaction(transactionId, tagId);
+    }
+  };
+}
\ No newline at end of file
@@ -5,27 +5,43 @@ import {
   Transaction, 
   TransactionCreateRequest, 
   TransactionUpdateRequest,
-  TransactionWithDetails 
+  TransactionWithDetails,
+  Reconciliation,
+  ReconciliationRequest,
+  ReconciliationSession,
+  CursorPaginationOptions,
+  PaginatedResponse,
+  TransactionSearchOptions,
+  TransactionSearchResult
 } from '@nvlp/types';
 import { TransactionFilters } from '../services/transaction.service';
 
 export interface TransactionRouteHandlers {
-  listTransactions: (budgetId: string, filters?: TransactionFilters, limit?: number, offset?: number) => Promise<Transaction[]>;
+  listTransactions: (budgetId: string, filters?: TransactionFilters, page?: CursorPaginationOptions) => Promise<PaginatedResponse<Transaction>>;
+  searchTransactions: (budgetId: string, query: string, filters?: TransactionFilters, options?: TransactionSearchOptions) => Promise<TransactionSearchResult[]>;
   getTransaction: (id: string) => Promise<TransactionWithDetails>;
   createTransaction: (budgetId: string, request: TransactionCreateRequest) => Promise<Transaction>;
   updateTransaction: (id: string, updates: TransactionUpdateRequest) => Promise<Transaction>;
-  deleteTransaction: (id: string) => Promise<void>;
-  restoreTransaction: (id: string) => Promise<Transaction>;
+  deleteTransaction: (id: string, unlockReconciled?: boolean) => Promise<void>;
+  restoreTransaction: (id: string, unlockReconciled?: boolean) => Promise<Transaction>;
   getRecentTransactions: (budgetId: string, limit?: number) => Promise<Transaction[]>;
   getPendingTransactions: (budgetId: string, limit?: number) => Promise<Transaction[]>;
+  postDueTransactions: (budgetId: string) => Promise<number>;
+  startReconciliation: (budgetId: string, request: ReconciliationRequest) => Promise<ReconciliationSession>;
+  completeReconciliation: (budgetId: string, request: ReconciliationRequest) => Promise<Reconciliation>;
+  listReconciliations: (budgetId: string, limit?: number) => Promise<Reconciliation[]>;
 }
 
 export function createTransactionRoutes(client: SupabaseClient<Database>): TransactionRouteHandlers {
   const transactionService = new TransactionService(client);
 
   return {
-    listTransactions: async (budgetId: string, filters?: TransactionFilters, limit?: number, offset?: number) => {
-      return await transactionService.listTransactions(budgetId, filters, limit, offset);
+    listTransactions: async (budgetId: string, filters?: TransactionFilters, page?: CursorPaginationOptions) => {
+      return await transactionService.listTransactions(budgetId, filters, page);
+    },
+
+    searchTransactions: async (budgetId: string, query: string, filters?: TransactionFilters, options?: TransactionSearchOptions) => {
+      return await transactionService.searchTransactions(budgetId, query, filters, options);
     },
 
     getTransaction: async (id: string) => {
@@ -40,12 +56,12 @@ export function createTransactionRoutes(client: SupabaseClient<Database>): Trans
       return await transactionService.updateTransaction(id, updates);
     },
 
-    deleteTransaction: async (id: string) => {
-      await transactionService.softDeleteTransaction(id);
+    deleteTransaction: async (id: string, unlockReconciled?: boolean) => {
+      await transactionService.softDeleteTransaction(id, unlockReconciled);
     },
 
-    restoreTransaction: async (id: string) => {
-      return await transactionService.restoreTransaction(id);
+    restoreTransaction: async (id: string, unlockReconciled?: boolean) => {
+      return await transactionService.restoreTransaction(id, unlockReconciled);
     },
 
     getRecentTransactions: async (budgetId: string, limit?: number) => {
@@ -54,6 +70,22 @@ export function createTransactionRoutes(client: SupabaseClient<Database>): Trans
 
     getPendingTransactions: async (budgetId: string, limit?: number) => {
       return await transactionService.getPendingTransactions(budgetId, limit);
+    },
+
+    postDueTransactions: async (budgetId: string) => {
+      return await transactionService.postDueTransactions(budgetId);
+    },
+
+    startReconciliation: async (budgetId: string, request: ReconciliationRequest) => {
+      return await transactionService.startReconciliation(budgetId, request);
+    },
+
+    completeReconciliation: async (budgetId: string, request: ReconciliationRequest) => {
+      return await transactionService.completeReconciliation(budgetId, request);
+    },
+
+    listReconciliations: async (budgetId: string, limit?: number) => {
+      return await transactionService.listReconciliations(budgetId, limit);
     }
   };
 }
\ No newline at end of file
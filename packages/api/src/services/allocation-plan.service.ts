@@ -0,0 +1,294 @@
+import { BaseService } from './base.service';
+import {
+  AllocationPlan,
+  AllocationPlanCreateRequest,
+  AllocationPlanUpdateRequest,
+  AllocationPlanStep,
+  AllocationPlanStepInput,
+  AllocationPlanRunRequest,
+  AllocationPlanRunResult,
+  AllocationStepType,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+export class AllocationPlanService extends BaseService {
+  async listPlans(budgetId: string, incomeSourceId?: string): Promise<AllocationPlan[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    let query = this.client
+      .from('allocation_plans')
+      .select('*, steps:allocation_plan_steps(*)')
+      .eq('budget_id', budgetId);
+
+    if (incomeSourceId) {
+      query = query.eq('income_source_id', incomeSourceId);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return (data || []).map((plan: any) => this.sortSteps(plan));
+  }
+
+  async getPlan(id: string): Promise<AllocationPlan> {
+    const { data, error } = await this.client
+      .from('allocation_plans')
+      .select('*, steps:allocation_plan_steps(*)')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Allocation plan not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return this.sortSteps(data);
+  }
+
+  async createPlan(budgetId: string, request: AllocationPlanCreateRequest): Promise<AllocationPlan> {
+    await this.verifyBudgetAccess(budgetId);
+    this.validateName(request.name);
+    await this.validateSteps(budgetId, request.steps);
+
+    const { steps, ...fields } = request;
+
+    const { data, error } = await this.client
+      .from('allocation_plans')
+      .insert({
+        budget_id: budgetId,
+        ...fields,
+        name: request.name.trim(),
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    try {
+      await this.replaceSteps(data.id, steps);
+    } catch (stepError) {
+      // Don't leave a plan without steps behind
+      await this.client.from('allocation_plans').delete().eq('id', data.id);
+      throw stepError;
+    }
+
+    return this.getPlan(data.id);
+  }
+
+  async updatePlan(id: string, updates: AllocationPlanUpdateRequest): Promise<AllocationPlan> {
+    const plan = await this.getPlan(id);
+    const { steps, ...fields } = updates;
+
+    if (fields.name !== undefined) {
+      this.validateName(fields.name);
+    }
+    if (steps !== undefined) {
+      await this.validateSteps(plan.budget_id, steps);
+    }
+
+    const { error } = await this.client
+      .from('allocation_plans')
+      .update({
+        ...fields,
+        ...(fields.name !== undefined ? { name: fields.name.trim() } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    if (steps !== undefined) {
+      await this.replaceSteps(id, steps);
+    }
+
+    return this.getPlan(id);
+  }
+
+  async deletePlan(id: string): Promise<void> {
+    await this.getPlan(id);
+
+    const { error } = await this.client
+      .from('allocation_plans')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Work out what running the plan would allocate without creating anything.
+   * A non-zero shortfall means the run would be rejected.
+   */
+  async previewPlan(id: string, request: AllocationPlanRunRequest = {}): Promise<AllocationPlanRunResult> {
+    await this.getPlan(id);
+    return this.executePlan(id, request, true);
+  }
+
+  /**
+   * Create the plan's allocation transactions in a single database transaction.
+   * Fails without allocating anything when the budget doesn't have enough available.
+   */
+  async runPlan(id: string, request: AllocationPlanRunRequest = {}): Promise<AllocationPlanRunResult> {
+    const plan = await this.getPlan(id);
+
+    if (!plan.is_active) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Allocation plan is inactive');
+    }
+
+    return this.executePlan(id, request, false);
+  }
+
+  private async executePlan(
+    id: string,
+    request: AllocationPlanRunRequest,
+    preview: boolean
+  ): Promise<AllocationPlanRunResult> {
+    if (request.amount !== undefined && request.amount <= 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Amount must be greater than zero');
+    }
+    if (request.transaction_date && request.transaction_date > new Date().toISOString().split('T')[0]) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Allocation plans cannot be run with a future date');
+    }
+
+    const { data, error } = await this.client.rpc('run_allocation_plan', {
+      p_plan_id: id,
+      p_amount: request.amount ?? null,
+      p_income_transaction_id: request.income_transaction_id ?? null,
+      ...(request.transaction_date ? { p_transaction_date: request.transaction_date } : {}),
+      p_preview: preview,
+    });
+
+    if (error || !data) {
+      this.handleRunError(error);
+    }
+
+    return data as AllocationPlanRunResult;
+  }
+
+  private async replaceSteps(planId: string, steps: AllocationPlanStepInput[]): Promise<void> {
+    const { error } = await this.client.rpc('replace_allocation_plan_steps', {
+      p_plan_id: planId,
+      p_steps: steps.map(step => ({
+        envelope_id: step.envelope_id,
+        step_type: step.step_type,
+        amount: step.step_type === AllocationStepType.FIXED ? step.amount : null,
+        percentage: step.step_type === AllocationStepType.PERCENTAGE ? step.percentage : null,
+      })),
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  private validateName(name: string | undefined): void {
+    if (!name?.trim()) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Plan name is required');
+    }
+  }
+
+  private async validateSteps(budgetId: string, steps: AllocationPlanStepInput[] | undefined): Promise<void> {
+    if (!steps || steps.length === 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Allocation plans require at least one step');
+    }
+
+    let totalPercentage = 0;
+
+    steps.forEach((step, index) => {
+      if (!step.envelope_id) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Each step requires an envelope');
+      }
+
+      switch (step.step_type) {
+        case AllocationStepType.FIXED:
+          if (!step.amount || step.amount <= 0 || Math.round(step.amount * 100) !== step.amount * 100) {
+            throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Fixed steps require a positive amount with at most 2 decimal places');
+          }
+          break;
+        case AllocationStepType.PERCENTAGE:
+          if (!step.percentage || step.percentage <= 0 || step.percentage > 100) {
+            throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Percentage steps require a percentage between 0 and 100');
+          }
+          totalPercentage += step.percentage;
+          break;
+        case AllocationStepType.FILL_TO_TARGET:
+          break;
+        case AllocationStepType.REMAINDER:
+          if (index !== steps.length - 1) {
+            throw new ApiError(ErrorCode.VALIDATION_ERROR, 'The remainder step must be the last step');
+          }
+          break;
+        default:
+          throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid step type');
+      }
+    });
+
+    if (totalPercentage > 100) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Percentage steps cannot add up to more than 100%');
+    }
+
+    const envelopeIds = Array.from(new Set(steps.map(step => step.envelope_id)));
+
+    const { data, error } = await this.client
+      .from('envelopes')
+      .select('id')
+      .eq('budget_id', budgetId)
+      .in('id', envelopeIds);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    if (!data || data.length !== envelopeIds.length) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope not found or does not belong to this budget');
+    }
+  }
+
+  private sortSteps(plan: any): AllocationPlan {
+    return {
+      ...plan,
+      steps: ((plan.steps || []) as AllocationPlanStep[])
+        .sort((a, b) => a.step_order - b.step_order),
+    };
+  }
+
+  private handleRunError(error: any): never {
+    // run_allocation_plan raises check_violation with a message meant for the user,
+    // such as when the budget doesn't have enough available to cover the plan
+    if (error?.code === '23514' && error.message) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+    }
+    this.handleError(error);
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,220 @@
+import { randomUUID } from 'node:crypto';
+import { BaseService } from './base.service';
+import { AttachmentStorage, SupabaseAttachmentStorage } from '../utils/attachment-storage';
+import {
+  Attachment,
+  AttachmentUpload,
+  AttachmentUploadRequest,
+  AttachmentDownload,
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_SIZE_BYTES,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const DEFAULT_DOWNLOAD_EXPIRY_SECONDS = 300;
+const MAX_DOWNLOAD_EXPIRY_SECONDS = 3600;
+
+export class AttachmentService extends BaseService {
+  private storage: AttachmentStorage;
+
+  constructor(client: any, storage?: AttachmentStorage) {
+    super(client);
+    this.storage = storage || new SupabaseAttachmentStorage(client);
+  }
+
+  async listAttachments(transactionId: string): Promise<Attachment[]> {
+    await this.getTransaction(transactionId);
+
+    const { data, error } = await this.client
+      .from('attachments')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .eq('is_uploaded', true)
+      .eq('is_deleted', false)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as Attachment[];
+  }
+
+  async getAttachment(id: string): Promise<Attachment> {
+    const { data, error } = await this.client
+      .from('attachments')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Attachment not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return data as Attachment;
+  }
+
+  /**
+   * Reserve an attachment and return a signed URL the client uploads the file to.
+   * The attachment stays hidden until completeUpload confirms the file arrived.
+   */
+  async createUpload(transactionId: string, request: AttachmentUploadRequest): Promise<AttachmentUpload> {
+    const transaction = await this.getTransaction(transactionId);
+
+    if (transaction.is_deleted) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Cannot attach files to a deleted transaction');
+    }
+
+    this.validateUploadRequest(request);
+
+    const userId = await this.getCurrentUserId();
+    const fileName = request.file_name.trim();
+    const storagePath = `${transaction.budget_id}/${transactionId}/${randomUUID()}/${fileName.replace(/[^\w.\- ]/g, '_')}`;
+
+    const { data, error } = await this.client
+      .from('attachments')
+      .insert({
+        transaction_id: transactionId,
+        budget_id: transaction.budget_id,
+        file_name: fileName,
+        content_type: request.content_type,
+        size_bytes: request.size_bytes,
+        storage_path: storagePath,
+        uploaded_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    const upload = await this.storage.createUploadUrl(storagePath);
+
+    return {
+      attachment: data as Attachment,
+      upload_url: upload.url,
+      upload_token: upload.token,
+    };
+  }
+
+  async completeUpload(id: string): Promise<Attachment> {
+    const attachment = await this.getAttachment(id);
+
+    if (attachment.is_uploaded) {
+      return attachment;
+    }
+
+    if (!(await this.storage.exists(attachment.storage_path))) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'File has not been uploaded yet');
+    }
+
+    const { data, error } = await this.client
+      .from('attachments')
+      .update({
+        is_uploaded: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as Attachment;
+  }
+
+  async getDownloadUrl(id: string, expiresInSeconds: number = DEFAULT_DOWNLOAD_EXPIRY_SECONDS): Promise<AttachmentDownload> {
+    const attachment = await this.getAttachment(id);
+
+    if (!attachment.is_uploaded || attachment.is_deleted) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Attachment not found');
+    }
+
+    if (!Number.isInteger(expiresInSeconds) || expiresInSeconds < 1 || expiresInSeconds > MAX_DOWNLOAD_EXPIRY_SECONDS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `expiresInSeconds must be between 1 and ${MAX_DOWNLOAD_EXPIRY_SECONDS}`);
+    }
+
+    const url = await this.storage.createDownloadUrl(attachment.storage_path, expiresInSeconds);
+
+    return {
+      url,
+      expires_at: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    const attachment = await this.getAttachment(id);
+
+    await this.storage.remove([attachment.storage_path]);
+
+    const { error } = await this.client
+      .from('attachments')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  private validateUploadRequest(request: AttachmentUploadRequest): void {
+    const fileName = request.file_name?.trim();
+
+    if (!fileName) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'File name is required');
+    }
+    if (fileName.length > 255 || fileName.includes('/')) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'File name must be at most 255 characters and contain no slashes');
+    }
+    if (!(ATTACHMENT_CONTENT_TYPES as readonly string[]).includes(request.content_type)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Content type must be one of: ${ATTACHMENT_CONTENT_TYPES.join(', ')}`);
+    }
+    if (!Number.isInteger(request.size_bytes) || request.size_bytes < 1 || request.size_bytes > MAX_ATTACHMENT_SIZE_BYTES) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `File size must be between 1 byte and ${MAX_ATTACHMENT_SIZE_BYTES / (1024 * 1024)} MB`);
+    }
+  }
+
+  private async getTransaction(transactionId: string): Promise<{ id: string; budget_id: string; is_deleted: boolean }> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('id, budget_id, is_deleted')
+      .eq('id', transactionId)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Transaction not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return data;
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
@@ -156,6 +156,11 @@ export abstract class BaseService {
       throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Check constraint violation');
     }
 
+    // Raised for locked rows, such as reconciled transactions that were not unlocked
+    if (error?.code === '55000') {
+      throw new ApiError(ErrorCode.CONFLICT, error.message || 'Resource is locked');
+    }
+
     throw new ApiError(
       ErrorCode.DATABASE_ERROR,
       error?.message || 'An unexpected error occurred',
@@ -0,0 +1,136 @@
+import { BaseService } from './base.service';
+import { formatDateForAPI, parseAPIDate } from '../utils/date';
+import {
+  Bill,
+  BillFilters,
+  BillReminders,
+  BillStatus,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 731;
+const DEFAULT_REMINDER_DAYS = 3;
+// Overdue bills stop being reminded about once they are two months old
+const OVERDUE_LOOKBACK_DAYS = 62;
+
+export class BillService extends BaseService {
+  /**
+   * Bills due in a date range (this month by default) with what has been paid toward
+   * each, earliest due first
+   */
+  async getBills(budgetId: string, filters: BillFilters = {}): Promise<Bill[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const today = formatDateForAPI(new Date());
+    const from = this.normalizeDate('from', filters.from ?? `${today.slice(0, 7)}-01`);
+    const to = this.normalizeDate('to', filters.to ?? this.endOfMonth(today));
+    const asOf = this.normalizeDate('as_of', filters.as_of ?? today);
+
+    if (from > to) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'from must not be after to');
+    }
+    if (this.daysBetween(from, to) > MAX_RANGE_DAYS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Bills can be listed for at most two years at a time');
+    }
+    if (filters.status !== undefined && !Object.values(BillStatus).includes(filters.status)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Status must be paid, partial, unpaid or overdue');
+    }
+
+    const { data, error } = await this.client.rpc('get_bills', {
+      p_budget_id: budgetId,
+      p_from: from,
+      p_to: to,
+      p_as_of: asOf,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const bills = (data as any[] || []).map(row => this.toBill(row));
+    return filters.status ? bills.filter(bill => bill.status === filters.status) : bills;
+  }
+
+  /**
+   * Overdue bills from the last two months and unpaid bills due in the next few days
+   */
+  async getReminders(budgetId: string, daysAhead = DEFAULT_REMINDER_DAYS, asOf?: string): Promise<BillReminders> {
+    if (!Number.isInteger(daysAhead) || daysAhead < 0 || daysAhead > 31) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'daysAhead must be a whole number from 0 to 31');
+    }
+
+    const date = this.normalizeDate('as_of', asOf ?? formatDateForAPI(new Date()));
+    const bills = await this.getBills(budgetId, {
+      from: this.addDays(date, -OVERDUE_LOOKBACK_DAYS),
+      to: this.addDays(date, daysAhead),
+      as_of: date,
+    });
+
+    return {
+      as_of: date,
+      overdue: bills.filter(bill => bill.status === BillStatus.OVERDUE),
+      upcoming: bills.filter(bill =>
+        bill.days_until_due >= 0 && (bill.status === BillStatus.UNPAID || bill.status === BillStatus.PARTIAL)
+      ),
+    };
+  }
+
+  private toBill(row: any): Bill {
+    return {
+      payee_id: row.payee_id,
+      payee_name: row.payee_name,
+      payee_type: row.payee_type,
+      due_date: row.due_date,
+      window_start: row.window_start,
+      window_end: row.window_end,
+      amount_due: row.amount_due === null ? undefined : Number(row.amount_due),
+      amount_paid: Number(row.amount_paid),
+      payment_count: row.payment_count,
+      last_payment_date: row.last_payment_date ?? undefined,
+      status: row.status,
+      days_until_due: row.days_until_due,
+    };
+  }
+
+  private normalizeDate(field: string, date: string): string {
+    if (!DATE_PATTERN.test(date) || isNaN(parseAPIDate(date).getTime())) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `${field} must be in YYYY-MM-DD format`);
+    }
+    return date;
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = parseAPIDate(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return formatDateForAPI(result);
+  }
+
+  private endOfMonth(date: string): string {
+    const [year, month] = date.split('-').map(Number);
+    return formatDateForAPI(new Date(Date.UTC(year, month, 0)));
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((parseAPIDate(to).getTime() - parseAPIDate(from).getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { BaseService } from './base.service';
+import {
+  BudgetPeriod,
+  BudgetPeriodSummary,
+  BudgetRolloverRule,
+  EnvelopePeriodSummary,
+  EnvelopeType,
+  RolloverRule,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const MAX_HISTORY_MONTHS = 36;
+
+export class BudgetPeriodService extends BaseService {
+  /**
+   * Rollover rule for every envelope type, including the carry_over default
+   * for types without a saved rule
+   */
+  async getRolloverRules(budgetId: string): Promise<BudgetRolloverRule[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client
+      .from('budget_rollover_rules')
+      .select('envelope_type, rollover_rule')
+      .eq('budget_id', budgetId);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return Object.values(EnvelopeType).map(envelopeType => ({
+      budget_id: budgetId,
+      envelope_type: envelopeType,
+      rollover_rule: (data || []).find((rule: any) => rule.envelope_type === envelopeType)?.rollover_rule
+        ?? RolloverRule.CARRY_OVER,
+    }));
+  }
+
+  async setRolloverRule(budgetId: string, envelopeType: EnvelopeType, rolloverRule: RolloverRule): Promise<BudgetRolloverRule> {
+    await this.verifyBudgetAccess(budgetId);
+
+    if (!Object.values(EnvelopeType).includes(envelopeType)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid envelope type');
+    }
+    if (!Object.values(RolloverRule).includes(rolloverRule)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid rollover rule');
+    }
+
+    const { error } = await this.client
+      .from('budget_rollover_rules')
+      .upsert(
+        {
+          budget_id: budgetId,
+          envelope_type: envelopeType,
+          rollover_rule: rolloverRule,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'budget_id,envelope_type' }
+      );
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return { budget_id: budgetId, envelope_type: envelopeType, rollover_rule: rolloverRule };
+  }
+
+  /**
+   * Assigned, spent and available per envelope for a month (YYYY-MM, defaults to
+   * the current month)
+   */
+  async getPeriod(budgetId: string, month?: string): Promise<BudgetPeriodSummary> {
+    await this.verifyBudgetAccess(budgetId);
+    const periodStart = this.toPeriodStart(month ?? new Date().toISOString().slice(0, 7));
+
+    const { data, error } = await this.client.rpc('get_envelope_period_summary', {
+      p_budget_id: budgetId,
+      p_period_start: periodStart,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return this.summarizePeriod(periodStart, data as EnvelopePeriodSummary[] || []);
+  }
+
+  /**
+   * One summary per month from fromMonth through toMonth (YYYY-MM), oldest first
+   */
+  async getPeriodHistory(budgetId: string, fromMonth: string, toMonth: string): Promise<BudgetPeriodSummary[]> {
+    await this.verifyBudgetAccess(budgetId);
+    const from = this.toPeriodStart(fromMonth);
+    const to = this.toPeriodStart(toMonth);
+
+    if (from > to) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'fromMonth must not be after toMonth');
+    }
+    if (this.monthsBetween(from, to) >= MAX_HISTORY_MONTHS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `History is limited to ${MAX_HISTORY_MONTHS} months`);
+    }
+
+    const { data, error } = await this.client.rpc('get_budget_period_history', {
+      p_budget_id: budgetId,
+      p_from: from,
+      p_to: to,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const rows = data as EnvelopePeriodSummary[] || [];
+    const periodStarts = Array.from(new Set(rows.map(row => row.period_start))).sort();
+
+    return periodStarts.map(periodStart =>
+      this.summarizePeriod(periodStart, rows.filter(row => row.period_start === periodStart))
+    );
+  }
+
+  async listClosedPeriods(budgetId: string): Promise<BudgetPeriod[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client
+      .from('budget_periods')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('period_start', { ascending: false });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as BudgetPeriod[];
+  }
+
+  /**
+   * Close a finished month: apply the rollover rules and keep its figures as they
+   * are now. Months close in order; a month can't be closed after a later one.
+   */
+  async closePeriod(budgetId: string, month: string): Promise<BudgetPeriodSummary> {
+    await this.verifyBudgetAccess(budgetId);
+    const periodStart = this.toPeriodStart(month);
+
+    if (month >= new Date().toISOString().slice(0, 7)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Only months that have ended can be closed');
+    }
+
+    const { error } = await this.client.rpc('close_budget_period', {
+      p_budget_id: budgetId,
+      p_period_start: periodStart,
+    });
+
+    if (error) {
+      if (error.code === '23514' && error.message) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+      }
+      this.handleError(error);
+    }
+
+    return this.getPeriod(budgetId, month);
+  }
+
+  private summarizePeriod(periodStart: string, envelopes: EnvelopePeriodSummary[]): BudgetPeriodSummary {
+    const sumCents = (pick: (envelope: EnvelopePeriodSummary) => number) =>
+      envelopes.reduce((total, envelope) => total + Math.round(Number(pick(envelope)) * 100), 0) / 100;
+
+    return {
+      period_start: periodStart,
+      period_end: envelopes[0]?.period_end ?? this.toPeriodEnd(periodStart),
+      is_closed: envelopes.length > 0 && envelopes.every(envelope => envelope.is_closed),
+      assigned: sumCents(envelope => envelope.assigned),
+      spent: sumCents(envelope => envelope.spent),
+      available: sumCents(envelope => envelope.available),
+      envelopes,
+    };
+  }
+
+  private toPeriodStart(month: string): string {
+    if (!MONTH_PATTERN.test(month)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Month must be in YYYY-MM format');
+    }
+    return `${month}-01`;
+  }
+
+  private toPeriodEnd(periodStart: string): string {
+    const [year, month] = periodStart.split('-').map(Number);
+    return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+  }
+
+  private monthsBetween(from: string, to: string): number {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,525 @@
+import { BaseService } from './base.service';
+import {
+  BudgetCreateRequest,
+  BudgetTemplate,
+  BudgetTemplateApplyRequest,
+  BudgetTemplateApplyResult,
+  BudgetTemplateCategory,
+  BudgetTemplateConflict,
+  BudgetTemplateContent,
+  BudgetTemplateEnvelope,
+  BudgetTemplateFile,
+  BudgetTemplateIncomeSource,
+  BudgetTemplateSaveRequest,
+  BudgetTemplateUpdateRequest,
+  BUDGET_TEMPLATE_FORMAT,
+  BUDGET_TEMPLATE_FORMAT_VERSION,
+  EnvelopeGoalType,
+  EnvelopeType,
+  TemplateConflictMode,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const ITEM_LABELS: Record<BudgetTemplateConflict['item_type'], string> = {
+  category: 'Category',
+  envelope: 'Envelope',
+  income_source: 'Income source',
+};
+
+// Names are compared the way users read them: trimmed and case-insensitive
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+export class BudgetTemplateService extends BaseService {
+  /**
+   * The user's own templates followed by templates other users have shared
+   */
+  async listTemplates(): Promise<BudgetTemplate[]> {
+    const userId = await this.getCurrentUserId();
+
+    // RLS limits the rows to the user's templates and shared ones
+    const { data, error } = await this.client
+      .from('budget_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const templates = (data || []) as BudgetTemplate[];
+    return [
+      ...templates.filter(template => template.user_id === userId),
+      ...templates.filter(template => template.user_id !== userId),
+    ];
+  }
+
+  async getTemplate(id: string): Promise<BudgetTemplate> {
+    const { data, error } = await this.client
+      .from('budget_templates')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget template not found');
+      }
+      this.handleError(error);
+    }
+
+    return data as BudgetTemplate;
+  }
+
+  /**
+   * Save a budget's categories, active envelopes and active income sources as a
+   * new template
+   */
+  async saveBudgetAsTemplate(budgetId: string, request: BudgetTemplateSaveRequest): Promise<BudgetTemplate> {
+    this.validateName(request.name);
+    const userId = await this.getCurrentUserId();
+    await this.verifyBudgetAccess(budgetId);
+
+    const template = await this.buildTemplateContent(budgetId);
+
+    const { data, error } = await this.client
+      .from('budget_templates')
+      .insert({
+        user_id: userId,
+        name: request.name.trim(),
+        description: request.description,
+        is_shared: request.is_shared ?? false,
+        version: 1,
+        template,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as BudgetTemplate;
+  }
+
+  /**
+   * Replace a template's layout with the current layout of a budget, as the next
+   * version of the template
+   */
+  async resaveTemplate(id: string, budgetId: string): Promise<BudgetTemplate> {
+    const existing = await this.getOwnTemplate(id);
+    await this.verifyBudgetAccess(budgetId);
+
+    const template = await this.buildTemplateContent(budgetId);
+
+    const { data, error } = await this.client
+      .from('budget_templates')
+      .update({
+        template,
+        version: existing.version + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as BudgetTemplate;
+  }
+
+  async updateTemplate(id: string, updates: BudgetTemplateUpdateRequest): Promise<BudgetTemplate> {
+    await this.getOwnTemplate(id);
+    if (updates.name !== undefined) {
+      this.validateName(updates.name);
+    }
+
+    const { data, error } = await this.client
+      .from('budget_templates')
+      .update({
+        ...updates,
+        ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as BudgetTemplate;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await this.getOwnTemplate(id);
+
+    const { error } = await this.client
+      .from('budget_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Add a template's categories, envelopes and income sources to an existing
+   * budget. conflict_mode decides what happens to items whose names are already
+   * taken; with fail, nothing is added if any name is taken.
+   */
+  async applyTemplate(
+    templateId: string,
+    budgetId: string,
+    request: BudgetTemplateApplyRequest = {}
+  ): Promise<BudgetTemplateApplyResult> {
+    const conflictMode = request.conflict_mode ?? TemplateConflictMode.SKIP;
+    if (!Object.values(TemplateConflictMode).includes(conflictMode)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid conflict mode');
+    }
+
+    const template = await this.getTemplate(templateId);
+    const content = this.parseTemplateContent(template.template);
+    await this.verifyBudgetAccess(budgetId);
+
+    return this.applyContent(budgetId, content, conflictMode);
+  }
+
+  /**
+   * Create a budget and lay it out from a template. Both happen in one database
+   * transaction, so a failure leaves no empty budget behind.
+   */
+  async createBudgetFromTemplate(templateId: string, request: BudgetCreateRequest): Promise<BudgetTemplateApplyResult> {
+    const template = await this.getTemplate(templateId);
+    const content = this.parseTemplateContent(template.template);
+
+    const { data, error } = await this.client.rpc('create_budget_from_template', {
+      p_template: content,
+      p_name: request.name,
+      p_description: request.description ?? null,
+      p_currency: request.currency ?? null,
+      p_is_active: request.is_active ?? true,
+    });
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return this.toApplyResult(data);
+  }
+
+  async exportTemplate(id: string): Promise<BudgetTemplateFile> {
+    const template = await this.getTemplate(id);
+
+    return {
+      format: BUDGET_TEMPLATE_FORMAT,
+      name: template.name,
+      description: template.description,
+      version: template.version,
+      exported_at: new Date().toISOString(),
+      template: template.template,
+    };
+  }
+
+  /**
+   * Save an exported template file as one of the user's templates. The file can be
+   * passed as parsed JSON or as the raw file contents.
+   */
+  async importTemplate(file: BudgetTemplateFile | string, request: Partial<BudgetTemplateSaveRequest> = {}): Promise<BudgetTemplate> {
+    let parsed: any = file;
+    if (typeof file === 'string') {
+      try {
+        parsed = JSON.parse(file);
+      } catch {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Template file is not valid JSON');
+      }
+    }
+
+    if (!parsed || typeof parsed !== 'object' || parsed.format !== BUDGET_TEMPLATE_FORMAT) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'File is not a budget template');
+    }
+
+    const name = request.name ?? parsed.name;
+    this.validateName(name);
+    const template = this.parseTemplateContent(parsed.template);
+    const version = Number.isInteger(parsed.version) && parsed.version > 0 ? parsed.version : 1;
+    const userId = await this.getCurrentUserId();
+
+    const { data, error } = await this.client
+      .from('budget_templates')
+      .insert({
+        user_id: userId,
+        name: name.trim(),
+        description: request.description ?? parsed.description,
+        is_shared: request.is_shared ?? false,
+        version,
+        template,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as BudgetTemplate;
+  }
+
+  private async buildTemplateContent(budgetId: string): Promise<BudgetTemplateContent> {
+    const [categoriesResult, envelopesResult, incomeSourcesResult] = await Promise.all([
+      this.client
+        .from('categories')
+        .select('id, parent_id, name, description, is_income, is_system, icon, color, display_order')
+        .eq('budget_id', budgetId)
+        .order('display_order', { ascending: true }),
+      this.client
+        .from('envelopes')
+        .select('name, description, category_id, envelope_type, target_amount, goal_type, target_date, icon, color, display_order, notify_on_low_balance, low_balance_threshold, apy')
+        .eq('budget_id', budgetId)
+        .eq('is_active', true)
+        .order('display_order', { ascending: true }),
+      this.client
+        .from('income_sources')
+        .select('name, description, expected_amount, schedule_type, schedule_config')
+        .eq('budget_id', budgetId)
+        .eq('is_active', true)
+        .order('name', { ascending: true }),
+    ]);
+
+    if (categoriesResult.error) {
+      this.handleError(categoriesResult.error);
+    }
+    if (envelopesResult.error) {
+      this.handleError(envelopesResult.error);
+    }
+    if (incomeSourcesResult.error) {
+      this.handleError(incomeSourcesResult.error);
+    }
+
+    // System categories such as Uncategorized are created with every budget, so
+    // they are left out and their envelopes fall back to them on apply
+    const categories = (categoriesResult.data || []).filter((category: any) => !category.is_system);
+    const keys = new Map<string, string>();
+    categories.forEach((category: any, index: number) => keys.set(category.id, `category-${index + 1}`));
+
+    return {
+      format_version: BUDGET_TEMPLATE_FORMAT_VERSION,
+      categories: categories.map((category: any): BudgetTemplateCategory => ({
+        key: keys.get(category.id)!,
+        parent_key: category.parent_id ? keys.get(category.parent_id) : undefined,
+        name: category.name,
+        description: category.description ?? undefined,
+        is_income: category.is_income,
+        icon: category.icon ?? undefined,
+        color: category.color ?? undefined,
+        display_order: category.display_order ?? 0,
+      })),
+      envelopes: (envelopesResult.data || []).map((envelope: any): BudgetTemplateEnvelope => ({
+        name: envelope.name,
+        description: envelope.description ?? undefined,
+        category_key: envelope.category_id ? keys.get(envelope.category_id) : undefined,
+        envelope_type: envelope.envelope_type,
+        // A debt envelope's target is the balance owed, which is not part of a layout
+        target_amount: envelope.envelope_type === EnvelopeType.DEBT || envelope.target_amount === null
+          ? undefined
+          : Number(envelope.target_amount),
+        goal_type: envelope.goal_type ?? undefined,
+        target_date: envelope.target_date ?? undefined,
+        icon: envelope.icon ?? undefined,
+        color: envelope.color ?? undefined,
+        display_order: envelope.display_order ?? 0,
+        notify_on_low_balance: envelope.notify_on_low_balance ?? false,
+        low_balance_threshold: envelope.low_balance_threshold === null || envelope.low_balance_threshold === undefined
+          ? undefined
+          : Number(envelope.low_balance_threshold),
+        apy: envelope.apy === null || envelope.apy === undefined ? undefined : Number(envelope.apy),
+      })),
+      income_sources: (incomeSourcesResult.data || []).map((source: any): BudgetTemplateIncomeSource => ({
+        name: source.name,
+        description: source.description ?? undefined,
+        expected_amount: source.expected_amount === null || source.expected_amount === undefined
+          ? undefined
+          : Number(source.expected_amount),
+        schedule_type: source.schedule_type ?? undefined,
+        schedule_config: source.schedule_config ?? undefined,
+      })),
+    };
+  }
+
+  /**
+   * Check a template's structure and references before anything is written. Templates
+   * come from imported files, so nothing about them is trusted.
+   */
+  private parseTemplateContent(raw: any): BudgetTemplateContent {
+    if (!raw || typeof raw !== 'object') {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Template content is missing');
+    }
+    if (!Number.isInteger(raw.format_version) || raw.format_version < 1) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Template format_version is missing');
+    }
+    if (raw.format_version > BUDGET_TEMPLATE_FORMAT_VERSION) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        `Template format version ${raw.format_version} is newer than this app supports`
+      );
+    }
+    if (!Array.isArray(raw.categories) || !Array.isArray(raw.envelopes) || !Array.isArray(raw.income_sources)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Template must have categories, envelopes and income_sources lists');
+    }
+
+    const isName = (value: any) => typeof value === 'string' && value.trim().length > 0;
+
+    const categories = raw.categories as BudgetTemplateCategory[];
+    const keys = new Set<string>();
+    categories.forEach(category => {
+      if (!isName(category?.key) || !isName(category.name)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Every template category needs a key and a name');
+      }
+      if (keys.has(category.key)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Template category key ${category.key} is used more than once`);
+      }
+      keys.add(category.key);
+    });
+
+    const parentOf = new Map(categories.map(category => [category.key, category.parent_key]));
+    const scopedNames = new Set<string>();
+    categories.forEach(category => {
+      if (category.parent_key !== undefined && category.parent_key !== null && !keys.has(category.parent_key)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Category "${category.name}" has an unknown parent`);
+      }
+
+      const seen = new Set<string>();
+      let current: string | undefined = category.parent_key ?? undefined;
+      while (current) {
+        if (current === category.key || seen.has(current)) {
+          throw new ApiError(ErrorCode.VALIDATION_ERROR, `Category "${category.name}" is nested under itself`);
+        }
+        seen.add(current);
+        current = parentOf.get(current) ?? undefined;
+      }
+
+      const scopedName = `${category.parent_key ?? ''}:${nameKey(category.name)}`;
+      if (scopedNames.has(scopedName)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Category "${category.name}" appears twice under the same parent`);
+      }
+      scopedNames.add(scopedName);
+    });
+
+    const envelopeNames = new Set<string>();
+    const envelopes = (raw.envelopes as BudgetTemplateEnvelope[]).map(envelope => {
+      if (!isName(envelope?.name)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Every template envelope needs a name');
+      }
+      if (envelopeNames.has(nameKey(envelope.name))) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Envelope "${envelope.name}" appears twice in the template`);
+      }
+      envelopeNames.add(nameKey(envelope.name));
+
+      if (envelope.category_key !== undefined && envelope.category_key !== null && !keys.has(envelope.category_key)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Envelope "${envelope.name}" has an unknown category`);
+      }
+      const envelopeType = envelope.envelope_type ?? EnvelopeType.REGULAR;
+      if (!Object.values(EnvelopeType).includes(envelopeType)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Envelope "${envelope.name}" has an invalid envelope type`);
+      }
+      if (envelope.goal_type !== undefined && envelope.goal_type !== null && !Object.values(EnvelopeGoalType).includes(envelope.goal_type)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Envelope "${envelope.name}" has an invalid goal type`);
+      }
+
+      return { ...envelope, envelope_type: envelopeType };
+    });
+
+    const incomeSourceNames = new Set<string>();
+    (raw.income_sources as BudgetTemplateIncomeSource[]).forEach(source => {
+      if (!isName(source?.name)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Every template income source needs a name');
+      }
+      if (incomeSourceNames.has(nameKey(source.name))) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Income source "${source.name}" appears twice in the template`);
+      }
+      incomeSourceNames.add(nameKey(source.name));
+    });
+
+    return {
+      format_version: raw.format_version,
+      categories,
+      envelopes,
+      income_sources: raw.income_sources,
+    };
+  }
+
+  /**
+   * apply_budget_template writes everything in one transaction. In fail mode it
+   * writes nothing and returns the conflicts instead.
+   */
+  private async applyContent(
+    budgetId: string,
+    content: BudgetTemplateContent,
+    conflictMode: TemplateConflictMode
+  ): Promise<BudgetTemplateApplyResult> {
+    const { data, error } = await this.client.rpc('apply_budget_template', {
+      p_budget_id: budgetId,
+      p_template: content,
+      p_conflict_mode: conflictMode,
+    });
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return this.toApplyResult(data);
+  }
+
+  private toApplyResult(data: BudgetTemplateApplyResult & { conflicts?: BudgetTemplateConflict[] }): BudgetTemplateApplyResult {
+    const { conflicts, ...result } = data;
+
+    if (conflicts && conflicts.length > 0) {
+      throw new ApiError(
+        ErrorCode.CONFLICT,
+        `Template conflicts with existing items: ${conflicts.map(c => `${ITEM_LABELS[c.item_type]} "${c.name}"`).join(', ')}`,
+        { conflicts }
+      );
+    }
+
+    return result;
+  }
+
+  private async getOwnTemplate(id: string): Promise<BudgetTemplate> {
+    const template = await this.getTemplate(id);
+    const userId = await this.getCurrentUserId();
+
+    if (template.user_id !== userId) {
+      throw new ApiError(ErrorCode.FORBIDDEN, 'Only the owner can change a budget template');
+    }
+
+    return template;
+  }
+
+  private validateName(name: string | undefined): asserts name is string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Template name is required');
+    }
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { BaseService } from './base.service';
-import { Budget, BudgetCreateRequest, BudgetUpdateRequest, ApiError, ErrorCode, DEFAULT_CURRENCY } from '@nvlp/types';
+import { Budget, BudgetCreateRequest, BudgetUpdateRequest, BudgetCloneRequest, BudgetCloneMode, ApiError, ErrorCode, DEFAULT_CURRENCY } from '@nvlp/types';
 
 export class BudgetService extends BaseService {
   async listBudgets(): Promise<Budget[]> {
@@ -96,6 +96,48 @@ export class BudgetService extends BaseService {
     return data as Budget;
   }
 
+  /**
+   * Copy a budget into a new one. Structure mode copies categories, envelopes,
+   * payees, income sources, tags, plans, schedules and rules; balances mode also
+   * carries each envelope balance and the available amount over as opening balance
+   * transactions; full mode copies every transaction as well.
+   */
+  async cloneBudget(id: string, request: BudgetCloneRequest): Promise<Budget> {
+    await this.getBudget(id);
+
+    if (!request.name || request.name.trim().length === 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Budget name is required');
+    }
+
+    const mode = request.mode ?? BudgetCloneMode.STRUCTURE;
+    if (!Object.values(BudgetCloneMode).includes(mode)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Clone mode must be structure, balances or full');
+    }
+
+    if (request.as_of_date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(request.as_of_date)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'as_of_date must be in YYYY-MM-DD format');
+    }
+
+    const { data, error } = await this.client.rpc('clone_budget', {
+      p_budget_id: id,
+      p_name: request.name.trim(),
+      p_mode: mode,
+      ...(request.description !== undefined ? { p_description: request.description } : {}),
+      ...(request.as_of_date ? { p_as_of: request.as_of_date } : {}),
+    });
+
+    if (error || !data) {
+      // clone_budget raises check_violation with a message meant for the user,
+      // such as when the source budget is over-assigned
+      if (error?.code === '23514' && error.message) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+      }
+      this.handleError(error);
+    }
+
+    return data as Budget;
+  }
+
   async deleteBudget(id: string): Promise<void> {
     const userId = await this.getCurrentUserId();
 
@@ -1,7 +1,40 @@
 import { CachedBaseService } from './cached-base.service';
-import { Category, CategoryCreateRequest, CategoryUpdateRequest, CategoryReorderRequest, CategoryType, ApiError, ErrorCode } from '@nvlp/types';
+import {
+  Category,
+  CategoryCreateRequest,
+  CategoryUpdateRequest,
+  CategoryReorderRequest,
+  CategoryMoveRequest,
+  CategoryTotals,
+  CategoryTree,
+  CategoryTreeNode,
+  CategoryType,
+  EnvelopeType,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
 import { CACHE_NAMESPACE, CACHE_TTL, CACHE_INVALIDATION_GROUPS } from '../utils/cache';
 
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+interface EnvelopeRollupRow {
+  id: string;
+  category_id: string | null;
+  current_balance: number | string;
+  target_amount: number | string | null;
+  envelope_type: EnvelopeType;
+  is_active: boolean;
+}
+
+interface EnvelopeActivityRow {
+  envelope_id: string;
+  assigned: number | string;
+  spent: number | string;
+}
+
+// Totals are summed in cents and converted back once at the end
+type TotalsInCents = CategoryTotals;
+
 export class CategoryService extends CachedBaseService {
   async listCategories(budgetId: string): Promise<Category[]> {
     await this.verifyBudgetAccess(budgetId);
@@ -49,24 +82,8 @@ export class CategoryService extends CachedBaseService {
   async createCategory(budgetId: string, request: CategoryCreateRequest): Promise<Category> {
     await this.verifyBudgetAccess(budgetId);
 
-    // Validate single-level nesting
     if (request.parent_id) {
-      const { data: parentCategory, error: parentError } = await this.client
-        .from('categories')
-        .select('parent_id')
-        .eq('id', request.parent_id)
-        .single();
-
-      if (parentError) {
-        throw new ApiError(ErrorCode.NOT_FOUND, 'Parent category not found');
-      }
-
-      if (parentCategory.parent_id) {
-        throw new ApiError(
-          ErrorCode.VALIDATION_ERROR,
-          'Categories can only have one level of nesting. Parent category already has a parent.'
-        );
-      }
+      await this.validateParent(budgetId, request.parent_id);
     }
 
     // The database trigger will handle display_order assignment and shifting
@@ -88,7 +105,7 @@ export class CategoryService extends CachedBaseService {
       .single();
 
     if (error || !data) {
-      this.handleError(error);
+      this.handleCategoryWriteError(error);
     }
 
     // Invalidate category cache after creation
@@ -108,32 +125,24 @@ export class CategoryService extends CachedBaseService {
       );
     }
 
-    // Validate single-level nesting if parent_id is being changed
-    if (updates.parent_id) {
-      const { data: parentCategory, error: parentError } = await this.client
-        .from('categories')
-        .select('parent_id')
-        .eq('id', updates.parent_id)
-        .single();
-
-      if (parentError) {
-        throw new ApiError(ErrorCode.NOT_FOUND, 'Parent category not found');
-      }
+    // A new parent moves the whole subtree, so it goes through move_category to
+    // keep both sibling scopes in order. The other changes go in the same call.
+    const { parent_id: parentId, ...fields } = updates;
+    const isMoving = parentId !== undefined && (parentId ?? null) !== (category.parent_id ?? null);
 
-      if (parentCategory.parent_id) {
-        throw new ApiError(
-          ErrorCode.VALIDATION_ERROR,
-          'Categories can only have one level of nesting. Parent category already has a parent.'
-        );
-      }
+    if (isMoving) {
+      const { display_order: displayOrder, ...otherFields } = fields;
+      return this.moveSubtree(category, { parent_id: parentId ?? null, display_order: displayOrder }, otherFields);
     }
 
-    // The database trigger will handle display_order shifting when needed
+    if (Object.keys(fields).length === 0) {
+      return category;
+    }
 
     const { data, error } = await this.client
       .from('categories')
       .update({
-        ...updates,
+        ...fields,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
@@ -141,7 +150,7 @@ export class CategoryService extends CachedBaseService {
       .single();
 
     if (error || !data) {
-      this.handleError(error);
+      this.handleCategoryWriteError(error);
     }
 
     // Invalidate category cache after update
@@ -150,6 +159,47 @@ export class CategoryService extends CachedBaseService {
     return data as Category;
   }
 
+  /**
+   * Move a category and its subcategories under another parent, or to the top
+   * level when parentId is null. Without a display_order it goes after its new
+   * siblings.
+   */
+  async moveCategory(id: string, request: CategoryMoveRequest): Promise<Category> {
+    const category = await this.getCategory(id);
+    return this.moveSubtree(category, request);
+  }
+
+  private async moveSubtree(
+    category: Category,
+    request: CategoryMoveRequest,
+    fields: Omit<CategoryUpdateRequest, 'parent_id' | 'display_order'> = {}
+  ): Promise<Category> {
+    const parentId = request.parent_id ?? null;
+
+    if (request.display_order !== undefined && (!Number.isInteger(request.display_order) || request.display_order < 0)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Display order must be a non-negative integer');
+    }
+
+    if (parentId) {
+      await this.validateParent(category.budget_id, parentId, category.id);
+    }
+
+    const { data, error } = await this.client.rpc('move_category', {
+      p_category_id: category.id,
+      p_parent_id: parentId,
+      p_display_order: request.display_order ?? null,
+      p_fields: fields,
+    });
+
+    if (error || !data) {
+      this.handleCategoryWriteError(error);
+    }
+
+    this.invalidateRelatedCaches([...CACHE_INVALIDATION_GROUPS.CATEGORY_CHANGE]);
+
+    return data as Category;
+  }
+
   async deleteCategory(id: string): Promise<void> {
     const category = await this.getCategory(id); // Verify category exists and access
 
@@ -165,7 +215,7 @@ export class CategoryService extends CachedBaseService {
     const { data: subcategories, error: subError } = await this.client
       .from('categories')
       .select('id')
-      .eq('parent_category_id', id)
+      .eq('parent_id', id)
       .limit(1);
 
     if (subError) {
@@ -209,33 +259,195 @@ export class CategoryService extends CachedBaseService {
     return data as Category[];
   }
 
-  async getCategoryTree(budgetId: string): Promise<Category[]> {
+  /**
+   * Categories nested under their parents, ordered by display_order. Each node
+   * carries the totals of its own envelopes and rolled-up totals for its whole
+   * subtree; assigned and spent cover the given month (YYYY-MM, defaults to the
+   * current month).
+   */
+  async getCategoryTree(budgetId: string, month?: string): Promise<CategoryTree> {
+    const periodMonth = month ?? new Date().toISOString().slice(0, 7);
+    if (!MONTH_PATTERN.test(periodMonth)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Month must be in YYYY-MM format');
+    }
+
     const categories = await this.listCategories(budgetId);
-    
-    // Build tree structure
-    const categoryMap = new Map<string, Category & { children?: Category[] }>();
-    const rootCategories: (Category & { children?: Category[] })[] = [];
+    const periodStart = `${periodMonth}-01`;
+    const [year, monthNumber] = periodMonth.split('-').map(Number);
+    const periodEnd = new Date(Date.UTC(year, monthNumber, 0)).toISOString().split('T')[0];
 
-    // First pass: create map
-    categories.forEach(cat => {
-      categoryMap.set(cat.id, { ...cat, children: [] });
-    });
+    const [envelopesResult, activityResult] = await Promise.all([
+      this.client
+        .from('envelopes')
+        .select('id, category_id, current_balance, target_amount, envelope_type, is_active')
+        .eq('budget_id', budgetId),
+      this.client.rpc('get_envelope_activity', {
+        p_budget_id: budgetId,
+        p_from: periodStart,
+        p_to: periodEnd,
+      }),
+    ]);
+
+    if (envelopesResult.error) {
+      this.handleError(envelopesResult.error);
+    }
+    if (activityResult.error) {
+      this.handleError(activityResult.error);
+    }
 
-    // Second pass: build tree
-    categories.forEach(cat => {
-      const category = categoryMap.get(cat.id)!;
-      if (cat.parent_id) {
-        const parent = categoryMap.get(cat.parent_id);
-        if (parent) {
-          parent.children = parent.children || [];
-          parent.children.push(category);
+    const activity = new Map<string, EnvelopeActivityRow>();
+    ((activityResult.data || []) as EnvelopeActivityRow[]).forEach(row => activity.set(row.envelope_id, row));
+
+    // Own totals per category; the '' key collects envelopes without a category
+    const ownTotals = new Map<string, TotalsInCents>();
+    ((envelopesResult.data || []) as EnvelopeRollupRow[]).forEach(envelope => {
+      const key = envelope.category_id ?? '';
+      const totals = ownTotals.get(key) ?? this.emptyTotals();
+      const envelopeActivity = activity.get(envelope.id);
+
+      // Inactive (including archived) envelopes only count toward the month's activity,
+      // matching the cached categories.total
+      if (envelope.is_active) {
+        totals.envelope_count += 1;
+        totals.balance += this.toCents(envelope.current_balance);
+        if (envelope.envelope_type !== EnvelopeType.DEBT) {
+          totals.target_amount += this.toCents(envelope.target_amount);
         }
+      }
+      totals.assigned += this.toCents(envelopeActivity?.assigned);
+      totals.spent += this.toCents(envelopeActivity?.spent);
+
+      ownTotals.set(key, totals);
+    });
+
+    const childrenOf = new Map<string, Category[]>();
+    const roots: Category[] = [];
+    const ids = new Set(categories.map(category => category.id));
+    categories.forEach(category => {
+      // A category whose parent can't be seen is shown at the top level
+      if (category.parent_id && ids.has(category.parent_id)) {
+        const siblings = childrenOf.get(category.parent_id) ?? [];
+        siblings.push(category);
+        childrenOf.set(category.parent_id, siblings);
       } else {
-        rootCategories.push(category);
+        roots.push(category);
       }
     });
 
-    return rootCategories;
+    const byDisplayOrder = (a: Category, b: Category) =>
+      a.display_order - b.display_order || a.name.localeCompare(b.name);
+
+    // Subtree totals in cents, kept beside the nodes so parents add exact amounts
+    const rolledUpTotals = new Map<string, TotalsInCents>();
+
+    const buildNode = (category: Category, depth: number, path: Set<string>): CategoryTreeNode => {
+      const own = ownTotals.get(category.id) ?? this.emptyTotals();
+      const rolledUp = { ...own };
+      const children = (childrenOf.get(category.id) ?? [])
+        .filter(child => !path.has(child.id))
+        .sort(byDisplayOrder)
+        .map(child => buildNode(child, depth + 1, new Set(path).add(child.id)));
+
+      children.forEach(child => this.addTotals(rolledUp, rolledUpTotals.get(child.id)!));
+      rolledUpTotals.set(category.id, rolledUp);
+
+      return {
+        ...category,
+        depth,
+        own_totals: this.fromCents(own),
+        totals: this.fromCents(rolledUp),
+        children,
+      };
+    };
+
+    const tree = roots.sort(byDisplayOrder).map(root => buildNode(root, 0, new Set([root.id])));
+    const uncategorized = ownTotals.get('') ?? this.emptyTotals();
+    const totals = { ...uncategorized };
+    tree.forEach(node => this.addTotals(totals, rolledUpTotals.get(node.id)!));
+
+    return {
+      budget_id: budgetId,
+      period_start: periodStart,
+      period_end: periodEnd,
+      categories: tree,
+      uncategorized: this.fromCents(uncategorized),
+      totals: this.fromCents(totals),
+    };
+  }
+
+  /**
+   * The parent must be a category in the same budget and, when moving an existing
+   * category, must not be that category or one of its subcategories
+   */
+  private async validateParent(budgetId: string, parentId: string, categoryId?: string): Promise<void> {
+    const { data, error } = await this.client
+      .from('categories')
+      .select('id, parent_id')
+      .eq('budget_id', budgetId);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const parents = new Map<string, string | null>();
+    (data || []).forEach((category: { id: string; parent_id: string | null }) => {
+      parents.set(category.id, category.parent_id);
+    });
+
+    if (!parents.has(parentId)) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Parent category not found');
+    }
+
+    if (!categoryId) {
+      return;
+    }
+
+    const seen = new Set<string>();
+    let current: string | null | undefined = parentId;
+    while (current && !seen.has(current)) {
+      if (current === categoryId) {
+        throw new ApiError(
+          ErrorCode.VALIDATION_ERROR,
+          'A category cannot be moved under itself or one of its subcategories'
+        );
+      }
+      seen.add(current);
+      current = parents.get(current);
+    }
+  }
+
+  private handleCategoryWriteError(error: any): never {
+    // Parent checks in the database trigger, for writes that race the checks above
+    if (error?.code === '23514' && error.message) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+    }
+    this.handleError(error);
+  }
+
+  private emptyTotals(): TotalsInCents {
+    return { envelope_count: 0, balance: 0, target_amount: 0, assigned: 0, spent: 0 };
+  }
+
+  private addTotals(target: TotalsInCents, source: TotalsInCents): void {
+    target.envelope_count += source.envelope_count;
+    target.balance += source.balance;
+    target.target_amount += source.target_amount;
+    target.assigned += source.assigned;
+    target.spent += source.spent;
+  }
+
+  private fromCents(totals: TotalsInCents): CategoryTotals {
+    return {
+      envelope_count: totals.envelope_count,
+      balance: totals.balance / 100,
+      target_amount: totals.target_amount / 100,
+      assigned: totals.assigned / 100,
+      spent: totals.spent / 100,
+    };
+  }
+
+  private toCents(value: number | string | null | undefined): number {
+    return Math.round(Number(value ?? 0) * 100);
   }
 
   private async verifyBudgetAccess(budgetId: string): Promise<void> {
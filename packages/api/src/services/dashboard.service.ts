@@ -1,7 +1,12 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import { Database, DashboardSummary, SpendingStats, SpendingByCategory, SpendingByTime, IncomeStats, IncomeBySource, IncomeByTime, SpendingTrends, TrendData, CategoryTrend, ApiError, ErrorCode, Envelope, Transaction } from '@nvlp/types';
+import { Database, DashboardSummary, SpendingStats, SpendingByCategory, SpendingByTag, SpendingByTime, IncomeStats, IncomeBySource, IncomeByTime, SpendingTrends, TrendData, CategoryTrend, CashFlowTimeline, CashFlowDay, ApiError, ErrorCode, Envelope, EnvelopeGoalProgress, Transaction } from '@nvlp/types';
 import { CachedBaseService } from './cached-base.service';
 import { CACHE_NAMESPACE, CACHE_TTL } from '../utils/cache';
+import { summarizeGoalProgress } from '../utils/envelope-goals';
+import { convertAmount } from '../utils/exchange-rates';
+import { ExchangeRateService } from './exchange-rate.service';
+
+const MAX_CASH_FLOW_DAYS = 366;
 
 export class DashboardService extends CachedBaseService {
   constructor(client: SupabaseClient<Database>) {
@@ -20,7 +25,7 @@ export class DashboardService extends CachedBaseService {
 
       const { data: budget, error: budgetError } = await this.client
         .from('budgets')
-        .select('available_amount')
+        .select('available_amount, currency')
         .eq('id', budgetId)
         .eq('user_id', userId)
         .single();
@@ -39,11 +44,12 @@ export class DashboardService extends CachedBaseService {
         recentTransactionsResult,
         unclearedTransactionsResult,
         monthlySpendingResult,
-        monthlyIncomeResult
+        monthlyIncomeResult,
+        goalProgressResult
       ] = await Promise.all([
         this.client
           .from('envelopes')
-          .select('current_balance')
+          .select('id, current_balance, currency')
           .eq('budget_id', budgetId)
           .eq('is_active', true),
 
@@ -61,6 +67,7 @@ export class DashboardService extends CachedBaseService {
           .select('*')
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
+          .eq('status', 'posted')
           .order('created_at', { ascending: false })
           .limit(10),
 
@@ -76,6 +83,7 @@ export class DashboardService extends CachedBaseService {
           .select('amount')
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
+          .eq('status', 'posted')
           .in('transaction_type', ['expense', 'debt_payment'])
           .gte('transaction_date', monthStart.toISOString().split('T')[0])
           .lte('transaction_date', monthEnd.toISOString().split('T')[0]),
@@ -85,9 +93,12 @@ export class DashboardService extends CachedBaseService {
           .select('amount')
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
+          .eq('status', 'posted')
           .eq('transaction_type', 'income')
           .gte('transaction_date', monthStart.toISOString().split('T')[0])
-          .lte('transaction_date', monthEnd.toISOString().split('T')[0])
+          .lte('transaction_date', monthEnd.toISOString().split('T')[0]),
+
+        this.client.rpc('get_envelope_goal_progress', { p_budget_id: budgetId })
       ]);
 
       if (envelopesResult.error) this.handleError(envelopesResult.error);
@@ -96,11 +107,33 @@ export class DashboardService extends CachedBaseService {
       if (unclearedTransactionsResult.error) this.handleError(unclearedTransactionsResult.error);
       if (monthlySpendingResult.error) this.handleError(monthlySpendingResult.error);
       if (monthlyIncomeResult.error) this.handleError(monthlyIncomeResult.error);
-
-      const totalEnvelopeBalance = envelopesResult.data?.reduce(
-        (sum, envelope) => sum + envelope.current_balance, 
+      if (goalProgressResult.error) this.handleError(goalProgressResult.error);
+
+      // Envelopes kept in another currency are converted at today's rate
+      const envelopes = envelopesResult.data || [];
+      const rates = await new ExchangeRateService(this.client).getRatesTo(
+        budget.currency,
+        envelopes.map(envelope => envelope.currency)
+      );
+      const rateFor = (envelopeId: string) =>
+        rates.get(envelopes.find(envelope => envelope.id === envelopeId)?.currency ?? budget.currency) ?? 1;
+
+      const totalEnvelopeBalance = envelopes.reduce(
+        (sum, envelope) => sum + Math.round(convertAmount(envelope.current_balance, rateFor(envelope.id)) * 100),
         0
-      ) || 0;
+      ) / 100;
+
+      const goalProgress = (goalProgressResult.data as EnvelopeGoalProgress[] || []).map(progress => {
+        const rate = rateFor(progress.envelope_id);
+        return rate === 1 ? progress : {
+          ...progress,
+          target_amount: convertAmount(progress.target_amount, rate),
+          current_balance: convertAmount(progress.current_balance, rate),
+          funded_this_period: convertAmount(progress.funded_this_period, rate),
+          required_this_period: convertAmount(progress.required_this_period, rate),
+          underfunded_amount: convertAmount(progress.underfunded_amount, rate)
+        };
+      });
 
       const monthToDateSpending = monthlySpendingResult.data?.reduce(
         (sum, transaction) => sum + transaction.amount, 
@@ -113,16 +146,18 @@ export class DashboardService extends CachedBaseService {
       ) || 0;
 
       return {
+        currency: budget.currency,
         available_amount: budget.available_amount,
         total_envelope_balance: totalEnvelopeBalance,
-        envelope_count: envelopesResult.data?.length || 0,
+        envelope_count: envelopes.length,
         negative_envelope_count: negativeEnvelopesResult.data?.length || 0,
         recent_transactions_count: recentTransactionsResult.data?.length || 0,
         uncleared_transactions_count: unclearedTransactionsResult.data?.length || 0,
         month_to_date_spending: monthToDateSpending,
         month_to_date_income: monthToDateIncome,
         negative_envelopes: negativeEnvelopesResult.data as Envelope[] || [],
-        recent_transactions: recentTransactionsResult.data as Transaction[] || []
+        recent_transactions: recentTransactionsResult.data as Transaction[] || [],
+        goal_summary: summarizeGoalProgress(goalProgress)
       };
       })
     );
@@ -162,7 +197,8 @@ export class DashboardService extends CachedBaseService {
           .select(`
             amount,
             category_id,
-            categories!category_id(name)
+            categories!category_id(name),
+            tags(id, name)
           `)
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
@@ -185,6 +221,7 @@ export class DashboardService extends CachedBaseService {
       if (timeSpendingResult.error) this.handleError(timeSpendingResult.error);
 
       const categoryMap = new Map<string, { name: string; total: number; count: number }>();
+      const tagMap = new Map<string, { name: string; total: number; count: number }>();
       let totalSpending = 0;
 
       categorySpendingResult.data?.forEach(transaction => {
@@ -203,6 +240,20 @@ export class DashboardService extends CachedBaseService {
             count: 1
           });
         }
+
+        ((transaction as any).tags || []).forEach((tag: { id: string; name: string }) => {
+          const existingTag = tagMap.get(tag.id);
+          if (existingTag) {
+            existingTag.total += transaction.amount;
+            existingTag.count += 1;
+          } else {
+            tagMap.set(tag.id, {
+              name: tag.name,
+              total: transaction.amount,
+              count: 1
+            });
+          }
+        });
       });
 
       const byCategory: SpendingByCategory[] = Array.from(categoryMap.entries()).map(([id, data]) => ({
@@ -212,6 +263,13 @@ export class DashboardService extends CachedBaseService {
         transaction_count: data.count
       })).sort((a, b) => b.total_amount - a.total_amount);
 
+      const byTag: SpendingByTag[] = Array.from(tagMap.entries()).map(([id, data]) => ({
+        tag_id: id,
+        tag_name: data.name,
+        total_amount: data.total,
+        transaction_count: data.count
+      })).sort((a, b) => b.total_amount - a.total_amount);
+
       const timeMap = new Map<string, { total: number; count: number }>();
       
       timeSpendingResult.data?.forEach(transaction => {
@@ -253,6 +311,7 @@ export class DashboardService extends CachedBaseService {
         period_start: startDate,
         period_end: endDate,
         by_category: byCategory,
+        by_tag: byTag,
         by_time: byTime
       };
       })
@@ -589,4 +648,76 @@ export class DashboardService extends CachedBaseService {
       };
     });
   }
+
+  /**
+   * Projected balance for each of the next `days` days from expected income, unpaid
+   * bills, scheduled transactions and average spending
+   */
+  async getCashFlowTimeline(budgetId: string, days: number = 90, startDate?: string): Promise<CashFlowTimeline> {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_CASH_FLOW_DAYS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `days must be a whole number from 1 to ${MAX_CASH_FLOW_DAYS}`);
+    }
+    if (startDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'startDate must be in YYYY-MM-DD format');
+    }
+
+    return this.withRetry(async () => {
+      const userId = await this.getCurrentUserId();
+
+      const { data: budget, error: budgetError } = await this.client
+        .from('budgets')
+        .select('currency')
+        .eq('id', budgetId)
+        .eq('user_id', userId)
+        .single();
+
+      if (budgetError) {
+        this.handleError(budgetError);
+      }
+
+      const { data, error } = await this.client.rpc('get_cash_flow_timeline', {
+        p_budget_id: budgetId,
+        p_days: days,
+        ...(startDate !== undefined ? { p_start: startDate } : {})
+      });
+
+      if (error) {
+        if (error.code === '23514' && error.message) {
+          throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+        }
+        this.handleError(error);
+      }
+
+      const timeline: CashFlowDay[] = ((data || []) as any[]).map(row => ({
+        date: row.day,
+        opening_balance: Number(row.opening_balance),
+        income: Number(row.income),
+        bills: Number(row.bills),
+        scheduled: Number(row.scheduled),
+        average_spending: Number(row.average_spending),
+        net_flow: Number(row.net_flow),
+        projected_balance: Number(row.projected_balance),
+        is_negative: row.is_negative,
+        events: (row.events || []).map((event: any) => ({ ...event, amount: Number(event.amount) }))
+      }));
+
+      const lowest = timeline.reduce<CashFlowDay | undefined>(
+        (min, day) => (!min || day.projected_balance < min.projected_balance ? day : min),
+        undefined
+      );
+
+      const firstDate = startDate ?? new Date().toISOString().split('T')[0];
+
+      return {
+        currency: budget.currency,
+        start_date: timeline[0]?.date ?? firstDate,
+        end_date: timeline[timeline.length - 1]?.date ?? firstDate,
+        starting_balance: timeline[0]?.opening_balance ?? 0,
+        lowest_balance: lowest?.projected_balance ?? 0,
+        lowest_balance_date: lowest?.date ?? firstDate,
+        negative_days: timeline.filter(day => day.is_negative).map(day => day.date),
+        days: timeline
+      };
+    });
+  }
 }
\ No newline at end of file
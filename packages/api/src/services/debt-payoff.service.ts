@@ -0,0 +1,167 @@
+import { BaseService } from './base.service';
+import {
+  DebtPayoffDebt,
+  DebtPayoffPlan,
+  DebtPayoffRequest,
+  DebtPayoffStrategy,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+import { simulateDebtPayoff } from '../utils/debt-payoff';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export class DebtPayoffService extends BaseService {
+  /**
+   * Debt envelopes that still owe something, each with the terms of its debt
+   * payee. An envelope is matched to the debt payee it was most recently paid to,
+   * or else to a debt payee with the same name.
+   */
+  async getDebts(budgetId: string): Promise<DebtPayoffDebt[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const [envelopesResult, payeesResult] = await Promise.all([
+      this.client
+        .from('envelopes')
+        .select('id, name, target_amount')
+        .eq('budget_id', budgetId)
+        .eq('envelope_type', 'debt')
+        .eq('is_archived', false)
+        .gt('target_amount', 0)
+        .order('name', { ascending: true }),
+      this.client
+        .from('payees')
+        .select('id, name, interest_rate, minimum_payment, due_date')
+        .eq('budget_id', budgetId)
+        .eq('payee_type', 'debt')
+        .eq('is_active', true),
+    ]);
+
+    if (envelopesResult.error) {
+      this.handleError(envelopesResult.error);
+    }
+    if (payeesResult.error) {
+      this.handleError(payeesResult.error);
+    }
+
+    const envelopes = envelopesResult.data || [];
+    const payees = payeesResult.data || [];
+
+    // Latest payment from each debt envelope to a debt payee
+    const paidTo = new Map<string, string>();
+    if (envelopes.length > 0 && payees.length > 0) {
+      const { data: payments, error } = await this.client
+        .from('transactions')
+        .select('from_envelope_id, payee_id')
+        .eq('budget_id', budgetId)
+        .eq('is_deleted', false)
+        .in('from_envelope_id', envelopes.map(envelope => envelope.id))
+        .in('payee_id', payees.map(payee => payee.id))
+        .order('transaction_date', { ascending: false });
+
+      if (error) {
+        this.handleError(error);
+      }
+
+      (payments || []).forEach(payment => {
+        if (!paidTo.has(payment.from_envelope_id)) {
+          paidTo.set(payment.from_envelope_id, payment.payee_id);
+        }
+      });
+    }
+
+    return envelopes.map(envelope => {
+      const payee = payees.find(p => p.id === paidTo.get(envelope.id))
+        ?? payees.find(p => p.name.trim().toLowerCase() === envelope.name.trim().toLowerCase());
+
+      return {
+        envelope_id: envelope.id,
+        name: envelope.name,
+        payee_id: payee?.id,
+        balance: Number(envelope.target_amount),
+        interest_rate: Number(payee?.interest_rate ?? 0),
+        minimum_payment: Number(payee?.minimum_payment ?? 0),
+        due_date: payee?.due_date ?? undefined,
+      };
+    });
+  }
+
+  async planPayoff(budgetId: string, request: DebtPayoffRequest): Promise<DebtPayoffPlan> {
+    if (!Object.values(DebtPayoffStrategy).includes(request.strategy)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid payoff strategy');
+    }
+    if (request.strategy === DebtPayoffStrategy.CUSTOM && !request.custom_order?.length) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'custom_order is required for the custom strategy');
+    }
+
+    const debts = await this.getDebts(budgetId);
+    return this.simulate(debts, request);
+  }
+
+  /**
+   * Snowball and avalanche plans for the same debts and extra payment, plus a
+   * custom plan when custom_order is given
+   */
+  async comparePayoffStrategies(budgetId: string, request: Omit<DebtPayoffRequest, 'strategy'> = {}): Promise<DebtPayoffPlan[]> {
+    const debts = await this.getDebts(budgetId);
+    const strategies = [DebtPayoffStrategy.SNOWBALL, DebtPayoffStrategy.AVALANCHE];
+    if (request.custom_order?.length) {
+      strategies.push(DebtPayoffStrategy.CUSTOM);
+    }
+
+    return strategies.map(strategy => this.simulate(debts, { ...request, strategy }));
+  }
+
+  private simulate(debts: DebtPayoffDebt[], request: DebtPayoffRequest): DebtPayoffPlan {
+    const extra = request.extra_monthly_payment ?? 0;
+    if (typeof extra !== 'number' || !Number.isFinite(extra) || extra < 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Extra monthly payment cannot be negative');
+    }
+
+    if (request.start_month !== undefined && !MONTH_PATTERN.test(request.start_month)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Start month must be in YYYY-MM format');
+    }
+
+    const unknown = (request.custom_order || []).find(id => !debts.some(debt => debt.envelope_id === id));
+    if (unknown) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Envelope ${unknown} is not a debt envelope with a balance owed`);
+    }
+
+    if (debts.length > 0 && extra === 0 && debts.every(debt => debt.minimum_payment <= 0)) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        'Set minimum payments on the debt payees or add an extra monthly payment'
+      );
+    }
+
+    return simulateDebtPayoff(debts, {
+      strategy: request.strategy,
+      extra_monthly_payment: extra,
+      custom_order: request.custom_order,
+      start_month: request.start_month ?? this.nextMonth(),
+    });
+  }
+
+  private nextMonth(): string {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString().slice(0, 7);
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
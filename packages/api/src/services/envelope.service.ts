@@ -1,5 +1,9 @@
 import { BaseService } from './base.service';
-import { Envelope, EnvelopeCreateRequest, EnvelopeUpdateRequest, EnvelopeReorderRequest, EnvelopeType, ApiError, ErrorCode } from '@nvlp/types';
+import { Envelope, EnvelopeCreateRequest, EnvelopeUpdateRequest, EnvelopeReorderRequest, EnvelopeProjectedBalance, EnvelopeGoalProgress, EnvelopeGoalSummary, EnvelopeGoalType, EnvelopeType, SavingsProjection, SavingsProjectionMonth, SUPPORTED_CURRENCIES, ApiError, ErrorCode } from '@nvlp/types';
+import { summarizeGoalProgress } from '../utils/envelope-goals';
+import { UNLOCK_RECONCILED_HEADER } from '../utils/postgrest-headers';
+
+const MAX_PROJECTION_MONTHS = 120;
 
 export class EnvelopeService extends BaseService {
   
@@ -27,14 +31,19 @@ export class EnvelopeService extends BaseService {
       });
     });
   }
-  async listEnvelopes(budgetId: string): Promise<Envelope[]> {
+  async listEnvelopes(budgetId: string, includeArchived = false): Promise<Envelope[]> {
     await this.verifyBudgetAccess(budgetId);
 
-    const { data, error } = await this.client
+    let query = this.client
       .from('envelopes')
       .select('*')
-      .eq('budget_id', budgetId)
-      .order('name', { ascending: true });
+      .eq('budget_id', budgetId);
+
+    if (!includeArchived) {
+      query = query.eq('is_archived', false);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
 
     if (error) {
       this.handleError(error);
@@ -63,6 +72,14 @@ export class EnvelopeService extends BaseService {
 
   async createEnvelope(budgetId: string, request: EnvelopeCreateRequest): Promise<Envelope> {
     await this.verifyBudgetAccess(budgetId);
+    this.validateGoal({
+      goal_type: request.goal_type,
+      target_amount: request.target_amount,
+      target_date: request.target_date,
+      envelope_type: request.envelope_type || EnvelopeType.REGULAR,
+    });
+    this.validateApy(request.apy, request.envelope_type || EnvelopeType.REGULAR);
+    this.validateCurrency(request.currency);
 
     // Get next display_order if not provided
     let displayOrder = request.display_order;
@@ -79,11 +96,16 @@ export class EnvelopeService extends BaseService {
         name: request.name,
         description: request.description,
         target_amount: request.target_amount,
+        goal_type: request.goal_type,
+        target_date: request.target_date,
         envelope_type: request.envelope_type || EnvelopeType.REGULAR,
         category_id: request.category_id,
         display_order: displayOrder || 0,
         notify_on_low_balance: request.notify_on_low_balance ?? false,
         low_balance_threshold: request.low_balance_threshold,
+        apy: request.apy,
+        interest_income_source_id: request.interest_income_source_id,
+        currency: request.currency,
       })
       .select()
       .single();
@@ -97,6 +119,17 @@ export class EnvelopeService extends BaseService {
 
   async updateEnvelope(id: string, updates: EnvelopeUpdateRequest): Promise<Envelope> {
     const envelope = await this.getEnvelope(id);
+    this.validateGoal({
+      goal_type: updates.goal_type !== undefined ? updates.goal_type : envelope.goal_type,
+      target_amount: updates.target_amount !== undefined ? updates.target_amount : envelope.target_amount,
+      target_date: updates.target_date !== undefined ? updates.target_date : envelope.target_date,
+      envelope_type: updates.envelope_type ?? envelope.envelope_type,
+    });
+    this.validateApy(
+      updates.apy !== undefined ? updates.apy : envelope.apy,
+      updates.envelope_type ?? envelope.envelope_type
+    );
+    this.validateCurrency(updates.currency);
 
     const { data, error } = await this.client
       .from('envelopes')
@@ -109,6 +142,10 @@ export class EnvelopeService extends BaseService {
       .single();
 
     if (error || !data) {
+      // Raised when the currency changes on an envelope that has transactions
+      if (error?.code === '23514' && error.message) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+      }
       this.handleError(error);
     }
 
@@ -131,8 +168,105 @@ export class EnvelopeService extends BaseService {
       .eq('id', id);
 
     if (error) {
+      // Transactions reference the envelope with ON DELETE RESTRICT
+      if (error.code === '23503') {
+        throw new ApiError(
+          ErrorCode.CONFLICT,
+          'Envelope has transactions; archive it or merge it into another envelope instead'
+        );
+      }
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Hide an envelope with a zero balance and close it to new transactions,
+   * keeping its history. Schedules and rules that use it are deactivated.
+   */
+  async archiveEnvelope(id: string): Promise<Envelope> {
+    const envelope = await this.getEnvelope(id);
+
+    if (envelope.current_balance !== 0) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        'Only envelopes with a zero balance can be archived; move or merge the remaining balance first'
+      );
+    }
+
+    const { data, error } = await this.client.rpc('archive_envelope', {
+      p_envelope_id: id,
+    });
+
+    if (error) {
+      if (error.code === '23514' && error.message) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+      }
+      this.handleError(error);
+    }
+
+    return data as Envelope;
+  }
+
+  async unarchiveEnvelope(id: string): Promise<Envelope> {
+    await this.getEnvelope(id);
+
+    const { data, error } = await this.client
+      .from('envelopes')
+      .update({
+        is_archived: false,
+        archived_at: null,
+        is_active: true,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as Envelope;
+  }
+
+  /**
+   * Move every transaction and the balance of sourceId into targetId, then delete
+   * sourceId. Transfers between the two are removed, which for reconciled transfers
+   * needs unlockReconciled. Returns the target envelope.
+   */
+  async mergeEnvelopes(sourceId: string, targetId: string, unlockReconciled = false): Promise<Envelope> {
+    if (sourceId === targetId) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'An envelope cannot be merged into itself');
+    }
+
+    const source = await this.getEnvelope(sourceId);
+    const target = await this.getEnvelope(targetId);
+
+    if (source.budget_id !== target.budget_id) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Envelopes must belong to the same budget');
+    }
+    if (target.is_archived) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Cannot merge into an archived envelope');
+    }
+
+    let query = this.client.rpc('merge_envelopes', {
+      p_source_id: sourceId,
+      p_target_id: targetId,
+    });
+    if (unlockReconciled) {
+      query = query.setHeader(UNLOCK_RECONCILED_HEADER, 'true');
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (error.code === '23514' && error.message) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+      }
       this.handleError(error);
     }
+
+    return data as Envelope;
   }
 
   async getEnvelopesByCategory(budgetId: string, categoryId: string): Promise<Envelope[]> {
@@ -177,6 +311,7 @@ export class EnvelopeService extends BaseService {
       .select('*')
       .eq('budget_id', budgetId)
       .eq('notify_on_low_balance', true)
+      .eq('is_archived', false)
       .filter('low_balance_threshold', 'not.is', null);
 
     if (error) {
@@ -187,6 +322,211 @@ export class EnvelopeService extends BaseService {
     return envelopes.filter(e => e.current_balance <= (e.low_balance_threshold || 0));
   }
 
+  /**
+   * Envelope balances as they will be once scheduled transactions post,
+   * optionally counting only those dated on or before throughDate
+   */
+  async getProjectedBalances(budgetId: string, throughDate?: string): Promise<EnvelopeProjectedBalance[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client.rpc('get_projected_envelope_balances', {
+      p_budget_id: budgetId,
+      p_through_date: throughDate ?? null,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as EnvelopeProjectedBalance[];
+  }
+
+  async getProjectedBalance(id: string, throughDate?: string): Promise<EnvelopeProjectedBalance> {
+    const envelope = await this.getEnvelope(id);
+    const balances = await this.getProjectedBalances(envelope.budget_id, throughDate);
+    const balance = balances.find(b => b.envelope_id === id);
+
+    if (!balance) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope not found');
+    }
+
+    return balance;
+  }
+
+  /**
+   * Progress toward each active envelope goal for the month containing asOf
+   * (defaults to today)
+   */
+  async getGoalProgress(budgetId: string, asOf?: string): Promise<EnvelopeGoalProgress[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client.rpc('get_envelope_goal_progress', {
+      p_budget_id: budgetId,
+      ...(asOf ? { p_as_of: asOf } : {}),
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as EnvelopeGoalProgress[];
+  }
+
+  async getEnvelopeGoalProgress(id: string, asOf?: string): Promise<EnvelopeGoalProgress> {
+    const envelope = await this.getEnvelope(id);
+
+    if (!envelope.goal_type) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope has no goal');
+    }
+
+    const progress = await this.getGoalProgress(envelope.budget_id, asOf);
+    const goal = progress.find(p => p.envelope_id === id);
+
+    if (!goal) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope has no active goal');
+    }
+
+    return goal;
+  }
+
+  /**
+   * Budget-wide goal totals; underfunded_amount is what still needs to be
+   * assigned this month
+   */
+  async getGoalSummary(budgetId: string, asOf?: string): Promise<EnvelopeGoalSummary> {
+    return summarizeGoalProgress(await this.getGoalProgress(budgetId, asOf));
+  }
+
+  /**
+   * Month-by-month balance of each savings envelope, starting with the current
+   * month: scheduled contributions plus interest compounded monthly from the APY
+   */
+  async getSavingsProjection(budgetId: string, months = 12): Promise<SavingsProjection[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    if (!Number.isInteger(months) || months < 1 || months > MAX_PROJECTION_MONTHS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Months must be between 1 and ${MAX_PROJECTION_MONTHS}`);
+    }
+
+    const { data, error } = await this.client.rpc('get_savings_projection', {
+      p_budget_id: budgetId,
+      p_months: months,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const rows = data as (SavingsProjectionMonth & { envelope_id: string })[] || [];
+    const envelopeIds = Array.from(new Set(rows.map(row => row.envelope_id)));
+
+    return envelopeIds.map(envelopeId => {
+      const envelopeMonths = rows
+        .filter(row => row.envelope_id === envelopeId)
+        .map(({ envelope_id, ...month }) => month);
+      const sumCents = (pick: (month: SavingsProjectionMonth) => number) =>
+        envelopeMonths.reduce((total, month) => total + Math.round(Number(pick(month)) * 100), 0) / 100;
+
+      return {
+        envelope_id: envelopeId,
+        current_balance: envelopeMonths[0].opening_balance,
+        total_contributions: sumCents(month => month.contributions),
+        total_interest: sumCents(month => month.interest),
+        projected_balance: envelopeMonths[envelopeMonths.length - 1].projected_balance,
+        months: envelopeMonths,
+      };
+    });
+  }
+
+  async getEnvelopeSavingsProjection(id: string, months = 12): Promise<SavingsProjection> {
+    const envelope = await this.getEnvelope(id);
+
+    if (envelope.envelope_type !== EnvelopeType.SAVINGS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Only savings envelopes have a savings projection');
+    }
+
+    const projections = await this.getSavingsProjection(envelope.budget_id, months);
+    const projection = projections.find(p => p.envelope_id === id);
+
+    if (!projection) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope not found');
+    }
+
+    return projection;
+  }
+
+  /**
+   * Post interest on savings envelopes with an APY for each month that has ended
+   * since it was last posted. Returns the number of postings.
+   */
+  async postSavingsInterest(budgetId: string, asOf?: string): Promise<number> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client.rpc('post_savings_interest', {
+      p_budget_id: budgetId,
+      ...(asOf ? { p_as_of: asOf } : {}),
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as number;
+  }
+
+  private validateApy(apy: number | null | undefined, envelopeType: EnvelopeType): void {
+    if (apy == null) {
+      return;
+    }
+
+    if (envelopeType !== EnvelopeType.SAVINGS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Only savings envelopes can earn interest');
+    }
+
+    if (typeof apy !== 'number' || !Number.isFinite(apy) || apy < 0 || apy > 100) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'APY must be between 0 and 100');
+    }
+  }
+
+  // Null and undefined both leave the envelope in the budget currency
+  private validateCurrency(currency: string | null | undefined): void {
+    if (currency == null) {
+      return;
+    }
+
+    if (!(SUPPORTED_CURRENCIES as readonly string[]).includes(currency)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Unsupported currency');
+    }
+  }
+
+  private validateGoal(goal: {
+    goal_type?: EnvelopeGoalType | null;
+    target_amount?: number | null;
+    target_date?: string | null;
+    envelope_type: EnvelopeType;
+  }): void {
+    if (!goal.goal_type) {
+      return;
+    }
+
+    if (!Object.values(EnvelopeGoalType).includes(goal.goal_type)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid goal type');
+    }
+
+    // Debt envelopes use target_amount for the amount owed
+    if (goal.envelope_type === EnvelopeType.DEBT) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Debt envelopes cannot have a funding goal');
+    }
+
+    if (goal.target_amount == null || goal.target_amount <= 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Goal target amount must be greater than zero');
+    }
+
+    if (goal.goal_type === EnvelopeGoalType.TARGET_BY_DATE && !goal.target_date) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Target date is required for target_by_date goals');
+    }
+  }
+
   private async verifyBudgetAccess(budgetId: string): Promise<void> {
     const userId = await this.getCurrentUserId();
 
@@ -0,0 +1,174 @@
+import { BaseService } from './base.service';
+import { ExchangeRateProvider, FrankfurterExchangeRateProvider, convertAmount } from '../utils/exchange-rates';
+import { formatDateForAPI } from '../utils/date';
+import {
+  ExchangeRate,
+  ExchangeRateFilters,
+  CurrencyConversion,
+  DEFAULT_CURRENCY,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ExchangeRateService extends BaseService {
+  private provider: ExchangeRateProvider;
+
+  constructor(client: any, provider?: ExchangeRateProvider) {
+    super(client);
+    this.provider = provider || new FrankfurterExchangeRateProvider();
+  }
+
+  async listRates(filters: ExchangeRateFilters = {}): Promise<ExchangeRate[]> {
+    let query = this.client
+      .from('exchange_rates')
+      .select('*')
+      .order('rate_date', { ascending: false })
+      .order('quote_currency', { ascending: true });
+
+    if (filters.base_currency) {
+      query = query.eq('base_currency', this.normalizeCurrency(filters.base_currency));
+    }
+    if (filters.quote_currency) {
+      query = query.eq('quote_currency', this.normalizeCurrency(filters.quote_currency));
+    }
+    if (filters.date_from) {
+      query = query.gte('rate_date', filters.date_from);
+    }
+    if (filters.date_to) {
+      query = query.lte('rate_date', filters.date_to);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as ExchangeRate[];
+  }
+
+  /**
+   * Units of `to` bought by one unit of `from`, using the latest stored rate on
+   * or before the date. Inverse and cross rates are derived when no direct rate
+   * is stored.
+   */
+  async getRate(from: string, to: string, date?: string): Promise<number> {
+    const fromCurrency = this.normalizeCurrency(from);
+    const toCurrency = this.normalizeCurrency(to);
+    const rateDate = this.normalizeDate(date);
+
+    if (fromCurrency === toCurrency) {
+      return 1;
+    }
+
+    const { data, error } = await this.client.rpc('get_exchange_rate', {
+      p_from: fromCurrency,
+      p_to: toCurrency,
+      p_date: rateDate
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    if (data === null || data === undefined) {
+      throw new ApiError(
+        ErrorCode.NOT_FOUND,
+        `No exchange rate from ${fromCurrency} to ${toCurrency} on or before ${rateDate}`
+      );
+    }
+
+    return Number(data);
+  }
+
+  /**
+   * Rate to one currency from each of several, looked up once per currency. Null
+   * stands for the target currency itself, as on envelopes kept in the budget
+   * currency.
+   */
+  async getRatesTo(to: string, currencies: (string | null | undefined)[], date?: string): Promise<Map<string, number>> {
+    const rates = new Map<string, number>([[to, 1]]);
+    const foreign = Array.from(new Set(
+      currencies.filter((currency): currency is string => !!currency && currency !== to)
+    ));
+
+    const found = await Promise.all(foreign.map(currency => this.getRate(currency, to, date)));
+    foreign.forEach((currency, index) => rates.set(currency, found[index]));
+
+    return rates;
+  }
+
+  async convert(amount: number, from: string, to: string, date?: string): Promise<CurrencyConversion> {
+    if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Amount must be a number');
+    }
+
+    const rateDate = this.normalizeDate(date);
+    const rate = await this.getRate(from, to, rateDate);
+
+    return {
+      amount,
+      from_currency: this.normalizeCurrency(from),
+      to_currency: this.normalizeCurrency(to),
+      rate,
+      converted_amount: convertAmount(amount, rate),
+      rate_date: rateDate
+    };
+  }
+
+  /**
+   * Load the provider's rates for a base currency into the rates table. Rates are
+   * shared by every budget and only the service role can write them, so this
+   * must run with a service role client (e.g. from a scheduled job).
+   */
+  async refreshRates(baseCurrency: string = DEFAULT_CURRENCY, date?: string): Promise<ExchangeRate[]> {
+    const base = this.normalizeCurrency(baseCurrency);
+    const quotes = await this.provider.getRates(base, this.normalizeDate(date));
+
+    const rows = quotes
+      .filter(quote => quote.quote_currency !== quote.base_currency && quote.rate > 0)
+      .map(quote => ({
+        base_currency: quote.base_currency,
+        quote_currency: quote.quote_currency,
+        rate: quote.rate,
+        rate_date: quote.rate_date,
+        source: this.provider.name
+      }));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('exchange_rates')
+      .upsert(rows, { onConflict: 'base_currency,quote_currency,rate_date' })
+      .select();
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as ExchangeRate[];
+  }
+
+  private normalizeCurrency(currency: string): string {
+    const code = (currency || '').trim().toUpperCase();
+    if (!CURRENCY_PATTERN.test(code)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Currency must be a three-letter ISO 4217 code');
+    }
+    return code;
+  }
+
+  private normalizeDate(date?: string): string {
+    if (date === undefined) {
+      return formatDateForAPI(new Date());
+    }
+    if (!DATE_PATTERN.test(date)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Date must be in YYYY-MM-DD format');
+    }
+    return date;
+  }
+}
\ No newline at end of file
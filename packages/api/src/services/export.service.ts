@@ -42,7 +42,8 @@ export class ExportService extends BaseService {
           from_envelope:envelopes!from_envelope_id(name),
           to_envelope:envelopes!to_envelope_id(name),
           payees:payees(name),
-          income_sources:income_sources(name)
+          income_sources:income_sources(name),
+          tags(name)
         `)
         .eq('budget_id', budgetId)
         .eq('is_deleted', false)
@@ -77,6 +78,7 @@ export class ExportService extends BaseService {
         to_envelope: (transaction.to_envelope as any)?.name || undefined,
         payee: (transaction.payees as any)?.name || undefined,
         income_source: (transaction.income_sources as any)?.name || undefined,
+        tags: ((transaction as any).tags || []).map((tag: { name: string }) => tag.name).sort(),
         is_cleared: transaction.is_cleared,
         is_reconciled: transaction.is_reconciled
       })) || [];
@@ -118,6 +120,7 @@ export class ExportService extends BaseService {
       'To Envelope',
       'Payee',
       'Income Source',
+      'Tags',
       'Is Cleared',
       'Is Reconciled'
     ];
@@ -135,6 +138,7 @@ export class ExportService extends BaseService {
         this.escapeCsvField(transaction.to_envelope || ''),
         this.escapeCsvField(transaction.payee || ''),
         this.escapeCsvField(transaction.income_source || ''),
+        this.escapeCsvField(transaction.tags.join('; ')),
         transaction.is_cleared.toString(),
         transaction.is_reconciled.toString()
       ].join(','))
@@ -0,0 +1,564 @@
+import { BaseService } from './base.service';
+import { PayeeService } from './payee.service';
+import { RuleService } from './rule.service';
+import { parseCSV, parseOFX } from '../utils/statement-parser';
+import { findAliasMatch, findBestMatch, normalizeForMatch, similarity } from '../utils/fuzzy-match';
+import { findMatchingRule, toRuleSuggestion } from '../utils/rule-matcher';
+import {
+  ImportBatch,
+  ImportBatchStatus,
+  ImportRequest,
+  ImportRow,
+  ImportRowStatus,
+  ImportRowUpdate,
+  ParsedStatementRow,
+  Payee,
+  Transaction,
+  TransactionRule,
+  TransactionType,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+// Minimum similarity for a payee suggestion or a duplicate description match
+const MATCH_THRESHOLD = 0.6;
+
+// Keeps a single import within what the bulk transactions endpoint accepts comfortably
+const MAX_IMPORT_ROWS = 1000;
+
+const IMPORTABLE_TYPES = [TransactionType.INCOME, TransactionType.EXPENSE, TransactionType.TRANSFER];
+
+// Row fields a review decision may change; everything else comes from the statement
+const EDITABLE_ROW_FIELDS = [
+  'status', 'transaction_type', 'payee_id', 'from_envelope_id', 'to_envelope_id', 'income_source_id', 'description'
+] as const;
+
+type ExistingTransaction = Pick<Transaction, 'id' | 'transaction_date' | 'amount' | 'description' | 'payee_id'>;
+
+type PayeeAliasMatch = { normalized_alias: string; payee: Payee };
+
+export class ImportService extends BaseService {
+  private payeeService: PayeeService;
+  private ruleService: RuleService;
+
+  constructor(client: any) {
+    super(client);
+    this.payeeService = new PayeeService(client);
+    this.ruleService = new RuleService(client);
+  }
+
+  async listImportBatches(budgetId: string, status?: ImportBatchStatus): Promise<ImportBatch[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    let query = this.client
+      .from('import_batches')
+      .select('*')
+      .eq('budget_id', budgetId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as ImportBatch[];
+  }
+
+  async getImportBatch(id: string): Promise<ImportBatch> {
+    const { data, error } = await this.client
+      .from('import_batches')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Import batch not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return data as ImportBatch;
+  }
+
+  /**
+   * Parse a statement into a review batch. Nothing is posted until the batch is committed.
+   * Each row gets a suggested payee, is run through the budget's rules and is flagged
+   * when it looks like a transaction already in the budget (same date and amount,
+   * similar description).
+   */
+  async createImportBatch(budgetId: string, request: ImportRequest): Promise<ImportBatch> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const parsed = this.parseStatement(request);
+
+    if (parsed.length === 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Statement contains no transactions');
+    }
+
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Cannot import more than ${MAX_IMPORT_ROWS} transactions at once`);
+    }
+
+    const rules = await this.ruleService.getActiveRules(budgetId);
+    const rows = await this.buildRows(budgetId, parsed, rules, request.default_envelope_id);
+    await this.markDuplicates(budgetId, rows);
+
+    const { data, error } = await this.client
+      .from('import_batches')
+      .insert({
+        budget_id: budgetId,
+        format: request.format,
+        file_name: request.file_name,
+        status: ImportBatchStatus.PENDING_REVIEW,
+        rows,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as ImportBatch;
+  }
+
+  /**
+   * Apply review decisions (confirm/skip, envelope, payee, type) to rows of a pending batch
+   */
+  async updateImportRows(id: string, updates: ImportRowUpdate[]): Promise<ImportBatch> {
+    const batch = await this.getImportBatch(id);
+    this.assertPendingReview(batch);
+
+    const rows = batch.rows.map(row => ({ ...row }));
+
+    for (const update of updates) {
+      const row = rows.find(r => r.row_index === update.row_index);
+      if (!row) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Import row ${update.row_index} not found`);
+      }
+
+      if (update.status !== undefined && !Object.values(ImportRowStatus).includes(update.status)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Invalid status for import row ${update.row_index}`);
+      }
+
+      if (update.transaction_type !== undefined && !IMPORTABLE_TYPES.includes(update.transaction_type)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Imported rows can only be income, expense or transfer transactions');
+      }
+
+      for (const field of EDITABLE_ROW_FIELDS) {
+        if (update[field] !== undefined) {
+          Object.assign(row, { [field]: update[field] });
+        }
+      }
+    }
+
+    return this.saveRows(id, rows);
+  }
+
+  /**
+   * Create every confirmed row through the bulk transactions endpoint and close the batch.
+   * The batch is claimed first by moving it from pending_review to committing, so a
+   * second commit of the same batch fails instead of posting the rows again.
+   */
+  async commitImportBatch(id: string): Promise<ImportBatch> {
+    const batch = await this.getImportBatch(id);
+    this.assertPendingReview(batch);
+
+    const claimed = await this.claimForCommit(id);
+    const confirmed = claimed.rows.filter(row => row.status === ImportRowStatus.CONFIRMED);
+
+    let created: Transaction[];
+    try {
+      if (confirmed.length === 0) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'No confirmed rows to import');
+      }
+
+      const incomplete = confirmed.filter(row => !this.isRowComplete(row)).map(row => row.row_index);
+      if (incomplete.length > 0) {
+        throw new ApiError(
+          ErrorCode.VALIDATION_ERROR,
+          'Some confirmed rows are missing an envelope, payee or income source',
+          { row_indexes: incomplete }
+        );
+      }
+
+      const { data, error } = await this.client.functions.invoke(`bulk-operations/budgets/${claimed.budget_id}/bulk/transactions`, {
+        body: {
+          transactions: confirmed.map(row => this.toTransactionRequest(row)),
+        },
+      });
+
+      if (error) {
+        throw new ApiError(ErrorCode.INTERNAL_ERROR, 'Failed to create imported transactions', error);
+      }
+
+      // Transactions come back in the order they were sent
+      created = (data?.transactions || []) as Transaction[];
+    } catch (error) {
+      // Nothing was posted: hand the batch back for review
+      await this.releaseCommitClaim(id);
+      throw error;
+    }
+
+    const rows = claimed.rows.map(row => {
+      const position = confirmed.indexOf(row);
+      return position === -1 ? row : { ...row, transaction_id: created[position]?.id };
+    });
+
+    const { data: updated, error: updateError } = await this.client
+      .from('import_batches')
+      .update({
+        rows,
+        status: ImportBatchStatus.COMMITTED,
+        committed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', ImportBatchStatus.COMMITTING)
+      .select()
+      .single();
+
+    if (updateError || !updated) {
+      this.handleError(updateError);
+    }
+
+    return updated as ImportBatch;
+  }
+
+  async cancelImportBatch(id: string): Promise<ImportBatch> {
+    const batch = await this.getImportBatch(id);
+    this.assertPendingReview(batch);
+
+    const { data, error } = await this.client
+      .from('import_batches')
+      .update({
+        status: ImportBatchStatus.CANCELLED,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', ImportBatchStatus.PENDING_REVIEW)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleReviewUpdateError(error);
+    }
+
+    return data as ImportBatch;
+  }
+
+  private parseStatement(request: ImportRequest): ParsedStatementRow[] {
+    if (!request.content || request.content.trim().length === 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Statement content is required');
+    }
+
+    switch (request.format) {
+      case 'ofx':
+      case 'qfx':
+        return parseOFX(request.content);
+      case 'csv':
+        if (!request.csv_mapping) {
+          throw new ApiError(ErrorCode.VALIDATION_ERROR, 'csv_mapping is required for CSV imports');
+        }
+        return parseCSV(request.content, request.csv_mapping);
+      default:
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Format must be one of ofx, qfx or csv');
+    }
+  }
+
+  private async buildRows(
+    budgetId: string,
+    parsed: ParsedStatementRow[],
+    rules: TransactionRule[],
+    defaultEnvelopeId?: string
+  ): Promise<ImportRow[]> {
+    const payeeMatches = new Map<string, { payee: Payee; score: number } | undefined>();
+    const aliases = await this.getPayeeAliases(budgetId);
+    const seenExternalIds = new Set<string>();
+    const rows: ImportRow[] = [];
+
+    for (const [index, line] of parsed.entries()) {
+      const isOutflow = line.amount < 0;
+      const row: ImportRow = {
+        row_index: index,
+        transaction_date: line.transaction_date,
+        amount: Math.abs(line.amount),
+        transaction_type: isOutflow ? TransactionType.EXPENSE : TransactionType.INCOME,
+        description: line.description,
+        payee_name: line.payee_name,
+        memo: line.memo,
+        external_id: line.external_id,
+        status: ImportRowStatus.PENDING,
+      };
+
+      if (row.amount === 0) {
+        row.status = ImportRowStatus.SKIPPED;
+      }
+
+      // Banks repeat a transaction across overlapping statement periods
+      if (line.external_id) {
+        if (seenExternalIds.has(line.external_id)) {
+          row.status = ImportRowStatus.DUPLICATE;
+        }
+        seenExternalIds.add(line.external_id);
+      }
+
+      if (isOutflow) {
+        row.from_envelope_id = defaultEnvelopeId;
+
+        const payeeName = line.payee_name || line.description;
+        if (payeeName) {
+          if (!payeeMatches.has(payeeName)) {
+            payeeMatches.set(payeeName, await this.matchPayee(budgetId, payeeName, aliases));
+          }
+          const match = payeeMatches.get(payeeName);
+          if (match) {
+            row.payee_id = match.payee.id;
+            row.payee_match_score = Math.round(match.score * 100) / 100;
+          }
+        }
+
+        // A matching rule is more specific than the default envelope or a fuzzy payee match
+        const rule = findMatchingRule(rules, {
+          amount: row.amount,
+          payee_id: row.payee_id,
+          description: row.description,
+        });
+        if (rule) {
+          row.rule_suggestion = toRuleSuggestion(rule);
+          if (rule.auto_apply) {
+            row.from_envelope_id = rule.set_envelope_id || row.from_envelope_id;
+            if (rule.set_payee_id) {
+              row.payee_id = rule.set_payee_id;
+              row.payee_match_score = undefined;
+            }
+            row.description = rule.set_description || row.description;
+          }
+        }
+      }
+
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * A payee alias found in the name is a sure match. Otherwise narrow candidates
+   * with searchPayees on the most distinctive word, then score them.
+   */
+  private async matchPayee(
+    budgetId: string,
+    name: string,
+    aliases: PayeeAliasMatch[]
+  ): Promise<{ payee: Payee; score: number } | undefined> {
+    const aliased = findAliasMatch(name, aliases);
+    if (aliased) {
+      return { payee: aliased.payee, score: 1 };
+    }
+
+    const keyword = normalizeForMatch(name)
+      .split(' ')
+      .reduce((longest, word) => (word.length > longest.length ? word : longest), '');
+
+    if (keyword.length < 3) {
+      return undefined;
+    }
+
+    const candidates = await this.payeeService.searchPayees(budgetId, keyword);
+    const best = findBestMatch(name, candidates, payee => payee.name, MATCH_THRESHOLD);
+
+    return best ? { payee: best.match, score: best.score } : undefined;
+  }
+
+  private async getPayeeAliases(budgetId: string): Promise<PayeeAliasMatch[]> {
+    const { data, error } = await this.client
+      .from('payee_aliases')
+      .select('normalized_alias, payee:payees(*)')
+      .eq('budget_id', budgetId);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return (data || []) as unknown as PayeeAliasMatch[];
+  }
+
+  private async markDuplicates(budgetId: string, rows: ImportRow[]): Promise<void> {
+    const dates = rows.map(row => row.transaction_date).sort();
+
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('id, transaction_date, amount, description, payee_id')
+      .eq('budget_id', budgetId)
+      .eq('is_deleted', false)
+      .gte('transaction_date', dates[0])
+      .lte('transaction_date', dates[dates.length - 1]);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const available = [...((data || []) as ExistingTransaction[])];
+
+    for (const row of rows) {
+      if (row.status !== ImportRowStatus.PENDING) {
+        continue;
+      }
+
+      const index = available.findIndex(existing =>
+        existing.transaction_date === row.transaction_date &&
+        Math.round(Number(existing.amount) * 100) === Math.round(row.amount * 100) &&
+        ((!!row.payee_id && existing.payee_id === row.payee_id) ||
+          similarity(existing.description || '', row.description) >= MATCH_THRESHOLD)
+      );
+
+      // Each existing transaction can only account for one imported row
+      if (index !== -1) {
+        row.status = ImportRowStatus.DUPLICATE;
+        row.duplicate_of = available[index].id;
+        available.splice(index, 1);
+      }
+    }
+  }
+
+  private isRowComplete(row: ImportRow): boolean {
+    switch (row.transaction_type) {
+      case TransactionType.INCOME:
+        return !!row.income_source_id;
+      case TransactionType.EXPENSE:
+        return !!row.from_envelope_id && !!row.payee_id;
+      case TransactionType.TRANSFER:
+        return !!row.from_envelope_id && !!row.to_envelope_id;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Only send the references the row's type allows; review may have left others behind
+   */
+  private toTransactionRequest(row: ImportRow): Record<string, unknown> {
+    const request: Record<string, unknown> = {
+      transaction_type: row.transaction_type,
+      amount: row.amount,
+      transaction_date: row.transaction_date,
+      description: row.description,
+      is_cleared: true,
+    };
+
+    switch (row.transaction_type) {
+      case TransactionType.INCOME:
+        request.income_source_id = row.income_source_id;
+        break;
+      case TransactionType.EXPENSE:
+        request.from_envelope_id = row.from_envelope_id;
+        request.payee_id = row.payee_id;
+        break;
+      case TransactionType.TRANSFER:
+        request.from_envelope_id = row.from_envelope_id;
+        request.to_envelope_id = row.to_envelope_id;
+        break;
+    }
+
+    return request;
+  }
+
+  private async saveRows(id: string, rows: ImportRow[]): Promise<ImportBatch> {
+    const { data, error } = await this.client
+      .from('import_batches')
+      .update({
+        rows,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', ImportBatchStatus.PENDING_REVIEW)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleReviewUpdateError(error);
+    }
+
+    return data as ImportBatch;
+  }
+
+  /**
+   * Move the batch from pending_review to committing. Exactly one row changes for the
+   * caller that wins; any other concurrent commit finds nothing to claim.
+   */
+  private async claimForCommit(id: string): Promise<ImportBatch> {
+    const { data, error } = await this.client
+      .from('import_batches')
+      .update({
+        status: ImportBatchStatus.COMMITTING,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', ImportBatchStatus.PENDING_REVIEW)
+      .select();
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    if (!data || data.length !== 1) {
+      throw new ApiError(ErrorCode.CONFLICT, 'Import batch is already being committed');
+    }
+
+    return data[0] as ImportBatch;
+  }
+
+  private async releaseCommitClaim(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('import_batches')
+      .update({
+        status: ImportBatchStatus.PENDING_REVIEW,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', ImportBatchStatus.COMMITTING);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  // A review update matches no row once the batch has left pending_review
+  private handleReviewUpdateError(error: any): never {
+    if (!error || error.code === 'PGRST116') {
+      throw new ApiError(ErrorCode.CONFLICT, 'Import batch is no longer pending review');
+    }
+    this.handleError(error);
+  }
+
+  private assertPendingReview(batch: ImportBatch): void {
+    if (batch.status !== ImportBatchStatus.PENDING_REVIEW) {
+      throw new ApiError(ErrorCode.CONFLICT, `Import batch is already ${batch.status}`);
+    }
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
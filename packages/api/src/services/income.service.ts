@@ -1,5 +1,24 @@
 import { BaseService } from './base.service';
-import { IncomeSource, IncomeSourceCreateRequest, IncomeSourceUpdateRequest, ApiError, ErrorCode } from '@nvlp/types';
+import { formatDateForAPI, parseAPIDate } from '../utils/date';
+import { getScheduleOccurrences } from '../utils/income-schedule';
+import {
+  IncomeSource,
+  IncomeSourceCreateRequest,
+  IncomeSourceUpdateRequest,
+  IncomeOccurrence,
+  IncomeOccurrenceFilters,
+  IncomeCalendarEntry,
+  OverdueIncomeSource,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+// How far a payment can land from an expected occurrence and still be matched to it;
+// kept in step with match_income_occurrence()
+const OCCURRENCE_MATCH_DAYS = 7;
+const MAX_MISSED_DATES = 24;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_CALENDAR_DAYS = 366;
 
 export class IncomeService extends BaseService {
   async listIncomeSources(budgetId: string): Promise<IncomeSource[]> {
@@ -93,10 +112,16 @@ export class IncomeService extends BaseService {
     }
   }
 
-  async getOverdueIncomeSources(budgetId: string): Promise<IncomeSource[]> {
+  /**
+   * Active sources whose next expected payment hasn't arrived. A source is late while a
+   * payment could still be matched to that occurrence and missed after that, with the
+   * occurrences no payment can match any more listed in missed_dates.
+   */
+  async getOverdueIncomeSources(budgetId: string, asOf?: string): Promise<OverdueIncomeSource[]> {
     await this.verifyBudgetAccess(budgetId);
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = asOf ?? formatDateForAPI(new Date());
+    const matchCutoff = this.addDays(today, -OCCURRENCE_MATCH_DAYS);
 
     const { data, error } = await this.client
       .from('income_sources')
@@ -111,7 +136,18 @@ export class IncomeService extends BaseService {
       this.handleError(error);
     }
 
-    return data as IncomeSource[];
+    return Promise.all((data as IncomeSource[] || []).map(async source => {
+      const missedDates = source.next_expected_date! < matchCutoff && source.schedule_type
+        ? await this.getOccurrenceDates(source, this.addDays(matchCutoff, -1))
+        : [];
+
+      return {
+        ...source,
+        days_overdue: this.daysBetween(source.next_expected_date!, today),
+        overdue_status: missedDates.length > 0 ? 'missed' as const : 'late' as const,
+        missed_dates: missedDates,
+      };
+    }));
   }
 
   async getUpcomingIncomeSources(budgetId: string, days: number = 7): Promise<IncomeSource[]> {
@@ -137,6 +173,154 @@ export class IncomeService extends BaseService {
     return data as IncomeSource[];
   }
 
+  /**
+   * Received and missed occurrences with expected against actual, most recent first.
+   * Occurrences still to come are not listed; next_expected_date is the next one.
+   */
+  async listIncomeOccurrences(budgetId: string, filters: IncomeOccurrenceFilters = {}): Promise<IncomeOccurrence[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    let query = this.client
+      .from('income_occurrences')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('expected_date', { ascending: false });
+
+    if (filters.income_source_id) {
+      query = query.eq('income_source_id', filters.income_source_id);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.date_from) {
+      query = query.gte('expected_date', filters.date_from);
+    }
+    if (filters.date_to) {
+      query = query.lte('expected_date', filters.date_to);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return (data || []).map((row: any) => this.toOccurrence(row));
+  }
+
+  /**
+   * Every expected occurrence of every active income source from `from` through `to`,
+   * with the received or missed figures for occurrences already settled
+   */
+  async getIncomeCalendar(budgetId: string, from: string, to: string): Promise<IncomeCalendarEntry[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'from and to must be in YYYY-MM-DD format');
+    }
+    if (from > to) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'from must not be after to');
+    }
+    if (this.daysBetween(from, to) >= MAX_CALENDAR_DAYS) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `The calendar is limited to ${MAX_CALENDAR_DAYS} days`);
+    }
+
+    const [sourcesResult, occurrencesResult] = await Promise.all([
+      this.client
+        .from('income_sources')
+        .select('*')
+        .eq('budget_id', budgetId)
+        .eq('is_active', true)
+        .not('schedule_type', 'is', null),
+      this.client
+        .from('income_occurrences')
+        .select('*')
+        .eq('budget_id', budgetId)
+        .gte('expected_date', from)
+        .lte('expected_date', to),
+    ]);
+
+    if (sourcesResult.error) {
+      this.handleError(sourcesResult.error);
+    }
+    if (occurrencesResult.error) {
+      this.handleError(occurrencesResult.error);
+    }
+
+    const settled = new Map(
+      (occurrencesResult.data || []).map((row: any) => [`${row.income_source_id}:${row.expected_date}`, this.toOccurrence(row)])
+    );
+
+    const entries: IncomeCalendarEntry[] = [];
+    for (const source of (sourcesResult.data || []) as IncomeSource[]) {
+      for (const date of getScheduleOccurrences(source.schedule_type, source.schedule_config, from, to)) {
+        const occurrence = settled.get(`${source.id}:${date}`);
+        entries.push({
+          income_source_id: source.id,
+          income_source_name: source.name,
+          expected_date: date,
+          expected_amount: occurrence ? occurrence.expected_amount : source.expected_amount ?? undefined,
+          status: occurrence ? occurrence.status : 'expected',
+          actual_amount: occurrence?.actual_amount,
+          received_date: occurrence?.received_date,
+          transaction_id: occurrence?.transaction_id,
+        });
+      }
+    }
+
+    return entries.sort((a, b) =>
+      a.expected_date.localeCompare(b.expected_date) || a.income_source_name.localeCompare(b.income_source_name)
+    );
+  }
+
+  private toOccurrence(row: any): IncomeOccurrence {
+    const expectedAmount = row.expected_amount === null ? undefined : Number(row.expected_amount);
+    const actualAmount = row.actual_amount === null ? undefined : Number(row.actual_amount);
+
+    return {
+      id: row.id,
+      income_source_id: row.income_source_id,
+      budget_id: row.budget_id,
+      expected_date: row.expected_date,
+      expected_amount: expectedAmount,
+      status: row.status,
+      transaction_id: row.transaction_id ?? undefined,
+      actual_amount: actualAmount,
+      received_date: row.received_date ?? undefined,
+      variance: expectedAmount !== undefined && actualAmount !== undefined
+        ? Math.round((actualAmount - expectedAmount) * 100) / 100
+        : undefined,
+      days_late: row.received_date ? this.daysBetween(row.expected_date, row.received_date) : undefined,
+      created_at: row.created_at,
+    };
+  }
+
+  private async getOccurrenceDates(source: IncomeSource, until: string): Promise<string[]> {
+    const { data, error } = await this.client.rpc('get_schedule_occurrences', {
+      p_schedule_type: source.schedule_type,
+      p_schedule_config: source.schedule_config,
+      p_start_date: source.next_expected_date,
+      p_count: MAX_MISSED_DATES,
+      p_until: until,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return ((data || []) as { occurrence_date: string }[]).map(row => row.occurrence_date);
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = parseAPIDate(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return formatDateForAPI(result);
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((parseAPIDate(to).getTime() - parseAPIDate(from).getTime()) / (1000 * 60 * 60 * 24));
+  }
+
   private async verifyBudgetAccess(budgetId: string): Promise<void> {
     const userId = await this.getCurrentUserId();
 
@@ -3,10 +3,21 @@ export * from './budget.service';
 export * from './dashboard.service';
 export * from './envelope.service';
 export * from './export.service';
+export * from './import.service';
 export * from './transaction.service';
+export * from './attachment.service';
+export * from './scheduled-transaction.service';
 export * from './income.service';
 export * from './payee.service';
+export * from './rule.service';
+export * from './tag.service';
 export * from './category.service';
 export * from './auth.service';
 export * from './device.service';
-export * from './notification.service';
\ No newline at end of file
+export * from './notification.service';
+export * from './allocation-plan.service';
+export * from './budget-period.service';
+export * from './debt-payoff.service';
+export * from './budget-template.service';
+export * from './exchange-rate.service';
+export * from './bill.service';
\ No newline at end of file
@@ -1,5 +1,17 @@
 import { BaseService } from './base.service';
-import { Payee, PayeeCreateRequest, PayeeUpdateRequest, ApiError, ErrorCode } from '@nvlp/types';
+import { findAliasMatch, normalizeForMatch, similarity } from '../utils/fuzzy-match';
+import {
+  Payee,
+  PayeeAlias,
+  PayeeCreateRequest,
+  PayeeUpdateRequest,
+  PayeeDuplicateSuggestion,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+// Names at least this similar are suggested as the same merchant
+const DUPLICATE_THRESHOLD = 0.75;
 
 export class PayeeService extends BaseService {
   async listPayees(budgetId: string): Promise<Payee[]> {
@@ -43,7 +55,7 @@ export class PayeeService extends BaseService {
       .from('payees')
       .insert({
         budget_id: budgetId,
-        name: request.name,
+        name: this.normalizeName(request.name),
         description: request.description,
       })
       .select()
@@ -63,6 +75,7 @@ export class PayeeService extends BaseService {
       .from('payees')
       .update({
         ...updates,
+        ...(updates.name !== undefined && { name: this.normalizeName(updates.name) }),
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
@@ -143,6 +156,160 @@ export class PayeeService extends BaseService {
     return data as Payee[];
   }
 
+  async listAliases(payeeId: string): Promise<PayeeAlias[]> {
+    await this.getPayee(payeeId);
+
+    const { data, error } = await this.client
+      .from('payee_aliases')
+      .select('*')
+      .eq('payee_id', payeeId)
+      .order('alias', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as PayeeAlias[];
+  }
+
+  async addAlias(payeeId: string, alias: string): Promise<PayeeAlias> {
+    const payee = await this.getPayee(payeeId);
+    const normalizedAlias = normalizeForMatch(alias || '');
+
+    if (!normalizedAlias) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Alias must contain a word to match on');
+    }
+
+    const { data, error } = await this.client
+      .from('payee_aliases')
+      .insert({
+        payee_id: payeeId,
+        budget_id: payee.budget_id,
+        alias: alias.trim(),
+        normalized_alias: normalizedAlias,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      if (error?.code === '23505') {
+        throw new ApiError(ErrorCode.CONFLICT, `Alias "${alias.trim()}" already belongs to a payee`);
+      }
+      this.handleError(error);
+    }
+
+    return data as PayeeAlias;
+  }
+
+  async removeAlias(aliasId: string): Promise<void> {
+    const { data: alias, error: fetchError } = await this.client
+      .from('payee_aliases')
+      .select('payee_id')
+      .eq('id', aliasId)
+      .single();
+
+    if (fetchError || !alias) {
+      if (fetchError?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Payee alias not found');
+      }
+      this.handleError(fetchError);
+    }
+
+    await this.getPayee(alias.payee_id);
+
+    const { error } = await this.client
+      .from('payee_aliases')
+      .delete()
+      .eq('id', aliasId);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Payee whose alias appears in a raw description, e.g. "AMZN MKTP US*2K3" with
+   * the alias "AMZN Mktp"
+   */
+  async findPayeeByAlias(budgetId: string, description: string): Promise<Payee | undefined> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client
+      .from('payee_aliases')
+      .select('normalized_alias, payee:payees(*)')
+      .eq('budget_id', budgetId);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const match = findAliasMatch(description, (data || []) as unknown as { normalized_alias: string; payee: Payee }[]);
+    return match?.payee;
+  }
+
+  /**
+   * Fold a duplicate payee into another. Every transaction, schedule, rule and alias
+   * moves to the target, the source name becomes one of its aliases, and its totals
+   * are recomputed from the combined transactions.
+   */
+  async mergePayees(sourceId: string, targetId: string): Promise<Payee> {
+    if (sourceId === targetId) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'A payee cannot be merged into itself');
+    }
+
+    const source = await this.getPayee(sourceId);
+    const target = await this.getPayee(targetId);
+
+    if (source.budget_id !== target.budget_id) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Payees must belong to the same budget');
+    }
+
+    const { data, error } = await this.client.rpc('merge_payees', {
+      p_source_id: sourceId,
+      p_target_id: targetId,
+      p_normalized_source_name: normalizeForMatch(source.name) || null,
+    });
+
+    if (error || !data) {
+      if (error?.code === '23514' && error.message) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+      }
+      this.handleError(error);
+    }
+
+    return data as Payee;
+  }
+
+  /**
+   * Pairs of active payees whose names look like the same merchant, most similar
+   * first. The payee with more paid to it is listed first as the one to keep.
+   */
+  async suggestDuplicates(budgetId: string, threshold: number = DUPLICATE_THRESHOLD): Promise<PayeeDuplicateSuggestion[]> {
+    const payees = (await this.listPayees(budgetId)).filter(payee => payee.is_active);
+    const suggestions: PayeeDuplicateSuggestion[] = [];
+
+    for (let i = 0; i < payees.length; i++) {
+      for (let j = i + 1; j < payees.length; j++) {
+        const score = similarity(payees[i].name, payees[j].name);
+        if (score < threshold) {
+          continue;
+        }
+
+        const [keep, duplicate] = Number(payees[j].total_paid) > Number(payees[i].total_paid)
+          ? [payees[j], payees[i]]
+          : [payees[i], payees[j]];
+        suggestions.push({ payee: keep, duplicate, score: Math.round(score * 100) / 100 });
+      }
+    }
+
+    return suggestions.sort((a, b) => b.score - a.score);
+  }
+
+  // Quick entry and imports leave stray and doubled spaces in names
+  private normalizeName(name: string): string {
+    return (name || '').trim().replace(/\s+/g, ' ');
+  }
+
   private async verifyBudgetAccess(budgetId: string): Promise<void> {
     const userId = await this.getCurrentUserId();
 
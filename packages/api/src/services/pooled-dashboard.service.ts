@@ -1,6 +1,9 @@
 import { SupabaseConnectionPool } from '../config/connection-pool';
 import { PooledBaseService } from './pooled-base.service';
-import { DashboardSummary, SpendingStats, IncomeStats, SpendingTrends, Envelope, Transaction } from '@nvlp/types';
+import { DashboardSummary, SpendingStats, IncomeStats, SpendingTrends, Envelope, EnvelopeGoalProgress, Transaction } from '@nvlp/types';
+import { summarizeGoalProgress } from '../utils/envelope-goals';
+import { convertAmount } from '../utils/exchange-rates';
+import { ExchangeRateService } from './exchange-rate.service';
 
 /**
  * Example implementation of DashboardService using connection pooling
@@ -17,7 +20,7 @@ export class PooledDashboardService extends PooledBaseService {
     return this.withRetry(async (client) => {
       const { data: budget, error: budgetError } = await client
         .from('budgets')
-        .select('available_amount')
+        .select('available_amount, currency')
         .eq('id', budgetId)
         .eq('user_id', userId)
         .single();
@@ -37,11 +40,12 @@ export class PooledDashboardService extends PooledBaseService {
         recentTransactionsResult,
         unclearedTransactionsResult,
         monthlySpendingResult,
-        monthlyIncomeResult
+        monthlyIncomeResult,
+        goalProgressResult
       ] = await Promise.all([
         client
           .from('envelopes')
-          .select('current_balance')
+          .select('id, current_balance, currency')
           .eq('budget_id', budgetId)
           .eq('is_active', true),
 
@@ -59,6 +63,7 @@ export class PooledDashboardService extends PooledBaseService {
           .select('*')
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
+          .eq('status', 'posted')
           .order('created_at', { ascending: false })
           .limit(10),
 
@@ -74,6 +79,7 @@ export class PooledDashboardService extends PooledBaseService {
           .select('amount')
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
+          .eq('status', 'posted')
           .in('transaction_type', ['expense', 'debt_payment'])
           .gte('transaction_date', monthStart.toISOString().split('T')[0])
           .lte('transaction_date', monthEnd.toISOString().split('T')[0]),
@@ -83,9 +89,12 @@ export class PooledDashboardService extends PooledBaseService {
           .select('amount')
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
+          .eq('status', 'posted')
           .eq('transaction_type', 'income')
           .gte('transaction_date', monthStart.toISOString().split('T')[0])
-          .lte('transaction_date', monthEnd.toISOString().split('T')[0])
+          .lte('transaction_date', monthEnd.toISOString().split('T')[0]),
+
+        client.rpc('get_envelope_goal_progress', { p_budget_id: budgetId })
       ]);
 
       // Handle errors
@@ -95,11 +104,33 @@ export class PooledDashboardService extends PooledBaseService {
       if (unclearedTransactionsResult.error) this.handleError(unclearedTransactionsResult.error);
       if (monthlySpendingResult.error) this.handleError(monthlySpendingResult.error);
       if (monthlyIncomeResult.error) this.handleError(monthlyIncomeResult.error);
+      if (goalProgressResult.error) this.handleError(goalProgressResult.error);
+
+      // Envelopes kept in another currency are converted at today's rate
+      const envelopes = envelopesResult.data || [];
+      const rates = await new ExchangeRateService(client).getRatesTo(
+        budget.currency,
+        envelopes.map(envelope => envelope.currency)
+      );
+      const rateFor = (envelopeId: string) =>
+        rates.get(envelopes.find(envelope => envelope.id === envelopeId)?.currency ?? budget.currency) ?? 1;
 
-      const totalEnvelopeBalance = envelopesResult.data?.reduce(
-        (sum, envelope) => sum + envelope.current_balance, 
+      const totalEnvelopeBalance = envelopes.reduce(
+        (sum, envelope) => sum + Math.round(convertAmount(envelope.current_balance, rateFor(envelope.id)) * 100),
         0
-      ) || 0;
+      ) / 100;
+
+      const goalProgress = (goalProgressResult.data as EnvelopeGoalProgress[] || []).map(progress => {
+        const rate = rateFor(progress.envelope_id);
+        return rate === 1 ? progress : {
+          ...progress,
+          target_amount: convertAmount(progress.target_amount, rate),
+          current_balance: convertAmount(progress.current_balance, rate),
+          funded_this_period: convertAmount(progress.funded_this_period, rate),
+          required_this_period: convertAmount(progress.required_this_period, rate),
+          underfunded_amount: convertAmount(progress.underfunded_amount, rate)
+        };
+      });
 
       const monthToDateSpending = monthlySpendingResult.data?.reduce(
         (sum, transaction) => sum + transaction.amount, 
@@ -112,16 +143,18 @@ export class PooledDashboardService extends PooledBaseService {
       ) || 0;
 
       return {
+        currency: budget.currency,
         available_amount: budget.available_amount,
         total_envelope_balance: totalEnvelopeBalance,
-        envelope_count: envelopesResult.data?.length || 0,
+        envelope_count: envelopes.length,
         negative_envelope_count: negativeEnvelopesResult.data?.length || 0,
         recent_transactions_count: recentTransactionsResult.data?.length || 0,
         uncleared_transactions_count: unclearedTransactionsResult.data?.length || 0,
         month_to_date_spending: monthToDateSpending,
         month_to_date_income: monthToDateIncome,
         negative_envelopes: negativeEnvelopesResult.data as Envelope[] || [],
-        recent_transactions: recentTransactionsResult.data as Transaction[] || []
+        recent_transactions: recentTransactionsResult.data as Transaction[] || [],
+        goal_summary: summarizeGoalProgress(goalProgress)
       };
     });
   }
@@ -155,7 +188,8 @@ export class PooledDashboardService extends PooledBaseService {
           .select(`
             amount,
             category_id,
-            categories!category_id(name)
+            categories!category_id(name),
+            tags(id, name)
           `)
           .eq('budget_id', budgetId)
           .eq('is_deleted', false)
@@ -179,6 +213,7 @@ export class PooledDashboardService extends PooledBaseService {
 
       // Process results (same logic as original service)
       const categoryMap = new Map<string, { name: string; total: number; count: number }>();
+      const tagMap = new Map<string, { name: string; total: number; count: number }>();
       let totalSpending = 0;
 
       categorySpendingResult.data?.forEach(transaction => {
@@ -197,6 +232,20 @@ export class PooledDashboardService extends PooledBaseService {
             count: 1
           });
         }
+
+        ((transaction as any).tags || []).forEach((tag: { id: string; name: string }) => {
+          const existingTag = tagMap.get(tag.id);
+          if (existingTag) {
+            existingTag.total += transaction.amount;
+            existingTag.count += 1;
+          } else {
+            tagMap.set(tag.id, {
+              name: tag.name,
+              total: transaction.amount,
+              count: 1
+            });
+          }
+        });
       });
 
       const byCategory = Array.from(categoryMap.entries()).map(([id, data]) => ({
@@ -206,6 +255,13 @@ export class PooledDashboardService extends PooledBaseService {
         transaction_count: data.count
       })).sort((a, b) => b.total_amount - a.total_amount);
 
+      const byTag = Array.from(tagMap.entries()).map(([id, data]) => ({
+        tag_id: id,
+        tag_name: data.name,
+        total_amount: data.total,
+        transaction_count: data.count
+      })).sort((a, b) => b.total_amount - a.total_amount);
+
       const timeMap = new Map<string, { total: number; count: number }>();
       
       timeSpendingResult.data?.forEach(transaction => {
@@ -247,6 +303,7 @@ export class PooledDashboardService extends PooledBaseService {
         period_start: startDate,
         period_end: endDate,
         by_category: byCategory,
+        by_tag: byTag,
         by_time: byTime
       };
     });
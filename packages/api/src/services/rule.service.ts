@@ -0,0 +1,280 @@
+import { BaseService } from './base.service';
+import { compileRulePattern, findMatchingRule, matchesRule, toRuleSuggestion } from '../utils/rule-matcher';
+import {
+  TransactionRule,
+  TransactionRuleCreateRequest,
+  TransactionRuleUpdateRequest,
+  RuleMatchInput,
+  RuleSuggestion,
+  RuleTestOptions,
+  RuleTestResult,
+  Transaction,
+  TransactionType,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const DEFAULT_TEST_LIMIT = 500;
+const MAX_TEST_LIMIT = 5000;
+
+export class RuleService extends BaseService {
+  async listRules(budgetId: string): Promise<TransactionRule[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client
+      .from('transaction_rules')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as TransactionRule[];
+  }
+
+  async getRule(id: string): Promise<TransactionRule> {
+    const { data, error } = await this.client
+      .from('transaction_rules')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Rule not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return data as TransactionRule;
+  }
+
+  async createRule(budgetId: string, request: TransactionRuleCreateRequest): Promise<TransactionRule> {
+    await this.verifyBudgetAccess(budgetId);
+    await this.validateRule(budgetId, request);
+
+    const { data, error } = await this.client
+      .from('transaction_rules')
+      .insert({
+        budget_id: budgetId,
+        ...request,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as TransactionRule;
+  }
+
+  async updateRule(id: string, updates: TransactionRuleUpdateRequest): Promise<TransactionRule> {
+    const rule = await this.getRule(id);
+    await this.validateRule(rule.budget_id, { ...rule, ...updates } as TransactionRuleCreateRequest);
+
+    const { data, error } = await this.client
+      .from('transaction_rules')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as TransactionRule;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await this.getRule(id);
+
+    const { error } = await this.client
+      .from('transaction_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  async getActiveRules(budgetId: string): Promise<TransactionRule[]> {
+    const rules = await this.listRules(budgetId);
+    return rules.filter(rule => rule.is_active);
+  }
+
+  /**
+   * Highest-priority active rule matching an expense, or null when none match
+   */
+  async suggest(budgetId: string, input: RuleMatchInput): Promise<RuleSuggestion | null> {
+    const rule = findMatchingRule(await this.getActiveRules(budgetId), input);
+    return rule ? toRuleSuggestion(rule) : null;
+  }
+
+  /**
+   * Report which past expenses a saved rule would have matched
+   */
+  async testRule(id: string, options: RuleTestOptions = {}): Promise<RuleTestResult> {
+    const rule = await this.getRule(id);
+    const result = await this.scanHistory(rule.budget_id, rule, options);
+    return { rule_id: rule.id, ...result };
+  }
+
+  /**
+   * Same as testRule for a rule that has not been saved yet
+   */
+  async testRuleDefinition(
+    budgetId: string,
+    request: TransactionRuleCreateRequest,
+    options: RuleTestOptions = {}
+  ): Promise<RuleTestResult> {
+    await this.verifyBudgetAccess(budgetId);
+    await this.validateRule(budgetId, request);
+    return this.scanHistory(budgetId, request, options);
+  }
+
+  private async scanHistory(
+    budgetId: string,
+    rule: TransactionRuleCreateRequest,
+    options: RuleTestOptions
+  ): Promise<RuleTestResult> {
+    const limit = options.limit ?? DEFAULT_TEST_LIMIT;
+
+    if (limit < 1 || limit > MAX_TEST_LIMIT) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `limit must be between 1 and ${MAX_TEST_LIMIT}`);
+    }
+
+    let query = this.client
+      .from('transactions')
+      .select('id, transaction_date, amount, description, payee_id, from_envelope_id')
+      .eq('budget_id', budgetId)
+      .eq('is_deleted', false)
+      .eq('transaction_type', TransactionType.EXPENSE);
+
+    if (options.start_date) {
+      query = query.gte('transaction_date', options.start_date);
+    }
+    if (options.end_date) {
+      query = query.lte('transaction_date', options.end_date);
+    }
+
+    const { data, error } = await query
+      .order('transaction_date', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const transactions = (data || []) as Transaction[];
+    const matches = transactions
+      .filter(transaction => matchesRule(rule, {
+        amount: Number(transaction.amount),
+        payee_id: transaction.payee_id,
+        description: transaction.description,
+      }))
+      .map(transaction => ({
+        transaction_id: transaction.id,
+        transaction_date: transaction.transaction_date,
+        amount: Number(transaction.amount),
+        description: transaction.description,
+        payee_id: transaction.payee_id,
+        from_envelope_id: transaction.from_envelope_id,
+        would_change:
+          (!!rule.set_envelope_id && rule.set_envelope_id !== transaction.from_envelope_id) ||
+          (!!rule.set_payee_id && rule.set_payee_id !== transaction.payee_id) ||
+          (!!rule.set_description && rule.set_description !== transaction.description),
+      }));
+
+    return {
+      scanned_count: transactions.length,
+      match_count: matches.length,
+      change_count: matches.filter(match => match.would_change).length,
+      matches,
+    };
+  }
+
+  private async validateRule(budgetId: string, rule: TransactionRuleCreateRequest): Promise<void> {
+    if (!rule.name || rule.name.trim().length === 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Rule name is required');
+    }
+
+    if (!rule.match_payee_id && !rule.match_description_pattern &&
+        rule.match_min_amount == null && rule.match_max_amount == null) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Rule needs at least one payee, description or amount condition');
+    }
+
+    if (!rule.set_envelope_id && !rule.set_payee_id && !rule.set_description) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Rule needs an envelope, payee or description to set');
+    }
+
+    if (rule.match_description_pattern) {
+      if (rule.match_description_pattern.length > 200) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Description pattern cannot exceed 200 characters');
+      }
+      if (!compileRulePattern(rule.match_description_pattern)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Description pattern is not a valid regular expression');
+      }
+    }
+
+    if ((rule.match_min_amount != null && rule.match_min_amount < 0) ||
+        (rule.match_max_amount != null && rule.match_max_amount < 0)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Amount conditions cannot be negative');
+    }
+
+    if (rule.match_min_amount != null && rule.match_max_amount != null &&
+        rule.match_min_amount > rule.match_max_amount) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'match_min_amount cannot be greater than match_max_amount');
+    }
+
+    if (rule.set_envelope_id) {
+      await this.verifyBudgetReference('envelopes', rule.set_envelope_id, budgetId, 'Envelope');
+    }
+
+    for (const payeeId of [rule.match_payee_id, rule.set_payee_id]) {
+      if (payeeId) {
+        await this.verifyBudgetReference('payees', payeeId, budgetId, 'Payee');
+      }
+    }
+  }
+
+  private async verifyBudgetReference(table: 'envelopes' | 'payees', id: string, budgetId: string, label: string): Promise<void> {
+    const { data, error } = await this.client
+      .from(table)
+      .select('id')
+      .eq('id', id)
+      .eq('budget_id', budgetId)
+      .single();
+
+    if (error || !data) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `${label} not found in this budget`);
+    }
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
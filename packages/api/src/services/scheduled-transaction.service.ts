@@ -0,0 +1,392 @@
+import { BaseService } from './base.service';
+import { TransactionService } from './transaction.service';
+import {
+  ScheduledTransaction,
+  ScheduledTransactionCreateRequest,
+  ScheduledTransactionUpdateRequest,
+  ScheduledTransactionPreview,
+  ScheduledTransactionRunResult,
+  TransactionType,
+  SUPPORTED_CURRENCIES,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const SCHEDULE_TYPES = ['weekly', 'biweekly', 'monthly', 'semi_monthly', 'quarterly', 'yearly', 'one_time'];
+
+// Upper bound on occurrences posted per template in a single run when catching up
+const MAX_CATCH_UP_OCCURRENCES = 366;
+
+export class ScheduledTransactionService extends BaseService {
+  private transactionService: TransactionService;
+
+  constructor(client: any) {
+    super(client);
+    this.transactionService = new TransactionService(client);
+  }
+
+  async listScheduledTransactions(budgetId: string): Promise<ScheduledTransaction[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client
+      .from('scheduled_transactions')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('next_occurrence_date', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as ScheduledTransaction[];
+  }
+
+  async getScheduledTransaction(id: string): Promise<ScheduledTransaction> {
+    const { data, error } = await this.client
+      .from('scheduled_transactions')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Scheduled transaction not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return data as ScheduledTransaction;
+  }
+
+  async createScheduledTransaction(
+    budgetId: string,
+    request: ScheduledTransactionCreateRequest
+  ): Promise<ScheduledTransaction> {
+    await this.verifyBudgetAccess(budgetId);
+    await this.validateTemplate(request, budgetId);
+
+    const { data, error } = await this.client
+      .from('scheduled_transactions')
+      .insert({
+        budget_id: budgetId,
+        ...request,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as ScheduledTransaction;
+  }
+
+  async updateScheduledTransaction(
+    id: string,
+    updates: ScheduledTransactionUpdateRequest
+  ): Promise<ScheduledTransaction> {
+    const scheduled = await this.getScheduledTransaction(id);
+    await this.validateTemplate(
+      { ...scheduled, ...updates, currency: updates.currency ?? scheduled.currency },
+      scheduled.budget_id
+    );
+
+    const scheduleChanged = updates.schedule_type !== undefined || updates.schedule_config !== undefined;
+
+    const { data, error } = await this.client
+      .from('scheduled_transactions')
+      .update({
+        ...updates,
+        // Let the database recalculate the next occurrence for a new schedule
+        ...(scheduleChanged && updates.next_occurrence_date === undefined ? { next_occurrence_date: null } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as ScheduledTransaction;
+  }
+
+  async deleteScheduledTransaction(id: string): Promise<void> {
+    await this.getScheduledTransaction(id);
+
+    const { error } = await this.client
+      .from('scheduled_transactions')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Dry run: list the next `count` dates a template would post on, without posting anything
+   */
+  async previewOccurrences(id: string, count: number = 5): Promise<ScheduledTransactionPreview> {
+    const scheduled = await this.getScheduledTransaction(id);
+
+    if (count < 1 || count > 100) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Preview count must be between 1 and 100');
+    }
+
+    const occurrences = scheduled.is_active && scheduled.next_occurrence_date
+      ? await this.getOccurrences(scheduled, count, scheduled.end_date)
+      : [];
+
+    return {
+      scheduled_transaction_id: scheduled.id,
+      name: scheduled.name,
+      occurrences,
+    };
+  }
+
+  /**
+   * Post every occurrence due on or before `asOf` (default today) for the budget's
+   * active templates, catching up on any runs that were missed.
+   * Each transaction goes through TransactionService.createTransaction, so it gets
+   * exactly the same validation as a manually entered transaction.
+   */
+  async postDueTransactions(budgetId: string, asOf?: string): Promise<ScheduledTransactionRunResult[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const runDate = asOf || new Date().toISOString().split('T')[0];
+
+    const { data: due, error } = await this.client
+      .from('scheduled_transactions')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .eq('is_active', true)
+      .not('next_occurrence_date', 'is', null)
+      .lte('next_occurrence_date', runDate)
+      .order('next_occurrence_date', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const results: ScheduledTransactionRunResult[] = [];
+    for (const scheduled of (due || []) as ScheduledTransaction[]) {
+      results.push(await this.postScheduledTransaction(scheduled, runDate));
+    }
+
+    return results;
+  }
+
+  private async postScheduledTransaction(
+    scheduled: ScheduledTransaction,
+    runDate: string
+  ): Promise<ScheduledTransactionRunResult> {
+    const until = scheduled.end_date && scheduled.end_date < runDate ? scheduled.end_date : runDate;
+    const dates = await this.getOccurrences(scheduled, MAX_CATCH_UP_OCCURRENCES, until);
+
+    const result: ScheduledTransactionRunResult = {
+      scheduled_transaction_id: scheduled.id,
+      name: scheduled.name,
+      posted_dates: [],
+      transaction_ids: [],
+    };
+
+    for (const date of dates) {
+      try {
+        const transaction = await this.transactionService.createTransaction(scheduled.budget_id, {
+          transaction_type: scheduled.transaction_type,
+          amount: scheduled.amount,
+          currency: scheduled.currency || undefined,
+          description: scheduled.description || scheduled.name,
+          transaction_date: date,
+          from_envelope_id: scheduled.from_envelope_id || undefined,
+          to_envelope_id: scheduled.to_envelope_id || undefined,
+          payee_id: scheduled.payee_id || undefined,
+          income_source_id: scheduled.income_source_id || undefined,
+          scheduled_transaction_id: scheduled.id,
+        });
+        result.transaction_ids.push(transaction.id);
+      } catch (error) {
+        // Already posted by an overlapping run: treat as done and keep going. The unique
+        // index on (scheduled_transaction_id, transaction_date) is the only one that an
+        // insert of a new transaction can violate.
+        if (!(error instanceof ApiError && error.code === ErrorCode.ALREADY_EXISTS)) {
+          result.error = error instanceof Error ? error.message : 'Failed to post scheduled transaction';
+          break;
+        }
+      }
+      result.posted_dates.push(date);
+    }
+
+    // Nothing posted: leave the template untouched so the next run retries
+    if (result.posted_dates.length === 0) {
+      result.next_occurrence_date = scheduled.next_occurrence_date;
+      return result;
+    }
+
+    const lastPosted = result.posted_dates[result.posted_dates.length - 1];
+    const nextDate = await this.calculateNextOccurrence(scheduled, lastPosted);
+    const finished = !nextDate || (!!scheduled.end_date && nextDate > scheduled.end_date);
+
+    const { error: updateError } = await this.client
+      .from('scheduled_transactions')
+      .update({
+        last_posted_date: lastPosted,
+        next_occurrence_date: finished ? null : nextDate,
+        is_active: !finished,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', scheduled.id);
+
+    if (updateError) {
+      this.handleError(updateError);
+    }
+
+    result.next_occurrence_date = finished ? undefined : nextDate!;
+    return result;
+  }
+
+  private async getOccurrences(scheduled: ScheduledTransaction, count: number, until?: string): Promise<string[]> {
+    const { data, error } = await this.client.rpc('get_schedule_occurrences', {
+      p_schedule_type: scheduled.schedule_type,
+      p_schedule_config: scheduled.schedule_config,
+      p_start_date: scheduled.next_occurrence_date,
+      p_count: count,
+      p_until: until || null,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return ((data || []) as { occurrence_date: string }[]).map(row => row.occurrence_date);
+  }
+
+  /**
+   * Next occurrence strictly after `afterDate`, or null when the schedule does not repeat
+   */
+  private async calculateNextOccurrence(scheduled: ScheduledTransaction, afterDate: string): Promise<string | null> {
+    const { data, error } = await this.client.rpc('calculate_next_expected_date', {
+      schedule_type: scheduled.schedule_type,
+      schedule_config: scheduled.schedule_config,
+      reference_date: afterDate,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const nextDate = data as string | null;
+    return nextDate && nextDate > afterDate ? nextDate : null;
+  }
+
+  /**
+   * Besides the template fields, checks the references each transaction type needs,
+   * like TransactionService does for a manual transaction, so a template that could
+   * never post is rejected when it is saved
+   */
+  private async validateTemplate(template: ScheduledTransactionCreateRequest, budgetId: string): Promise<void> {
+    if (!template.name || template.name.trim().length === 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Scheduled transaction name is required');
+    }
+
+    if (template.transaction_type === TransactionType.PAYOFF) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Payoff transactions cannot be scheduled');
+    }
+
+    if (!template.amount || template.amount <= 0) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Scheduled transaction amount must be positive');
+    }
+
+    if (template.currency != null && !(SUPPORTED_CURRENCIES as readonly string[]).includes(template.currency)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Unsupported currency');
+    }
+
+    if (!SCHEDULE_TYPES.includes(template.schedule_type) || !template.schedule_config) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'A valid schedule_type and schedule_config are required');
+    }
+
+    if (template.end_date && template.next_occurrence_date && template.end_date < template.next_occurrence_date) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'end_date cannot be before next_occurrence_date');
+    }
+
+    const { from_envelope_id, to_envelope_id, payee_id, income_source_id } = template;
+
+    switch (template.transaction_type) {
+      case TransactionType.INCOME:
+        if (!income_source_id || from_envelope_id || to_envelope_id || payee_id) {
+          throw new ApiError(
+            ErrorCode.VALIDATION_ERROR,
+            'Income transactions require income_source_id and no envelope or payee references'
+          );
+        }
+        await this.verifyBelongsToBudget('income_sources', income_source_id, budgetId, 'Income source');
+        break;
+
+      case TransactionType.ALLOCATION:
+        if (!to_envelope_id || from_envelope_id || payee_id || income_source_id) {
+          throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Allocation transactions require to_envelope_id only');
+        }
+        await this.verifyBelongsToBudget('envelopes', to_envelope_id, budgetId, 'Envelope');
+        break;
+
+      case TransactionType.EXPENSE:
+        if (!from_envelope_id || !payee_id || to_envelope_id || income_source_id) {
+          throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Expense transactions require from_envelope_id and payee_id');
+        }
+        await this.verifyBelongsToBudget('envelopes', from_envelope_id, budgetId, 'Envelope');
+        await this.verifyBelongsToBudget('payees', payee_id, budgetId, 'Payee');
+        break;
+
+      case TransactionType.TRANSFER:
+        if (!from_envelope_id || !to_envelope_id || payee_id || income_source_id) {
+          throw new ApiError(
+            ErrorCode.VALIDATION_ERROR,
+            'Transfer transactions require from_envelope_id and to_envelope_id'
+          );
+        }
+        if (from_envelope_id === to_envelope_id) {
+          throw new ApiError(ErrorCode.INVALID_ENVELOPE_TRANSFER, 'Cannot transfer to the same envelope');
+        }
+        await this.verifyBelongsToBudget('envelopes', from_envelope_id, budgetId, 'Source envelope');
+        await this.verifyBelongsToBudget('envelopes', to_envelope_id, budgetId, 'Destination envelope');
+        break;
+
+      default:
+        throw new ApiError(ErrorCode.INVALID_TRANSACTION_TYPE, 'Invalid transaction type');
+    }
+  }
+
+  private async verifyBelongsToBudget(table: string, id: string, budgetId: string, label: string): Promise<void> {
+    const { data } = await this.client
+      .from(table)
+      .select('id')
+      .eq('id', id)
+      .eq('budget_id', budgetId)
+      .single();
+
+    if (!data) {
+      throw new ApiError(ErrorCode.NOT_FOUND, `${label} not found or does not belong to this budget`);
+    }
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
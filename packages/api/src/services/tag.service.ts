@@ -0,0 +1,269 @@
+import { BaseService } from './base.service';
+import {
+  Tag,
+  TagCreateRequest,
+  TagUpdateRequest,
+  ApiError,
+  ErrorCode
+} from '@nvlp/types';
+
+const MAX_TAG_NAME_LENGTH = 50;
+const TAG_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+export class TagService extends BaseService {
+  async listTags(budgetId: string): Promise<Tag[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client
+      .from('tags')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as Tag[];
+  }
+
+  async getTag(id: string): Promise<Tag> {
+    const { data, error } = await this.client
+      .from('tags')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Tag not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return data as Tag;
+  }
+
+  async createTag(budgetId: string, request: TagCreateRequest): Promise<Tag> {
+    await this.verifyBudgetAccess(budgetId);
+    this.validateTag(request);
+
+    const { data, error } = await this.client
+      .from('tags')
+      .insert({
+        budget_id: budgetId,
+        name: request.name.trim(),
+        color: request.color,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleTagError(error);
+    }
+
+    return data as Tag;
+  }
+
+  async updateTag(id: string, updates: TagUpdateRequest): Promise<Tag> {
+    await this.getTag(id);
+    this.validateTag(updates);
+
+    const { data, error } = await this.client
+      .from('tags')
+      .update({
+        ...updates,
+        ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error || !data) {
+      this.handleTagError(error);
+    }
+
+    return data as Tag;
+  }
+
+  /**
+   * Delete a tag. It is removed from every transaction that carried it.
+   */
+  async deleteTag(id: string): Promise<void> {
+    await this.getTag(id);
+
+    const { error } = await this.client
+      .from('tags')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  async getTransactionTags(transactionId: string): Promise<Tag[]> {
+    await this.getTransactionBudgetId(transactionId);
+
+    const { data, error } = await this.client
+      .from('transaction_tags')
+      .select('tag:tag_id(*)')
+      .eq('transaction_id', transactionId);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return (data || [])
+      .map((row: any) => row.tag as Tag)
+      .sort((a: Tag, b: Tag) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Replace the tags on a transaction with exactly the given set
+   */
+  async setTransactionTags(transactionId: string, tagIds: string[]): Promise<Tag[]> {
+    const budgetId = await this.getTransactionBudgetId(transactionId);
+    const uniqueTagIds = Array.from(new Set(tagIds));
+    await this.validateTagIds(budgetId, uniqueTagIds);
+
+    let removal = this.client
+      .from('transaction_tags')
+      .delete()
+      .eq('transaction_id', transactionId);
+
+    if (uniqueTagIds.length > 0) {
+      removal = removal.not('tag_id', 'in', `(${uniqueTagIds.join(',')})`);
+    }
+
+    const { error: removeError } = await removal;
+    if (removeError) {
+      this.handleError(removeError);
+    }
+
+    if (uniqueTagIds.length > 0) {
+      await this.insertTransactionTags(budgetId, transactionId, uniqueTagIds);
+    }
+
+    return this.getTransactionTags(transactionId);
+  }
+
+  async addTagToTransaction(transactionId: string, tagId: string): Promise<void> {
+    const budgetId = await this.getTransactionBudgetId(transactionId);
+    await this.validateTagIds(budgetId, [tagId]);
+    await this.insertTransactionTags(budgetId, transactionId, [tagId]);
+  }
+
+  async removeTagFromTransaction(transactionId: string, tagId: string): Promise<void> {
+    await this.getTransactionBudgetId(transactionId);
+
+    const { error } = await this.client
+      .from('transaction_tags')
+      .delete()
+      .eq('transaction_id', transactionId)
+      .eq('tag_id', tagId);
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  private async insertTransactionTags(budgetId: string, transactionId: string, tagIds: string[]): Promise<void> {
+    // Tags already on the transaction are left as they are
+    const { error } = await this.client
+      .from('transaction_tags')
+      .upsert(
+        tagIds.map(tagId => ({
+          transaction_id: transactionId,
+          tag_id: tagId,
+          budget_id: budgetId,
+        })),
+        { onConflict: 'transaction_id,tag_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      this.handleError(error);
+    }
+  }
+
+  private validateTag(request: TagCreateRequest | TagUpdateRequest): void {
+    if (request.name !== undefined) {
+      const name = request.name?.trim();
+      if (!name) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Tag name is required');
+      }
+      if (name.length > MAX_TAG_NAME_LENGTH) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, `Tag name cannot exceed ${MAX_TAG_NAME_LENGTH} characters`);
+      }
+    }
+    if (request.color && !TAG_COLOR_PATTERN.test(request.color)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Tag color must be a hex color like #1E88E5');
+    }
+  }
+
+  private async validateTagIds(budgetId: string, tagIds: string[]): Promise<void> {
+    if (tagIds.length === 0) {
+      return;
+    }
+
+    const { data, error } = await this.client
+      .from('tags')
+      .select('id')
+      .eq('budget_id', budgetId)
+      .in('id', tagIds);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    if (!data || data.length !== tagIds.length) {
+      throw new ApiError(ErrorCode.NOT_FOUND, 'Tag not found or does not belong to this budget');
+    }
+  }
+
+  private handleTagError(error: any): never {
+    if (error?.code === '23505') {
+      throw new ApiError(ErrorCode.ALREADY_EXISTS, 'A tag with this name already exists');
+    }
+    this.handleError(error);
+  }
+
+  private async getTransactionBudgetId(transactionId: string): Promise<string> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('budget_id')
+      .eq('id', transactionId)
+      .eq('is_deleted', false)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Transaction not found');
+      }
+      this.handleError(error);
+    }
+
+    await this.verifyBudgetAccess(data.budget_id);
+    return data.budget_id;
+  }
+
+  private async verifyBudgetAccess(budgetId: string): Promise<void> {
+    const userId = await this.getCurrentUserId();
+
+    const { error } = await this.client
+      .from('budgets')
+      .select('id')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Budget not found or access denied');
+      }
+      this.handleError(error);
+    }
+  }
+}
\ No newline at end of file
@@ -1,10 +1,25 @@
 import { BaseService } from './base.service';
+import { RuleService } from './rule.service';
+import { UNLOCK_RECONCILED_HEADER } from '../utils/postgrest-headers';
 import { 
   Transaction, 
   TransactionCreateRequest, 
   TransactionUpdateRequest, 
   TransactionType,
+  TransactionStatus,
   TransactionWithDetails,
+  TransactionSplitRequest,
+  TransactionSearchOptions,
+  TransactionSearchResult,
+  CursorPaginationOptions,
+  PaginatedResponse,
+  PaginationCountType,
+  encodeTransactionCursor,
+  decodeTransactionCursor,
+  Reconciliation,
+  ReconciliationRequest,
+  ReconciliationSession,
+  SUPPORTED_CURRENCIES,
   ApiError, 
   ErrorCode,
   EnvelopeType 
@@ -14,6 +29,7 @@ export interface TransactionFilters {
   startDate?: string;
   endDate?: string;
   transactionType?: TransactionType;
+  status?: TransactionStatus;
   envelopeId?: string;
   payeeId?: string;
   incomeSourceId?: string;
@@ -22,76 +38,36 @@ export interface TransactionFilters {
   isReconciled?: boolean;
   minAmount?: number;
   maxAmount?: number;
+  tagIds?: string[];           // Transactions carrying any of these tags
 }
 
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
 export class TransactionService extends BaseService {
+  private ruleService: RuleService;
+
+  constructor(client: any) {
+    super(client);
+    this.ruleService = new RuleService(client);
+  }
+
   async listTransactions(
     budgetId: string, 
     filters?: TransactionFilters,
-    limit?: number,
-    offset?: number
-  ): Promise<Transaction[]> {
+    page: CursorPaginationOptions = {}
+  ): Promise<PaginatedResponse<Transaction>> {
     await this.verifyBudgetAccess(budgetId);
 
     let query = this.client
       .from('transactions')
-      .select('*')
+      .select(this.withTagFilterEmbed('*', filters), this.countOptions(page))
       .eq('budget_id', budgetId)
       .eq('is_deleted', false);
 
-    // Apply filters
-    if (filters) {
-      if (filters.startDate) {
-        query = query.gte('transaction_date', filters.startDate);
-      }
-      if (filters.endDate) {
-        query = query.lte('transaction_date', filters.endDate);
-      }
-      if (filters.transactionType) {
-        query = query.eq('transaction_type', filters.transactionType);
-      }
-      if (filters.envelopeId) {
-        query = query.or(`from_envelope_id.eq.${filters.envelopeId},to_envelope_id.eq.${filters.envelopeId}`);
-      }
-      if (filters.payeeId) {
-        query = query.eq('payee_id', filters.payeeId);
-      }
-      if (filters.incomeSourceId) {
-        query = query.eq('income_source_id', filters.incomeSourceId);
-      }
-      if (filters.categoryId) {
-        query = query.eq('category_id', filters.categoryId);
-      }
-      if (filters.isCleared !== undefined) {
-        query = query.eq('is_cleared', filters.isCleared);
-      }
-      if (filters.isReconciled !== undefined) {
-        query = query.eq('is_reconciled', filters.isReconciled);
-      }
-      if (filters.minAmount !== undefined) {
-        query = query.gte('amount', filters.minAmount);
-      }
-      if (filters.maxAmount !== undefined) {
-        query = query.lte('amount', filters.maxAmount);
-      }
-    }
-
-    query = query.order('transaction_date', { ascending: false });
-
-    if (limit) {
-      query = query.limit(limit);
-    }
-    if (offset) {
-      query = query.range(offset, offset + (limit || 50) - 1);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      this.handleError(error);
-    }
-
-    return data as Transaction[];
+    query = await this.applyFilters(query, budgetId, filters);
+    return this.fetchPage<Transaction>(query, page);
   }
 
   /**
@@ -101,77 +77,87 @@ export class TransactionService extends BaseService {
   async listTransactionsWithDetails(
     budgetId: string, 
     filters?: TransactionFilters,
-    limit?: number,
-    offset?: number
-  ): Promise<TransactionWithDetails[]> {
+    page: CursorPaginationOptions = {}
+  ): Promise<PaginatedResponse<TransactionWithDetails>> {
     await this.verifyBudgetAccess(budgetId);
 
     let query = this.client
       .from('transactions')
-      .select(`
+      .select(this.withTagFilterEmbed(`
         *,
         from_envelope:from_envelope_id(id, name),
         to_envelope:to_envelope_id(id, name),
         payee:payee_id(id, name),
         income_source:income_source_id(id, name),
-        category:category_id(id, name)
-      `)
+        category:category_id(id, name),
+        splits:transaction_splits(*, envelope:envelope_id(id, name)),
+        attachments(*),
+        tags(*)
+      `, filters), this.countOptions(page))
       .eq('budget_id', budgetId)
-      .eq('is_deleted', false);
+      .eq('is_deleted', false)
+      .eq('attachments.is_uploaded', true);
 
-    // Apply filters (same as listTransactions)
-    if (filters) {
-      if (filters.startDate) {
-        query = query.gte('transaction_date', filters.startDate);
-      }
-      if (filters.endDate) {
-        query = query.lte('transaction_date', filters.endDate);
-      }
-      if (filters.transactionType) {
-        query = query.eq('transaction_type', filters.transactionType);
-      }
-      if (filters.envelopeId) {
-        query = query.or(`from_envelope_id.eq.${filters.envelopeId},to_envelope_id.eq.${filters.envelopeId}`);
-      }
-      if (filters.payeeId) {
-        query = query.eq('payee_id', filters.payeeId);
-      }
-      if (filters.incomeSourceId) {
-        query = query.eq('income_source_id', filters.incomeSourceId);
-      }
-      if (filters.categoryId) {
-        query = query.eq('category_id', filters.categoryId);
-      }
-      if (filters.isCleared !== undefined) {
-        query = query.eq('is_cleared', filters.isCleared);
-      }
-      if (filters.isReconciled !== undefined) {
-        query = query.eq('is_reconciled', filters.isReconciled);
-      }
-      if (filters.minAmount !== undefined) {
-        query = query.gte('amount', filters.minAmount);
-      }
-      if (filters.maxAmount !== undefined) {
-        query = query.lte('amount', filters.maxAmount);
-      }
-    }
+    query = await this.applyFilters(query, budgetId, filters);
+    return this.fetchPage<TransactionWithDetails>(query, page);
+  }
 
-    query = query.order('transaction_date', { ascending: false });
+  /**
+   * Ranked full-text search over description, payee name and envelope names.
+   * Accepts web search syntax ("exact phrase", or, -exclude) and the same
+   * filters as listTransactions except categoryId and tagIds.
+   */
+  async searchTransactions(
+    budgetId: string,
+    query: string,
+    filters?: TransactionFilters,
+    options: TransactionSearchOptions = {}
+  ): Promise<TransactionSearchResult[]> {
+    await this.verifyBudgetAccess(budgetId);
 
-    if (limit) {
-      query = query.limit(limit);
+    const searchQuery = query?.trim();
+    if (!searchQuery) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Search query is required');
     }
-    if (offset) {
-      query = query.range(offset, offset + (limit || 50) - 1);
+    if (searchQuery.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Search query cannot exceed ${MAX_SEARCH_QUERY_LENGTH} characters`);
     }
 
-    const { data, error } = await query;
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const { data, error } = await this.client.rpc('search_transactions', {
+      p_budget_id: budgetId,
+      p_query: searchQuery,
+      p_start_date: filters?.startDate ?? null,
+      p_end_date: filters?.endDate ?? null,
+      p_transaction_type: filters?.transactionType ?? null,
+      p_envelope_id: filters?.envelopeId ?? null,
+      p_payee_id: filters?.payeeId ?? null,
+      p_income_source_id: filters?.incomeSourceId ?? null,
+      p_is_cleared: filters?.isCleared ?? null,
+      p_is_reconciled: filters?.isReconciled ?? null,
+      p_min_amount: filters?.minAmount ?? null,
+      p_max_amount: filters?.maxAmount ?? null,
+      p_limit: limit,
+      p_offset: options.offset ?? 0,
+    });
 
     if (error) {
       this.handleError(error);
     }
 
-    return data as TransactionWithDetails[];
+    return (data || []).map((row: any) => ({
+      transaction: row.transaction_record as Transaction,
+      rank: row.search_rank,
+      highlights: {
+        ...(row.description_highlight ? { description: row.description_highlight } : {}),
+        ...(row.payee_highlight ? { payee_name: row.payee_highlight } : {}),
+        ...(row.envelope_highlight ? { envelope_names: row.envelope_highlight } : {}),
+      },
+    }));
   }
 
   async getTransaction(id: string): Promise<TransactionWithDetails> {
@@ -183,9 +169,13 @@ export class TransactionService extends BaseService {
         to_envelope:to_envelope_id(id, name),
         payee:payee_id(id, name),
         income_source:income_source_id(id, name),
-        category:category_id(id, name)
+        category:category_id(id, name),
+        splits:transaction_splits(*, envelope:envelope_id(id, name)),
+        attachments(*),
+        tags(*)
       `)
       .eq('id', id)
+      .eq('attachments.is_uploaded', true)
       .single();
 
     if (error || !data) {
@@ -201,18 +191,37 @@ export class TransactionService extends BaseService {
 
   async createTransaction(budgetId: string, request: TransactionCreateRequest): Promise<Transaction> {
     await this.verifyBudgetAccess(budgetId);
+    request = await this.applyRules(budgetId, request);
     await this.validateTransactionRequest(request, budgetId);
 
+    const { splits, ...transaction } = request;
+
+    // Split expenses are created together with their lines in a single database transaction
+    if (splits) {
+      const { data, error } = await this.client.rpc('create_split_transaction', {
+        p_budget_id: budgetId,
+        p_transaction: transaction,
+        p_splits: splits,
+      });
+
+      if (error || !data) {
+        this.handleError(error);
+      }
+
+      return data as Transaction;
+    }
+
     const { data, error } = await this.client
       .from('transactions')
       .insert({
         budget_id: budgetId,
-        ...request,
+        ...transaction,
       })
       .select()
       .single();
 
     if (error || !data) {
+      this.handleCurrencyError(error);
       this.handleError(error);
     }
 
@@ -221,45 +230,108 @@ export class TransactionService extends BaseService {
 
   async updateTransaction(id: string, updates: TransactionUpdateRequest): Promise<Transaction> {
     const transaction = await this.getTransaction(id);
+    const { splits, unlock_reconciled, ...fields } = updates;
+
+    this.assertUnlocked(transaction, unlock_reconciled);
+
+    if (transaction.is_split || splits) {
+      if (fields.from_envelope_id) {
+        throw new ApiError(
+          ErrorCode.VALIDATION_ERROR,
+          'Split transactions cannot have a from_envelope_id'
+        );
+      }
+      if (!splits && fields.amount !== undefined && fields.amount !== transaction.amount) {
+        throw new ApiError(
+          ErrorCode.VALIDATION_ERROR,
+          'Update the splits to change the amount of a split transaction'
+        );
+      }
+    }
+
+    // Existing lines are re-validated when other core fields of a split transaction change
+    const effectiveSplits: TransactionSplitRequest[] | undefined = splits ?? (
+      transaction.is_split
+        ? transaction.splits?.map(({ envelope_id, amount, description }) => ({ envelope_id, amount, description }))
+        : undefined
+    );
 
     // If changing core transaction fields, validate
-    if (updates.from_envelope_id !== undefined || 
-        updates.to_envelope_id !== undefined ||
-        updates.payee_id !== undefined ||
-        updates.income_source_id !== undefined) {
+    if (splits ||
+        fields.from_envelope_id !== undefined ||
+        fields.to_envelope_id !== undefined ||
+        fields.payee_id !== undefined ||
+        fields.income_source_id !== undefined) {
       await this.validateTransactionRequest({
         transaction_type: transaction.transaction_type,
-        amount: updates.amount || transaction.amount,
-        transaction_date: updates.transaction_date || transaction.transaction_date,
-        from_envelope_id: updates.from_envelope_id ?? transaction.from_envelope_id,
-        to_envelope_id: updates.to_envelope_id ?? transaction.to_envelope_id,
-        payee_id: updates.payee_id ?? transaction.payee_id,
-        income_source_id: updates.income_source_id ?? transaction.income_source_id,
+        amount: fields.amount || (splits ? this.sumSplits(splits) : transaction.amount),
+        transaction_date: fields.transaction_date || transaction.transaction_date,
+        from_envelope_id: effectiveSplits ? undefined : fields.from_envelope_id ?? transaction.from_envelope_id,
+        to_envelope_id: fields.to_envelope_id ?? transaction.to_envelope_id,
+        payee_id: fields.payee_id ?? transaction.payee_id,
+        income_source_id: fields.income_source_id ?? transaction.income_source_id,
+        splits: effectiveSplits,
       }, transaction.budget_id);
     }
 
-    const { data, error } = await this.client
+    if (fields.currency !== undefined || fields.exchange_rate !== undefined) {
+      this.validateCurrency(
+        fields.currency === undefined ? transaction.currency : fields.currency,
+        fields.exchange_rate,
+        transaction.is_split || !!splits
+      );
+    }
+
+    if (splits) {
+      // Replaces the lines, sets the parent amount to their total and applies the
+      // other field changes in one transaction
+      delete fields.amount;
+      let splitQuery = this.client.rpc('replace_transaction_splits', {
+        p_transaction_id: id,
+        p_splits: splits,
+        p_fields: fields,
+      });
+      if (transaction.is_reconciled) {
+        splitQuery = splitQuery.setHeader(UNLOCK_RECONCILED_HEADER, 'true');
+      }
+
+      const { data, error } = await splitQuery;
+
+      if (error || !data) {
+        this.handleCurrencyError(error);
+        this.handleError(error);
+      }
+
+      return data as Transaction;
+    }
+
+    let query = this.client
       .from('transactions')
       .update({
-        ...updates,
+        ...fields,
         updated_at: new Date().toISOString(),
       })
-      .eq('id', id)
-      .select()
-      .single();
+      .eq('id', id);
+    if (transaction.is_reconciled) {
+      query = query.setHeader(UNLOCK_RECONCILED_HEADER, 'true');
+    }
+
+    const { data, error } = await query.select().single();
 
     if (error || !data) {
+      this.handleCurrencyError(error);
       this.handleError(error);
     }
 
     return data as Transaction;
   }
 
-  async softDeleteTransaction(id: string): Promise<void> {
-    await this.getTransaction(id); // Verify access
+  async softDeleteTransaction(id: string, unlockReconciled = false): Promise<void> {
+    const transaction = await this.getTransaction(id); // Verify access
+    this.assertUnlocked(transaction, unlockReconciled);
     const userId = await this.getCurrentUserId();
 
-    const { error } = await this.client
+    let query = this.client
       .from('transactions')
       .update({
         is_deleted: true,
@@ -268,13 +340,18 @@ export class TransactionService extends BaseService {
         updated_at: new Date().toISOString(),
       })
       .eq('id', id);
+    if (transaction.is_reconciled) {
+      query = query.setHeader(UNLOCK_RECONCILED_HEADER, 'true');
+    }
+
+    const { error } = await query;
 
     if (error) {
       this.handleError(error);
     }
   }
 
-  async restoreTransaction(id: string): Promise<Transaction> {
+  async restoreTransaction(id: string, unlockReconciled = false): Promise<Transaction> {
     const userId = await this.getCurrentUserId();
 
     // Check if user can restore (must be the one who deleted)
@@ -294,8 +371,9 @@ export class TransactionService extends BaseService {
     }
 
     await this.verifyBudgetAccess(transaction.budget_id);
+    this.assertUnlocked(transaction, unlockReconciled);
 
-    const { data, error } = await this.client
+    let query = this.client
       .from('transactions')
       .update({
         is_deleted: false,
@@ -303,9 +381,12 @@ export class TransactionService extends BaseService {
         deleted_by: null,
         updated_at: new Date().toISOString(),
       })
-      .eq('id', id)
-      .select()
-      .single();
+      .eq('id', id);
+    if (transaction.is_reconciled) {
+      query = query.setHeader(UNLOCK_RECONCILED_HEADER, 'true');
+    }
+
+    const { data, error } = await query.select().single();
 
     if (error || !data) {
       this.handleError(error);
@@ -315,7 +396,7 @@ export class TransactionService extends BaseService {
   }
 
   async getRecentTransactions(budgetId: string, limit: number = 10): Promise<Transaction[]> {
-    return this.listTransactions(budgetId, undefined, limit);
+    return this.listAllTransactions(budgetId, {}, limit);
   }
 
   async getTransactionsByEnvelope(envelopeId: string, limit?: number): Promise<Transaction[]> {
@@ -330,7 +411,7 @@ export class TransactionService extends BaseService {
       throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope not found');
     }
 
-    return this.listTransactions(envelope.budget_id, { envelopeId }, limit);
+    return this.listAllTransactions(envelope.budget_id, { envelopeId }, limit);
   }
 
   async getTransactionsByPayee(payeeId: string, limit?: number): Promise<Transaction[]> {
@@ -345,15 +426,213 @@ export class TransactionService extends BaseService {
       throw new ApiError(ErrorCode.NOT_FOUND, 'Payee not found');
     }
 
-    return this.listTransactions(payee.budget_id, { payeeId }, limit);
+    return this.listAllTransactions(payee.budget_id, { payeeId }, limit);
   }
 
   async getPendingTransactions(budgetId: string, limit?: number): Promise<Transaction[]> {
-    return this.listTransactions(budgetId, { isCleared: false }, limit);
+    return this.listAllTransactions(budgetId, { isCleared: false }, limit);
+  }
+
+  /**
+   * Post this budget's scheduled transactions whose date has arrived. The daily
+   * scheduled-transactions job does the same for every budget.
+   */
+  async postDueTransactions(budgetId: string): Promise<number> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const { data, error } = await this.client.rpc('post_due_transactions', {
+      p_budget_id: budgetId,
+    });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as number;
+  }
+
+  /**
+   * Compare cleared transactions up to a statement date against the statement's ending balance.
+   * Nothing is changed; complete the reconciliation once the difference is zero.
+   */
+  async startReconciliation(budgetId: string, request: ReconciliationRequest): Promise<ReconciliationSession> {
+    await this.verifyBudgetAccess(budgetId);
+
+    if (!request.statement_date || isNaN(Date.parse(request.statement_date))) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'A valid statement_date is required');
+    }
+
+    if (typeof request.statement_balance !== 'number' || isNaN(request.statement_balance)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'statement_balance must be a number');
+    }
+
+    const [lastReconciliation] = await this.listReconciliations(budgetId, 1);
+
+    if (lastReconciliation && request.statement_date < lastReconciliation.statement_date) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        `Statement date cannot be before the last reconciliation (${lastReconciliation.statement_date})`
+      );
+    }
+
+    const { data: clearedBalance, error: balanceError } = await this.client.rpc('get_cleared_balance', {
+      p_budget_id: budgetId,
+      p_as_of: request.statement_date,
+    });
+
+    if (balanceError) {
+      this.handleError(balanceError);
+    }
+
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .eq('is_deleted', false)
+      .eq('is_reconciled', false)
+      .lte('transaction_date', request.statement_date)
+      .order('transaction_date', { ascending: true });
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const unreconciled = (data || []) as Transaction[];
+    const cleared_balance = Number(clearedBalance || 0);
+
+    return {
+      budget_id: budgetId,
+      statement_date: request.statement_date,
+      statement_balance: request.statement_balance,
+      cleared_balance,
+      difference: Math.round((request.statement_balance - cleared_balance) * 100) / 100,
+      cleared_transactions: unreconciled.filter(t => t.is_cleared),
+      uncleared_transactions: unreconciled.filter(t => !t.is_cleared),
+      last_reconciliation: lastReconciliation,
+    };
+  }
+
+  /**
+   * Lock every cleared transaction up to the statement date and record the reconciliation.
+   * Runs in a single database transaction; fails unless the cleared balance matches the statement.
+   */
+  async completeReconciliation(budgetId: string, request: ReconciliationRequest): Promise<Reconciliation> {
+    const session = await this.startReconciliation(budgetId, request);
+
+    if (session.difference !== 0) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        `Cleared balance does not match the statement balance (difference ${session.difference.toFixed(2)})`,
+        { difference: session.difference }
+      );
+    }
+
+    const { data, error } = await this.client.rpc('complete_reconciliation', {
+      p_budget_id: budgetId,
+      p_statement_date: request.statement_date,
+      p_statement_balance: request.statement_balance,
+    });
+
+    if (error || !data) {
+      this.handleError(error);
+    }
+
+    return data as Reconciliation;
+  }
+
+  async listReconciliations(budgetId: string, limit?: number): Promise<Reconciliation[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    let query = this.client
+      .from('reconciliations')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('statement_date', { ascending: false })
+      .order('completed_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    return data as Reconciliation[];
+  }
+
+  /**
+   * Fill the envelope, payee and description of an expense from the first matching
+   * auto-apply rule. Only empty fields are filled; values passed by the caller win.
+   */
+  private async applyRules(budgetId: string, request: TransactionCreateRequest): Promise<TransactionCreateRequest> {
+    if (request.transaction_type !== TransactionType.EXPENSE || request.splits ||
+        (request.from_envelope_id && request.payee_id)) {
+      return request;
+    }
+
+    const suggestion = await this.ruleService.suggest(budgetId, {
+      amount: request.amount,
+      payee_id: request.payee_id,
+      description: request.description,
+    });
+
+    if (!suggestion || !suggestion.auto_apply) {
+      return request;
+    }
+
+    return {
+      ...request,
+      from_envelope_id: request.from_envelope_id || suggestion.from_envelope_id,
+      payee_id: request.payee_id || suggestion.payee_id,
+      description: request.description || suggestion.description,
+    };
+  }
+
+  private validateCurrency(
+    currency: string | null | undefined,
+    exchangeRate: number | null | undefined,
+    isSplit: boolean
+  ): void {
+    if (currency != null && !(SUPPORTED_CURRENCIES as readonly string[]).includes(currency)) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Unsupported currency');
+    }
+
+    if (exchangeRate != null) {
+      if (currency == null) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'An exchange rate can only be given with a currency');
+      }
+      if (typeof exchangeRate !== 'number' || !Number.isFinite(exchangeRate) || exchangeRate <= 0) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Exchange rate must be greater than zero');
+      }
+    }
+
+    if (currency != null && isSplit) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Split transactions must be recorded in the budget currency');
+    }
+  }
+
+  // Reconciled transactions only change when the caller explicitly unlocks them
+  private assertUnlocked(transaction: Transaction, unlockReconciled?: boolean): void {
+    if (transaction.is_reconciled && !unlockReconciled) {
+      throw new ApiError(
+        ErrorCode.CONFLICT,
+        'Transaction has been reconciled; unlock it to make changes'
+      );
+    }
+  }
+
+  // The currency trigger rejects missing rates and envelopes kept in another currency
+  private handleCurrencyError(error: any): void {
+    if (error?.code === '23514' && error.message) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, error.message);
+    }
   }
 
   private async validateTransactionRequest(request: TransactionCreateRequest, budgetId?: string): Promise<void> {
-    const { transaction_type, from_envelope_id, to_envelope_id, payee_id, income_source_id } = request;
+    const { transaction_type, from_envelope_id, to_envelope_id, payee_id, income_source_id, splits } = request;
 
     // Basic amount validation
     if (request.amount <= 0) {
@@ -371,13 +650,21 @@ export class TransactionService extends BaseService {
       );
     }
 
-    // Validate transaction date is not in the future
-    const transactionDate = new Date(request.transaction_date);
-    if (transactionDate > new Date()) {
-      throw new ApiError(
-        ErrorCode.VALIDATION_ERROR,
-        'Transaction date cannot be in the future'
-      );
+    // Future-dated transactions are scheduled and only touch balances once posted,
+    // which split lines and payoffs can't wait for
+    if (this.isFutureDated(request.transaction_date)) {
+      if (splits) {
+        throw new ApiError(
+          ErrorCode.VALIDATION_ERROR,
+          'Split transactions cannot be future-dated'
+        );
+      }
+      if (transaction_type === TransactionType.PAYOFF) {
+        throw new ApiError(
+          ErrorCode.VALIDATION_ERROR,
+          'Payoff transactions cannot be future-dated'
+        );
+      }
     }
 
     // Validate description length if provided
@@ -388,6 +675,14 @@ export class TransactionService extends BaseService {
       );
     }
 
+    if (splits && transaction_type !== TransactionType.EXPENSE) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        'Only expense transactions can be split'
+      );
+    }
+
+    this.validateCurrency(request.currency, request.exchange_rate, !!splits);
 
     // Type-specific validation
     switch (transaction_type) {
@@ -439,7 +734,15 @@ export class TransactionService extends BaseService {
         break;
 
       case TransactionType.EXPENSE:
-        if (!from_envelope_id || !payee_id || to_envelope_id || income_source_id) {
+        if (splits) {
+          if (from_envelope_id || !payee_id || to_envelope_id || income_source_id) {
+            throw new ApiError(
+              ErrorCode.VALIDATION_ERROR,
+              'Split expense transactions require payee_id and splits instead of from_envelope_id'
+            );
+          }
+          await this.validateSplits(splits, request.amount, budgetId);
+        } else if (!from_envelope_id || !payee_id || to_envelope_id || income_source_id) {
           throw new ApiError(
             ErrorCode.VALIDATION_ERROR,
             `${transaction_type} transactions require from_envelope_id and payee_id`
@@ -447,18 +750,20 @@ export class TransactionService extends BaseService {
         }
         // Verify entities exist and belong to the budget
         if (budgetId) {
-          const { data: envelope } = await this.client
-            .from('envelopes')
-            .select('id, is_active, envelope_type')
-            .eq('id', from_envelope_id)
-            .eq('budget_id', budgetId)
-            .single();
-          
-          if (!envelope) {
-            throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope not found or does not belong to this budget');
-          }
-          if (!envelope.is_active) {
-            throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Cannot spend from inactive envelope');
+          if (!splits) {
+            const { data: envelope } = await this.client
+              .from('envelopes')
+              .select('id, is_active, envelope_type')
+              .eq('id', from_envelope_id)
+              .eq('budget_id', budgetId)
+              .single();
+
+            if (!envelope) {
+              throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope not found or does not belong to this budget');
+            }
+            if (!envelope.is_active) {
+              throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Cannot spend from inactive envelope');
+            }
           }
 
           const { data: payee } = await this.client
@@ -583,6 +888,245 @@ export class TransactionService extends BaseService {
     }
   }
 
+  private async validateSplits(splits: TransactionSplitRequest[], amount: number, budgetId?: string): Promise<void> {
+    if (splits.length < 2) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        'Split transactions require at least two splits'
+      );
+    }
+
+    for (const split of splits) {
+      if (!split.envelope_id) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Each split requires an envelope_id');
+      }
+      if (split.amount <= 0) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Split amounts must be positive');
+      }
+      if (Math.abs(Math.round(split.amount * 100) - split.amount * 100) > 1e-6) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Split amounts can have at most 2 decimal places');
+      }
+      if (split.description && split.description.length > 255) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Split description must be 255 characters or less');
+      }
+    }
+
+    const envelopeIds = splits.map(split => split.envelope_id);
+    if (new Set(envelopeIds).size !== envelopeIds.length) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Each split must use a different envelope');
+    }
+
+    // Compare in cents to avoid floating point drift
+    if (Math.round(this.sumSplits(splits) * 100) !== Math.round(amount * 100)) {
+      throw new ApiError(
+        ErrorCode.VALIDATION_ERROR,
+        'Split amounts must add up to the transaction amount'
+      );
+    }
+
+    // Verify envelopes exist, belong to the budget and are active
+    if (budgetId) {
+      const { data: envelopes, error } = await this.client
+        .from('envelopes')
+        .select('id, is_active')
+        .eq('budget_id', budgetId)
+        .in('id', envelopeIds);
+
+      if (error) {
+        this.handleError(error);
+      }
+
+      if (!envelopes || envelopes.length !== envelopeIds.length) {
+        throw new ApiError(ErrorCode.NOT_FOUND, 'Envelope not found or does not belong to this budget');
+      }
+      if (envelopes.some(envelope => !envelope.is_active)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Cannot spend from inactive envelope');
+      }
+    }
+  }
+
+  private isFutureDated(transactionDate: string): boolean {
+    return transactionDate.substring(0, 10) > new Date().toISOString().split('T')[0];
+  }
+
+  private sumSplits(splits: TransactionSplitRequest[]): number {
+    return splits.reduce((total, split) => total + Math.round(split.amount * 100), 0) / 100;
+  }
+
+  /**
+   * Select columns for a list query. Filtering by tag inner-joins transaction_tags;
+   * the embed is empty so the link rows stay out of the response.
+   */
+  private withTagFilterEmbed(columns: string, filters?: TransactionFilters): string {
+    return filters?.tagIds && filters.tagIds.length > 0 ? `${columns.trimEnd()}, transaction_tags!inner()` : columns;
+  }
+
+  private async applyFilters(query: any, budgetId: string, filters?: TransactionFilters): Promise<any> {
+    if (!filters) {
+      return query;
+    }
+
+    if (filters.startDate) {
+      query = query.gte('transaction_date', filters.startDate);
+    }
+    if (filters.endDate) {
+      query = query.lte('transaction_date', filters.endDate);
+    }
+    if (filters.transactionType) {
+      query = query.eq('transaction_type', filters.transactionType);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.envelopeId) {
+      query = query.or(await this.buildEnvelopeFilter(filters.envelopeId));
+    }
+    if (filters.payeeId) {
+      query = query.eq('payee_id', filters.payeeId);
+    }
+    if (filters.incomeSourceId) {
+      query = query.eq('income_source_id', filters.incomeSourceId);
+    }
+    if (filters.categoryId) {
+      query = query.eq('category_id', filters.categoryId);
+    }
+    if (filters.isCleared !== undefined) {
+      query = query.eq('is_cleared', filters.isCleared);
+    }
+    if (filters.isReconciled !== undefined) {
+      query = query.eq('is_reconciled', filters.isReconciled);
+    }
+    if (filters.minAmount !== undefined) {
+      query = query.gte('amount', filters.minAmount);
+    }
+    if (filters.maxAmount !== undefined) {
+      query = query.lte('amount', filters.maxAmount);
+    }
+    if (filters.tagIds && filters.tagIds.length > 0) {
+      // Needs the transaction_tags!inner() embed from withTagFilterEmbed
+      query = query
+        .eq('transaction_tags.budget_id', budgetId)
+        .in('transaction_tags.tag_id', filters.tagIds);
+    }
+
+    return query;
+  }
+
+  /**
+   * Keyset pagination on (transaction_date, id), newest first. Rows after the
+   * cursor are selected by value rather than skipped by offset, so deep pages
+   * cost the same as the first one.
+   */
+  private async fetchPage<T extends Transaction>(query: any, page: CursorPaginationOptions): Promise<PaginatedResponse<T>> {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const cursor = page.cursor ? decodeTransactionCursor(page.cursor) : null;
+    if (cursor) {
+      query = query.or(
+        `transaction_date.lt.${cursor.transaction_date},` +
+        `and(transaction_date.eq.${cursor.transaction_date},id.lt.${cursor.id})`
+      );
+    }
+
+    // One extra row tells us whether another page follows
+    const { data, error, count } = await query
+      .order('transaction_date', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const rows = (data || []) as T[];
+    const hasMore = rows.length > limit;
+    const pageRows = hasMore ? rows.slice(0, limit) : rows;
+    const pageNumber = (cursor?.page ?? 0) + 1;
+    const last = pageRows[pageRows.length - 1];
+
+    // Only the first page is counted; later pages carry its total in the cursor
+    const total = cursor ? cursor.total : count ?? 0;
+
+    return {
+      data: pageRows,
+      total,
+      totalIsEstimate: (page.count || 'exact') !== 'exact',
+      page: pageNumber,
+      pageSize: limit,
+      hasMore,
+      next_cursor: hasMore
+        ? encodeTransactionCursor({ transaction_date: last.transaction_date, id: last.id, page: pageNumber, total })
+        : null,
+    };
+  }
+
+  /**
+   * Count options for a page query. Counting is skipped after the first page, where
+   * the cursor filter would shrink the count and a full count of a large table on
+   * every page would defeat keyset pagination.
+   */
+  private countOptions(page: CursorPaginationOptions): { count?: PaginationCountType } {
+    return page.cursor ? {} : { count: page.count || 'exact' };
+  }
+
+  /**
+   * Every matching transaction newest first, or the first `limit` of them. Used by the
+   * helpers that return plain arrays; pages through internally and never counts.
+   */
+  private async listAllTransactions(budgetId: string, filters: TransactionFilters, limit?: number): Promise<Transaction[]> {
+    await this.verifyBudgetAccess(budgetId);
+
+    const rows: Transaction[] = [];
+    let cursor: string | undefined;
+
+    do {
+      let query = this.client
+        .from('transactions')
+        .select(this.withTagFilterEmbed('*', filters))
+        .eq('budget_id', budgetId)
+        .eq('is_deleted', false);
+
+      query = await this.applyFilters(query, budgetId, filters);
+      const page = await this.fetchPage<Transaction>(query, {
+        limit: limit === undefined ? MAX_PAGE_SIZE : Math.min(MAX_PAGE_SIZE, limit - rows.length),
+        cursor,
+      });
+
+      rows.push(...page.data);
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor && (limit === undefined || rows.length < limit));
+
+    return rows;
+  }
+
+  /**
+   * Build the PostgREST `or` filter for an envelope, including split
+   * transactions that draw from it through one of their lines
+   */
+  private async buildEnvelopeFilter(envelopeId: string): Promise<string> {
+    const { data: splits, error } = await this.client
+      .from('transaction_splits')
+      .select('transaction_id')
+      .eq('envelope_id', envelopeId)
+      .eq('is_deleted', false);
+
+    if (error) {
+      this.handleError(error);
+    }
+
+    const conditions = [`from_envelope_id.eq.${envelopeId}`, `to_envelope_id.eq.${envelopeId}`];
+    const splitTransactionIds = (splits || []).map((split: { transaction_id: string }) => split.transaction_id);
+    if (splitTransactionIds.length > 0) {
+      conditions.push(`id.in.(${splitTransactionIds.join(',')})`);
+    }
+
+    return conditions.join(',');
+  }
+
   private async verifyBudgetAccess(budgetId: string): Promise<void> {
     const userId = await this.getCurrentUserId();
 
@@ -0,0 +1,109 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, ApiError, ErrorCode, ATTACHMENT_BUCKET } from '@nvlp/types';
+
+/**
+ * Blob storage behind transaction attachments. Files are never streamed through
+ * the API: clients upload and download them directly using signed URLs.
+ */
+export interface AttachmentStorage {
+  createUploadUrl(path: string): Promise<{ url: string; token: string }>;
+  createDownloadUrl(path: string, expiresInSeconds: number): Promise<string>;
+  exists(path: string): Promise<boolean>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export class SupabaseAttachmentStorage implements AttachmentStorage {
+  constructor(
+    private client: SupabaseClient<Database>,
+    private bucket: string = ATTACHMENT_BUCKET
+  ) {}
+
+  async createUploadUrl(path: string): Promise<{ url: string; token: string }> {
+    const { data, error } = await this.client.storage.from(this.bucket).createSignedUploadUrl(path);
+
+    if (error || !data) {
+      throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, 'Could not create upload URL', error);
+    }
+
+    return { url: data.signedUrl, token: data.token };
+  }
+
+  async createDownloadUrl(path: string, expiresInSeconds: number): Promise<string> {
+    const { data, error } = await this.client.storage.from(this.bucket).createSignedUrl(path, expiresInSeconds);
+
+    if (error || !data) {
+      throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, 'Could not create download URL', error);
+    }
+
+    return data.signedUrl;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const { data, error } = await this.client.storage.from(this.bucket).exists(path);
+
+    if (error) {
+      return false;
+    }
+
+    return data;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client.storage.from(this.bucket).remove(paths);
+
+    if (error) {
+      throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, 'Could not remove attachment files', error);
+    }
+  }
+}
+
+/**
+ * Local filesystem stand-in for tests and offline development. URLs are file://
+ * paths; write a file with put() to play the part of the client's upload.
+ */
+export class FileSystemAttachmentStorage implements AttachmentStorage {
+  constructor(private rootDir: string) {}
+
+  private resolve(path: string): string {
+    if (path.split('/').some(segment => segment === '..' || segment === '')) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid attachment path');
+    }
+    return `${this.rootDir}/${path}`;
+  }
+
+  async put(path: string, body: string | Uint8Array): Promise<void> {
+    const fs = await import('fs/promises');
+    const filePath = this.resolve(path);
+    await fs.mkdir(filePath.substring(0, filePath.lastIndexOf('/')), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async createUploadUrl(path: string): Promise<{ url: string; token: string }> {
+    return { url: `file://${this.resolve(path)}`, token: path };
+  }
+
+  async createDownloadUrl(path: string, expiresInSeconds: number): Promise<string> {
+    return `file://${this.resolve(path)}?expires_in=${expiresInSeconds}`;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const fs = await import('fs/promises');
+    try {
+      await fs.access(this.resolve(path));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    const fs = await import('fs/promises');
+    for (const path of paths) {
+      await fs.rm(this.resolve(path), { force: true });
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,153 @@
+import {
+  DebtPayoffDebt,
+  DebtPayoffMonth,
+  DebtPayoffPlan,
+  DebtPayoffStrategy,
+  DebtPayoffSummary
+} from '@nvlp/types';
+
+// Fifty years; plans that run longer are reported as not paid off
+export const MAX_PAYOFF_MONTHS = 600;
+
+export interface DebtPayoffOptions {
+  strategy: DebtPayoffStrategy;
+  extra_monthly_payment: number;
+  start_month: string;                 // YYYY-MM
+  custom_order?: string[];
+}
+
+/**
+ * Debts in the order extra payments go to them
+ */
+export function orderDebts(debts: DebtPayoffDebt[], strategy: DebtPayoffStrategy, customOrder: string[] = []): DebtPayoffDebt[] {
+  const bySnowball = (a: DebtPayoffDebt, b: DebtPayoffDebt) =>
+    a.balance - b.balance || b.interest_rate - a.interest_rate || a.name.localeCompare(b.name);
+  const byAvalanche = (a: DebtPayoffDebt, b: DebtPayoffDebt) =>
+    b.interest_rate - a.interest_rate || a.balance - b.balance || a.name.localeCompare(b.name);
+
+  if (strategy === DebtPayoffStrategy.AVALANCHE) {
+    return [...debts].sort(byAvalanche);
+  }
+
+  if (strategy === DebtPayoffStrategy.CUSTOM) {
+    const listed = customOrder
+      .map(envelopeId => debts.find(debt => debt.envelope_id === envelopeId))
+      .filter((debt): debt is DebtPayoffDebt => debt !== undefined);
+    const rest = debts.filter(debt => !customOrder.includes(debt.envelope_id)).sort(bySnowball);
+    return [...listed, ...rest];
+  }
+
+  return [...debts].sort(bySnowball);
+}
+
+/**
+ * Month-by-month payoff. Interest accrues monthly at interest_rate / 12, every
+ * open debt gets its minimum payment, and whatever is left of the monthly total
+ * (including minimums freed up by debts already paid off) goes to debts in
+ * strategy order. Amounts are worked in cents.
+ */
+export function simulateDebtPayoff(debts: DebtPayoffDebt[], options: DebtPayoffOptions): DebtPayoffPlan {
+  const toCents = (amount: number) => Math.round(Number(amount) * 100);
+  const fromCents = (cents: number) => cents / 100;
+
+  const ordered = orderDebts(debts, options.strategy, options.custom_order);
+  const state = ordered.map(debt => ({
+    debt,
+    balance: toCents(debt.balance),
+    minimum: toCents(debt.minimum_payment),
+    interest: 0,
+    paid: 0,
+    payoffMonth: undefined as string | undefined,
+    monthsToPayoff: undefined as number | undefined,
+  }));
+
+  const monthlyPayment = state.reduce((total, entry) => total + entry.minimum, 0)
+    + toCents(options.extra_monthly_payment);
+  const schedule: DebtPayoffMonth[] = [];
+
+  for (let monthIndex = 0; monthIndex < MAX_PAYOFF_MONTHS; monthIndex++) {
+    const open = state.filter(entry => entry.balance > 0);
+    if (open.length === 0) {
+      break;
+    }
+
+    const month = addMonths(options.start_month, monthIndex);
+    const balanceBefore = open.reduce((total, entry) => total + entry.balance, 0);
+    const payments = new Map(open.map(entry => [entry, { interest: 0, payment: 0 }]));
+
+    for (const entry of open) {
+      const interest = Math.round(entry.balance * Number(entry.debt.interest_rate) / 100 / 12);
+      entry.balance += interest;
+      entry.interest += interest;
+      payments.get(entry)!.interest = interest;
+    }
+
+    let pool = monthlyPayment;
+    const pay = (entry: typeof state[number], limit: number) => {
+      const amount = Math.min(limit, entry.balance, pool);
+      entry.balance -= amount;
+      entry.paid += amount;
+      pool -= amount;
+      payments.get(entry)!.payment += amount;
+    };
+
+    open.forEach(entry => pay(entry, entry.minimum));
+    open.forEach(entry => pay(entry, pool));
+
+    for (const entry of open) {
+      if (entry.balance === 0) {
+        entry.payoffMonth = month;
+        entry.monthsToPayoff = monthIndex + 1;
+      }
+    }
+
+    const balanceAfter = open.reduce((total, entry) => total + entry.balance, 0);
+    schedule.push({
+      month,
+      payments: open.map(entry => ({
+        envelope_id: entry.debt.envelope_id,
+        payment: fromCents(payments.get(entry)!.payment),
+        interest: fromCents(payments.get(entry)!.interest),
+        balance: fromCents(entry.balance),
+      })),
+      total_payment: fromCents(open.reduce((total, entry) => total + payments.get(entry)!.payment, 0)),
+      total_interest: fromCents(open.reduce((total, entry) => total + payments.get(entry)!.interest, 0)),
+      remaining_balance: fromCents(balanceAfter),
+    });
+
+    // Payments that don't outpace interest never pay the debts off
+    if (balanceAfter > 0 && balanceAfter >= balanceBefore) {
+      break;
+    }
+  }
+
+  const isPaidOff = state.every(entry => entry.balance === 0);
+  const debtSummaries: DebtPayoffSummary[] = state.map((entry, index) => ({
+    ...entry.debt,
+    payoff_order: index + 1,
+    payoff_month: entry.payoffMonth,
+    months_to_payoff: entry.monthsToPayoff,
+    total_interest: fromCents(entry.interest),
+    total_paid: fromCents(entry.paid),
+  }));
+
+  return {
+    strategy: options.strategy,
+    extra_monthly_payment: fromCents(toCents(options.extra_monthly_payment)),
+    monthly_payment: fromCents(monthlyPayment),
+    start_month: options.start_month,
+    is_paid_off: isPaidOff,
+    payoff_month: isPaidOff ? schedule[schedule.length - 1]?.month : undefined,
+    months_to_payoff: isPaidOff ? schedule.length : undefined,
+    total_interest: fromCents(state.reduce((total, entry) => total + entry.interest, 0)),
+    total_paid: fromCents(state.reduce((total, entry) => total + entry.paid, 0)),
+    debts: debtSummaries,
+    schedule,
+  };
+}
+
+function addMonths(month: string, months: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const index = year * 12 + (monthNumber - 1) + months;
+  return `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+}
\ No newline at end of file
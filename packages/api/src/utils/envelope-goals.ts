@@ -0,0 +1,17 @@
+import { EnvelopeGoalProgress, EnvelopeGoalSummary } from '@nvlp/types';
+
+/**
+ * Roll per-envelope goal progress up into budget totals, summing in cents
+ */
+export function summarizeGoalProgress(progress: EnvelopeGoalProgress[]): EnvelopeGoalSummary {
+  const sumCents = (pick: (goal: EnvelopeGoalProgress) => number) =>
+    progress.reduce((total, goal) => total + Math.round(Number(pick(goal)) * 100), 0) / 100;
+
+  return {
+    goal_count: progress.length,
+    underfunded_count: progress.filter(goal => Number(goal.underfunded_amount) > 0).length,
+    required_this_period: sumCents(goal => goal.required_this_period),
+    funded_this_period: sumCents(goal => goal.funded_this_period),
+    underfunded_amount: sumCents(goal => goal.underfunded_amount),
+  };
+}
\ No newline at end of file
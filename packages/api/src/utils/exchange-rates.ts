@@ -0,0 +1,78 @@
+import { ApiError, ErrorCode, ExchangeRateQuote } from '@nvlp/types';
+
+/**
+ * Source of daily exchange rates. Quotes are loaded into the exchange_rates table,
+ * which is all the database and the services ever read from.
+ */
+export interface ExchangeRateProvider {
+  readonly name: string;
+  getRates(baseCurrency: string, date: string): Promise<ExchangeRateQuote[]>;
+}
+
+/**
+ * Amount in another currency at the given rate, rounded to the cent
+ */
+export function convertAmount(amount: number, rate: number): number {
+  return Math.round(amount * rate * 100) / 100;
+}
+
+/**
+ * Reference rates published by the European Central Bank, served by Frankfurter.
+ * On days without a fixing the latest earlier rates are returned, dated as such.
+ */
+export class FrankfurterExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'frankfurter';
+
+  constructor(private baseUrl: string = 'https://api.frankfurter.app') {}
+
+  async getRates(baseCurrency: string, date: string): Promise<ExchangeRateQuote[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${date}?from=${encodeURIComponent(baseCurrency)}`);
+    } catch (error) {
+      throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, 'Could not reach the exchange rate provider', error);
+    }
+
+    if (!response.ok) {
+      throw new ApiError(
+        ErrorCode.SERVICE_UNAVAILABLE,
+        `Exchange rate provider returned ${response.status} ${response.statusText}`
+      );
+    }
+
+    const body = await response.json() as { base: string; date: string; rates: Record<string, number> };
+
+    return Object.entries(body.rates || {}).map(([quote, rate]) => ({
+      base_currency: body.base,
+      quote_currency: quote,
+      rate,
+      rate_date: body.date
+    }));
+  }
+}
+
+/**
+ * Fixed rates for tests and offline development. Returns, for each quote currency,
+ * the latest rate dated on or before the requested date.
+ */
+export class FixtureExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'fixture';
+
+  constructor(private quotes: ExchangeRateQuote[]) {}
+
+  async getRates(baseCurrency: string, date: string): Promise<ExchangeRateQuote[]> {
+    const latest = new Map<string, ExchangeRateQuote>();
+
+    for (const quote of this.quotes) {
+      if (quote.base_currency !== baseCurrency || quote.rate_date > date) {
+        continue;
+      }
+      const current = latest.get(quote.quote_currency);
+      if (!current || quote.rate_date > current.rate_date) {
+        latest.set(quote.quote_currency, quote);
+      }
+    }
+
+    return Array.from(latest.values());
+  }
+}
\ No newline at end of file
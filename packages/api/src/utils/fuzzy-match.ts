@@ -0,0 +1,98 @@
+// Words banks add to statement descriptions that say nothing about the payee
+const NOISE_WORDS = new Set([
+  'pos', 'purchase', 'debit', 'credit', 'card', 'ach', 'online', 'payment', 'pmt',
+  'recurring', 'checkcard', 'visa', 'mc', 'web', 'id', 'ppd', 'inc', 'llc', 'co',
+]);
+
+/**
+ * Lowercases and strips punctuation, digits and bank noise words,
+ * e.g. "POS PURCHASE STARBUCKS #1234" -> "starbucks"
+ */
+export function normalizeForMatch(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Similarity of two strings from 0 (unrelated) to 1 (identical after normalizing).
+ * Uses Dice's coefficient over character bigrams, which tolerates reordering
+ * and the truncation banks apply to long merchant names.
+ */
+export function similarity(a: string, b: string): number {
+  const left = normalizeForMatch(a).replace(/\s/g, '');
+  const right = normalizeForMatch(b).replace(/\s/g, '');
+
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+  if (left.length < 2 || right.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length - 2);
+}
+
+/**
+ * Best candidate at or above `threshold`, or undefined
+ */
+export function findBestMatch<T>(
+  value: string,
+  candidates: T[],
+  getName: (candidate: T) => string,
+  threshold: number = 0.6
+): { match: T; score: number } | undefined {
+  let best: { match: T; score: number } | undefined;
+
+  for (const candidate of candidates) {
+    const score = similarity(value, getName(candidate));
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { match: candidate, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Alias whose normalized words appear in the description, in order and as whole
+ * words. The longest alias wins, so "amazon prime" beats "amazon".
+ */
+export function findAliasMatch<T extends { normalized_alias: string }>(
+  description: string,
+  aliases: T[]
+): T | undefined {
+  const words = ` ${normalizeForMatch(description)} `;
+  let best: T | undefined;
+
+  for (const alias of aliases) {
+    if (alias.normalized_alias && words.includes(` ${alias.normalized_alias} `) &&
+        (!best || alias.normalized_alias.length > best.normalized_alias.length)) {
+      best = alias;
+    }
+  }
+
+  return best;
+}
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { ScheduleType } from '@nvlp/types';
+
+// TypeScript twin of calculate_next_expected_date(); the shared fixtures in
+// __tests__/fixtures/income-schedules.ts hold both to the same answers.
+
+// More than ten years of weekly pay; a guard against configs that never move forward
+export const MAX_SCHEDULE_OCCURRENCES = 600;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * The configured day in the month containing `month` (YYYY-MM-DD). -1 and days past
+ * the end of the month fall on its last day.
+ */
+export function scheduleDayInMonth(month: string, day: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return toDate(Date.UTC(year, monthNumber - 1, Math.min(day === -1 ? 31 : day, daysInMonth)));
+}
+
+/**
+ * Next occurrence strictly after referenceDate (YYYY-MM-DD), or null when the config
+ * is incomplete. one_time schedules always return their date.
+ */
+export function calculateNextExpectedDate(
+  scheduleType: ScheduleType | string | null | undefined,
+  config: any,
+  referenceDate: string
+): string | null {
+  if (!scheduleType || !config) {
+    return null;
+  }
+
+  const reference = parseDate(referenceDate);
+  const referenceMonth = referenceDate.slice(0, 8) + '01';
+
+  switch (scheduleType) {
+    case 'weekly': {
+      if (!isNumber(config.day_of_week)) return null;
+      const dayOfWeek = new Date(reference).getUTCDay();
+      return toDate(reference + (((config.day_of_week - dayOfWeek + 6) % 7) + 1) * DAY_MS);
+    }
+
+    case 'biweekly': {
+      if (!isNumber(config.day_of_week) || !config.start_date) return null;
+      // First pay day on or after start_date; every 14 days from there, both ways
+      const start = parseDate(config.start_date);
+      const anchor = start + ((config.day_of_week - new Date(start).getUTCDay() + 7) % 7) * DAY_MS;
+      const periods = Math.floor(Math.round((reference - anchor) / DAY_MS) / 14) + 1;
+      return toDate(anchor + periods * 14 * DAY_MS);
+    }
+
+    case 'monthly': {
+      if (!isNumber(config.day_of_month)) return null;
+      const thisMonth = scheduleDayInMonth(referenceMonth, config.day_of_month);
+      return thisMonth > referenceDate
+        ? thisMonth
+        : scheduleDayInMonth(addMonths(referenceMonth, 1), config.day_of_month);
+    }
+
+    case 'semi_monthly': {
+      if (!Array.isArray(config.pay_dates)) return null;
+      let next: string | null = null;
+      for (const payDate of config.pay_dates) {
+        for (const offset of [0, 1]) {
+          const candidate = scheduleDayInMonth(addMonths(referenceMonth, offset), Number(payDate));
+          if (candidate > referenceDate && (next === null || candidate < next)) {
+            next = candidate;
+          }
+        }
+      }
+      return next;
+    }
+
+    case 'quarterly': {
+      if (!isNumber(config.month_of_quarter) || !isNumber(config.day_of_month)) return null;
+      for (let offset = 0; offset <= 3; offset++) {
+        const month = addMonths(referenceMonth, offset);
+        if ((Number(month.slice(5, 7)) - 1) % 3 + 1 === config.month_of_quarter) {
+          const candidate = scheduleDayInMonth(month, config.day_of_month);
+          if (candidate > referenceDate) {
+            return candidate;
+          }
+        }
+      }
+      return null;
+    }
+
+    case 'yearly': {
+      if (!isNumber(config.month) || !isNumber(config.day_of_month)) return null;
+      const year = Number(referenceDate.slice(0, 4));
+      const month = String(config.month).padStart(2, '0');
+      const thisYear = scheduleDayInMonth(`${year}-${month}-01`, config.day_of_month);
+      return thisYear > referenceDate
+        ? thisYear
+        : scheduleDayInMonth(`${year + 1}-${month}-01`, config.day_of_month);
+    }
+
+    case 'one_time':
+      return config.date ?? null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Every occurrence from `from` through `to` (inclusive), oldest first
+ */
+export function getScheduleOccurrences(
+  scheduleType: ScheduleType | string | null | undefined,
+  config: any,
+  from: string,
+  to: string
+): string[] {
+  const occurrences: string[] = [];
+  let date = calculateNextExpectedDate(scheduleType, config, toDate(parseDate(from) - DAY_MS));
+
+  while (date !== null && date <= to && occurrences.length < MAX_SCHEDULE_OCCURRENCES) {
+    if (date >= from) {
+      occurrences.push(date);
+    }
+
+    const next = calculateNextExpectedDate(scheduleType, config, date);
+    // one_time schedules (and incomplete configs) never move forward
+    if (next === null || next <= date) {
+      break;
+    }
+    date = next;
+  }
+
+  return occurrences;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function parseDate(date: string): number {
+  return Date.parse(`${date}T00:00:00.000Z`);
+}
+
+function toDate(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+function addMonths(month: string, months: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return toDate(Date.UTC(year, monthNumber - 1 + months, 1));
+}
\ No newline at end of file
@@ -1,4 +1,12 @@
 export * from './retry';
 export * from './date';
 export * from './postgrest-headers';
-export * from './postgrest-client';
\ No newline at end of file
+export * from './postgrest-client';
+export * from './statement-parser';
+export * from './fuzzy-match';
+export * from './rule-matcher';
+export * from './attachment-storage';
+export * from './envelope-goals';
+export * from './debt-payoff';
+export * from './exchange-rates';
+export * from './income-schedule';
\ No newline at end of file
@@ -109,6 +109,12 @@ export function createBulkOperationHeaders(
   });
 }
 
+/**
+ * Request header that lets a write change reconciled transactions; without it the
+ * protect_reconciled_transaction trigger rejects the write
+ */
+export const UNLOCK_RECONCILED_HEADER = 'X-Unlock-Reconciled';
+
 /**
  * Creates headers for count queries
  */
@@ -185,31 +191,5 @@ export function validatePostgRESTHeaders(headers: Record<string, string>): boole
   return true;
 }
 
-/**
- * Extracts pagination info from response headers
- */
-export function extractPaginationInfo(headers: Headers): {
-  totalCount?: number;
-  range?: { from: number; to: number };
-} {
-  const contentRange = headers.get('Content-Range');
-  if (!contentRange) {
-    return {};
-  }
-
-  // Parse Content-Range header: "0-9/100" or "0-9/*"
-  const match = contentRange.match(/(\d+)-(\d+)\/(\d+|\*)/);
-  if (!match) {
-    return {};
-  }
-
-  const [, from, to, total] = match;
-  
-  return {
-    range: {
-      from: parseInt(from, 10),
-      to: parseInt(to, 10),
-    },
-    totalCount: total === '*' ? undefined : parseInt(total, 10),
-  };
-}
\ No newline at end of file
+// Shared with the client package, which reads totals the same way
+export { extractPaginationInfo } from '@nvlp/types';
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { RuleMatchInput, RuleSuggestion, TransactionRule } from '@nvlp/types';
+
+/**
+ * True when every condition the rule sets matches the input
+ */
+export function matchesRule(rule: Pick<TransactionRule,
+  'match_payee_id' | 'match_description_pattern' | 'match_min_amount' | 'match_max_amount'>,
+  input: RuleMatchInput
+): boolean {
+  if (rule.match_payee_id && rule.match_payee_id !== input.payee_id) {
+    return false;
+  }
+
+  if (rule.match_min_amount != null && input.amount < Number(rule.match_min_amount)) {
+    return false;
+  }
+
+  if (rule.match_max_amount != null && input.amount > Number(rule.match_max_amount)) {
+    return false;
+  }
+
+  if (rule.match_description_pattern) {
+    const pattern = compileRulePattern(rule.match_description_pattern);
+    if (!pattern || !pattern.test(input.description || '')) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * First matching rule in priority order (lowest priority number first)
+ */
+export function findMatchingRule(rules: TransactionRule[], input: RuleMatchInput): TransactionRule | undefined {
+  return [...rules]
+    .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at))
+    .find(rule => rule.is_active && matchesRule(rule, input));
+}
+
+export function toRuleSuggestion(rule: TransactionRule): RuleSuggestion {
+  return {
+    rule_id: rule.id,
+    rule_name: rule.name,
+    auto_apply: rule.auto_apply,
+    from_envelope_id: rule.set_envelope_id || undefined,
+    payee_id: rule.set_payee_id || undefined,
+    description: rule.set_description || undefined,
+  };
+}
+
+/**
+ * Case-insensitive RegExp for a rule pattern, or null if the pattern is invalid
+ */
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
\ No newline at end of file
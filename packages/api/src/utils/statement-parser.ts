@@ -0,0 +1,246 @@
+import { ApiError, CsvColumnMapping, ErrorCode, ParsedStatementRow } from '@nvlp/types';
+
+/**
+ * Parses the transaction list of an OFX/QFX statement.
+ * Handles both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x) files.
+ */
+export function parseOFX(content: string): ParsedStatementRow[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi);
+
+  if (!blocks) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'No transactions found in OFX statement');
+  }
+
+  return blocks.map((block, index) => {
+    const rawDate = readOFXField(block, 'DTPOSTED');
+    const rawAmount = readOFXField(block, 'TRNAMT');
+
+    if (!rawDate || !rawAmount) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `OFX transaction ${index + 1} is missing DTPOSTED or TRNAMT`);
+    }
+
+    const dateMatch = rawDate.match(/^(\d{4})(\d{2})(\d{2})/);
+    const amount = parseAmount(rawAmount);
+
+    if (!dateMatch || amount === null) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `OFX transaction ${index + 1} has an invalid date or amount`);
+    }
+
+    const name = readOFXField(block, 'NAME');
+    const memo = readOFXField(block, 'MEMO');
+
+    return {
+      transaction_date: `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}`,
+      amount,
+      description: name || memo || '',
+      payee_name: name,
+      memo: name ? memo : undefined,
+      external_id: readOFXField(block, 'FITID'),
+    };
+  });
+}
+
+/**
+ * Parses a CSV export using a caller-supplied column mapping
+ */
+export function parseCSV(content: string, mapping: CsvColumnMapping): ParsedStatementRow[] {
+  if (mapping.amount === undefined && mapping.debit === undefined && mapping.credit === undefined) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'CSV mapping needs an amount column or debit/credit columns');
+  }
+
+  const records = splitCSV(content, mapping.delimiter || ',');
+  const hasHeader = mapping.has_header !== false;
+  const header = hasHeader ? (records.shift() || []).map(name => name.trim().toLowerCase()) : [];
+
+  const columnIndex = (column: string | number | undefined, label: string): number | undefined => {
+    if (column === undefined) {
+      return undefined;
+    }
+    if (typeof column === 'number') {
+      return column;
+    }
+    const index = header.indexOf(column.trim().toLowerCase());
+    if (index === -1) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `CSV column '${column}' for ${label} not found`);
+    }
+    return index;
+  };
+
+  const columns = {
+    date: columnIndex(mapping.date, 'date')!,
+    description: columnIndex(mapping.description, 'description')!,
+    amount: columnIndex(mapping.amount, 'amount'),
+    debit: columnIndex(mapping.debit, 'debit'),
+    credit: columnIndex(mapping.credit, 'credit'),
+    payee: columnIndex(mapping.payee, 'payee'),
+    memo: columnIndex(mapping.memo, 'memo'),
+    reference: columnIndex(mapping.reference, 'reference'),
+  };
+
+  const cell = (record: string[], index: number | undefined): string | undefined => {
+    const value = index === undefined ? undefined : record[index]?.trim();
+    return value ? value : undefined;
+  };
+
+  const rows: ParsedStatementRow[] = [];
+
+  records.forEach((record, i) => {
+    // Skip blank lines and trailing summary lines
+    if (record.every(value => value.trim() === '')) {
+      return;
+    }
+
+    const line = i + 1 + (hasHeader ? 1 : 0);
+    const transactionDate = parseDate(cell(record, columns.date), mapping.date_format || 'YYYY-MM-DD');
+    if (!transactionDate) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Invalid date on CSV line ${line}`);
+    }
+
+    let amount: number | null;
+    if (columns.amount !== undefined) {
+      amount = parseAmount(cell(record, columns.amount));
+    } else {
+      const debit = parseAmount(cell(record, columns.debit) || '0');
+      const credit = parseAmount(cell(record, columns.credit) || '0');
+      amount = debit === null || credit === null ? null : credit - Math.abs(debit);
+    }
+
+    if (amount === null) {
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Invalid amount on CSV line ${line}`);
+    }
+
+    const description = cell(record, columns.description) || '';
+
+    rows.push({
+      transaction_date: transactionDate,
+      amount: Math.round((mapping.negate_amounts ? -amount : amount) * 100) / 100,
+      description,
+      payee_name: cell(record, columns.payee) || description || undefined,
+      memo: cell(record, columns.memo),
+      external_id: cell(record, columns.reference),
+    });
+  });
+
+  return rows;
+}
+
+function readOFXField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Accepts "1,234.56", "$-12.00", "(12.00)" and "12.00-" style amounts
+ */
+function parseAmount(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  let text = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  text = text.replace(/[$€£,\s]/g, '');
+  if (!/^[-+]?\d*\.?\d+$/.test(text)) {
+    return null;
+  }
+
+  const amount = parseFloat(text);
+  return negative ? -Math.abs(amount) : amount;
+}
+
+function parseDate(value: string | undefined, format: NonNullable<CsvColumnMapping['date_format']>): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const parts = value.split(/[-/.]/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    return null;
+  }
+
+  let [year, month, day] = parts;
+  if (format === 'MM/DD/YYYY') {
+    [month, day, year] = parts;
+  } else if (format === 'DD/MM/YYYY') {
+    [day, month, year] = parts;
+  }
+
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Splits CSV text into records, honouring quoted fields with embedded delimiters,
+ * doubled quotes and line breaks
+ */
+function splitCSV(content: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { NVLPClient } from '../unified-client';
+
+const row = (id: string, date: string) => ({ id, transaction_date: date });
+
+const pageResponse = (rows: any[], contentRange: string) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers({ 'Content-Range': contentRange }),
+  json: async () => rows,
+});
+
+describe('NVLPClient.paginateTransactions', () => {
+  let client: NVLPClient;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+    client = new NVLPClient({
+      supabaseUrl: 'https://example.supabase.co',
+      supabaseAnonKey: 'anon-key',
+    });
+  });
+
+  it('counts the total once and carries it through later pages', async () => {
+    fetchMock
+      .mockResolvedValueOnce(pageResponse([
+        row('c', '2024-03-07'), row('b', '2024-03-06'), row('a', '2024-03-05'),
+      ], '0-2/3'))
+      .mockResolvedValueOnce(pageResponse([row('a', '2024-03-05')], '0-0/*'));
+
+    const pages = [];
+    for await (const page of client.paginateTransactions('budget-1', { limit: 2 })) {
+      pages.push(page);
+    }
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0]).toMatchObject({ page: 1, total: 3, hasMore: true, next_cursor: '1:3:2024-03-06:b' });
+    expect(pages[1]).toMatchObject({ page: 2, total: 3, hasMore: false, next_cursor: null });
+
+    const [firstUrl, firstInit] = fetchMock.mock.calls[0];
+    expect(firstInit.headers.Prefer).toBe('count=exact');
+    expect(new URL(firstUrl).searchParams.get('or')).toBeNull();
+
+    const [secondUrl, secondInit] = fetchMock.mock.calls[1];
+    expect(secondInit.headers.Prefer).toBeUndefined();
+    expect(new URL(secondUrl).searchParams.get('or')).toBe(
+      '(transaction_date.lt.2024-03-06,and(transaction_date.eq.2024-03-06,id.lt.b))'
+    );
+  });
+
+  it('resumes from a cursor without counting again', async () => {
+    fetchMock.mockResolvedValueOnce(pageResponse([row('a', '2024-03-05')], '0-0/*'));
+
+    const pages = [];
+    for await (const page of client.paginateTransactions('budget-1', { limit: 2, cursor: '4:1250:2024-03-06:b' })) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([expect.objectContaining({ page: 5, total: 1250, hasMore: false })]);
+    expect(fetchMock.mock.calls[0][1].headers.Prefer).toBeUndefined();
+  });
+
+  it('reports a zero total for an empty budget', async () => {
+    fetchMock.mockResolvedValueOnce(pageResponse([], '*/0'));
+
+    const pages = [];
+    for await (const page of client.paginateTransactions('budget-1')) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([expect.objectContaining({ page: 1, total: 0, data: [], hasMore: false })]);
+  });
+});
\ No newline at end of file
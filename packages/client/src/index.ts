@@ -8,6 +8,7 @@ export {
 export type {
   NVLPClientConfig,
   SessionProvider as NVLPSessionProvider,
+  TransactionPageOptions,
 } from './unified-client';
 
 // Base HTTP Client exports
@@ -5,6 +5,17 @@
 import { Session } from '@supabase/supabase-js';
 import { HttpClient, HttpClientConfig, TokenProvider, HttpError, OfflineQueueConfig } from './http-client';
 import { DeviceService } from './services/device.service';
+import {
+  Transaction,
+  TransactionType,
+  CursorPaginationOptions,
+  PaginatedResponse,
+  PaginationCountType,
+  TransactionCursor,
+  encodeTransactionCursor,
+  decodeTransactionCursor,
+  extractPaginationInfo,
+} from '@nvlp/types';
 
 /**
  * Authenticated PostgREST query builder that works with the unified client
@@ -149,6 +160,32 @@ class AuthenticatedPostgRESTQueryBuilder {
     return results.length > 0 ? results[0] : null;
   }
 
+  /**
+   * GET that also asks PostgREST for a row count, read back from Content-Range
+   */
+  async getWithCount<T = any>(count?: PaginationCountType): Promise<{ data: T[]; totalCount?: number }> {
+    const url = `${this.baseUrl}?${this.queryParams.toString()}`;
+    const headers = await this.client.getPostgRESTHeaders();
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        ...headers,
+        ...this.customHeaders,
+        ...(count ? { 'Prefer': `count=${count}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`PostgREST request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return {
+      data: await response.json() as T[],
+      totalCount: extractPaginationInfo(response.headers).totalCount,
+    };
+  }
+
   async post<T = any>(data: any): Promise<T> {
     const headers = await this.client.getPostgRESTHeaders();
     
@@ -207,6 +244,16 @@ class AuthenticatedPostgRESTQueryBuilder {
   }
 }
 
+/**
+ * Options for NVLPClient.paginateTransactions
+ */
+export interface TransactionPageOptions extends CursorPaginationOptions {
+  startDate?: string;
+  endDate?: string;
+  transactionType?: TransactionType;
+  payeeId?: string;
+}
+
 /**
  * Configuration for the unified NVLP client
  */
@@ -539,6 +586,82 @@ export class NVLPClient {
     return this.from('transaction_events');
   }
 
+  /**
+   * Page through a budget's transactions newest first. Pages are fetched by
+   * keyset on (transaction_date, id), so late pages of a long history are as
+   * cheap as the first; the total is counted once, with the first page.
+   * Pass a previous page's next_cursor as options.cursor to resume.
+   */
+  async *paginateTransactions(
+    budgetId: string,
+    options: TransactionPageOptions = {}
+  ): AsyncGenerator<PaginatedResponse<Transaction>, void, undefined> {
+    const pageSize = options.limit ?? 50;
+    const countType = options.count || 'exact';
+    let cursor: TransactionCursor | null = options.cursor ? decodeTransactionCursor(options.cursor) : null;
+    // A resumed listing keeps the total its first page counted
+    let total: number | undefined = cursor?.total;
+
+    while (true) {
+      const query = this.transactions
+        .select('*')
+        .eq('budget_id', budgetId)
+        .eq('is_deleted', false)
+        .order('transaction_date', false)
+        .order('id', false)
+        .limit(pageSize + 1);
+
+      // The query builder keeps one value per column, so the date range goes through and()
+      const conditions: string[] = [];
+      if (options.startDate) {
+        conditions.push(`transaction_date.gte.${options.startDate}`);
+      }
+      if (options.endDate) {
+        conditions.push(`transaction_date.lte.${options.endDate}`);
+      }
+      if (conditions.length > 0) {
+        query.and(conditions.join(','));
+      }
+      if (options.transactionType) {
+        query.eq('transaction_type', options.transactionType);
+      }
+      if (options.payeeId) {
+        query.eq('payee_id', options.payeeId);
+      }
+      if (cursor) {
+        query.or(
+          `transaction_date.lt.${cursor.transaction_date},` +
+          `and(transaction_date.eq.${cursor.transaction_date},id.lt.${cursor.id})`
+        );
+      }
+
+      const { data, totalCount } = await query.getWithCount<Transaction>(total === undefined ? countType : undefined);
+      if (total === undefined) {
+        total = totalCount ?? 0;
+      }
+
+      const hasMore = data.length > pageSize;
+      const rows = hasMore ? data.slice(0, pageSize) : data;
+      const pageNumber: number = (cursor?.page ?? 0) + 1;
+      const last = rows[rows.length - 1];
+      cursor = hasMore ? { transaction_date: last.transaction_date, id: last.id, page: pageNumber, total } : null;
+
+      yield {
+        data: rows,
+        total,
+        totalIsEstimate: countType !== 'exact',
+        page: pageNumber,
+        pageSize,
+        hasMore,
+        next_cursor: cursor ? encodeTransactionCursor(cursor) : null,
+      };
+
+      if (!cursor) {
+        return;
+      }
+    }
+  }
+
   // Private helper methods
 
   private getPostgRESTBaseUrl(): string {
@@ -1,2 +1,3 @@
 export * from './responses';
-export * from './errors';
\ No newline at end of file
+export * from './errors';
+export * from './pagination';
\ No newline at end of file
@@ -0,0 +1,66 @@
+export type PaginationCountType = 'exact' | 'planned' | 'estimated';
+
+export interface CursorPaginationOptions {
+  limit?: number;                // Page size (default 50)
+  cursor?: string;               // next_cursor from the previous page; omit for the first page
+  count?: PaginationCountType;   // How total is computed (default 'exact')
+}
+
+/**
+ * Position of the last row on a page of transactions ordered by
+ * transaction_date desc, id desc
+ */
+export interface TransactionCursor {
+  transaction_date: string;
+  id: string;
+  page: number;                  // 1-based number of the page that ended at this row
+  total: number;                 // Counted with the first page and carried forward
+}
+
+const TRANSACTION_CURSOR_PATTERN = /^(\d+):(\d+):(\d{4}-\d{2}-\d{2}):([A-Za-z0-9-]+)$/;
+
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return `${cursor.page}:${cursor.total}:${cursor.transaction_date}:${cursor.id}`;
+}
+
+export function decodeTransactionCursor(value: string): TransactionCursor {
+  const match = value.match(TRANSACTION_CURSOR_PATTERN);
+  if (!match) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Invalid pagination cursor');
+  }
+
+  return {
+    page: parseInt(match[1], 10),
+    total: parseInt(match[2], 10),
+    transaction_date: match[3],
+    id: match[4],
+  };
+}
+
+/**
+ * Extracts pagination info from a PostgREST Content-Range header: "0-9/100",
+ * "0-9/*" when nothing was counted, or a "*" range for a page with no rows
+ */
+export function extractPaginationInfo(headers: { get(name: string): string | null }): {
+  totalCount?: number;
+  range?: { from: number; to: number };
+} {
+  const contentRange = headers.get('Content-Range');
+  if (!contentRange) {
+    return {};
+  }
+
+  const match = contentRange.match(/^(?:(\d+)-(\d+)|\*)\/(\d+|\*)$/);
+  if (!match) {
+    return {};
+  }
+
+  const [, from, to, total] = match;
+
+  return {
+    ...(from !== undefined ? { range: { from: parseInt(from, 10), to: parseInt(to, 10) } } : {}),
+    totalCount: total === '*' ? undefined : parseInt(total, 10),
+  };
+}
+
+import { ApiError, ErrorCode } from './errors';
\ No newline at end of file
@@ -12,9 +12,12 @@ export interface PaginatedResponse<T> {
   page: number;
   pageSize: number;
   hasMore: boolean;
+  next_cursor?: string | null;   // Keyset listings: pass back as cursor to fetch the following page
+  totalIsEstimate?: boolean;     // Keyset listings: true when total came from planner statistics rather than a full count
 }
 
 export interface DashboardSummary {
+  currency: string;                  // Budget currency; all totals are converted to it
   available_amount: number;
   total_envelope_balance: number;
   envelope_count: number;
@@ -25,6 +28,7 @@ export interface DashboardSummary {
   month_to_date_income: number;
   negative_envelopes: Envelope[];
   recent_transactions: Transaction[];
+  goal_summary: EnvelopeGoalSummary;
 }
 
 export interface SpendingByCategory {
@@ -34,6 +38,14 @@ export interface SpendingByCategory {
   transaction_count: number;
 }
 
+// A transaction counts toward every tag it carries, so tag totals can overlap
+export interface SpendingByTag {
+  tag_id: string;
+  tag_name: string;
+  total_amount: number;
+  transaction_count: number;
+}
+
 export interface SpendingByTime {
   period: string; // YYYY-MM-DD for daily, YYYY-MM for monthly, YYYY for yearly
   total_amount: number;
@@ -45,6 +57,7 @@ export interface SpendingStats {
   period_start: string;
   period_end: string;
   by_category: SpendingByCategory[];
+  by_tag: SpendingByTag[];
   by_time: SpendingByTime[];
 }
 
@@ -109,6 +122,7 @@ export interface TransactionExportData {
   to_envelope?: string;
   payee?: string;
   income_source?: string;
+  tags: string[];
   is_cleared: boolean;
   is_reconciled: boolean;
 }
@@ -183,5 +197,38 @@ export interface BudgetExportResponse {
   exported_at: string;
 }
 
+// Something expected to move money on a day of the cash flow timeline; outflows are negative
+export interface CashFlowEvent {
+  type: 'income' | 'bill' | 'scheduled' | 'transaction';
+  name: string;
+  amount: number;
+  source_id: string;                 // Income source, payee, scheduled transaction or transaction
+}
+
+export interface CashFlowDay {
+  date: string;
+  opening_balance: number;
+  income: number;                    // Expected income not yet received
+  bills: number;                     // Left to pay on unpaid bills
+  scheduled: number;                 // Scheduled and future-dated transactions, net
+  average_spending: number;          // Average daily spending outside bills and schedules
+  net_flow: number;
+  projected_balance: number;
+  is_negative: boolean;
+  events: CashFlowEvent[];
+}
+
+// Day-by-day projection of the money in a budget (available plus every envelope)
+export interface CashFlowTimeline {
+  currency: string;
+  start_date: string;
+  end_date: string;
+  starting_balance: number;
+  lowest_balance: number;
+  lowest_balance_date: string;
+  negative_days: string[];           // Days the projected balance is below zero
+  days: CashFlowDay[];
+}
+
 import { Transaction } from '../models/transaction';
-import { Envelope } from '../models/envelope';
\ No newline at end of file
+import { Envelope, EnvelopeGoalSummary } from '../models/envelope';
\ No newline at end of file
@@ -33,6 +33,7 @@ export interface Database {
           user_id: string;
           name: string;
           description: string | null;
+          currency: string;
           available_amount: number;
           is_active: boolean;
           created_at: string;
@@ -43,6 +44,7 @@ export interface Database {
           user_id: string;
           name: string;
           description?: string | null;
+          currency?: string;
           available_amount?: number;
           is_active?: boolean;
           created_at?: string;
@@ -51,6 +53,7 @@ export interface Database {
         Update: {
           name?: string;
           description?: string | null;
+          currency?: string;
           available_amount?: number;
           is_active?: boolean;
           updated_at?: string;
@@ -64,11 +67,19 @@ export interface Database {
           description: string | null;
           current_balance: number;
           target_amount: number | null;
+          goal_type: 'target_by_date' | 'monthly' | 'minimum_balance' | null;
+          target_date: string | null;
           envelope_type: 'regular' | 'debt' | 'savings';
           category_id: string | null;
           notify_on_low_balance: boolean;
           low_balance_threshold: number | null;
           is_active: boolean;
+          is_archived: boolean;
+          archived_at: string | null;
+          apy: number | null;
+          interest_income_source_id: string | null;
+          interest_posted_through: string | null;
+          currency: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -79,11 +90,19 @@ export interface Database {
           description?: string | null;
           current_balance?: number;
           target_amount?: number | null;
+          goal_type?: 'target_by_date' | 'monthly' | 'minimum_balance' | null;
+          target_date?: string | null;
           envelope_type?: 'regular' | 'debt' | 'savings';
           category_id?: string | null;
           notify_on_low_balance?: boolean;
           low_balance_threshold?: number | null;
           is_active?: boolean;
+          is_archived?: boolean;
+          archived_at?: string | null;
+          apy?: number | null;
+          interest_income_source_id?: string | null;
+          interest_posted_through?: string | null;
+          currency?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -92,11 +111,19 @@ export interface Database {
           description?: string | null;
           current_balance?: number;
           target_amount?: number | null;
+          goal_type?: 'target_by_date' | 'monthly' | 'minimum_balance' | null;
+          target_date?: string | null;
           envelope_type?: 'regular' | 'debt' | 'savings';
           category_id?: string | null;
           notify_on_low_balance?: boolean;
           low_balance_threshold?: number | null;
           is_active?: boolean;
+          is_archived?: boolean;
+          archived_at?: string | null;
+          apy?: number | null;
+          interest_income_source_id?: string | null;
+          interest_posted_through?: string | null;
+          currency?: string | null;
           updated_at?: string;
         };
       };
@@ -106,6 +133,9 @@ export interface Database {
           budget_id: string;
           transaction_type: 'income' | 'expense' | 'transfer' | 'allocation' | 'debt_payment';
           amount: number;
+          currency: string | null;
+          original_amount: number | null;
+          exchange_rate: number | null;
           description: string | null;
           transaction_date: string;
           from_envelope_id: string | null;
@@ -115,6 +145,8 @@ export interface Database {
           category_id: string | null;
           is_cleared: boolean;
           is_reconciled: boolean;
+          is_split: boolean;
+          status: 'posted' | 'scheduled';
           created_at: string;
           updated_at: string;
           is_deleted: boolean;
@@ -126,6 +158,9 @@ export interface Database {
           budget_id: string;
           transaction_type: 'income' | 'expense' | 'transfer' | 'allocation' | 'debt_payment';
           amount: number;
+          currency?: string | null;
+          original_amount?: number | null;
+          exchange_rate?: number | null;
           description?: string | null;
           transaction_date: string;
           from_envelope_id?: string | null;
@@ -135,6 +170,8 @@ export interface Database {
           category_id?: string | null;
           is_cleared?: boolean;
           is_reconciled?: boolean;
+          is_split?: boolean;
+          status?: 'posted' | 'scheduled';
           created_at?: string;
           updated_at?: string;
           is_deleted?: boolean;
@@ -144,6 +181,9 @@ export interface Database {
         Update: {
           transaction_type?: 'income' | 'expense' | 'transfer' | 'allocation' | 'debt_payment';
           amount?: number;
+          currency?: string | null;
+          original_amount?: number | null;
+          exchange_rate?: number | null;
           description?: string | null;
           transaction_date?: string;
           from_envelope_id?: string | null;
@@ -153,6 +193,8 @@ export interface Database {
           category_id?: string | null;
           is_cleared?: boolean;
           is_reconciled?: boolean;
+          is_split?: boolean;
+          status?: 'posted' | 'scheduled';
           updated_at?: string;
           is_deleted?: boolean;
           deleted_at?: string | null;
@@ -199,6 +241,39 @@ export interface Database {
           updated_at?: string;
         };
       };
+      income_occurrences: {
+        Row: {
+          id: string;
+          income_source_id: string;
+          budget_id: string;
+          expected_date: string;
+          expected_amount: number | null;
+          status: 'received' | 'missed';
+          transaction_id: string | null;
+          actual_amount: number | null;
+          received_date: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          income_source_id: string;
+          budget_id: string;
+          expected_date: string;
+          expected_amount?: number | null;
+          status: 'received' | 'missed';
+          transaction_id?: string | null;
+          actual_amount?: number | null;
+          received_date?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          expected_amount?: number | null;
+          status?: 'received' | 'missed';
+          transaction_id?: string | null;
+          actual_amount?: number | null;
+          received_date?: string | null;
+        };
+      };
       payees: {
         Row: {
           id: string;
@@ -231,6 +306,27 @@ export interface Database {
           updated_at?: string;
         };
       };
+      payee_aliases: {
+        Row: {
+          id: string;
+          payee_id: string;
+          budget_id: string;
+          alias: string;
+          normalized_alias: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          payee_id: string;
+          budget_id: string;
+          alias: string;
+          normalized_alias: string;
+          created_at?: string;
+        };
+        Update: {
+          payee_id?: string;
+        };
+      };
       categories: {
         Row: {
           id: string;
@@ -263,6 +359,30 @@ export interface Database {
           updated_at?: string;
         };
       };
+      exchange_rates: {
+        Row: {
+          id: string;
+          base_currency: string;
+          quote_currency: string;
+          rate: number;
+          rate_date: string;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          base_currency: string;
+          quote_currency: string;
+          rate: number;
+          rate_date: string;
+          source: string;
+          created_at?: string;
+        };
+        Update: {
+          rate?: number;
+          source?: string;
+        };
+      };
     };
   };
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+export enum AllocationStepType {
+  FIXED = 'fixed',                     // A set amount
+  PERCENTAGE = 'percentage',           // A share of the amount being distributed
+  FILL_TO_TARGET = 'fill_to_target',   // Up to the envelope's target_amount, from what is left
+  REMAINDER = 'remainder'              // Everything left; must be the last step
+}
+
+/**
+ * Saved recipe for distributing a paycheck across envelopes. Steps run in order;
+ * fixed and percentage steps must be covered in full.
+ */
+export interface AllocationPlan {
+  id: string;
+  budget_id: string;
+  name: string;
+  description?: string;
+  income_source_id?: string;
+  is_active: boolean;
+  steps?: AllocationPlanStep[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AllocationPlanStep {
+  id: string;
+  plan_id: string;
+  envelope_id: string;
+  step_type: AllocationStepType;
+  amount?: number;                     // Fixed steps only
+  percentage?: number;                 // Percentage steps only, 0-100
+  step_order: number;
+  created_at: string;
+}
+
+export interface AllocationPlanStepInput {
+  envelope_id: string;
+  step_type: AllocationStepType;
+  amount?: number;
+  percentage?: number;
+}
+
+export interface AllocationPlanCreateRequest {
+  name: string;
+  description?: string;
+  income_source_id?: string;
+  is_active?: boolean;
+  steps: AllocationPlanStepInput[];    // In run order
+}
+
+export interface AllocationPlanUpdateRequest {
+  name?: string;
+  description?: string | null;
+  income_source_id?: string | null;
+  is_active?: boolean;
+  steps?: AllocationPlanStepInput[];   // Replaces all steps
+}
+
+export interface AllocationPlanRunRequest {
+  amount?: number;                     // Defaults to the income transaction amount, then all of available_amount
+  income_transaction_id?: string;      // Paycheck being distributed
+  transaction_date?: string;           // Date of the allocation transactions, defaults to today
+}
+
+export interface AllocationPlanLine {
+  step_id: string;
+  envelope_id: string;
+  step_type: AllocationStepType;
+  amount: number;
+  transaction_id?: string;             // Set once the plan has run; zero lines create no transaction
+}
+
+export interface AllocationPlanRunResult {
+  plan_id: string;
+  amount: number;                      // Amount distributed
+  available_amount: number;            // Budget available_amount before the run
+  total_allocated: number;
+  shortfall: number;                   // How much more the plan needs; always 0 for a completed run
+  transaction_date: string;
+  allocations: AllocationPlanLine[];
+}
\ No newline at end of file
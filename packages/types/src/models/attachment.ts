@@ -0,0 +1,44 @@
+/**
+ * Receipt and document files attached to transactions
+ */
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf'
+] as const;
+
+export type AttachmentContentType = typeof ATTACHMENT_CONTENT_TYPES[number];
+
+export const MAX_ATTACHMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
+export const ATTACHMENT_BUCKET = 'transaction-attachments';
+
+export interface Attachment {
+  id: string;
+  transaction_id: string;
+  budget_id: string;
+  file_name: string;
+  content_type: AttachmentContentType;
+  size_bytes: number;
+  storage_path: string;        // {budget_id}/{transaction_id}/{upload_key}/{file_name}
+  is_uploaded: boolean;        // false until the client finishes the signed upload
+  is_deleted: boolean;         // Follows the parent transaction's soft delete
+  uploaded_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AttachmentUploadRequest {
+  file_name: string;
+  content_type: AttachmentContentType;
+  size_bytes: number;
+}
+
+export interface AttachmentUpload {
+  attachment: Attachment;
+  upload_url: string;          // PUT the file here, then complete the upload
+  upload_token: string;
+}
+
+export interface AttachmentDownload {
+  url: string;
+  expires_at: string;
+}
\ No newline at end of file
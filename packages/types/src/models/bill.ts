@@ -0,0 +1,37 @@
+export enum BillStatus {
+  PAID = 'paid',          // Payments in the window cover the amount due
+  PARTIAL = 'partial',    // Something paid, not enough yet, not due yet
+  UNPAID = 'unpaid',      // Nothing paid, not due yet
+  OVERDUE = 'overdue'     // Due date passed without the amount due being paid
+}
+
+// One month's occurrence of a payee with a due date
+export interface Bill {
+  payee_id: string;
+  payee_name: string;
+  payee_type: PayeeType;
+  due_date: string;              // Clamped to the last day of short months
+  window_start: string;          // Payments from here through window_end count toward this bill
+  window_end: string;
+  amount_due?: number;           // The payee's minimum_payment; without one any payment settles the bill
+  amount_paid: number;
+  payment_count: number;
+  last_payment_date?: string;
+  status: BillStatus;
+  days_until_due: number;        // Negative once the due date has passed
+}
+
+export interface BillFilters {
+  from?: string;                 // Due dates on or after (YYYY-MM-DD), defaults to the start of this month
+  to?: string;                   // Due dates on or before, defaults to the end of this month
+  as_of?: string;                // Date statuses are worked out for, defaults to today
+  status?: BillStatus;
+}
+
+export interface BillReminders {
+  as_of: string;
+  overdue: Bill[];
+  upcoming: Bill[];              // Not yet paid and due within the next few days
+}
+
+import { PayeeType } from './payee';
\ No newline at end of file
@@ -0,0 +1,48 @@
+export enum RolloverRule {
+  CARRY_OVER = 'carry_over',                    // Balance stays in the envelope
+  RESET = 'reset',                              // Envelope returns to zero against available
+  RETURN_OVERSPENDING = 'return_overspending'   // Overspending is covered from available
+}
+
+// What happens to envelopes of a type when a month closes; types without a rule carry over
+export interface BudgetRolloverRule {
+  budget_id: string;
+  envelope_type: EnvelopeType;
+  rollover_rule: RolloverRule;
+}
+
+export interface BudgetPeriod {
+  id: string;
+  budget_id: string;
+  period_start: string;                // First day of the month
+  period_end: string;                  // Last day of the month
+  closed_at: string;
+  closed_by?: string;
+  created_at: string;
+}
+
+export interface EnvelopePeriodSummary {
+  period_start: string;
+  period_end: string;
+  envelope_id: string;
+  envelope_type: EnvelopeType;
+  opening_balance: number;
+  assigned: number;                    // Allocations and transfers in, less transfers out
+  spent: number;                       // Expenses, split lines and payoffs
+  available: number;                   // Balance at the end of the month, before rollover
+  rollover_rule: RolloverRule;
+  rollover_adjustment: number;         // Change made to the envelope when the month closed
+  is_closed: boolean;
+}
+
+export interface BudgetPeriodSummary {
+  period_start: string;
+  period_end: string;
+  is_closed: boolean;
+  assigned: number;
+  spent: number;
+  available: number;
+  envelopes: EnvelopePeriodSummary[];
+}
+
+import { EnvelopeType } from './envelope';
\ No newline at end of file
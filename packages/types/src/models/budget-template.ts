@@ -0,0 +1,113 @@
+import { EnvelopeGoalType, EnvelopeType } from './envelope';
+import { ScheduleConfig, ScheduleType } from './income';
+
+export const BUDGET_TEMPLATE_FORMAT = 'nvlp-budget-template';
+export const BUDGET_TEMPLATE_FORMAT_VERSION = 1;
+
+// What to do when a template item has the same name as one already in the budget
+export enum TemplateConflictMode {
+  SKIP = 'skip',     // Keep the existing item; template children and envelopes use it
+  RENAME = 'rename', // Add the template item as "Name (2)"
+  FAIL = 'fail'      // Change nothing and report the conflicts
+}
+
+export interface BudgetTemplateCategory {
+  key: string;         // Unique within the template; referenced by parent_key and category_key
+  parent_key?: string;
+  name: string;
+  description?: string;
+  is_income: boolean;
+  icon?: string;
+  color?: string;
+  display_order: number;
+}
+
+export interface BudgetTemplateEnvelope {
+  name: string;
+  description?: string;
+  category_key?: string;
+  envelope_type: EnvelopeType;
+  target_amount?: number;
+  goal_type?: EnvelopeGoalType;
+  target_date?: string;
+  icon?: string;
+  color?: string;
+  display_order: number;
+  notify_on_low_balance: boolean;
+  low_balance_threshold?: number;
+  apy?: number;
+}
+
+export interface BudgetTemplateIncomeSource {
+  name: string;
+  description?: string;
+  expected_amount?: number;
+  schedule_type?: ScheduleType;
+  schedule_config?: ScheduleConfig;
+}
+
+// The layout itself, stored as JSON
+export interface BudgetTemplateContent {
+  format_version: number;
+  categories: BudgetTemplateCategory[];
+  envelopes: BudgetTemplateEnvelope[];
+  income_sources: BudgetTemplateIncomeSource[];
+}
+
+export interface BudgetTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string;
+  version: number;     // Goes up each time the template is saved again from a budget
+  is_shared: boolean;  // Shared templates can be viewed and applied by every user
+  template: BudgetTemplateContent;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetTemplateSaveRequest {
+  name: string;
+  description?: string;
+  is_shared?: boolean;
+}
+
+export interface BudgetTemplateUpdateRequest {
+  name?: string;
+  description?: string;
+  is_shared?: boolean;
+}
+
+export interface BudgetTemplateApplyRequest {
+  conflict_mode?: TemplateConflictMode; // Defaults to skip
+}
+
+export interface BudgetTemplateRename {
+  item_type: 'category' | 'envelope' | 'income_source';
+  template_name: string;
+  created_name: string;
+}
+
+export interface BudgetTemplateConflict {
+  item_type: 'category' | 'envelope' | 'income_source';
+  name: string;
+}
+
+export interface BudgetTemplateApplyResult {
+  budget_id: string;
+  categories_created: number;
+  envelopes_created: number;
+  income_sources_created: number;
+  skipped: BudgetTemplateConflict[];
+  renamed: BudgetTemplateRename[];
+}
+
+// Portable file form of a template, for export and import
+export interface BudgetTemplateFile {
+  format: typeof BUDGET_TEMPLATE_FORMAT;
+  name: string;
+  description?: string;
+  version: number;
+  exported_at: string;
+  template: BudgetTemplateContent;
+}
\ No newline at end of file
@@ -22,4 +22,18 @@ export interface BudgetUpdateRequest {
   description?: string;
   currency?: string;
   is_active?: boolean;
+}
+
+// What a budget clone copies
+export enum BudgetCloneMode {
+  STRUCTURE = 'structure', // Categories, envelopes, payees, income sources, plans and rules; no money
+  BALANCES = 'balances',   // Structure plus opening balance transactions for each envelope and available
+  FULL = 'full'            // Structure plus every transaction, split and closed period
+}
+
+export interface BudgetCloneRequest {
+  name: string;
+  description?: string;  // Defaults to the source budget's description
+  mode?: BudgetCloneMode; // Defaults to structure
+  as_of_date?: string;    // Date of the opening balance transactions (YYYY-MM-DD), defaults to today
 }
\ No newline at end of file
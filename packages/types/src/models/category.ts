@@ -39,10 +39,39 @@ export interface CategoryUpdateRequest {
   icon?: string;
   color?: string;
   display_order?: number;
-  parent_id?: string;
+  parent_id?: string | null; // null moves the category to the top level
 }
 
 export interface CategoryReorderRequest {
   id: string;
   display_order: number;
+}
+
+export interface CategoryMoveRequest {
+  parent_id: string | null;
+  display_order?: number; // Defaults to the end of the new parent's children
+}
+
+export interface CategoryTotals {
+  envelope_count: number;
+  balance: number;
+  target_amount: number; // Savings and spending targets; debt balances are excluded
+  assigned: number;
+  spent: number;
+}
+
+export interface CategoryTreeNode extends Category {
+  depth: number; // 0 for top-level categories
+  own_totals: CategoryTotals; // Envelopes directly in this category
+  totals: CategoryTotals; // This category and every subcategory below it
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryTree {
+  budget_id: string;
+  period_start: string;
+  period_end: string;
+  categories: CategoryTreeNode[];
+  uncategorized: CategoryTotals; // Envelopes without a category
+  totals: CategoryTotals;
 }
\ No newline at end of file
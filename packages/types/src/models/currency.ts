@@ -63,4 +63,39 @@ export function formatCurrency(amount: number, currencyCode: string): string {
   
   const formatted = amount.toFixed(info.decimals);
   return `${info.symbol}${formatted}`;
+}
+
+/**
+ * Rate quoted by a provider: one unit of base_currency buys rate units of quote_currency
+ */
+export interface ExchangeRateQuote {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  rate_date: string;
+}
+
+/**
+ * Stored exchange rate; shared by all budgets
+ */
+export interface ExchangeRate extends ExchangeRateQuote {
+  id: string;
+  source: string;            // Provider the rate came from
+  created_at: string;
+}
+
+export interface ExchangeRateFilters {
+  base_currency?: string;
+  quote_currency?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface CurrencyConversion {
+  amount: number;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  converted_amount: number;
+  rate_date: string;         // Date the rate was asked for; the stored rate may be older
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+export enum DebtPayoffStrategy {
+  SNOWBALL = 'snowball',               // Smallest balance first
+  AVALANCHE = 'avalanche',             // Highest interest rate first
+  CUSTOM = 'custom'                    // Order given in custom_order
+}
+
+/**
+ * A debt envelope with the terms of the debt payee it is paid to. The balance is
+ * the envelope's target_amount (what is still owed).
+ */
+export interface DebtPayoffDebt {
+  envelope_id: string;
+  name: string;
+  payee_id?: string;
+  balance: number;
+  interest_rate: number;               // Annual rate, percent
+  minimum_payment: number;
+  due_date?: number;                   // Day of month
+}
+
+export interface DebtPayoffRequest {
+  strategy: DebtPayoffStrategy;
+  extra_monthly_payment?: number;      // On top of the minimum payments
+  custom_order?: string[];             // Envelope IDs, custom strategy only; unlisted debts follow in snowball order
+  start_month?: string;                // YYYY-MM of the first payment, defaults to next month
+}
+
+export interface DebtPayoffPayment {
+  envelope_id: string;
+  payment: number;
+  interest: number;
+  balance: number;                     // After the payment
+}
+
+export interface DebtPayoffMonth {
+  month: string;                       // YYYY-MM
+  payments: DebtPayoffPayment[];
+  total_payment: number;
+  total_interest: number;
+  remaining_balance: number;
+}
+
+export interface DebtPayoffSummary extends DebtPayoffDebt {
+  payoff_order: number;
+  payoff_month?: string;               // Unset when the debt isn't paid off within the plan horizon
+  months_to_payoff?: number;
+  total_interest: number;
+  total_paid: number;
+}
+
+export interface DebtPayoffPlan {
+  strategy: DebtPayoffStrategy;
+  extra_monthly_payment: number;
+  monthly_payment: number;             // Minimums plus extra; freed-up minimums roll to the next debt
+  start_month: string;
+  is_paid_off: boolean;                // False when payments don't clear every debt within the horizon
+  payoff_month?: string;
+  months_to_payoff?: number;
+  total_interest: number;
+  total_paid: number;
+  debts: DebtPayoffSummary[];
+  schedule: DebtPayoffMonth[];
+}
\ No newline at end of file
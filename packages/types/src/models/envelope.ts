@@ -4,6 +4,12 @@ export enum EnvelopeType {
   SAVINGS = 'savings'
 }
 
+export enum EnvelopeGoalType {
+  TARGET_BY_DATE = 'target_by_date',   // Have target_amount saved by target_date
+  MONTHLY = 'monthly',                 // Assign target_amount every month
+  MINIMUM_BALANCE = 'minimum_balance'  // Keep at least target_amount in the envelope
+}
+
 export interface Envelope {
   id: string;
   budget_id: string;
@@ -11,6 +17,8 @@ export interface Envelope {
   description?: string;
   current_balance: number;
   target_amount?: number;
+  goal_type?: EnvelopeGoalType;        // Gives target_amount a cadence; not used by debt envelopes
+  target_date?: string;                // Due date for target_by_date goals
   envelope_type: EnvelopeType;
   category_id?: string;
   icon?: string;
@@ -18,7 +26,13 @@ export interface Envelope {
   display_order: number;
   notify_on_low_balance: boolean;
   low_balance_threshold?: number;
+  apy?: number;                        // Savings envelopes only, percent
+  interest_income_source_id?: string;  // Where posted interest is recorded as income
+  interest_posted_through?: string;    // Last day interest has been posted for
+  currency?: string;                   // Balance and targets are in this currency; unset means the budget currency
   is_active: boolean;
+  is_archived: boolean;                // Hidden and closed to new transactions; history is kept
+  archived_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -27,6 +41,8 @@ export interface EnvelopeCreateRequest {
   name: string;
   description?: string;
   target_amount?: number;
+  goal_type?: EnvelopeGoalType;
+  target_date?: string;
   envelope_type?: EnvelopeType;
   category_id?: string;
   icon?: string;
@@ -34,12 +50,17 @@ export interface EnvelopeCreateRequest {
   display_order?: number; // Optional - will auto-assign if not provided
   notify_on_low_balance?: boolean;
   low_balance_threshold?: number;
+  apy?: number;
+  interest_income_source_id?: string;
+  currency?: string;
 }
 
 export interface EnvelopeUpdateRequest {
   name?: string;
   description?: string;
   target_amount?: number;
+  goal_type?: EnvelopeGoalType | null;
+  target_date?: string | null;
   envelope_type?: EnvelopeType;
   category_id?: string;
   icon?: string;
@@ -47,10 +68,62 @@ export interface EnvelopeUpdateRequest {
   display_order?: number;
   notify_on_low_balance?: boolean;
   low_balance_threshold?: number;
+  apy?: number | null;
+  interest_income_source_id?: string | null;
+  currency?: string | null;           // Only while no transactions reference the envelope
   is_active?: boolean;
 }
 
 export interface EnvelopeReorderRequest {
   id: string;
   display_order: number;
+}
+
+// Balance once scheduled (future-dated) transactions post
+export interface EnvelopeProjectedBalance {
+  envelope_id: string;
+  current_balance: number;
+  pending_amount: number;              // Net effect of scheduled transactions
+  pending_count: number;
+  projected_balance: number;
+}
+
+// Progress toward an envelope's goal for the month containing the as-of date
+export interface EnvelopeGoalProgress {
+  envelope_id: string;
+  goal_type: EnvelopeGoalType;
+  target_amount: number;
+  target_date?: string;
+  current_balance: number;
+  funded_this_period: number;          // Net amount assigned to the envelope this month
+  required_this_period: number;        // Amount the goal calls for this month
+  funded_percentage: number;           // 0-100
+  underfunded_amount: number;          // What is still needed this month
+}
+
+export interface EnvelopeGoalSummary {
+  goal_count: number;
+  underfunded_count: number;
+  required_this_period: number;
+  funded_this_period: number;
+  underfunded_amount: number;          // Still to assign this month across all goals
+}
+
+// Projected savings envelope balance for one calendar month
+export interface SavingsProjectionMonth {
+  month_start: string;
+  month_end: string;
+  opening_balance: number;
+  contributions: number;               // Scheduled and future-dated transactions in, less out
+  interest: number;
+  projected_balance: number;
+}
+
+export interface SavingsProjection {
+  envelope_id: string;
+  current_balance: number;
+  total_contributions: number;
+  total_interest: number;
+  projected_balance: number;           // At the end of the last month
+  months: SavingsProjectionMonth[];
 }
\ No newline at end of file
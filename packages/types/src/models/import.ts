@@ -0,0 +1,99 @@
+export type ImportFormat = 'ofx' | 'qfx' | 'csv';
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+/**
+ * Describes how to read a bank's CSV layout. Columns are referenced by
+ * header name (when has_header is true) or by zero-based index.
+ */
+export interface CsvColumnMapping {
+  date: string | number;
+  description: string | number;
+  amount?: string | number;     // Single signed amount column (negative = money out)
+  debit?: string | number;      // Or separate money-out / money-in columns
+  credit?: string | number;
+  payee?: string | number;      // Defaults to the description when omitted
+  memo?: string | number;
+  reference?: string | number;  // Bank transaction id, used to dedupe within a file
+  date_format?: CsvDateFormat;  // Defaults to YYYY-MM-DD
+  delimiter?: string;           // Defaults to ','
+  has_header?: boolean;         // Defaults to true
+  negate_amounts?: boolean;     // For banks that export money out as positive
+}
+
+export interface ParsedStatementRow {
+  transaction_date: string;
+  amount: number;               // Signed: negative = money out, positive = money in
+  description: string;
+  payee_name?: string;
+  memo?: string;
+  external_id?: string;         // OFX FITID or mapped reference column
+}
+
+export enum ImportRowStatus {
+  PENDING = 'pending',
+  CONFIRMED = 'confirmed',
+  SKIPPED = 'skipped',
+  DUPLICATE = 'duplicate'
+}
+
+export enum ImportBatchStatus {
+  PENDING_REVIEW = 'pending_review',
+  COMMITTING = 'committing',    // Claimed by a commit that is posting the rows
+  COMMITTED = 'committed',
+  CANCELLED = 'cancelled'
+}
+
+export interface ImportRow {
+  row_index: number;
+  transaction_date: string;
+  amount: number;               // Always positive; direction is in transaction_type
+  transaction_type: TransactionType;
+  description: string;
+  payee_name?: string;
+  memo?: string;
+  external_id?: string;
+  payee_id?: string;
+  payee_match_score?: number;   // 0-1 similarity of the suggested payee
+  from_envelope_id?: string;
+  to_envelope_id?: string;
+  income_source_id?: string;
+  duplicate_of?: string;        // Existing transaction this row appears to duplicate
+  rule_suggestion?: RuleSuggestion;  // First matching rule; applied to the row when auto_apply is set
+  status: ImportRowStatus;
+  transaction_id?: string;      // Set once the row has been committed
+}
+
+export interface ImportBatch {
+  id: string;
+  budget_id: string;
+  format: ImportFormat;
+  file_name?: string;
+  status: ImportBatchStatus;
+  rows: ImportRow[];
+  created_at: string;
+  updated_at: string;
+  committed_at?: string;
+}
+
+export interface ImportRequest {
+  format: ImportFormat;
+  content: string;
+  file_name?: string;
+  csv_mapping?: CsvColumnMapping;  // Required for CSV imports
+  default_envelope_id?: string;    // Pre-filled on money-out rows
+}
+
+export interface ImportRowUpdate {
+  row_index: number;
+  status?: ImportRowStatus;
+  transaction_type?: TransactionType;
+  payee_id?: string;
+  from_envelope_id?: string;
+  to_envelope_id?: string;
+  income_source_id?: string;
+  description?: string;
+}
+
+import { TransactionType } from './transaction';
+import { RuleSuggestion } from './rule';
\ No newline at end of file
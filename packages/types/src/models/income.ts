@@ -79,4 +79,54 @@ export interface IncomeSourceUpdateRequest {
   schedule_config?: ScheduleConfig;
   next_expected_date?: string;
   is_active?: boolean;
+}
+
+export enum IncomeOccurrenceStatus {
+  RECEIVED = 'received',   // Matched to an income transaction
+  MISSED = 'missed'        // Passed over by a later payment without being paid
+}
+
+// One scheduled occurrence of an income source and what actually came in for it.
+// A posted income transaction matches the outstanding occurrence closest to its date
+// (within 7 days), which moves the source's next_expected_date on.
+export interface IncomeOccurrence {
+  id: string;
+  income_source_id: string;
+  budget_id: string;
+  expected_date: string;
+  expected_amount?: number;      // The source's expected_amount when the occurrence was settled
+  status: IncomeOccurrenceStatus;
+  transaction_id?: string;
+  actual_amount?: number;
+  received_date?: string;
+  variance?: number;             // actual_amount - expected_amount
+  days_late?: number;            // received_date - expected_date; negative when early
+  created_at: string;
+}
+
+export interface IncomeOccurrenceFilters {
+  income_source_id?: string;
+  status?: IncomeOccurrenceStatus;
+  date_from?: string;            // Expected on or after (YYYY-MM-DD)
+  date_to?: string;              // Expected on or before
+}
+
+// An active source whose next expected paycheck hasn't arrived. It is late while a
+// payment could still match it and missed once that window has passed.
+export interface OverdueIncomeSource extends IncomeSource {
+  days_overdue: number;
+  overdue_status: 'late' | 'missed';
+  missed_dates: string[];        // Outstanding occurrences no payment can match any more
+}
+
+// One expected occurrence of an active income source in the income calendar
+export interface IncomeCalendarEntry {
+  income_source_id: string;
+  income_source_name: string;
+  expected_date: string;
+  expected_amount?: number;
+  status: IncomeOccurrenceStatus | 'expected';   // 'expected' until received or missed
+  actual_amount?: number;
+  received_date?: string;
+  transaction_id?: string;
 }
\ No newline at end of file
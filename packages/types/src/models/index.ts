@@ -6,4 +6,15 @@ export * from './income';
 export * from './payee';
 export * from './category';
 export * from './currency';
-export * from './device';
\ No newline at end of file
+export * from './device';
+export * from './scheduled-transaction';
+export * from './import';
+export * from './reconciliation';
+export * from './rule';
+export * from './attachment';
+export * from './tag';
+export * from './allocation-plan';
+export * from './budget-period';
+export * from './debt-payoff';
+export * from './budget-template';
+export * from './bill';
\ No newline at end of file
@@ -10,8 +10,8 @@ export interface Payee {
   description?: string;
   payee_type: PayeeType;
   interest_rate?: number; // For debt payees (tracking only)
-  minimum_payment?: number; // For debt payees (tracking only)  
-  due_date?: number; // Day of month (1-31, tracking only)
+  minimum_payment?: number; // Amount due each month for bills and debts
+  due_date?: number; // Day of month (1-31); payees with a due date are tracked as bills
   total_paid: number;
   last_payment_date?: string;
   is_active: boolean;
@@ -36,4 +36,25 @@ export interface PayeeUpdateRequest {
   minimum_payment?: number;
   due_date?: number;
   is_active?: boolean;
+}
+
+// Alternative spelling that resolves raw descriptions (e.g. "AMZN Mktp") to a payee
+export interface PayeeAlias {
+  id: string;
+  payee_id: string;
+  budget_id: string;
+  alias: string;
+  normalized_alias: string;    // What descriptions are matched against; unique per budget
+  created_at: string;
+}
+
+export interface PayeeWithAliases extends Payee {
+  aliases: PayeeAlias[];
+}
+
+// Two payees whose names look like the same merchant
+export interface PayeeDuplicateSuggestion {
+  payee: Payee;
+  duplicate: Payee;
+  score: number;               // Name similarity, 0-1
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+export interface Reconciliation {
+  id: string;
+  budget_id: string;
+  statement_date: string;
+  statement_balance: number;
+  cleared_balance: number;
+  transaction_count: number;   // Transactions locked by this reconciliation
+  completed_by?: string;
+  completed_at: string;
+  created_at: string;
+}
+
+export interface ReconciliationRequest {
+  statement_date: string;      // Statement end date (YYYY-MM-DD)
+  statement_balance: number;   // Ending balance printed on the statement
+}
+
+export interface ReconciliationSession {
+  budget_id: string;
+  statement_date: string;
+  statement_balance: number;
+  cleared_balance: number;     // Cleared income minus cleared spending up to statement_date
+  difference: number;          // statement_balance - cleared_balance; must be 0 to complete
+  cleared_transactions: Transaction[];    // Cleared but not yet reconciled; locked on completion
+  uncleared_transactions: Transaction[];  // Not yet cleared, up to statement_date
+  last_reconciliation?: Reconciliation;
+}
+
+import { Transaction } from './transaction';
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * Auto-categorization rule for expense transactions.
+ * Every condition that is set must match; rules are evaluated in ascending priority.
+ */
+export interface TransactionRule {
+  id: string;
+  budget_id: string;
+  name: string;
+  priority: number;                    // Lower runs first
+  is_active: boolean;
+  auto_apply: boolean;                 // Fill empty fields automatically, otherwise only suggest
+  match_payee_id?: string;
+  match_description_pattern?: string;  // Case-insensitive regular expression
+  match_min_amount?: number;
+  match_max_amount?: number;
+  set_envelope_id?: string;
+  set_payee_id?: string;
+  set_description?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TransactionRuleCreateRequest {
+  name: string;
+  priority?: number;
+  is_active?: boolean;
+  auto_apply?: boolean;
+  match_payee_id?: string;
+  match_description_pattern?: string;
+  match_min_amount?: number;
+  match_max_amount?: number;
+  set_envelope_id?: string;
+  set_payee_id?: string;
+  set_description?: string;
+}
+
+export interface TransactionRuleUpdateRequest {
+  name?: string;
+  priority?: number;
+  is_active?: boolean;
+  auto_apply?: boolean;
+  match_payee_id?: string | null;
+  match_description_pattern?: string | null;
+  match_min_amount?: number | null;
+  match_max_amount?: number | null;
+  set_envelope_id?: string | null;
+  set_payee_id?: string | null;
+  set_description?: string | null;
+}
+
+// Fields of a transaction (or import row) a rule is matched against
+export interface RuleMatchInput {
+  amount: number;
+  payee_id?: string;
+  description?: string;
+}
+
+export interface RuleSuggestion {
+  rule_id: string;
+  rule_name: string;
+  auto_apply: boolean;
+  from_envelope_id?: string;
+  payee_id?: string;
+  description?: string;
+}
+
+export interface RuleTestMatch {
+  transaction_id: string;
+  transaction_date: string;
+  amount: number;
+  description?: string;
+  payee_id?: string;
+  from_envelope_id?: string;
+  would_change: boolean;               // The rule would have set a different envelope, payee or description
+}
+
+export interface RuleTestResult {
+  rule_id?: string;                    // Unset when testing an unsaved rule
+  scanned_count: number;
+  match_count: number;
+  change_count: number;
+  matches: RuleTestMatch[];
+}
+
+export interface RuleTestOptions {
+  start_date?: string;
+  end_date?: string;
+  limit?: number;                      // Transactions to scan, newest first (default 500)
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+export interface ScheduledTransaction {
+  id: string;
+  budget_id: string;
+  name: string;
+  transaction_type: TransactionType;
+  amount: number;
+  currency?: string;             // Set when the amount is in another currency
+  description?: string;
+  from_envelope_id?: string;
+  to_envelope_id?: string;
+  payee_id?: string;
+  income_source_id?: string;
+  schedule_type: ScheduleType;
+  schedule_config: ScheduleConfig;
+  next_occurrence_date?: string; // Next date due to be posted
+  end_date?: string;             // No occurrences are posted after this date
+  last_posted_date?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledTransactionCreateRequest {
+  name: string;
+  transaction_type: TransactionType;
+  amount: number;
+  currency?: string;             // Must match the currency of an envelope in another currency
+  description?: string;
+  from_envelope_id?: string;
+  to_envelope_id?: string;
+  payee_id?: string;
+  income_source_id?: string;
+  schedule_type: ScheduleType;
+  schedule_config: ScheduleConfig;
+  next_occurrence_date?: string; // Calculated from the schedule when omitted
+  end_date?: string;
+}
+
+export interface ScheduledTransactionUpdateRequest {
+  name?: string;
+  amount?: number;
+  currency?: string | null;      // null posts in the budget currency again
+  description?: string;
+  from_envelope_id?: string;
+  to_envelope_id?: string;
+  payee_id?: string;
+  income_source_id?: string;
+  schedule_type?: ScheduleType;
+  schedule_config?: ScheduleConfig;
+  next_occurrence_date?: string;
+  end_date?: string;
+  is_active?: boolean;
+}
+
+export interface ScheduledTransactionPreview {
+  scheduled_transaction_id: string;
+  name: string;
+  occurrences: string[]; // ISO dates, in posting order
+}
+
+export interface ScheduledTransactionRunResult {
+  scheduled_transaction_id: string;
+  name: string;
+  posted_dates: string[];
+  transaction_ids: string[];
+  next_occurrence_date?: string;
+  error?: string; // Posting stopped at the first failing occurrence
+}
+
+import { TransactionType } from './transaction';
+import { ScheduleType, ScheduleConfig } from './income';
\ No newline at end of file
@@ -0,0 +1,28 @@
+/**
+ * Free-form label for cross-cutting questions envelopes don't answer
+ * ("vacation 2026", "tax-deductible"). A transaction can carry any number of tags.
+ */
+export interface Tag {
+  id: string;
+  budget_id: string;
+  name: string;                        // Unique per budget, case-insensitive
+  color?: string;                      // Hex color, e.g. #1E88E5
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TagCreateRequest {
+  name: string;
+  color?: string;
+}
+
+export interface TagUpdateRequest {
+  name?: string;
+  color?: string | null;
+}
+
+export interface TransactionTag {
+  transaction_id: string;
+  tag_id: string;
+  created_at: string;
+}
\ No newline at end of file
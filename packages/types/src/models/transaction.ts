@@ -6,11 +6,19 @@ export enum TransactionType {
   PAYOFF = 'payoff'
 }
 
+export enum TransactionStatus {
+  POSTED = 'posted',          // Counted in envelope balances and the available amount
+  SCHEDULED = 'scheduled'     // Future-dated; posts automatically on its date
+}
+
 export interface Transaction {
   id: string;
   budget_id: string;
   transaction_type: TransactionType;
-  amount: number;
+  amount: number;              // Always in the budget currency
+  currency?: string;           // Set when recorded in another currency
+  original_amount?: number;    // Amount in that currency
+  exchange_rate?: number;      // Budget currency per unit of that currency
   description?: string;
   transaction_date: string;
   from_envelope_id?: string;
@@ -19,6 +27,10 @@ export interface Transaction {
   income_source_id?: string;
   is_cleared: boolean;
   is_reconciled: boolean;
+  is_split: boolean;
+  status: TransactionStatus;
+  scheduled_transaction_id?: string;
+  reconciliation_id?: string;
   created_at: string;
   updated_at: string;
   is_deleted: boolean;
@@ -28,7 +40,9 @@ export interface Transaction {
 
 export interface TransactionCreateRequest {
   transaction_type: TransactionType;
-  amount: number;
+  amount: number;                    // In currency when given, otherwise the budget currency
+  currency?: string;
+  exchange_rate?: number;            // Looked up from exchange rates on the transaction date if omitted
   description?: string;
   transaction_date: string;
   from_envelope_id?: string;
@@ -36,10 +50,14 @@ export interface TransactionCreateRequest {
   payee_id?: string;
   income_source_id?: string;
   is_cleared?: boolean;
+  splits?: TransactionSplitRequest[];
+  scheduled_transaction_id?: string; // Set when posted from a scheduled transaction
 }
 
 export interface TransactionUpdateRequest {
   amount?: number;
+  currency?: string | null;          // null records the transaction in the budget currency again
+  exchange_rate?: number | null;
   description?: string;
   transaction_date?: string;
   from_envelope_id?: string;
@@ -48,6 +66,29 @@ export interface TransactionUpdateRequest {
   income_source_id?: string;
   is_cleared?: boolean;
   is_reconciled?: boolean;
+  splits?: TransactionSplitRequest[];
+  unlock_reconciled?: boolean; // Required to edit a transaction that has been reconciled
+}
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  envelope_id: string;
+  amount: number;
+  description?: string;
+  is_deleted: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TransactionSplitRequest {
+  envelope_id: string;
+  amount: number;
+  description?: string;
+}
+
+export interface TransactionSplitWithDetails extends TransactionSplit {
+  envelope?: Envelope;
 }
 
 export interface TransactionWithDetails extends Transaction {
@@ -56,9 +97,31 @@ export interface TransactionWithDetails extends Transaction {
   payee?: Payee;
   income_source?: IncomeSource;
   category?: Category;
+  splits?: TransactionSplitWithDetails[];
+  attachments?: Attachment[];
+  tags?: Tag[];
+}
+
+export interface TransactionSearchHighlights {
+  description?: string;        // Matched fragments wrapped in <mark></mark>
+  payee_name?: string;
+  envelope_names?: string;
+}
+
+export interface TransactionSearchResult {
+  transaction: Transaction;
+  rank: number;                // Higher is more relevant
+  highlights: TransactionSearchHighlights;
+}
+
+export interface TransactionSearchOptions {
+  limit?: number;              // Default 50
+  offset?: number;
 }
 
 import { Envelope } from './envelope';
 import { Payee } from './payee';
 import { IncomeSource } from './income';
-import { Category } from './category';
\ No newline at end of file
+import { Category } from './category';
+import { Attachment } from './attachment';
+import { Tag } from './tag';
\ No newline at end of file
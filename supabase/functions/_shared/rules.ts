@@ -0,0 +1,87 @@
+/**
+ * Transaction rule matching for edge functions.
+ * Mirrors packages/api/src/utils/rule-matcher.ts.
+ */
+
+export interface TransactionRuleRow {
+  id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  auto_apply: boolean;
+  match_payee_id: string | null;
+  match_description_pattern: string | null;
+  match_min_amount: number | string | null;
+  match_max_amount: number | string | null;
+  set_envelope_id: string | null;
+  set_payee_id: string | null;
+  set_description: string | null;
+  created_at: string;
+}
+
+export interface RuleMatchInput {
+  amount: number;
+  payee_id?: string | null;
+  description?: string | null;
+}
+
+export function matchesRule(rule: TransactionRuleRow, input: RuleMatchInput): boolean {
+  if (rule.match_payee_id && rule.match_payee_id !== input.payee_id) {
+    return false;
+  }
+
+  if (rule.match_min_amount != null && input.amount < Number(rule.match_min_amount)) {
+    return false;
+  }
+
+  if (rule.match_max_amount != null && input.amount > Number(rule.match_max_amount)) {
+    return false;
+  }
+
+  if (rule.match_description_pattern) {
+    try {
+      if (!new RegExp(rule.match_description_pattern, 'i').test(input.description || '')) {
+        return false;
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// First matching rule in priority order (lowest priority number first)
+export function findMatchingRule(rules: TransactionRuleRow[], input: RuleMatchInput): TransactionRuleRow | undefined {
+  return [...rules]
+    .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at))
+    .find(rule => rule.is_active && matchesRule(rule, input));
+}
+
+export function toRuleSuggestion(rule: TransactionRuleRow) {
+  return {
+    rule_id: rule.id,
+    rule_name: rule.name,
+    auto_apply: rule.auto_apply,
+    from_envelope_id: rule.set_envelope_id || undefined,
+    payee_id: rule.set_payee_id || undefined,
+    description: rule.set_description || undefined,
+  };
+}
+
+// Active rules of a budget in evaluation order
+export async function loadActiveRules(supabaseClient: any, budgetId: string): Promise<TransactionRuleRow[]> {
+  const { data, error } = await supabaseClient
+    .from('transaction_rules')
+    .select('*')
+    .eq('budget_id', budgetId)
+    .eq('is_active', true)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
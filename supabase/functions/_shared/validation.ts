@@ -28,10 +28,12 @@ const PATTERNS = {
   url: /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/,
   alphanumeric: /^[a-zA-Z0-9\s]+$/,
   currency: /^\d+(\.\d{1,2})?$/,
+  currencyCode: /^[A-Z]{3}$/,
   date: /^\d{4}-\d{2}-\d{2}$/,
   transactionType: /^(income|expense|transfer|allocation|payoff)$/,
   scheduleType: /^(weekly|biweekly|monthly|semi_monthly|quarterly|yearly|one_time)$/,
   fillType: /^(manual|percentage|fixed_amount)$/,
+  goalType: /^(target_by_date|monthly|minimum_balance)$/,
 };
 
 // SQL injection prevention patterns
@@ -296,6 +298,27 @@ export function validateCurrency(value: any, fieldName: string, required: boolea
   return null;
 }
 
+/**
+ * Validate ISO 4217 currency code
+ */
+export function validateCurrencyCode(value: any, fieldName: string, required: boolean = true): ValidationError | null {
+  if (!value) {
+    return required
+      ? { field: fieldName, message: `${fieldName} is required`, code: 'REQUIRED' }
+      : null;
+  }
+
+  if (typeof value !== 'string' || !PATTERNS.currencyCode.test(value)) {
+    return {
+      field: fieldName,
+      message: `${fieldName} must be a three-letter ISO 4217 currency code`,
+      code: 'INVALID_FORMAT'
+    };
+  }
+
+  return null;
+}
+
 /**
  * Validate date format (YYYY-MM-DD)
  */
@@ -367,6 +390,49 @@ export function validateTransactionType(value: any): ValidationError | null {
   return null;
 }
 
+/**
+ * Validate the split lines of a split expense against the transaction amount
+ */
+export function validateTransactionSplits(splits: any, amount: any): ValidationError[] {
+  const errors: ValidationError[] = [];
+  
+  if (!Array.isArray(splits) || splits.length < 2) {
+    errors.push({ field: 'splits', message: 'splits must be an array with at least two entries', code: 'INVALID_VALUE' });
+    return errors;
+  }
+  
+  splits.forEach((split: any, index: number) => {
+    const envelopeError = validateUUID(split?.envelope_id, `splits[${index}].envelope_id`);
+    if (envelopeError) errors.push(envelopeError);
+    
+    const amountError = validateCurrency(split?.amount, `splits[${index}].amount`);
+    if (amountError) {
+      errors.push(amountError);
+    } else if (Number(split.amount) <= 0) {
+      errors.push({ field: `splits[${index}].amount`, message: 'Split amounts must be positive', code: 'INVALID_VALUE' });
+    }
+    
+    const descriptionError = validateString(split?.description, `splits[${index}].description`, { 
+      required: false, 
+      maxLength: 255 
+    });
+    if (descriptionError) errors.push(descriptionError);
+  });
+  
+  const envelopeIds = splits.map((split: any) => split?.envelope_id);
+  if (new Set(envelopeIds).size !== envelopeIds.length) {
+    errors.push({ field: 'splits', message: 'Each split must use a different envelope', code: 'INVALID_VALUE' });
+  }
+  
+  // Compare in cents to avoid floating point drift
+  const totalCents = splits.reduce((total: number, split: any) => total + Math.round(Number(split?.amount) * 100), 0);
+  if (amount !== undefined && totalCents !== Math.round(Number(amount) * 100)) {
+    errors.push({ field: 'splits', message: 'Split amounts must add up to the transaction amount', code: 'INVALID_VALUE' });
+  }
+  
+  return errors;
+}
+
 /**
  * Validate transaction request based on type
  */
@@ -391,7 +457,46 @@ export function validateTransactionRequest(data: any): ValidationResult {
   
   const dateError = validateDate(data.transaction_date, 'transaction_date');
   if (dateError) errors.push(dateError);
-  
+
+  // Future-dated transactions stay pending until their date, which splits
+  // and payoffs don't support
+  const isFutureDated = !dateError && data.transaction_date > new Date().toISOString().split('T')[0];
+  if (isFutureDated && (data.splits !== undefined || data.transaction_type === 'payoff')) {
+    errors.push({
+      field: 'transaction_date',
+      message: data.splits !== undefined
+        ? 'Split transactions cannot be future-dated'
+        : 'Payoff transactions cannot be future-dated',
+      code: 'INVALID_COMBINATION'
+    });
+  }
+
+  // Amounts in another currency are converted with exchange_rate, or with the
+  // stored rate for the transaction date when it's left out
+  if (data.currency) {
+    const currencyError = validateCurrencyCode(data.currency, 'currency');
+    if (currencyError) errors.push(currencyError);
+    if (data.splits !== undefined) {
+      errors.push({
+        field: 'currency',
+        message: 'Split transactions must be recorded in the budget currency',
+        code: 'INVALID_COMBINATION'
+      });
+    }
+  }
+
+  if (data.exchange_rate !== undefined && data.exchange_rate !== null) {
+    const rateError = validateNumber(data.exchange_rate, 'exchange_rate', { positive: true });
+    if (rateError) errors.push(rateError);
+    if (!data.currency) {
+      errors.push({
+        field: 'exchange_rate',
+        message: 'exchange_rate can only be given with a currency',
+        code: 'INVALID_COMBINATION'
+      });
+    }
+  }
+
   // Validate type-specific fields
   const type = data.transaction_type;
   
@@ -412,8 +517,26 @@ export function validateTransactionRequest(data: any): ValidationResult {
       
     case 'expense':
     case 'payoff':
-      const fromEnvelopeError = validateUUID(data.from_envelope_id, 'from_envelope_id');
-      if (fromEnvelopeError) errors.push(fromEnvelopeError);
+      if (data.splits !== undefined) {
+        // Split expenses take their envelopes from the split lines
+        if (type !== 'expense') {
+          errors.push({
+            field: 'splits',
+            message: 'Only expense transactions can be split',
+            code: 'INVALID_COMBINATION'
+          });
+        } else if (data.from_envelope_id) {
+          errors.push({
+            field: 'from_envelope_id',
+            message: 'Split transactions cannot have from_envelope_id',
+            code: 'INVALID_COMBINATION'
+          });
+        }
+        errors.push(...validateTransactionSplits(data.splits, data.amount));
+      } else {
+        const fromEnvelopeError = validateUUID(data.from_envelope_id, 'from_envelope_id');
+        if (fromEnvelopeError) errors.push(fromEnvelopeError);
+      }
       
       const payeeError = validateUUID(data.payee_id, 'payee_id');
       if (payeeError) errors.push(payeeError);
@@ -473,6 +596,12 @@ export function validateTransactionRequest(data: any): ValidationResult {
   const sanitizedData = {
     ...data,
     description: data.description ? sanitizeString(data.description) : data.description,
+    splits: Array.isArray(data.splits)
+      ? data.splits.map((split: any) => ({
+          ...split,
+          description: split.description ? sanitizeString(split.description) : split.description,
+        }))
+      : data.splits,
   };
   
   return {
@@ -549,6 +678,35 @@ export function validateEnvelopeRequest(data: any): ValidationResult {
     if (dateError) errors.push(dateError);
   }
   
+  if (data.goal_type) {
+    const goalTypeError = validateString(data.goal_type, 'goal_type', {
+      pattern: PATTERNS.goalType
+    });
+    if (goalTypeError) {
+      errors.push({
+        field: 'goal_type',
+        message: 'Goal type must be one of: target_by_date, monthly, minimum_balance',
+        code: 'INVALID_VALUE'
+      });
+    } else if (data.goal_type === 'target_by_date' && !data.target_date) {
+      errors.push({
+        field: 'target_date',
+        message: 'target_date is required for target_by_date goals',
+        code: 'REQUIRED'
+      });
+    }
+  }
+  
+  if (data.apy !== undefined && data.apy !== null) {
+    const apyError = validateNumber(data.apy, 'apy', { min: 0, max: 100 });
+    if (apyError) errors.push(apyError);
+  }
+  
+  if (data.currency) {
+    const currencyError = validateCurrencyCode(data.currency, 'currency', false);
+    if (currencyError) errors.push(currencyError);
+  }
+  
   if (data.fill_type) {
     const fillTypeError = validateString(data.fill_type, 'fill_type', { 
       pattern: PATTERNS.fillType 
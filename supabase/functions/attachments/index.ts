@@ -0,0 +1,381 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { withRateLimit } from '../_shared/rate-limiter.ts'
+import { withSecurity } from '../_shared/security-headers.ts'
+
+const BUCKET = 'transaction-attachments'
+const CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf']
+const MAX_SIZE_BYTES = 10 * 1024 * 1024
+const DEFAULT_DOWNLOAD_EXPIRY_SECONDS = 300
+const MAX_DOWNLOAD_EXPIRY_SECONDS = 3600
+
+const validateUpload = (body: any): string | null => {
+  const fileName = typeof body.file_name === 'string' ? body.file_name.trim() : ''
+  if (!fileName) {
+    return 'File name is required'
+  }
+  if (fileName.length > 255 || fileName.includes('/')) {
+    return 'File name must be at most 255 characters and contain no slashes'
+  }
+  if (!CONTENT_TYPES.includes(body.content_type)) {
+    return `Content type must be one of: ${CONTENT_TYPES.join(', ')}`
+  }
+  if (!Number.isInteger(body.size_bytes) || body.size_bytes < 1 || body.size_bytes > MAX_SIZE_BYTES) {
+    return 'File size must be between 1 byte and 10 MB'
+  }
+  return null
+}
+
+const handler = async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Missing or invalid authorization header' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create Supabase client with the user's token
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        },
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      }
+    )
+
+    // Get the current user from the JWT
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const url = new URL(req.url)
+    const pathParts = url.pathname.split('/').filter(p => p)
+
+    // Handle GET/POST /transactions/{transactionId}/attachments
+    if (pathParts.length === 3 && pathParts[0] === 'transactions' && pathParts[2] === 'attachments') {
+      const transactionId = pathParts[1]
+
+      // RLS limits this to transactions in the user's budgets
+      const { data: transaction, error: transactionError } = await supabaseClient
+        .from('transactions')
+        .select('id, budget_id, is_deleted')
+        .eq('id', transactionId)
+        .single()
+
+      if (transactionError || !transaction) {
+        return new Response(
+          JSON.stringify({ error: 'Transaction not found' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (req.method === 'GET') {
+        const { data: attachments, error } = await supabaseClient
+          .from('attachments')
+          .select('*')
+          .eq('transaction_id', transactionId)
+          .eq('is_uploaded', true)
+          .eq('is_deleted', false)
+          .order('created_at', { ascending: true })
+
+        if (error) {
+          return new Response(
+            JSON.stringify({ error: error.message }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        return new Response(
+          JSON.stringify({ attachments }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (req.method === 'POST') {
+        const body = await req.json()
+
+        if (transaction.is_deleted) {
+          return new Response(
+            JSON.stringify({ error: 'Cannot attach files to a deleted transaction' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const validationError = validateUpload(body)
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const fileName = body.file_name.trim()
+        const storagePath = `${transaction.budget_id}/${transactionId}/${crypto.randomUUID()}/${fileName.replace(/[^\w.\- ]/g, '_')}`
+
+        const { data: attachment, error } = await supabaseClient
+          .from('attachments')
+          .insert({
+            transaction_id: transactionId,
+            budget_id: transaction.budget_id,
+            file_name: fileName,
+            content_type: body.content_type,
+            size_bytes: body.size_bytes,
+            storage_path: storagePath,
+            uploaded_by: user.id
+          })
+          .select()
+          .single()
+
+        if (error || !attachment) {
+          return new Response(
+            JSON.stringify({ error: error?.message || 'Failed to create attachment' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const { data: upload, error: uploadError } = await supabaseClient.storage
+          .from(BUCKET)
+          .createSignedUploadUrl(storagePath)
+
+        if (uploadError || !upload) {
+          await supabaseClient.from('attachments').delete().eq('id', attachment.id)
+          return new Response(
+            JSON.stringify({ error: 'Could not create upload URL' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        return new Response(
+          JSON.stringify({
+            attachment,
+            upload_url: upload.signedUrl,
+            upload_token: upload.token
+          }),
+          {
+            status: 201,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    }
+
+    // Handle /attachments/{attachmentId}[/complete|/download]
+    if (pathParts.length >= 2 && pathParts.length <= 3 && pathParts[0] === 'attachments') {
+      const attachmentId = pathParts[1]
+      const action = pathParts[2]
+
+      const { data: attachment, error: attachmentError } = await supabaseClient
+        .from('attachments')
+        .select('*')
+        .eq('id', attachmentId)
+        .single()
+
+      if (attachmentError || !attachment) {
+        return new Response(
+          JSON.stringify({ error: 'Attachment not found' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // POST /attachments/{id}/complete - Confirm the signed upload finished
+      if (req.method === 'POST' && action === 'complete') {
+        if (!attachment.is_uploaded) {
+          const { data: exists } = await supabaseClient.storage
+            .from(BUCKET)
+            .exists(attachment.storage_path)
+
+          if (!exists) {
+            return new Response(
+              JSON.stringify({ error: 'File has not been uploaded yet' }),
+              {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              }
+            )
+          }
+
+          const { error } = await supabaseClient
+            .from('attachments')
+            .update({ is_uploaded: true, updated_at: new Date().toISOString() })
+            .eq('id', attachmentId)
+
+          if (error) {
+            return new Response(
+              JSON.stringify({ error: error.message }),
+              {
+                status: 500,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              }
+            )
+          }
+        }
+
+        return new Response(
+          JSON.stringify({ attachment: { ...attachment, is_uploaded: true } }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // GET /attachments/{id}/download - Short-lived signed download URL
+      if (req.method === 'GET' && action === 'download') {
+        if (!attachment.is_uploaded || attachment.is_deleted) {
+          return new Response(
+            JSON.stringify({ error: 'Attachment not found' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const expiresIn = parseInt(url.searchParams.get('expires_in') || String(DEFAULT_DOWNLOAD_EXPIRY_SECONDS))
+        if (isNaN(expiresIn) || expiresIn < 1 || expiresIn > MAX_DOWNLOAD_EXPIRY_SECONDS) {
+          return new Response(
+            JSON.stringify({ error: `expires_in must be between 1 and ${MAX_DOWNLOAD_EXPIRY_SECONDS}` }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const { data: download, error } = await supabaseClient.storage
+          .from(BUCKET)
+          .createSignedUrl(attachment.storage_path, expiresIn)
+
+        if (error || !download) {
+          return new Response(
+            JSON.stringify({ error: 'Could not create download URL' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        return new Response(
+          JSON.stringify({
+            url: download.signedUrl,
+            expires_at: new Date(Date.now() + expiresIn * 1000).toISOString()
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // DELETE /attachments/{id} - Remove the file and the attachment
+      if (req.method === 'DELETE' && !action) {
+        const { error: removeError } = await supabaseClient.storage
+          .from(BUCKET)
+          .remove([attachment.storage_path])
+
+        if (removeError) {
+          return new Response(
+            JSON.stringify({ error: 'Could not remove attachment file' }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const { error } = await supabaseClient
+          .from('attachments')
+          .delete()
+          .eq('id', attachmentId)
+
+        if (error) {
+          return new Response(
+            JSON.stringify({ error: error.message }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        return new Response(null, { status: 204, headers: corsHeaders })
+      }
+    }
+
+    // Method/path not found
+    return new Response(
+      JSON.stringify({ error: 'Not Found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An unexpected error occurred' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+}
+
+// Apply security headers and rate limiting to the handler
+serve(withSecurity(withRateLimit('critical', handler)))
\ No newline at end of file
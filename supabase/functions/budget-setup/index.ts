@@ -594,6 +594,96 @@ serve(async (req) => {
       }
     }
 
+    // Handle POST /budgets/{budgetId}/clone
+    if (req.method === 'POST' && pathParts.length === 3 && 
+        pathParts[0] === 'budgets' && pathParts[2] === 'clone') {
+      
+      const budgetId = pathParts[1]
+      const { name, description, mode = 'structure', as_of_date } = requestBody || {}
+      
+      // Verify budget access
+      const { error: budgetError } = await supabaseClient
+        .from('budgets')
+        .select('id')
+        .eq('id', budgetId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (budgetError) {
+        if (budgetError.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Budget not found or access denied' }),
+            { 
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw budgetError
+      }
+
+      if (typeof name !== 'string' || name.trim().length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Budget name is required' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (!['structure', 'balances', 'full'].includes(mode)) {
+        return new Response(
+          JSON.stringify({ error: 'Clone mode must be structure, balances or full' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (as_of_date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(as_of_date)) {
+        return new Response(
+          JSON.stringify({ error: 'as_of_date must be in YYYY-MM-DD format' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // The copy runs in one database function so a failure leaves nothing behind.
+      // Carried-over balances are posted as opening balance transactions.
+      const { data: budget, error: cloneError } = await supabaseClient.rpc('clone_budget', {
+        p_budget_id: budgetId,
+        p_name: name.trim(),
+        p_mode: mode,
+        ...(description !== undefined ? { p_description: description } : {}),
+        ...(as_of_date ? { p_as_of: as_of_date } : {})
+      })
+
+      if (cloneError) {
+        if (cloneError.code === '23514') {
+          return new Response(
+            JSON.stringify({ error: cloneError.message }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw cloneError
+      }
+
+      return new Response(
+        JSON.stringify({ budget }),
+        { 
+          status: 201,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     // Method/path not found
     return new Response(
       JSON.stringify({ error: 'Not Found' }),
@@ -114,7 +114,7 @@ const handler = async (req: Request) => {
           errors.push('Transaction amount must be positive')
         }
 
-        if (transaction.amount && !Number.isInteger(transaction.amount * 100)) {
+        if (transaction.amount && Math.abs(Math.round(transaction.amount * 100) - transaction.amount * 100) > 1e-6) {
           errors.push('Transaction amount can have at most 2 decimal places')
         }
 
@@ -179,10 +179,8 @@ const handler = async (req: Request) => {
             to_envelope_id: transaction.to_envelope_id || null,
             payee_id: transaction.payee_id || null,
             income_source_id: transaction.income_source_id || null,
-            category_id: transaction.category_id || null,
             is_cleared: transaction.is_cleared ?? false,
             is_reconciled: transaction.is_reconciled ?? false,
-            notes: transaction.notes || null,
           })
         }
       }
@@ -639,6 +637,111 @@ const handler = async (req: Request) => {
       )
     }
 
+    // Handle POST /budgets/{budgetId}/bulk/envelopes/archive and /merge
+    if (req.method === 'POST' && pathParts.length === 5 && 
+        pathParts[0] === 'budgets' && pathParts[2] === 'bulk' && pathParts[3] === 'envelopes' &&
+        (pathParts[4] === 'archive' || pathParts[4] === 'merge')) {
+      const budgetId = pathParts[1]
+      const operation = pathParts[4]
+      
+      // Verify budget access
+      const { error: budgetError } = await supabaseClient
+        .from('budgets')
+        .select('id')
+        .eq('id', budgetId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (budgetError) {
+        if (budgetError.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Budget not found or access denied' }),
+            { 
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw budgetError
+      }
+
+      // Parse request body
+      const body = await req.json()
+
+      // Both operations take a list of envelopes; merges run in order, so a later
+      // merge can use the target of an earlier one
+      const items: any[] = operation === 'archive' ? body.envelope_ids : body.merges
+      if (!Array.isArray(items) || items.length === 0) {
+        return new Response(
+          JSON.stringify({ error: `${operation === 'archive' ? 'envelope_ids' : 'merges'} array is required and must not be empty` }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      const processedEnvelopes = []
+      const processErrors = []
+
+      for (let i = 0; i < items.length; i++) {
+        const item = items[i]
+        const sourceId = operation === 'archive' ? item : item?.source_envelope_id
+        const targetId = operation === 'archive' ? null : item?.target_envelope_id
+
+        if (!sourceId || (operation === 'merge' && !targetId)) {
+          processErrors.push({
+            index: i,
+            errors: [operation === 'archive' ? 'envelope id is required' : 'source_envelope_id and target_envelope_id are required']
+          })
+          continue
+        }
+
+        try {
+          // Only envelopes in this budget can be archived or merged
+          const envelopeIds = targetId ? [sourceId, targetId] : [sourceId]
+          const { data: envelopes, error: fetchError } = await supabaseClient
+            .from('envelopes')
+            .select('id')
+            .in('id', envelopeIds)
+            .eq('budget_id', budgetId)
+
+          if (fetchError) {
+            processErrors.push({ index: i, id: sourceId, error: fetchError.message })
+            continue
+          }
+          if (!envelopes || envelopes.length !== new Set(envelopeIds).size) {
+            processErrors.push({ index: i, id: sourceId, error: 'Envelope not found in budget' })
+            continue
+          }
+
+          const { data: envelope, error: rpcError } = operation === 'archive'
+            ? await supabaseClient.rpc('archive_envelope', { p_envelope_id: sourceId })
+            : await supabaseClient.rpc('merge_envelopes', { p_source_id: sourceId, p_target_id: targetId })
+
+          if (rpcError) {
+            processErrors.push({ index: i, id: sourceId, error: rpcError.message })
+          } else if (envelope) {
+            processedEnvelopes.push(envelope)
+          }
+        } catch (error) {
+          processErrors.push({ index: i, id: sourceId, error: error instanceof Error ? error.message : 'Unknown error' })
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ 
+          envelopes: processedEnvelopes,
+          [operation === 'archive' ? 'archived_count' : 'merged_count']: processedEnvelopes.length,
+          errors: processErrors.length > 0 ? processErrors : undefined
+        }),
+        { 
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     // Method/path not found
     return new Response(
       JSON.stringify({ error: 'Not Found' }),
@@ -9,6 +9,67 @@ interface CleanupResult {
   status: string
 }
 
+// Storage accepts at most 1000 paths per remove call
+const BLOB_PURGE_BATCH_SIZE = 1000
+
+// Remove attachment files queued by cleanup_deleted_transactions. Database rows can
+// cascade away inside SQL, but files have to be deleted through the Storage API.
+const purgeAttachmentBlobs = async (supabaseClient: any): Promise<CleanupResult> => {
+  const startTime = Date.now()
+
+  try {
+    const { data: queued, error } = await supabaseClient
+      .from('attachment_blob_deletions')
+      .select('id, bucket_id, storage_path')
+      .order('queued_at', { ascending: true })
+      .limit(BLOB_PURGE_BATCH_SIZE)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const byBucket = new Map<string, { ids: string[]; paths: string[] }>()
+    for (const row of queued || []) {
+      const batch = byBucket.get(row.bucket_id) || { ids: [], paths: [] }
+      batch.ids.push(row.id)
+      batch.paths.push(row.storage_path)
+      byBucket.set(row.bucket_id, batch)
+    }
+
+    let purged = 0
+    for (const [bucketId, batch] of byBucket) {
+      const { error: removeError } = await supabaseClient.storage.from(bucketId).remove(batch.paths)
+      if (removeError) {
+        throw new Error(removeError.message)
+      }
+
+      const { error: dequeueError } = await supabaseClient
+        .from('attachment_blob_deletions')
+        .delete()
+        .in('id', batch.ids)
+      if (dequeueError) {
+        throw new Error(dequeueError.message)
+      }
+
+      purged += batch.paths.length
+    }
+
+    return {
+      job_name: 'purge_attachment_blobs',
+      records_cleaned: purged,
+      execution_time_ms: Date.now() - startTime,
+      status: 'completed'
+    }
+  } catch (error) {
+    return {
+      job_name: 'purge_attachment_blobs',
+      records_cleaned: 0,
+      execution_time_ms: Date.now() - startTime,
+      status: `failed: ${error instanceof Error ? error.message : String(error)}`
+    }
+  }
+}
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -77,6 +138,9 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     const cleanupResults = results as CleanupResult[]
+
+    // Runs after run_all_cleanup_jobs so files of transactions purged just now are included
+    cleanupResults.push(await purgeAttachmentBlobs(supabaseClient))
     const endTime = Date.now()
     const totalDuration = endTime - startTime
 
@@ -81,7 +81,7 @@ const handler = async (req: Request) => {
       // Verify budget access
       const { data: budget, error: budgetError } = await supabaseClient
         .from('budgets')
-        .select('id, available_amount')
+        .select('id, available_amount, currency')
         .eq('id', budgetId)
         .eq('user_id', user.id)
         .single()
@@ -99,6 +99,88 @@ const handler = async (req: Request) => {
         throw budgetError
       }
 
+      // Handle GET /dashboard?budget_id={budgetId}&view=cash_flow&days={days}&start_date={date}
+      if (params.get('view') === 'cash_flow') {
+        const days = params.has('days') ? Number(params.get('days')) : 90
+        if (!Number.isInteger(days) || days < 1 || days > 366) {
+          return new Response(
+            JSON.stringify({ error: 'days must be a whole number from 1 to 366' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const startDate = params.get('start_date')
+        if (startDate !== null && !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+          return new Response(
+            JSON.stringify({ error: 'start_date must be in YYYY-MM-DD format' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const { data: timeline, error: timelineError } = await supabaseClient
+          .rpc('get_cash_flow_timeline', {
+            p_budget_id: budgetId,
+            p_days: days,
+            ...(startDate !== null ? { p_start: startDate } : {})
+          })
+
+        if (timelineError) {
+          if (timelineError.code === '23514') {
+            return new Response(
+              JSON.stringify({ error: timelineError.message }),
+              {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              }
+            )
+          }
+          throw timelineError
+        }
+
+        // Same shape as DashboardService.getCashFlowTimeline
+        const cashFlowDays = (timeline || []).map((row: any) => ({
+          date: row.day,
+          opening_balance: Number(row.opening_balance),
+          income: Number(row.income),
+          bills: Number(row.bills),
+          scheduled: Number(row.scheduled),
+          average_spending: Number(row.average_spending),
+          net_flow: Number(row.net_flow),
+          projected_balance: Number(row.projected_balance),
+          is_negative: row.is_negative,
+          events: (row.events || []).map((event: any) => ({ ...event, amount: Number(event.amount) }))
+        }))
+
+        const lowest = cashFlowDays.reduce(
+          (min: any, day: any) => (!min || day.projected_balance < min.projected_balance ? day : min),
+          null
+        )
+        const firstDate = startDate ?? new Date().toISOString().split('T')[0]
+
+        return new Response(
+          JSON.stringify({
+            currency: budget.currency,
+            start_date: cashFlowDays[0]?.date ?? firstDate,
+            end_date: cashFlowDays[cashFlowDays.length - 1]?.date ?? firstDate,
+            starting_balance: cashFlowDays[0]?.opening_balance ?? 0,
+            lowest_balance: lowest?.projected_balance ?? 0,
+            lowest_balance_date: lowest?.date ?? firstDate,
+            negative_days: cashFlowDays.filter((day: any) => day.is_negative).map((day: any) => day.date),
+            days: cashFlowDays
+          }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
       // Get budget summary using the existing function
       const { data: summaryData, error: summaryError } = await supabaseClient
         .rpc('get_budget_summary', {
@@ -143,6 +143,11 @@ const handler = async (req: Request) => {
           name: body.name,
           description: body.description || null,
           target_amount: body.target_amount || null,
+          goal_type: body.goal_type || null,
+          target_date: body.target_date || null,
+          apy: body.apy ?? null,
+          interest_income_source_id: body.interest_income_source_id || null,
+          currency: body.currency || null,
           envelope_type: body.envelope_type || 'regular',
           category_id: body.category_id || null,
           notify_on_low_balance: body.notify_on_low_balance ?? false,
@@ -201,11 +206,17 @@ const handler = async (req: Request) => {
         throw budgetError
       }
 
-      // Get envelopes for the budget
-      const { data: envelopes, error: envelopesError } = await supabaseClient
+      // Get envelopes for the budget, leaving out archived ones unless asked for
+      let envelopesQuery = supabaseClient
         .from('envelopes')
         .select('*')
         .eq('budget_id', budgetId)
+
+      if (url.searchParams.get('include_archived') !== 'true') {
+        envelopesQuery = envelopesQuery.eq('is_archived', false)
+      }
+
+      const { data: envelopes, error: envelopesError } = await envelopesQuery
         .order('display_order', { ascending: true })
 
       if (envelopesError) {
@@ -339,6 +350,11 @@ const handler = async (req: Request) => {
       if (body.name !== undefined) updates.name = body.name
       if (body.description !== undefined) updates.description = body.description || null
       if (body.target_amount !== undefined) updates.target_amount = body.target_amount || null
+      if (body.goal_type !== undefined) updates.goal_type = body.goal_type || null
+      if (body.target_date !== undefined) updates.target_date = body.target_date || null
+      if (body.apy !== undefined) updates.apy = body.apy
+      if (body.interest_income_source_id !== undefined) updates.interest_income_source_id = body.interest_income_source_id || null
+      if (body.currency !== undefined) updates.currency = body.currency || null
       if (body.envelope_type !== undefined) updates.envelope_type = body.envelope_type
       if (body.category_id !== undefined) updates.category_id = body.category_id || null
       if (body.notify_on_low_balance !== undefined) updates.notify_on_low_balance = body.notify_on_low_balance
@@ -354,6 +370,16 @@ const handler = async (req: Request) => {
         .single()
 
       if (updateError) {
+        // The currency can't change once transactions use the envelope
+        if (updateError.code === '23514') {
+          return new Response(
+            JSON.stringify({ error: updateError.message }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
         throw updateError
       }
 
@@ -429,6 +455,16 @@ const handler = async (req: Request) => {
         .eq('id', envelopeId)
 
       if (deleteError) {
+        // Transactions reference the envelope with ON DELETE RESTRICT
+        if (deleteError.code === '23503') {
+          return new Response(
+            JSON.stringify({ error: 'Envelope has transactions; archive it or merge it into another envelope instead' }),
+            { 
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
         throw deleteError
       }
 
@@ -441,6 +477,138 @@ const handler = async (req: Request) => {
       )
     }
 
+    // Handle POST /envelopes/{id}/archive, /unarchive and /merge
+    const actionMatch = pathname.match(/^\/envelopes\/([a-f0-9-]+)\/(archive|unarchive|merge)$/)
+    if (req.method === 'POST' && actionMatch) {
+      const [, envelopeId, action] = actionMatch
+
+      // Get the envelope first to verify it exists and we have access
+      const { data: envelope, error: envelopeError } = await supabaseClient
+        .from('envelopes')
+        .select('*')
+        .eq('id', envelopeId)
+        .single()
+
+      if (envelopeError || !envelope) {
+        if (envelopeError?.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Envelope not found' }),
+            { 
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw envelopeError
+      }
+
+      // Verify budget access
+      const { error: budgetError } = await supabaseClient
+        .from('budgets')
+        .select('id')
+        .eq('id', envelope.budget_id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (budgetError) {
+        if (budgetError.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Budget not found or access denied' }),
+            { 
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw budgetError
+      }
+
+      let result
+      if (action === 'unarchive') {
+        result = await supabaseClient
+          .from('envelopes')
+          .update({
+            is_archived: false,
+            archived_at: null,
+            is_active: true,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', envelopeId)
+          .select()
+          .single()
+      } else if (action === 'archive') {
+        result = await supabaseClient.rpc('archive_envelope', { p_envelope_id: envelopeId })
+      } else {
+        if (!body.target_envelope_id || typeof body.target_envelope_id !== 'string') {
+          return new Response(
+            JSON.stringify({ error: 'target_envelope_id is required' }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        // The target must be visible to the caller and in the same budget
+        const { data: target } = await supabaseClient
+          .from('envelopes')
+          .select('id, budget_id')
+          .eq('id', body.target_envelope_id)
+          .single()
+
+        if (!target || target.budget_id !== envelope.budget_id) {
+          return new Response(
+            JSON.stringify({ error: 'Target envelope not found in this budget' }),
+            { 
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        // Transfers between the two envelopes are deleted; reconciled ones only with
+        // unlock_reconciled
+        result = await supabaseClient
+          .rpc('merge_envelopes', {
+            p_source_id: envelopeId,
+            p_target_id: body.target_envelope_id
+          })
+          .setHeader('X-Unlock-Reconciled', String(body.unlock_reconciled === true))
+      }
+
+      if (result.error?.code === '55000') {
+        return new Response(
+          JSON.stringify({ error: result.error.message }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (result.error) {
+        // Balance, archive and same-budget checks raise check_violation
+        if (result.error.code === '23514') {
+          return new Response(
+            JSON.stringify({ error: result.error.message }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw result.error
+      }
+
+      return new Response(
+        JSON.stringify({ envelope: result.data }),
+        { 
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     // Handle special endpoints
     if (req.method === 'GET' && pathname === '/envelopes/negative') {
       const budgetId = url.searchParams.get('budget_id')
@@ -538,6 +706,7 @@ const handler = async (req: Request) => {
         .select('*')
         .eq('budget_id', budgetId)
         .eq('notify_on_low_balance', true)
+        .eq('is_archived', false)
         .not('low_balance_threshold', 'is', null)
         .order('current_balance', { ascending: true })
 
@@ -0,0 +1,690 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { withRateLimit } from '../_shared/rate-limiter.ts'
+import { withSecurity } from '../_shared/security-headers.ts'
+import {
+  findAliasMatch,
+  findBestMatch,
+  normalizeForMatch,
+  parseCSV,
+  parseOFX,
+  similarity,
+  ParsedStatementRow,
+  StatementParseError
+} from '../_shared/statement-parser.ts'
+import { findMatchingRule, loadActiveRules, toRuleSuggestion, TransactionRuleRow } from '../_shared/rules.ts'
+
+// Minimum similarity for a payee suggestion or a duplicate description match
+const MATCH_THRESHOLD = 0.6
+
+// Keeps a single import within what the bulk transactions endpoint accepts comfortably
+const MAX_IMPORT_ROWS = 1000
+
+const IMPORTABLE_TYPES = ['income', 'expense', 'transfer']
+const ROW_STATUSES = ['pending', 'confirmed', 'skipped', 'duplicate']
+const EDITABLE_FIELDS = ['status', 'transaction_type', 'payee_id', 'from_envelope_id', 'to_envelope_id', 'income_source_id', 'description']
+
+const parseStatement = (body: any): ParsedStatementRow[] => {
+  if (typeof body.content !== 'string' || body.content.trim().length === 0) {
+    throw new StatementParseError('Statement content is required')
+  }
+
+  switch (body.format) {
+    case 'ofx':
+    case 'qfx':
+      return parseOFX(body.content)
+    case 'csv':
+      if (!body.csv_mapping) {
+        throw new StatementParseError('csv_mapping is required for CSV imports')
+      }
+      return parseCSV(body.content, body.csv_mapping)
+    default:
+      throw new StatementParseError('Format must be one of ofx, qfx or csv')
+  }
+}
+
+const buildRows = async (
+  supabaseClient: any,
+  budgetId: string,
+  parsed: ParsedStatementRow[],
+  rules: TransactionRuleRow[],
+  defaultEnvelopeId: string | null
+) => {
+  const payeeMatches = new Map<string, { id: string; score: number } | null>()
+  const seenExternalIds = new Set<string>()
+
+  const { data: aliases, error: aliasError } = await supabaseClient
+    .from('payee_aliases')
+    .select('payee_id, normalized_alias')
+    .eq('budget_id', budgetId)
+
+  if (aliasError) {
+    throw aliasError
+  }
+  const rows = []
+
+  for (const [index, line] of parsed.entries()) {
+    const isOutflow = line.amount < 0
+    const row: Record<string, any> = {
+      row_index: index,
+      transaction_date: line.transaction_date,
+      amount: Math.abs(line.amount),
+      transaction_type: isOutflow ? 'expense' : 'income',
+      description: line.description,
+      payee_name: line.payee_name,
+      memo: line.memo,
+      external_id: line.external_id,
+      status: line.amount === 0 ? 'skipped' : 'pending'
+    }
+
+    // Banks repeat a transaction across overlapping statement periods
+    if (line.external_id) {
+      if (seenExternalIds.has(line.external_id)) {
+        row.status = 'duplicate'
+      }
+      seenExternalIds.add(line.external_id)
+    }
+
+    if (isOutflow) {
+      row.from_envelope_id = defaultEnvelopeId ?? undefined
+
+      const payeeName = line.payee_name || line.description
+      if (payeeName) {
+        if (!payeeMatches.has(payeeName)) {
+          payeeMatches.set(payeeName, await matchPayee(supabaseClient, budgetId, payeeName, aliases || []))
+        }
+        const match = payeeMatches.get(payeeName)
+        if (match) {
+          row.payee_id = match.id
+          row.payee_match_score = Math.round(match.score * 100) / 100
+        }
+      }
+
+      // A matching rule is more specific than the default envelope or a fuzzy payee match
+      const rule = findMatchingRule(rules, {
+        amount: row.amount,
+        payee_id: row.payee_id,
+        description: row.description
+      })
+      if (rule) {
+        row.rule_suggestion = toRuleSuggestion(rule)
+        if (rule.auto_apply) {
+          row.from_envelope_id = rule.set_envelope_id || row.from_envelope_id
+          if (rule.set_payee_id) {
+            row.payee_id = rule.set_payee_id
+            row.payee_match_score = undefined
+          }
+          row.description = rule.set_description || row.description
+        }
+      }
+    }
+
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Same lookup as PayeeService.searchPayees, narrowed on the most distinctive word
+// A payee alias found in the name is a sure match; otherwise fall back to fuzzy
+// matching on payee names
+const matchPayee = async (
+  supabaseClient: any,
+  budgetId: string,
+  name: string,
+  aliases: { payee_id: string; normalized_alias: string }[]
+) => {
+  const aliased = findAliasMatch(name, aliases)
+  if (aliased) {
+    return { id: aliased.payee_id, score: 1 }
+  }
+
+  const keyword = normalizeForMatch(name)
+    .split(' ')
+    .reduce((longest, word) => (word.length > longest.length ? word : longest), '')
+
+  if (keyword.length < 3) {
+    return null
+  }
+
+  const { data: candidates, error } = await supabaseClient
+    .from('payees')
+    .select('id, name')
+    .eq('budget_id', budgetId)
+    .ilike('name', `%${keyword}%`)
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  const best = findBestMatch(name, candidates || [], (payee: { name: string }) => payee.name, MATCH_THRESHOLD)
+  return best ? { id: best.match.id, score: best.score } : null
+}
+
+const markDuplicates = async (supabaseClient: any, budgetId: string, rows: Record<string, any>[]) => {
+  const dates = rows.map(row => row.transaction_date).sort()
+
+  const { data: existing, error } = await supabaseClient
+    .from('transactions')
+    .select('id, transaction_date, amount, description, payee_id')
+    .eq('budget_id', budgetId)
+    .eq('is_deleted', false)
+    .gte('transaction_date', dates[0])
+    .lte('transaction_date', dates[dates.length - 1])
+
+  if (error) {
+    throw error
+  }
+
+  const available = [...(existing || [])]
+
+  for (const row of rows) {
+    if (row.status !== 'pending') {
+      continue
+    }
+
+    const index = available.findIndex((transaction: any) =>
+      transaction.transaction_date === row.transaction_date &&
+      Math.round(Number(transaction.amount) * 100) === Math.round(row.amount * 100) &&
+      ((!!row.payee_id && transaction.payee_id === row.payee_id) ||
+        similarity(transaction.description || '', row.description) >= MATCH_THRESHOLD)
+    )
+
+    // Each existing transaction can only account for one imported row
+    if (index !== -1) {
+      row.status = 'duplicate'
+      row.duplicate_of = available[index].id
+      available.splice(index, 1)
+    }
+  }
+}
+
+// Only send the references the row's type allows; review may have left others behind
+const toTransactionRequest = (row: Record<string, any>) => {
+  const request: Record<string, any> = {
+    transaction_type: row.transaction_type,
+    amount: row.amount,
+    transaction_date: row.transaction_date,
+    description: row.description,
+    is_cleared: true
+  }
+
+  if (row.transaction_type === 'income') {
+    request.income_source_id = row.income_source_id
+  } else if (row.transaction_type === 'expense') {
+    request.from_envelope_id = row.from_envelope_id
+    request.payee_id = row.payee_id
+  } else if (row.transaction_type === 'transfer') {
+    request.from_envelope_id = row.from_envelope_id
+    request.to_envelope_id = row.to_envelope_id
+  }
+
+  return request
+}
+
+const handler = async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Missing or invalid authorization header' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create Supabase client with the user's token
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        },
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      }
+    )
+
+    // Get the current user from the JWT
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const url = new URL(req.url)
+    const pathParts = url.pathname.split('/').filter(p => p)
+
+    // Handle GET/POST /budgets/{budgetId}/imports
+    if (pathParts.length === 3 && pathParts[0] === 'budgets' && pathParts[2] === 'imports') {
+      const budgetId = pathParts[1]
+
+      // Verify budget access
+      const { error: budgetError } = await supabaseClient
+        .from('budgets')
+        .select('id')
+        .eq('id', budgetId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (budgetError) {
+        if (budgetError.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Budget not found or access denied' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw budgetError
+      }
+
+      if (req.method === 'GET') {
+        let query = supabaseClient
+          .from('import_batches')
+          .select('*')
+          .eq('budget_id', budgetId)
+
+        const status = url.searchParams.get('status')
+        if (status) {
+          query = query.eq('status', status)
+        }
+
+        const { data: batches, error } = await query.order('created_at', { ascending: false })
+
+        if (error) {
+          throw error
+        }
+
+        return new Response(
+          JSON.stringify({ import_batches: batches }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (req.method === 'POST') {
+        const body = await req.json()
+
+        let parsed: ParsedStatementRow[]
+        try {
+          parsed = parseStatement(body)
+        } catch (error) {
+          if (error instanceof StatementParseError) {
+            return new Response(
+              JSON.stringify({ error: error.message }),
+              {
+                status: 400,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+              }
+            )
+          }
+          throw error
+        }
+
+        if (parsed.length === 0 || parsed.length > MAX_IMPORT_ROWS) {
+          return new Response(
+            JSON.stringify({ error: `Statement must contain between 1 and ${MAX_IMPORT_ROWS} transactions` }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const rules = await loadActiveRules(supabaseClient, budgetId)
+        const rows = await buildRows(supabaseClient, budgetId, parsed, rules, body.default_envelope_id || null)
+        await markDuplicates(supabaseClient, budgetId, rows)
+
+        const { data: batch, error } = await supabaseClient
+          .from('import_batches')
+          .insert({
+            budget_id: budgetId,
+            format: body.format,
+            file_name: body.file_name || null,
+            status: 'pending_review',
+            rows
+          })
+          .select()
+          .single()
+
+        if (error) {
+          throw error
+        }
+
+        return new Response(
+          JSON.stringify({ import_batch: batch }),
+          {
+            status: 201,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    }
+
+    // Handle /imports/{batchId}[/rows|/commit|/cancel]
+    if (pathParts[0] === 'imports' && (pathParts.length === 2 || pathParts.length === 3)) {
+      const batchId = pathParts[1]
+      const action = pathParts[2]
+
+      // RLS limits this to batches in the user's budgets
+      const { data: batch, error: batchError } = await supabaseClient
+        .from('import_batches')
+        .select('*')
+        .eq('id', batchId)
+        .single()
+
+      if (batchError) {
+        if (batchError.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Import batch not found' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw batchError
+      }
+
+      if (req.method === 'GET' && !action) {
+        return new Response(
+          JSON.stringify({ import_batch: batch }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (batch.status !== 'pending_review') {
+        return new Response(
+          JSON.stringify({ error: `Import batch is already ${batch.status}` }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // Handle PATCH /imports/{batchId}/rows
+      if (req.method === 'PATCH' && action === 'rows') {
+        const body = await req.json()
+
+        if (!Array.isArray(body.rows) || body.rows.length === 0) {
+          return new Response(
+            JSON.stringify({ error: 'rows array is required and must not be empty' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const rows = batch.rows.map((row: any) => ({ ...row }))
+        const validationErrors = []
+
+        for (const update of body.rows) {
+          const row = rows.find((r: any) => r.row_index === update.row_index)
+          if (!row) {
+            validationErrors.push({ row_index: update.row_index, error: 'Import row not found' })
+            continue
+          }
+          if (update.status !== undefined && !ROW_STATUSES.includes(update.status)) {
+            validationErrors.push({ row_index: update.row_index, error: 'Invalid row status' })
+            continue
+          }
+          if (update.transaction_type !== undefined && !IMPORTABLE_TYPES.includes(update.transaction_type)) {
+            validationErrors.push({ row_index: update.row_index, error: 'Imported rows can only be income, expense or transfer transactions' })
+            continue
+          }
+
+          for (const field of EDITABLE_FIELDS) {
+            if (update[field] !== undefined) {
+              row[field] = update[field]
+            }
+          }
+        }
+
+        if (validationErrors.length > 0) {
+          return new Response(
+            JSON.stringify({ error: 'Validation failed for some rows', validationErrors }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const { data: updated, error } = await supabaseClient
+          .from('import_batches')
+          .update({ rows, updated_at: new Date().toISOString() })
+          .eq('id', batchId)
+          .eq('status', 'pending_review')
+          .select()
+          .single()
+
+        if (error?.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Import batch is no longer pending review' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        if (error) {
+          throw error
+        }
+
+        return new Response(
+          JSON.stringify({ import_batch: updated }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // Handle POST /imports/{batchId}/commit
+      if (req.method === 'POST' && action === 'commit') {
+        // Claim the batch so a second commit can't post the same rows again
+        const { data: claimed, error: claimError } = await supabaseClient
+          .from('import_batches')
+          .update({ status: 'committing', updated_at: new Date().toISOString() })
+          .eq('id', batchId)
+          .eq('status', 'pending_review')
+          .select()
+
+        if (claimError) {
+          throw claimError
+        }
+
+        if (!claimed || claimed.length !== 1) {
+          return new Response(
+            JSON.stringify({ error: 'Import batch is already being committed' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        // Nothing has been posted yet: hand the batch back for review
+        const releaseClaim = () => supabaseClient
+          .from('import_batches')
+          .update({ status: 'pending_review', updated_at: new Date().toISOString() })
+          .eq('id', batchId)
+          .eq('status', 'committing')
+
+        const claimedRows = claimed[0].rows
+        const confirmed = claimedRows.filter((row: any) => row.status === 'confirmed')
+
+        if (confirmed.length === 0) {
+          await releaseClaim()
+          return new Response(
+            JSON.stringify({ error: 'No confirmed rows to import' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        let bulkResponse: Response
+        let bulkResult: any
+        try {
+          // Create the transactions through the same path as any other bulk insert
+          bulkResponse = await fetch(
+            `${Deno.env.get('SUPABASE_URL')}/functions/v1/bulk-operations/budgets/${batch.budget_id}/bulk/transactions`,
+            {
+              method: 'POST',
+              headers: {
+                'Authorization': authHeader,
+                'apikey': Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+                'Content-Type': 'application/json'
+              },
+              body: JSON.stringify({ transactions: confirmed.map(toTransactionRequest) })
+            }
+          )
+
+          bulkResult = await bulkResponse.json()
+        } catch (error) {
+          await releaseClaim()
+          throw error
+        }
+
+        if (!bulkResponse.ok) {
+          await releaseClaim()
+
+          // Surface the bulk endpoint's per-row errors against the batch's row indexes
+          const validationErrors = (bulkResult.validationErrors || []).map((e: any) => ({
+            row_index: confirmed[e.index]?.row_index,
+            errors: e.errors
+          }))
+
+          return new Response(
+            JSON.stringify({ error: bulkResult.error || 'Failed to create imported transactions', validationErrors }),
+            {
+              status: bulkResponse.status,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        // Transactions come back in the order they were sent
+        const created = bulkResult.transactions || []
+        const rows = claimedRows.map((row: any) => {
+          const position = confirmed.indexOf(row)
+          return position === -1 ? row : { ...row, transaction_id: created[position]?.id }
+        })
+
+        const { data: updated, error } = await supabaseClient
+          .from('import_batches')
+          .update({
+            rows,
+            status: 'committed',
+            committed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', batchId)
+          .eq('status', 'committing')
+          .select()
+          .single()
+
+        if (error) {
+          throw error
+        }
+
+        return new Response(
+          JSON.stringify({ import_batch: updated, created_count: created.length }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // Handle POST /imports/{batchId}/cancel
+      if (req.method === 'POST' && action === 'cancel') {
+        const { data: updated, error } = await supabaseClient
+          .from('import_batches')
+          .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+          .eq('id', batchId)
+          .eq('status', 'pending_review')
+          .select()
+          .single()
+
+        if (error?.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Import batch is no longer pending review' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        if (error) {
+          throw error
+        }
+
+        return new Response(
+          JSON.stringify({ import_batch: updated }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    }
+
+    // Method/path not found
+    return new Response(
+      JSON.stringify({ error: 'Not Found' }),
+      {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An unexpected error occurred' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+}
+
+// Apply security headers and rate limiting to the handler
+serve(withSecurity(withRateLimit('critical', handler)))
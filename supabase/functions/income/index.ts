@@ -0,0 +1,177 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { sessionValidationMiddleware } from '../_shared/session-validation.ts'
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Missing or invalid authorization header' }),
+        { 
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+
+    // Create Supabase client with the user's token
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        },
+        global: {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        }
+      }
+    )
+
+    // Get the current user from the JWT
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired token' }),
+        { 
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Add session validation
+    const sessionValidation = await sessionValidationMiddleware(supabaseClient, {
+      'x-device-id': req.headers.get('x-device-id') || ''
+    })
+    
+    if (!sessionValidation.isValid) {
+      const statusCode = sessionValidation.code === 'SESSION_INVALIDATED' ? 401 : 403
+      return new Response(
+        JSON.stringify({ 
+          error: sessionValidation.error,
+          code: sessionValidation.code 
+        }),
+        { 
+          status: statusCode,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const url = new URL(req.url)
+    const pathParts = url.pathname.split('/').filter(p => p)
+
+    // Handle GET /budgets/{budgetId}/income/calendar?from={date}&to={date}
+    if (req.method === 'GET' && pathParts.length === 4 &&
+        pathParts[0] === 'budgets' && pathParts[2] === 'income' && pathParts[3] === 'calendar') {
+
+      const budgetId = pathParts[1]
+      const from = url.searchParams.get('from')
+      const to = url.searchParams.get('to')
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/
+
+      if (!from || !to || !datePattern.test(from) || !datePattern.test(to)) {
+        return new Response(
+          JSON.stringify({ error: 'from and to query parameters are required in YYYY-MM-DD format' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      const days = (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24)
+      if (days < 0 || days >= 366) {
+        return new Response(
+          JSON.stringify({ error: 'from must not be after to, and the calendar is limited to 366 days' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      // Verify budget access
+      const { error: budgetError } = await supabaseClient
+        .from('budgets')
+        .select('id')
+        .eq('id', budgetId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (budgetError) {
+        if (budgetError.code === 'PGRST116') {
+          return new Response(
+            JSON.stringify({ error: 'Budget not found or access denied' }),
+            { 
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        throw budgetError
+      }
+
+      const { data: occurrences, error: calendarError } = await supabaseClient
+        .rpc('get_income_calendar', {
+          p_budget_id: budgetId,
+          p_from: from,
+          p_to: to
+        })
+
+      if (calendarError) throw calendarError
+
+      const calendar = (occurrences || []).map(occurrence => ({
+        ...occurrence,
+        expected_amount: occurrence.expected_amount !== null ? Number(occurrence.expected_amount) : null,
+        actual_amount: occurrence.actual_amount !== null ? Number(occurrence.actual_amount) : null
+      }))
+
+      return new Response(
+        JSON.stringify({
+          from,
+          to,
+          occurrences: calendar,
+          expected_total: Math.round(calendar.reduce((sum, occurrence) => sum + (occurrence.expected_amount ?? 0), 0) * 100) / 100
+        }),
+        { 
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Method/path not found
+    return new Response(
+      JSON.stringify({ error: 'Not Found' }),
+      { 
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An unexpected error occurred' }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
\ No newline at end of file
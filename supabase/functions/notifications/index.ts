@@ -164,17 +164,20 @@ serve(async (req) => {
       if (overdueIncome && overdueIncome.length > 0) {
         overdueIncome.forEach(income => {
           const daysOverdue = Math.floor((new Date(today).getTime() - new Date(income.next_expected_date).getTime()) / (1000 * 60 * 60 * 24))
+          // Past 7 days a payment no longer matches the occurrence, so it counts as missed
+          const missed = daysOverdue > 7
           notifications.push({
             type: 'overdue_income',
-            severity: 'medium',
-            title: 'Income Overdue',
+            severity: missed ? 'high' : 'medium',
+            title: missed ? 'Income Missed' : 'Income Overdue',
             message: `${income.name} was expected ${daysOverdue} day${daysOverdue !== 1 ? 's' : ''} ago ($${income.expected_amount?.toFixed(2) || '0.00'})`,
             data: {
               income_source_id: income.id,
               income_source_name: income.name,
               expected_amount: income.expected_amount,
               next_expected_date: income.next_expected_date,
-              days_overdue: daysOverdue
+              days_overdue: daysOverdue,
+              overdue_status: missed ? 'missed' : 'late'
             },
             created_at: new Date().toISOString()
           })
@@ -304,6 +307,59 @@ serve(async (req) => {
         }
       }
 
+      // 8. Check for overdue bills (last two months) and unpaid bills due in the next 3 days
+      const billsFrom = new Date()
+      billsFrom.setDate(billsFrom.getDate() - 62)
+
+      const { data: bills, error: billsError } = await supabaseClient
+        .rpc('get_bills', {
+          p_budget_id: budgetId,
+          p_from: billsFrom.toISOString().split('T')[0],
+          p_to: threeDaysString,
+          p_as_of: today
+        })
+
+      if (billsError) throw billsError
+
+      if (bills && bills.length > 0) {
+        bills.forEach(bill => {
+          const amountDue = bill.amount_due !== null ? Number(bill.amount_due) : null
+          const amountPaid = Number(bill.amount_paid)
+          const data = {
+            payee_id: bill.payee_id,
+            payee_name: bill.payee_name,
+            due_date: bill.due_date,
+            amount_due: amountDue,
+            amount_paid: amountPaid,
+            status: bill.status
+          }
+
+          if (bill.status === 'overdue') {
+            const daysOverdue = -bill.days_until_due
+            notifications.push({
+              type: 'bill_overdue',
+              severity: 'high',
+              title: 'Bill Overdue',
+              message: amountPaid > 0 && amountDue !== null
+                ? `${bill.payee_name} was due ${daysOverdue} day${daysOverdue !== 1 ? 's' : ''} ago ($${amountPaid.toFixed(2)} of $${amountDue.toFixed(2)} paid)`
+                : `${bill.payee_name} was due ${daysOverdue} day${daysOverdue !== 1 ? 's' : ''} ago${amountDue !== null ? ` ($${amountDue.toFixed(2)})` : ''}`,
+              data: { ...data, days_overdue: daysOverdue },
+              created_at: new Date().toISOString()
+            })
+          } else if (bill.status === 'unpaid' || bill.status === 'partial') {
+            const daysUntil = bill.days_until_due
+            notifications.push({
+              type: 'bill_due',
+              severity: 'medium',
+              title: 'Bill Due Soon',
+              message: `${bill.payee_name} is due ${daysUntil === 0 ? 'today' : `in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`}${amountDue !== null ? ` ($${Math.max(amountDue - amountPaid, 0).toFixed(2)} left to pay)` : ''}`,
+              data: { ...data, days_until: daysUntil },
+              created_at: new Date().toISOString()
+            })
+          }
+        })
+      }
+
       // Sort notifications by severity (high -> medium -> low)
       const severityOrder = { high: 3, medium: 2, low: 1 }
       notifications.sort((a, b) => severityOrder[b.severity] - severityOrder[a.severity])
@@ -0,0 +1,422 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { validateTransactionRequest } from '../_shared/validation.ts'
+
+interface ScheduledTransactionRow {
+  id: string
+  budget_id: string
+  name: string
+  transaction_type: string
+  amount: number
+  currency: string | null
+  description: string | null
+  from_envelope_id: string | null
+  to_envelope_id: string | null
+  payee_id: string | null
+  income_source_id: string | null
+  schedule_type: string
+  schedule_config: Record<string, unknown>
+  next_occurrence_date: string | null
+  end_date: string | null
+}
+
+interface RunResult {
+  scheduled_transaction_id: string
+  name: string
+  posted_dates: string[]
+  transaction_ids: string[]
+  next_occurrence_date: string | null
+  error?: string
+}
+
+// Upper bound on occurrences posted per template in a single run when catching up
+const MAX_CATCH_UP_OCCURRENCES = 366
+
+const jsonError = (status: number, error: string): Response => new Response(
+  JSON.stringify({ error }),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }
+)
+
+// Batch runs over every budget come from the scheduler, which sends the service role
+// key or, when CRON_SECRET is set, that secret in x-cron-secret
+const isSchedulerRequest = (req: Request): boolean => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const cronSecret = Deno.env.get('CRON_SECRET')
+  const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+
+  return (!!serviceRoleKey && token === serviceRoleKey) ||
+    (!!cronSecret && req.headers.get('x-cron-secret') === cronSecret)
+}
+
+// A user can run their own budget, up to today: posting ahead of time would move
+// money before it exists. Returns an error response, or null when the run may go ahead.
+const authorizeUserRun = async (req: Request, budgetId: unknown, runDate: string): Promise<Response | null> => {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return jsonError(401, 'Missing or invalid authorization header')
+  }
+
+  if (typeof budgetId !== 'string' || !budgetId) {
+    return jsonError(400, 'budget_id is required')
+  }
+
+  if (runDate > new Date().toISOString().split('T')[0]) {
+    return jsonError(400, 'as_of cannot be later than today')
+  }
+
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      },
+      global: {
+        headers: {
+          Authorization: authHeader
+        }
+      }
+    }
+  )
+
+  const { data: { user }, error: userError } = await userClient.auth.getUser()
+  if (userError || !user) {
+    return jsonError(401, 'Invalid or expired token')
+  }
+
+  const { error: budgetError } = await userClient
+    .from('budgets')
+    .select('id')
+    .eq('id', budgetId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (budgetError) {
+    if (budgetError.code === 'PGRST116') {
+      return jsonError(404, 'Budget not found or access denied')
+    }
+    throw budgetError
+  }
+
+  return null
+}
+
+const getOccurrences = async (
+  supabaseClient: any,
+  scheduled: ScheduledTransactionRow,
+  count: number,
+  until: string | null
+): Promise<string[]> => {
+  const { data, error } = await supabaseClient.rpc('get_schedule_occurrences', {
+    p_schedule_type: scheduled.schedule_type,
+    p_schedule_config: scheduled.schedule_config,
+    p_start_date: scheduled.next_occurrence_date,
+    p_count: count,
+    p_until: until
+  })
+
+  if (error) {
+    throw new Error(`Failed to expand schedule for ${scheduled.id}: ${error.message}`)
+  }
+
+  return (data || []).map((row: { occurrence_date: string }) => row.occurrence_date)
+}
+
+const postScheduledTransaction = async (
+  supabaseClient: any,
+  scheduled: ScheduledTransactionRow,
+  runDate: string
+): Promise<RunResult> => {
+  const until = scheduled.end_date && scheduled.end_date < runDate ? scheduled.end_date : runDate
+  const dates = await getOccurrences(supabaseClient, scheduled, MAX_CATCH_UP_OCCURRENCES, until)
+
+  const result: RunResult = {
+    scheduled_transaction_id: scheduled.id,
+    name: scheduled.name,
+    posted_dates: [],
+    transaction_ids: [],
+    next_occurrence_date: scheduled.next_occurrence_date
+  }
+
+  for (const date of dates) {
+    const request = {
+      budget_id: scheduled.budget_id,
+      transaction_type: scheduled.transaction_type,
+      amount: scheduled.amount,
+      currency: scheduled.currency,
+      description: scheduled.description || scheduled.name,
+      transaction_date: date,
+      from_envelope_id: scheduled.from_envelope_id,
+      to_envelope_id: scheduled.to_envelope_id,
+      payee_id: scheduled.payee_id,
+      income_source_id: scheduled.income_source_id
+    }
+
+    // Same request validation as the transactions endpoint
+    const validation = validateTransactionRequest(request)
+    if (!validation.isValid) {
+      result.error = validation.errors.map(e => `${e.field}: ${e.message}`).join('; ')
+      break
+    }
+
+    const { data: transaction, error: insertError } = await supabaseClient
+      .from('transactions')
+      .insert({
+        ...validation.sanitizedData,
+        scheduled_transaction_id: scheduled.id,
+        is_cleared: false,
+        is_reconciled: false
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      // Already posted by an overlapping run (idx_transactions_scheduled_occurrence allows
+      // one transaction per template and date): treat as done and keep going
+      const alreadyPosted = insertError.code === '23505' &&
+        insertError.message.includes('idx_transactions_scheduled_occurrence')
+      if (!alreadyPosted) {
+        result.error = insertError.message
+        break
+      }
+    } else {
+      result.transaction_ids.push(transaction.id)
+    }
+
+    result.posted_dates.push(date)
+  }
+
+  // Nothing posted: leave the template untouched so the next run retries
+  if (result.posted_dates.length === 0) {
+    return result
+  }
+
+  const lastPosted = result.posted_dates[result.posted_dates.length - 1]
+  const { data: nextDate, error: nextError } = await supabaseClient.rpc('calculate_next_expected_date', {
+    schedule_type: scheduled.schedule_type,
+    schedule_config: scheduled.schedule_config,
+    reference_date: lastPosted
+  })
+
+  if (nextError) {
+    throw new Error(`Failed to calculate next occurrence for ${scheduled.id}: ${nextError.message}`)
+  }
+
+  // one_time schedules return the same date; end_date stops the series
+  const finished = !nextDate || nextDate <= lastPosted || (!!scheduled.end_date && nextDate > scheduled.end_date)
+
+  const { error: updateError } = await supabaseClient
+    .from('scheduled_transactions')
+    .update({
+      last_posted_date: lastPosted,
+      next_occurrence_date: finished ? null : nextDate,
+      is_active: !finished,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', scheduled.id)
+
+  if (updateError) {
+    throw new Error(`Failed to advance scheduled transaction ${scheduled.id}: ${updateError.message}`)
+  }
+
+  result.next_occurrence_date = finished ? null : nextDate
+  return result
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const isManual = body.manual === true
+    const dryRun = body.dry_run === true
+    // Savings interest is opt-in: the caller turns it on for the run
+    const postInterest = body.post_interest === true
+    const runDate: string = body.as_of || new Date().toISOString().split('T')[0]
+    const previewCount = Math.min(Math.max(parseInt(body.count || '5'), 1), 100)
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(runDate) || isNaN(Date.parse(runDate))) {
+      return jsonError(400, 'as_of must be a date (YYYY-MM-DD)')
+    }
+
+    if (!isSchedulerRequest(req)) {
+      const denied = await authorizeUserRun(req, body.budget_id, runDate)
+      if (denied) {
+        return denied
+      }
+    }
+
+    // Create Supabase client with service role; user runs are limited to their budget above
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    console.log(`Starting scheduled transactions run for ${runDate}...`)
+    const startTime = Date.now()
+
+    let query = supabaseClient
+      .from('scheduled_transactions')
+      .select('*')
+      .eq('is_active', true)
+      .not('next_occurrence_date', 'is', null)
+      .order('next_occurrence_date', { ascending: true })
+
+    if (body.budget_id) {
+      query = query.eq('budget_id', body.budget_id)
+    }
+
+    if (dryRun) {
+      console.log('Dry run mode - previewing upcoming occurrences')
+
+      const { data: schedules, error: listError } = await query
+
+      if (listError) {
+        throw new Error(`Failed to load scheduled transactions: ${listError.message}`)
+      }
+
+      const previews = []
+      for (const scheduled of (schedules || []) as ScheduledTransactionRow[]) {
+        previews.push({
+          scheduled_transaction_id: scheduled.id,
+          budget_id: scheduled.budget_id,
+          name: scheduled.name,
+          overdue: scheduled.next_occurrence_date! <= runDate,
+          occurrences: await getOccurrences(supabaseClient, scheduled, previewCount, scheduled.end_date)
+        })
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          dry_run: true,
+          message: 'Upcoming scheduled transactions (nothing was posted)',
+          previews,
+          timestamp: new Date().toISOString()
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Post everything due, including occurrences missed by earlier runs
+    const { data: due, error: dueError } = await query.lte('next_occurrence_date', runDate)
+
+    if (dueError) {
+      throw new Error(`Failed to load due scheduled transactions: ${dueError.message}`)
+    }
+
+    const results: RunResult[] = []
+    for (const scheduled of (due || []) as ScheduledTransactionRow[]) {
+      try {
+        results.push(await postScheduledTransaction(supabaseClient, scheduled, runDate))
+      } catch (error) {
+        console.error(`Scheduled transaction ${scheduled.id} failed:`, error)
+        results.push({
+          scheduled_transaction_id: scheduled.id,
+          name: scheduled.name,
+          posted_dates: [],
+          transaction_ids: [],
+          next_occurrence_date: scheduled.next_occurrence_date,
+          error: error instanceof Error ? error.message : 'Unknown error occurred'
+        })
+      }
+    }
+
+    // Post future-dated transactions whose date has arrived
+    const { data: futureDatedPosted, error: postDueError } = await supabaseClient
+      .rpc('post_due_transactions', {
+        p_budget_id: body.budget_id ?? null,
+        p_as_of: runDate
+      })
+
+    if (postDueError) {
+      throw new Error(`Failed to post due transactions: ${postDueError.message}`)
+    }
+
+    // Post savings interest for months that have ended
+    let interestPosted = 0
+    if (postInterest) {
+      const { data: interestCount, error: interestError } = await supabaseClient
+        .rpc('post_savings_interest', {
+          p_budget_id: body.budget_id ?? null,
+          p_as_of: runDate
+        })
+
+      if (interestError) {
+        throw new Error(`Failed to post savings interest: ${interestError.message}`)
+      }
+      interestPosted = interestCount ?? 0
+    }
+
+    const totalDuration = Date.now() - startTime
+    const totalPosted = results.reduce((sum, result) => sum + result.transaction_ids.length, 0)
+    const failedSchedules = results.filter(result => result.error).length
+
+    console.log(`Scheduled transactions run completed in ${totalDuration}ms`)
+    console.log(`Transactions posted: ${totalPosted}, Failed schedules: ${failedSchedules}`)
+    console.log(`Future-dated transactions posted: ${futureDatedPosted ?? 0}`)
+    if (postInterest) {
+      console.log(`Savings interest postings: ${interestPosted}`)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        manual_run: isManual,
+        summary: {
+          run_date: runDate,
+          schedules_processed: results.length,
+          transactions_posted: totalPosted,
+          future_dated_posted: futureDatedPosted ?? 0,
+          interest_posted: postInterest ? interestPosted : null,
+          failed_schedules: failedSchedules,
+          total_execution_time_ms: totalDuration,
+          timestamp: new Date().toISOString()
+        },
+        results
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Scheduled transactions error:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        timestamp: new Date().toISOString()
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+}
+
+serve(handler)
@@ -6,8 +6,10 @@ import { withRateLimit } from '../_shared/rate-limiter.ts'
 import { sessionValidationMiddleware } from '../_shared/session-validation.ts'
 import { 
   validateTransactionRequest, 
+  validateTransactionSplits,
   createValidationErrorResponse 
 } from '../_shared/validation.ts'
+import { findMatchingRule, loadActiveRules } from '../_shared/rules.ts'
 
 const handler = async (req: Request) => {
   // Handle CORS
@@ -84,6 +86,84 @@ const handler = async (req: Request) => {
         )
       }
 
+      // GET /transactions?budget_id=...&q=... - Ranked full-text search with the same filters
+      const searchQuery = params.get('q')?.trim()
+      if (searchQuery !== undefined) {
+        if (!searchQuery || searchQuery.length > 200) {
+          return new Response(
+            JSON.stringify({ error: 'q must be between 1 and 200 characters' }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        // Search runs through the service role, so check ownership explicitly
+        const { data: budget } = await supabaseClient
+          .from('budgets')
+          .select('id')
+          .eq('id', budgetId)
+          .eq('user_id', user.id)
+          .single()
+
+        if (!budget) {
+          return new Response(
+            JSON.stringify({ error: 'Budget not found' }),
+            {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const { data: rows, error: searchError } = await supabaseClient
+          .rpc('search_transactions', {
+            p_budget_id: budgetId,
+            p_query: searchQuery,
+            p_start_date: params.get('startDate'),
+            p_end_date: params.get('endDate'),
+            p_transaction_type: params.get('transactionType'),
+            p_envelope_id: params.get('envelopeId'),
+            p_payee_id: params.get('payeeId'),
+            p_income_source_id: params.get('incomeSourceId'),
+            p_is_cleared: params.get('isCleared') !== null ? params.get('isCleared') === 'true' : null,
+            p_is_reconciled: params.get('isReconciled') !== null ? params.get('isReconciled') === 'true' : null,
+            p_min_amount: params.get('minAmount') !== null ? Number(params.get('minAmount')) : null,
+            p_max_amount: params.get('maxAmount') !== null ? Number(params.get('maxAmount')) : null,
+            p_limit: Math.min(parseInt(params.get('limit') || '50'), 500),
+            p_offset: parseInt(params.get('offset') || '0')
+          })
+
+        if (searchError) {
+          return new Response(
+            JSON.stringify({ error: searchError.message }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const results = (rows || []).map((row: any) => ({
+          transaction: row.transaction_record,
+          rank: row.search_rank,
+          highlights: {
+            ...(row.description_highlight ? { description: row.description_highlight } : {}),
+            ...(row.payee_highlight ? { payee_name: row.payee_highlight } : {}),
+            ...(row.envelope_highlight ? { envelope_names: row.envelope_highlight } : {})
+          }
+        }))
+
+        return new Response(
+          JSON.stringify(results),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
       let query = supabaseClient
         .from('transactions')
         .select(`
@@ -91,7 +171,8 @@ const handler = async (req: Request) => {
           from_envelope:envelopes!from_envelope_id(*),
           to_envelope:envelopes!to_envelope_id(*),
           payee:payees!payee_id(*),
-          income_source:income_sources!income_source_id(*)
+          income_source:income_sources!income_source_id(*),
+          splits:transaction_splits(*, envelope:envelopes(*))
         `)
         .eq('budget_id', budgetId)
         .eq('is_deleted', false)
@@ -107,7 +188,21 @@ const handler = async (req: Request) => {
         query = query.eq('transaction_type', params.get('transactionType')!)
       }
       if (params.get('envelopeId')) {
-        query = query.or(`from_envelope_id.eq.${params.get('envelopeId')!},to_envelope_id.eq.${params.get('envelopeId')!}`)
+        const envelopeId = params.get('envelopeId')!
+        const envelopeConditions = [`from_envelope_id.eq.${envelopeId}`, `to_envelope_id.eq.${envelopeId}`]
+
+        // Include split transactions that draw from this envelope through one of their lines
+        const { data: splitLines } = await supabaseClient
+          .from('transaction_splits')
+          .select('transaction_id')
+          .eq('envelope_id', envelopeId)
+          .eq('is_deleted', false)
+
+        if (splitLines && splitLines.length > 0) {
+          envelopeConditions.push(`id.in.(${splitLines.map((line: any) => line.transaction_id).join(',')})`)
+        }
+
+        query = query.or(envelopeConditions.join(','))
       }
       if (params.get('payeeId')) {
         query = query.eq('payee_id', params.get('payeeId')!)
@@ -154,6 +249,21 @@ const handler = async (req: Request) => {
     // POST /transactions - Create transaction
     if (method === 'POST') {
       const body = await req.json()
+
+      // Fill an expense's missing envelope, payee and description from the first matching auto-apply rule
+      if (body.transaction_type === 'expense' && body.budget_id && !body.splits &&
+          (!body.from_envelope_id || !body.payee_id)) {
+        const rule = findMatchingRule(await loadActiveRules(supabaseClient, body.budget_id), {
+          amount: Number(body.amount),
+          payee_id: body.payee_id,
+          description: body.description
+        })
+        if (rule?.auto_apply) {
+          body.from_envelope_id = body.from_envelope_id || rule.set_envelope_id || undefined
+          body.payee_id = body.payee_id || rule.set_payee_id || undefined
+          body.description = body.description || rule.set_description || undefined
+        }
+      }
       
       // Use comprehensive validation
       const validation = validateTransactionRequest(body)
@@ -165,6 +275,50 @@ const handler = async (req: Request) => {
 
       // The comprehensive validation already handled all of this
 
+      // Split expenses are created with their lines in a single database transaction
+      if (validatedBody.splits) {
+        const { data: splitTransaction, error: splitError } = await supabaseClient
+          .rpc('create_split_transaction', {
+            p_budget_id: validatedBody.budget_id,
+            p_transaction: {
+              amount: validatedBody.amount,
+              transaction_date: validatedBody.transaction_date,
+              description: validatedBody.description || null,
+              payee_id: validatedBody.payee_id,
+              is_cleared: validatedBody.is_cleared ?? false
+            },
+            p_splits: validatedBody.splits
+          })
+
+        if (splitError || !splitTransaction) {
+          return new Response(
+            JSON.stringify({ error: splitError?.message || 'Failed to create split transaction' }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const { data: transaction } = await supabaseClient
+          .from('transactions')
+          .select(`
+            *,
+            payee:payees!payee_id(*),
+            splits:transaction_splits(*, envelope:envelopes(*))
+          `)
+          .eq('id', splitTransaction.id)
+          .single()
+
+        return new Response(
+          JSON.stringify(transaction || splitTransaction),
+          { 
+            status: 201,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
       // Insert transaction
       const { data: transaction, error: insertError } = await supabaseClient
         .from('transactions')
@@ -172,6 +326,8 @@ const handler = async (req: Request) => {
           budget_id: validatedBody.budget_id,
           transaction_type: validatedBody.transaction_type,
           amount: validatedBody.amount,
+          currency: validatedBody.currency || null,
+          exchange_rate: validatedBody.exchange_rate ?? null,
           transaction_date: validatedBody.transaction_date,
           description: validatedBody.description || null,
           from_envelope_id: validatedBody.from_envelope_id || null,
@@ -186,7 +342,8 @@ const handler = async (req: Request) => {
           from_envelope:envelopes!from_envelope_id(*),
           to_envelope:envelopes!to_envelope_id(*),
           payee:payees!payee_id(*),
-          income_source:income_sources!income_source_id(*)
+          income_source:income_sources!income_source_id(*),
+          splits:transaction_splits(*, envelope:envelopes(*))
         `)
         .single()
 
@@ -244,9 +401,43 @@ const handler = async (req: Request) => {
         )
       }
 
+      // Reconciled transactions are locked unless the caller explicitly unlocks them
+      if (existingTransaction.is_reconciled && body.unlock_reconciled !== true) {
+        return new Response(
+          JSON.stringify({ error: 'Transaction is reconciled; set unlock_reconciled to edit it' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (existingTransaction.is_split || body.splits !== undefined) {
+        if (body.from_envelope_id) {
+          return new Response(
+            JSON.stringify({ error: 'Split transactions cannot have from_envelope_id' }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+        if (body.splits === undefined && body.amount !== undefined && Number(body.amount) !== Number(existingTransaction.amount)) {
+          return new Response(
+            JSON.stringify({ error: 'Update the splits to change the amount of a split transaction' }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+      }
+
       // Build updates object
-      const updates: any = { updated_at: new Date().toISOString() }
-      if (body.amount !== undefined) updates.amount = body.amount
+      const updates: any = {}
+      if (body.amount !== undefined && body.splits === undefined) updates.amount = body.amount
+      if (body.currency !== undefined) updates.currency = body.currency || null
+      if (body.exchange_rate !== undefined) updates.exchange_rate = body.exchange_rate
       if (body.transaction_date !== undefined) updates.transaction_date = body.transaction_date
       if (body.description !== undefined) updates.description = body.description || null
       if (body.from_envelope_id !== undefined) updates.from_envelope_id = body.from_envelope_id || null
@@ -256,18 +447,69 @@ const handler = async (req: Request) => {
       if (body.is_cleared !== undefined) updates.is_cleared = body.is_cleared
       if (body.is_reconciled !== undefined) updates.is_reconciled = body.is_reconciled
 
-      const { data: updatedTransaction, error: updateError } = await supabaseClient
-        .from('transactions')
-        .update(updates)
-        .eq('id', transactionId)
-        .select(`
+      // Reaching here on a reconciled transaction means it was unlocked; the header
+      // lets the write past the protect_reconciled_transaction trigger
+      const unlockReconciled = String(existingTransaction.is_reconciled === true)
+
+      // Replacing split lines also applies the other updates in the same database
+      // transaction; the parent amount becomes the total of the lines
+      if (body.splits !== undefined) {
+        if (existingTransaction.transaction_type !== 'expense') {
+          return new Response(
+            JSON.stringify({ error: 'Only expense transactions can be split' }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        const splitErrors = validateTransactionSplits(body.splits, body.amount)
+        if (splitErrors.length > 0) {
+          return createValidationErrorResponse(splitErrors, corsHeaders)
+        }
+
+        const { error: splitError } = await supabaseClient
+          .rpc('replace_transaction_splits', {
+            p_transaction_id: transactionId,
+            p_splits: body.splits,
+            p_fields: updates
+          })
+          .setHeader('X-Unlock-Reconciled', unlockReconciled)
+
+        if (splitError) {
+          return new Response(
+            JSON.stringify({ error: splitError.message }),
+            { 
+              status: 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+      }
+
+      const transactionSelect = `
           *,
           from_envelope:envelopes!from_envelope_id(*),
           to_envelope:envelopes!to_envelope_id(*),
           payee:payees!payee_id(*),
-          income_source:income_sources!income_source_id(*)
-        `)
-        .single()
+          income_source:income_sources!income_source_id(*),
+          splits:transaction_splits(*, envelope:envelopes(*))
+        `
+
+      const { data: updatedTransaction, error: updateError } = body.splits !== undefined
+        ? await supabaseClient
+            .from('transactions')
+            .select(transactionSelect)
+            .eq('id', transactionId)
+            .single()
+        : await supabaseClient
+            .from('transactions')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', transactionId)
+            .setHeader('X-Unlock-Reconciled', unlockReconciled)
+            .select(transactionSelect)
+            .single()
 
       if (updateError) {
         return new Response(
@@ -303,7 +545,7 @@ const handler = async (req: Request) => {
         )
       }
 
-      // Soft delete the transaction
+      // Soft delete the transaction; reconciled transactions need ?unlock_reconciled=true
       const { error: deleteError } = await supabaseClient
         .from('transactions')
         .update({
@@ -314,6 +556,18 @@ const handler = async (req: Request) => {
         })
         .eq('id', transactionId)
         .eq('is_deleted', false)
+        .setHeader('X-Unlock-Reconciled', String(url.searchParams.get('unlock_reconciled') === 'true'))
+
+      // Raised by the protect_reconciled_transaction trigger
+      if (deleteError?.code === '55000') {
+        return new Response(
+          JSON.stringify({ error: 'Transaction is reconciled; set unlock_reconciled to delete it' }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
 
       if (deleteError) {
         return new Response(
@@ -0,0 +1,345 @@
+-- Migration: Split Transactions
+-- Allows a single expense (one receipt, one payee) to draw from several envelopes.
+-- The parent transaction keeps the payee and total amount; each split line debits one envelope.
+
+-- Flag split parents on the transactions table
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS is_split BOOLEAN DEFAULT false NOT NULL;
+
+-- Split expenses carry their envelopes on the split lines instead of from_envelope_id
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS valid_expense_transaction;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT valid_expense_transaction CHECK (
+  transaction_type != 'expense' OR (
+    payee_id IS NOT NULL AND
+    to_envelope_id IS NULL AND
+    income_source_id IS NULL AND
+    (
+      (is_split = false AND from_envelope_id IS NOT NULL) OR
+      (is_split = true AND from_envelope_id IS NULL)
+    )
+  )
+);
+
+-- Only expenses can be split
+ALTER TABLE public.transactions
+ADD CONSTRAINT valid_split_transaction CHECK (
+  is_split = false OR transaction_type = 'expense'
+);
+
+-- Create transaction_splits table
+CREATE TABLE IF NOT EXISTS public.transaction_splits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+  envelope_id UUID REFERENCES public.envelopes(id) ON DELETE RESTRICT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  description TEXT CHECK (description IS NULL OR LENGTH(description) <= 255),
+  is_deleted BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for transaction_splits
+CREATE INDEX idx_transaction_splits_transaction_id ON public.transaction_splits(transaction_id);
+CREATE INDEX idx_transaction_splits_envelope_id ON public.transaction_splits(envelope_id) WHERE is_deleted = false;
+
+-- Enable RLS on transaction_splits
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for transaction_splits (access follows the parent transaction's budget)
+CREATE POLICY "Users can view transaction splits in their budgets"
+  ON public.transaction_splits
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    JOIN public.budgets b ON b.id = t.budget_id
+    WHERE t.id = transaction_splits.transaction_id
+    AND b.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create transaction splits in their budgets"
+  ON public.transaction_splits
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.transactions t
+    JOIN public.budgets b ON b.id = t.budget_id
+    WHERE t.id = transaction_splits.transaction_id
+    AND b.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update transaction splits in their budgets"
+  ON public.transaction_splits
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    JOIN public.budgets b ON b.id = t.budget_id
+    WHERE t.id = transaction_splits.transaction_id
+    AND b.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete transaction splits in their budgets"
+  ON public.transaction_splits
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.transactions t
+    JOIN public.budgets b ON b.id = t.budget_id
+    WHERE t.id = transaction_splits.transaction_id
+    AND b.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_transaction_splits_updated_at
+  BEFORE UPDATE ON public.transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Debit (positive amount) or credit (negative amount) a single envelope for a split line.
+-- Mirrors expense handling in update_envelope_balance: debt envelopes also pay down target_amount.
+CREATE OR REPLACE FUNCTION public.apply_split_to_envelope(p_envelope_id UUID, p_amount DECIMAL(12, 2))
+RETURNS VOID AS $$
+DECLARE
+  v_envelope_type TEXT;
+BEGIN
+  SELECT e.envelope_type INTO v_envelope_type
+  FROM public.envelopes e
+  WHERE e.id = p_envelope_id;
+
+  UPDATE public.envelopes
+  SET current_balance = current_balance - p_amount
+  WHERE id = p_envelope_id;
+
+  IF v_envelope_type = 'debt' THEN
+    UPDATE public.envelopes
+    SET target_amount = target_amount - p_amount
+    WHERE id = p_envelope_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep envelope balances in sync with split lines
+CREATE OR REPLACE FUNCTION public.update_split_envelope_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Handle INSERT
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_deleted = false THEN
+      PERFORM public.apply_split_to_envelope(NEW.envelope_id, NEW.amount);
+    END IF;
+    RETURN NEW;
+
+  -- Handle UPDATE
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.is_deleted = NEW.is_deleted THEN
+      IF NEW.is_deleted = false AND (
+        OLD.envelope_id IS DISTINCT FROM NEW.envelope_id OR OLD.amount != NEW.amount
+      ) THEN
+        PERFORM public.apply_split_to_envelope(OLD.envelope_id, -OLD.amount);
+        PERFORM public.apply_split_to_envelope(NEW.envelope_id, NEW.amount);
+      END IF;
+    -- Handle soft delete
+    ELSIF OLD.is_deleted = false AND NEW.is_deleted = true THEN
+      PERFORM public.apply_split_to_envelope(OLD.envelope_id, -OLD.amount);
+    -- Handle restore from soft delete
+    ELSIF OLD.is_deleted = true AND NEW.is_deleted = false THEN
+      PERFORM public.apply_split_to_envelope(NEW.envelope_id, NEW.amount);
+    END IF;
+    RETURN NEW;
+
+  -- Handle DELETE (hard delete, including cascade from the parent)
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.is_deleted = false THEN
+      PERFORM public.apply_split_to_envelope(OLD.envelope_id, -OLD.amount);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_envelope_balance_on_transaction_split
+  AFTER INSERT OR UPDATE OR DELETE ON public.transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_split_envelope_balance();
+
+-- Soft delete and restore of a split parent cascades to its split lines
+CREATE OR REPLACE FUNCTION public.sync_transaction_split_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.transaction_splits
+  SET is_deleted = NEW.is_deleted
+  WHERE transaction_id = NEW.id
+  AND is_deleted = OLD.is_deleted;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_split_deletion_on_transaction
+  AFTER UPDATE OF is_deleted ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.is_deleted IS DISTINCT FROM NEW.is_deleted AND NEW.is_split = true)
+  EXECUTE FUNCTION public.sync_transaction_split_deletion();
+
+-- Split lines must add up to the parent amount once the surrounding statement batch commits
+CREATE OR REPLACE FUNCTION public.check_transaction_split_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_parent_amount DECIMAL(12, 2);
+  v_parent_is_split BOOLEAN;
+  v_split_total DECIMAL(12, 2);
+BEGIN
+  IF TG_TABLE_NAME = 'transactions' THEN
+    v_transaction_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_transaction_id := OLD.transaction_id;
+  ELSE
+    v_transaction_id := NEW.transaction_id;
+  END IF;
+
+  SELECT amount, is_split INTO v_parent_amount, v_parent_is_split
+  FROM public.transactions
+  WHERE id = v_transaction_id;
+
+  -- Parent was removed (cascade) or is not a split transaction
+  IF NOT FOUND OR v_parent_is_split = false THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_split_total
+  FROM public.transaction_splits
+  WHERE transaction_id = v_transaction_id;
+
+  IF v_split_total != v_parent_amount THEN
+    RAISE EXCEPTION 'Split amounts (%) must equal the transaction amount (%)', v_split_total, v_parent_amount;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE CONSTRAINT TRIGGER check_split_total_on_transaction_split
+  AFTER INSERT OR UPDATE OR DELETE ON public.transaction_splits
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transaction_split_total();
+
+CREATE CONSTRAINT TRIGGER check_split_total_on_transaction
+  AFTER INSERT OR UPDATE OF amount, is_split ON public.transactions
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transaction_split_total();
+
+-- Create a split expense and its lines in one transaction.
+-- SECURITY INVOKER so the caller's RLS policies apply to both tables.
+CREATE OR REPLACE FUNCTION public.create_split_transaction(
+  p_budget_id UUID,
+  p_transaction JSONB,
+  p_splits JSONB
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_transaction public.transactions;
+BEGIN
+  IF p_splits IS NULL OR jsonb_array_length(p_splits) < 2 THEN
+    RAISE EXCEPTION 'Split transactions require at least two split lines';
+  END IF;
+
+  INSERT INTO public.transactions (
+    budget_id,
+    transaction_type,
+    amount,
+    description,
+    transaction_date,
+    payee_id,
+    is_cleared,
+    is_split
+  ) VALUES (
+    p_budget_id,
+    'expense',
+    (p_transaction->>'amount')::DECIMAL(12, 2),
+    p_transaction->>'description',
+    (p_transaction->>'transaction_date')::DATE,
+    (p_transaction->>'payee_id')::UUID,
+    COALESCE((p_transaction->>'is_cleared')::BOOLEAN, false),
+    true
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO public.transaction_splits (transaction_id, envelope_id, amount, description)
+  SELECT
+    v_transaction.id,
+    (split->>'envelope_id')::UUID,
+    (split->>'amount')::DECIMAL(12, 2),
+    split->>'description'
+  FROM jsonb_array_elements(p_splits) AS split;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace the split lines of an expense, converting it to a split transaction if needed.
+-- The parent amount becomes the sum of the new lines. Other parent fields present in
+-- p_fields are updated in the same statement so a failed edit changes nothing.
+CREATE OR REPLACE FUNCTION public.replace_transaction_splits(
+  p_transaction_id UUID,
+  p_splits JSONB,
+  p_fields JSONB DEFAULT '{}'::JSONB
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_transaction public.transactions;
+  v_total DECIMAL(12, 2);
+BEGIN
+  IF p_splits IS NULL OR jsonb_array_length(p_splits) < 2 THEN
+    RAISE EXCEPTION 'Split transactions require at least two split lines';
+  END IF;
+
+  SELECT COALESCE(SUM((split->>'amount')::DECIMAL(12, 2)), 0) INTO v_total
+  FROM jsonb_array_elements(p_splits) AS split;
+
+  UPDATE public.transactions
+  SET
+    amount = v_total,
+    from_envelope_id = NULL,
+    is_split = true,
+    description = CASE WHEN p_fields ? 'description' THEN p_fields->>'description' ELSE description END,
+    transaction_date = CASE WHEN p_fields ? 'transaction_date' THEN (p_fields->>'transaction_date')::DATE ELSE transaction_date END,
+    payee_id = CASE WHEN p_fields ? 'payee_id' THEN (p_fields->>'payee_id')::UUID ELSE payee_id END,
+    to_envelope_id = CASE WHEN p_fields ? 'to_envelope_id' THEN (p_fields->>'to_envelope_id')::UUID ELSE to_envelope_id END,
+    income_source_id = CASE WHEN p_fields ? 'income_source_id' THEN (p_fields->>'income_source_id')::UUID ELSE income_source_id END,
+    is_cleared = CASE WHEN p_fields ? 'is_cleared' THEN (p_fields->>'is_cleared')::BOOLEAN ELSE is_cleared END,
+    is_reconciled = CASE WHEN p_fields ? 'is_reconciled' THEN (p_fields->>'is_reconciled')::BOOLEAN ELSE is_reconciled END,
+    updated_at = NOW()
+  WHERE id = p_transaction_id
+  AND transaction_type = 'expense'
+  AND is_deleted = false
+  RETURNING * INTO v_transaction;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense transaction % not found', p_transaction_id;
+  END IF;
+
+  -- Deleting reverses the old envelope debits; inserting applies the new ones
+  DELETE FROM public.transaction_splits
+  WHERE transaction_id = p_transaction_id;
+
+  INSERT INTO public.transaction_splits (transaction_id, envelope_id, amount, description)
+  SELECT
+    p_transaction_id,
+    (split->>'envelope_id')::UUID,
+    (split->>'amount')::DECIMAL(12, 2),
+    split->>'description'
+  FROM jsonb_array_elements(p_splits) AS split;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.transaction_splits IS 'Per-envelope lines of a split expense; amounts sum to the parent transaction amount';
+COMMENT ON COLUMN public.transactions.is_split IS 'True when the expense draws from multiple envelopes via transaction_splits (from_envelope_id is NULL)';
+COMMENT ON FUNCTION public.create_split_transaction(UUID, JSONB, JSONB) IS 'Atomically creates a split expense and its split lines';
+COMMENT ON FUNCTION public.replace_transaction_splits(UUID, JSONB, JSONB) IS 'Atomically replaces the split lines of an expense and updates its amount and other fields';
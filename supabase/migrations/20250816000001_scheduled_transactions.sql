@@ -0,0 +1,150 @@
+-- Migration: Scheduled Transactions
+-- Recurring transaction templates (rent, subscriptions, standing transfers) that post real transactions.
+-- Reuses the income schedule model (schedule_type/schedule_config) and calculate_next_expected_date().
+
+-- Create scheduled_transactions table
+CREATE TABLE IF NOT EXISTS public.scheduled_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('income', 'allocation', 'expense', 'transfer')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  description TEXT,
+  from_envelope_id UUID REFERENCES public.envelopes(id) ON DELETE CASCADE,
+  to_envelope_id UUID REFERENCES public.envelopes(id) ON DELETE CASCADE,
+  payee_id UUID REFERENCES public.payees(id) ON DELETE CASCADE,
+  income_source_id UUID REFERENCES public.income_sources(id) ON DELETE CASCADE,
+  schedule_type TEXT NOT NULL CHECK (
+    schedule_type IN ('weekly', 'biweekly', 'monthly', 'semi_monthly', 'quarterly', 'yearly', 'one_time')
+  ),
+  schedule_config JSONB NOT NULL,
+  next_occurrence_date DATE,
+  end_date DATE,
+  last_posted_date DATE,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Link posted transactions back to their template
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS scheduled_transaction_id UUID REFERENCES public.scheduled_transactions(id) ON DELETE SET NULL;
+
+-- An occurrence is posted at most once, even if two runs overlap
+CREATE UNIQUE INDEX idx_transactions_scheduled_occurrence
+  ON public.transactions(scheduled_transaction_id, transaction_date)
+  WHERE scheduled_transaction_id IS NOT NULL;
+
+-- Create indexes for scheduled_transactions
+CREATE INDEX idx_scheduled_transactions_budget_id ON public.scheduled_transactions(budget_id);
+CREATE INDEX idx_scheduled_transactions_due ON public.scheduled_transactions(next_occurrence_date)
+  WHERE is_active = true;
+
+-- Enable RLS on scheduled_transactions
+ALTER TABLE public.scheduled_transactions ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for scheduled_transactions
+CREATE POLICY "Users can view scheduled transactions in their budgets"
+  ON public.scheduled_transactions
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = scheduled_transactions.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create scheduled transactions in their budgets"
+  ON public.scheduled_transactions
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = scheduled_transactions.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update scheduled transactions in their budgets"
+  ON public.scheduled_transactions
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = scheduled_transactions.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete scheduled transactions in their budgets"
+  ON public.scheduled_transactions
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = scheduled_transactions.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_scheduled_transactions_updated_at
+  BEFORE UPDATE ON public.scheduled_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Calculate the first occurrence when none is given (today counts as an occurrence)
+CREATE OR REPLACE FUNCTION public.auto_calculate_scheduled_transaction_next_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.next_occurrence_date IS NULL AND NEW.is_active = true AND (
+    TG_OP = 'INSERT' OR
+    OLD.schedule_type IS DISTINCT FROM NEW.schedule_type OR
+    OLD.schedule_config IS DISTINCT FROM NEW.schedule_config
+  ) THEN
+    NEW.next_occurrence_date := calculate_next_expected_date(
+      NEW.schedule_type,
+      NEW.schedule_config,
+      CURRENT_DATE - 1
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER auto_calculate_scheduled_transaction_next_date_trigger
+  BEFORE INSERT OR UPDATE ON public.scheduled_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.auto_calculate_scheduled_transaction_next_date();
+
+-- Expand a schedule into consecutive occurrence dates starting at p_start_date (inclusive).
+-- Used both for catching up on missed runs (p_until = today) and for previews (p_count = N).
+CREATE OR REPLACE FUNCTION public.get_schedule_occurrences(
+  p_schedule_type TEXT,
+  p_schedule_config JSONB,
+  p_start_date DATE,
+  p_count INTEGER DEFAULT 5,
+  p_until DATE DEFAULT NULL
+)
+RETURNS TABLE(occurrence_date DATE) AS $$
+DECLARE
+  v_date DATE := p_start_date;
+  v_next DATE;
+  v_returned INTEGER := 0;
+BEGIN
+  WHILE v_date IS NOT NULL AND v_returned < p_count AND (p_until IS NULL OR v_date <= p_until) LOOP
+    occurrence_date := v_date;
+    RETURN NEXT;
+    v_returned := v_returned + 1;
+
+    v_next := calculate_next_expected_date(p_schedule_type, p_schedule_config, v_date);
+
+    -- one_time schedules (and incomplete configs) never move forward
+    IF v_next IS NULL OR v_next <= v_date THEN
+      EXIT;
+    END IF;
+
+    v_date := v_next;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.scheduled_transactions IS 'Recurring transaction templates that post real transactions on their schedule';
+COMMENT ON COLUMN public.scheduled_transactions.next_occurrence_date IS 'Next date a transaction is due to be posted; earlier dates are caught up on the next run';
+COMMENT ON COLUMN public.scheduled_transactions.end_date IS 'Optional last date an occurrence may be posted';
+COMMENT ON COLUMN public.transactions.scheduled_transaction_id IS 'Template that posted this transaction, if any';
+COMMENT ON FUNCTION public.get_schedule_occurrences(TEXT, JSONB, DATE, INTEGER, DATE) IS 'Expands a schedule into up to p_count occurrence dates from p_start_date, optionally bounded by p_until';
@@ -0,0 +1,75 @@
+-- Migration: Transaction Imports
+-- Review batches for bank statement imports (OFX/QFX/CSV).
+-- Parsed rows are held here until the user confirms them; confirmed rows are
+-- posted through the bulk-operations transactions endpoint.
+
+-- Create import_batches table
+CREATE TABLE IF NOT EXISTS public.import_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('ofx', 'qfx', 'csv')),
+  file_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending_review' CHECK (status IN ('pending_review', 'committing', 'committed', 'cancelled')),
+  rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  committed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT rows_is_array CHECK (jsonb_typeof(rows) = 'array'),
+  CONSTRAINT committed_at_matches_status CHECK ((status = 'committed') = (committed_at IS NOT NULL))
+);
+
+-- Create indexes for import_batches
+CREATE INDEX idx_import_batches_budget_id ON public.import_batches(budget_id);
+CREATE INDEX idx_import_batches_pending ON public.import_batches(budget_id, created_at DESC)
+  WHERE status = 'pending_review';
+
+-- Enable RLS on import_batches
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for import_batches
+CREATE POLICY "Users can view import batches in their budgets"
+  ON public.import_batches
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = import_batches.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create import batches in their budgets"
+  ON public.import_batches
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = import_batches.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update import batches in their budgets"
+  ON public.import_batches
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = import_batches.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete import batches in their budgets"
+  ON public.import_batches
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = import_batches.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_import_batches_updated_at
+  BEFORE UPDATE ON public.import_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments
+COMMENT ON TABLE public.import_batches IS 'Parsed bank statement rows awaiting review before they are created as transactions';
+COMMENT ON COLUMN public.import_batches.rows IS 'Array of import rows with suggested payee, duplicate match and review status';
+COMMENT ON COLUMN public.import_batches.status IS 'pending_review while rows are reviewed, committing while a commit posts them, then committed or cancelled';
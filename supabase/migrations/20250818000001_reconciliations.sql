@@ -0,0 +1,200 @@
+-- Migration: Account Reconciliation
+-- Reconcile cleared transactions against a bank statement's ending balance.
+-- Completing a reconciliation locks the cleared rows (is_reconciled) and keeps a history record.
+
+-- Create reconciliations table (history of completed reconciliations)
+CREATE TABLE IF NOT EXISTS public.reconciliations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  statement_date DATE NOT NULL,
+  statement_balance DECIMAL(12, 2) NOT NULL,
+  cleared_balance DECIMAL(12, 2) NOT NULL,
+  transaction_count INTEGER NOT NULL DEFAULT 0 CHECK (transaction_count >= 0),
+  completed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Link reconciled transactions to the reconciliation that locked them
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS reconciliation_id UUID REFERENCES public.reconciliations(id) ON DELETE SET NULL;
+
+-- Create indexes
+CREATE INDEX idx_reconciliations_budget_date ON public.reconciliations(budget_id, statement_date DESC);
+CREATE INDEX idx_transactions_reconciliation_id ON public.transactions(reconciliation_id)
+  WHERE reconciliation_id IS NOT NULL;
+
+-- Enable RLS on reconciliations
+ALTER TABLE public.reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for reconciliations (history is append-only)
+CREATE POLICY "Users can view reconciliations in their budgets"
+  ON public.reconciliations
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = reconciliations.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create reconciliations in their budgets"
+  ON public.reconciliations
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = reconciliations.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- Balance of the bank account as of a date, counting only cleared transactions.
+-- Allocations and transfers move money between envelopes, not in or out of the account.
+CREATE OR REPLACE FUNCTION public.get_cleared_balance(
+  p_budget_id UUID,
+  p_as_of DATE
+)
+RETURNS DECIMAL(12, 2) AS $$
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN transaction_type = 'income' THEN amount
+      WHEN transaction_type IN ('expense', 'payoff', 'debt_payment') THEN -amount
+      ELSE 0
+    END
+  ), 0)::DECIMAL(12, 2)
+  FROM public.transactions
+  WHERE budget_id = p_budget_id
+  AND is_cleared = true
+  AND is_deleted = false
+  AND transaction_date <= p_as_of;
+$$ LANGUAGE sql STABLE;
+
+-- Mark every cleared, unreconciled transaction up to the statement date as reconciled
+-- and record the reconciliation, all in one transaction.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.complete_reconciliation(
+  p_budget_id UUID,
+  p_statement_date DATE,
+  p_statement_balance DECIMAL(12, 2)
+)
+RETURNS public.reconciliations AS $$
+DECLARE
+  v_reconciliation public.reconciliations;
+  v_cleared_balance DECIMAL(12, 2);
+  v_last_statement_date DATE;
+  v_transaction_count INTEGER;
+BEGIN
+  -- Serialize reconciliations of the same budget
+  PERFORM 1 FROM public.budgets WHERE id = p_budget_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Budget % not found', p_budget_id;
+  END IF;
+
+  SELECT MAX(statement_date) INTO v_last_statement_date
+  FROM public.reconciliations
+  WHERE budget_id = p_budget_id;
+
+  IF v_last_statement_date IS NOT NULL AND p_statement_date < v_last_statement_date THEN
+    RAISE EXCEPTION 'Statement date cannot be before the last reconciliation (%)', v_last_statement_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_cleared_balance := public.get_cleared_balance(p_budget_id, p_statement_date);
+
+  IF v_cleared_balance <> p_statement_balance THEN
+    RAISE EXCEPTION 'Cleared balance % does not match statement balance %', v_cleared_balance, p_statement_balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lock the rows being reconciled so the count matches what gets updated
+  SELECT COUNT(*) INTO v_transaction_count
+  FROM (
+    SELECT id FROM public.transactions
+    WHERE budget_id = p_budget_id
+    AND is_cleared = true
+    AND is_reconciled = false
+    AND is_deleted = false
+    AND transaction_date <= p_statement_date
+    FOR UPDATE
+  ) pending;
+
+  INSERT INTO public.reconciliations (
+    budget_id,
+    statement_date,
+    statement_balance,
+    cleared_balance,
+    transaction_count,
+    completed_by
+  ) VALUES (
+    p_budget_id,
+    p_statement_date,
+    p_statement_balance,
+    v_cleared_balance,
+    v_transaction_count,
+    auth.uid()
+  )
+  RETURNING * INTO v_reconciliation;
+
+  UPDATE public.transactions
+  SET
+    is_reconciled = true,
+    reconciliation_id = v_reconciliation.id
+  WHERE budget_id = p_budget_id
+  AND is_cleared = true
+  AND is_reconciled = false
+  AND is_deleted = false
+  AND transaction_date <= p_statement_date;
+
+  RETURN v_reconciliation;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reconciled transactions are locked against edits and deletes from every writer, not
+-- only the API. A write is unlocked explicitly by setting app.unlock_reconciled for the
+-- database transaction, or by sending X-Unlock-Reconciled: true with the API request.
+-- Links cleared by ON DELETE SET NULL, rows removed with their budget, purging rows that
+-- were already soft-deleted and merges re-pointing envelopes or payees are not edits.
+CREATE OR REPLACE FUNCTION public.protect_reconciled_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ignored TEXT[] := ARRAY['updated_at', 'reconciliation_id', 'scheduled_transaction_id'];
+BEGIN
+  IF current_setting('app.unlock_reconciled', true) = 'true'
+    OR NULLIF(current_setting('request.headers', true), '')::JSONB->>'x-unlock-reconciled' = 'true'
+    OR NOT EXISTS (SELECT 1 FROM public.budgets WHERE id = OLD.budget_id)
+  THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_deleted THEN
+      RETURN OLD;
+    END IF;
+  ELSE
+    IF current_setting('app.merging_envelopes', true) = 'true' THEN
+      v_ignored := v_ignored || ARRAY['from_envelope_id', 'to_envelope_id'];
+    END IF;
+    IF current_setting('app.merging_payees', true) = 'true' THEN
+      v_ignored := v_ignored || ARRAY['payee_id'];
+    END IF;
+
+    IF (to_jsonb(NEW) - v_ignored) = (to_jsonb(OLD) - v_ignored) THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'Transaction % has been reconciled; unlock it to make changes', OLD.id
+    USING ERRCODE = 'object_not_in_prerequisite_state';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_reconciled_transaction
+  BEFORE UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.is_reconciled = true)
+  EXECUTE FUNCTION public.protect_reconciled_transaction();
+
+-- Add comments
+COMMENT ON TABLE public.reconciliations IS 'History of completed reconciliations against bank statements';
+COMMENT ON COLUMN public.transactions.reconciliation_id IS 'Reconciliation that locked this transaction';
+COMMENT ON FUNCTION public.get_cleared_balance(UUID, DATE) IS 'Account balance from cleared income, expense and payoff transactions up to a date';
+COMMENT ON FUNCTION public.complete_reconciliation(UUID, DATE, DECIMAL) IS 'Atomically reconciles cleared transactions up to a statement date and records the reconciliation';
+COMMENT ON FUNCTION public.protect_reconciled_transaction() IS 'Rejects edits and deletes of reconciled transactions unless explicitly unlocked';
@@ -0,0 +1,96 @@
+-- Migration: Transaction Rules
+-- Auto-categorization rules that suggest or fill the envelope, payee and description
+-- of expense transactions on create and on import.
+
+-- Create transaction_rules table
+CREATE TABLE IF NOT EXISTS public.transaction_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  auto_apply BOOLEAN DEFAULT false NOT NULL,
+
+  -- Conditions (all that are set must match)
+  match_payee_id UUID REFERENCES public.payees(id) ON DELETE CASCADE,
+  match_description_pattern TEXT CHECK (LENGTH(match_description_pattern) <= 200),
+  match_min_amount DECIMAL(12, 2) CHECK (match_min_amount >= 0),
+  match_max_amount DECIMAL(12, 2) CHECK (match_max_amount >= 0),
+
+  -- Actions
+  set_envelope_id UUID REFERENCES public.envelopes(id) ON DELETE CASCADE,
+  set_payee_id UUID REFERENCES public.payees(id) ON DELETE CASCADE,
+  set_description TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT rule_has_condition CHECK (
+    match_payee_id IS NOT NULL OR
+    match_description_pattern IS NOT NULL OR
+    match_min_amount IS NOT NULL OR
+    match_max_amount IS NOT NULL
+  ),
+  CONSTRAINT rule_has_action CHECK (
+    set_envelope_id IS NOT NULL OR
+    set_payee_id IS NOT NULL OR
+    set_description IS NOT NULL
+  ),
+  CONSTRAINT valid_amount_range CHECK (
+    match_min_amount IS NULL OR match_max_amount IS NULL OR match_min_amount <= match_max_amount
+  )
+);
+
+-- Create indexes
+CREATE INDEX idx_transaction_rules_budget_priority ON public.transaction_rules(budget_id, priority)
+  WHERE is_active = true;
+
+-- Enable RLS on transaction_rules
+ALTER TABLE public.transaction_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for transaction_rules
+CREATE POLICY "Users can view transaction rules in their budgets"
+  ON public.transaction_rules
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create transaction rules in their budgets"
+  ON public.transaction_rules
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update transaction rules in their budgets"
+  ON public.transaction_rules
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete transaction rules in their budgets"
+  ON public.transaction_rules
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_transaction_rules_updated_at
+  BEFORE UPDATE ON public.transaction_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments
+COMMENT ON TABLE public.transaction_rules IS 'Auto-categorization rules for expenses, evaluated in ascending priority';
+COMMENT ON COLUMN public.transaction_rules.auto_apply IS 'When true, matching rules fill empty fields automatically; otherwise they are only suggested';
+COMMENT ON COLUMN public.transaction_rules.match_description_pattern IS 'Case-insensitive regular expression matched against the transaction description';
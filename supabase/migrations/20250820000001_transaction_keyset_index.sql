@@ -0,0 +1,12 @@
+-- Migration: Transaction keyset pagination index
+-- Description: Transaction history pages by (transaction_date, id), newest first
+
+-- Covers ORDER BY transaction_date DESC, id DESC and the
+-- (transaction_date, id) < (cursor_date, cursor_id) comparison used for the next page.
+-- Replaces idx_transactions_budget_date_desc, which this index makes redundant.
+CREATE INDEX idx_transactions_budget_date_id_desc ON public.transactions(budget_id, transaction_date DESC, id DESC)
+WHERE is_deleted = false;
+
+DROP INDEX IF EXISTS idx_transactions_budget_date_desc;
+
+COMMENT ON INDEX public.idx_transactions_budget_date_id_desc IS 'Keyset pagination of transaction history';
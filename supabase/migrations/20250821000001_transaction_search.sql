@@ -0,0 +1,205 @@
+-- Migration: Transaction Full-Text Search
+-- Ranked search over transaction description, payee name and envelope names.
+-- Search documents live in their own table so renaming a payee or envelope refreshes
+-- the documents without rewriting (and re-running the triggers on) every transaction row.
+
+-- Create transaction_search_documents table
+CREATE TABLE IF NOT EXISTS public.transaction_search_documents (
+  transaction_id UUID PRIMARY KEY REFERENCES public.transactions(id) ON DELETE CASCADE,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  payee_name TEXT,
+  envelope_names TEXT,
+  document TSVECTOR NOT NULL
+);
+
+-- Create indexes
+CREATE INDEX idx_transaction_search_documents_document ON public.transaction_search_documents USING GIN(document);
+CREATE INDEX idx_transaction_search_documents_budget_id ON public.transaction_search_documents(budget_id);
+
+-- Enable RLS on transaction_search_documents (rows are written only by the triggers below)
+ALTER TABLE public.transaction_search_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view transaction search documents in their budgets"
+  ON public.transaction_search_documents
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_search_documents.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- Rebuild the search documents of the given transactions.
+-- Payee names weigh most, then the description, then envelope names (including split lines).
+CREATE OR REPLACE FUNCTION public.refresh_transaction_search_documents(p_transaction_ids UUID[])
+RETURNS VOID AS $$
+  INSERT INTO public.transaction_search_documents (
+    transaction_id,
+    budget_id,
+    payee_name,
+    envelope_names,
+    document
+  )
+  SELECT
+    t.id,
+    t.budget_id,
+    p.name,
+    e.names,
+    setweight(to_tsvector('english', COALESCE(p.name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(t.description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(e.names, '')), 'C')
+  FROM public.transactions t
+  LEFT JOIN public.payees p ON p.id = t.payee_id
+  LEFT JOIN LATERAL (
+    SELECT string_agg(DISTINCT env.name, ', ') AS names
+    FROM public.envelopes env
+    WHERE env.id IN (t.from_envelope_id, t.to_envelope_id)
+    OR env.id IN (
+      SELECT s.envelope_id FROM public.transaction_splits s
+      WHERE s.transaction_id = t.id
+      AND s.is_deleted = false
+    )
+  ) e ON true
+  WHERE t.id = ANY(p_transaction_ids)
+  ON CONFLICT (transaction_id) DO UPDATE SET
+    payee_name = EXCLUDED.payee_name,
+    envelope_names = EXCLUDED.envelope_names,
+    document = EXCLUDED.document;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.refresh_transaction_search_on_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_transaction_search_documents(ARRAY[NEW.id]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_transaction_search_on_transaction
+  AFTER INSERT OR UPDATE OF description, payee_id, from_envelope_id, to_envelope_id ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_transaction_search_on_transaction();
+
+CREATE OR REPLACE FUNCTION public.refresh_transaction_search_on_split()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_transaction_search_documents(ARRAY[OLD.transaction_id]);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_transaction_search_documents(ARRAY[NEW.transaction_id]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_transaction_search_on_split
+  AFTER INSERT OR UPDATE OF envelope_id, is_deleted OR DELETE ON public.transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_transaction_search_on_split();
+
+CREATE OR REPLACE FUNCTION public.refresh_transaction_search_on_rename()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'payees' THEN
+    PERFORM public.refresh_transaction_search_documents(ARRAY(
+      SELECT id FROM public.transactions WHERE payee_id = NEW.id
+    ));
+  ELSE
+    PERFORM public.refresh_transaction_search_documents(ARRAY(
+      SELECT id FROM public.transactions
+      WHERE from_envelope_id = NEW.id OR to_envelope_id = NEW.id
+      UNION
+      SELECT transaction_id FROM public.transaction_splits WHERE envelope_id = NEW.id
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_transaction_search_on_payee_rename
+  AFTER UPDATE OF name ON public.payees
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.refresh_transaction_search_on_rename();
+
+CREATE TRIGGER refresh_transaction_search_on_envelope_rename
+  AFTER UPDATE OF name ON public.envelopes
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.refresh_transaction_search_on_rename();
+
+-- Build documents for existing transactions
+SELECT public.refresh_transaction_search_documents(ARRAY(SELECT id FROM public.transactions));
+
+-- Ranked search within a budget. The query uses web search syntax ("quoted phrases", or, -excluded)
+-- and combines with the same filters as transaction listing. Highlights wrap matches in <mark></mark>
+-- and are null for fields that did not match.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.search_transactions(
+  p_budget_id UUID,
+  p_query TEXT,
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_transaction_type TEXT DEFAULT NULL,
+  p_envelope_id UUID DEFAULT NULL,
+  p_payee_id UUID DEFAULT NULL,
+  p_income_source_id UUID DEFAULT NULL,
+  p_is_cleared BOOLEAN DEFAULT NULL,
+  p_is_reconciled BOOLEAN DEFAULT NULL,
+  p_min_amount DECIMAL(12, 2) DEFAULT NULL,
+  p_max_amount DECIMAL(12, 2) DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  transaction_record JSONB,
+  search_rank REAL,
+  description_highlight TEXT,
+  payee_highlight TEXT,
+  envelope_highlight TEXT
+) AS $$
+  WITH search AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=3, MaxWords=12'::TEXT AS options
+  )
+  SELECT
+    to_jsonb(t),
+    ts_rank_cd(d.document, search.query),
+    CASE WHEN to_tsvector('english', COALESCE(t.description, '')) @@ search.query
+      THEN ts_headline('english', t.description, search.query, search.options) END,
+    CASE WHEN to_tsvector('english', COALESCE(d.payee_name, '')) @@ search.query
+      THEN ts_headline('english', d.payee_name, search.query, search.options) END,
+    CASE WHEN to_tsvector('english', COALESCE(d.envelope_names, '')) @@ search.query
+      THEN ts_headline('english', d.envelope_names, search.query, search.options) END
+  FROM search
+  JOIN public.transaction_search_documents d ON d.document @@ search.query
+  JOIN public.transactions t ON t.id = d.transaction_id
+  WHERE d.budget_id = p_budget_id
+  AND t.is_deleted = false
+  AND (p_start_date IS NULL OR t.transaction_date >= p_start_date)
+  AND (p_end_date IS NULL OR t.transaction_date <= p_end_date)
+  AND (p_transaction_type IS NULL OR t.transaction_type::TEXT = p_transaction_type)
+  AND (p_envelope_id IS NULL OR t.from_envelope_id = p_envelope_id OR t.to_envelope_id = p_envelope_id OR EXISTS (
+    SELECT 1 FROM public.transaction_splits s
+    WHERE s.transaction_id = t.id
+    AND s.envelope_id = p_envelope_id
+    AND s.is_deleted = false
+  ))
+  AND (p_payee_id IS NULL OR t.payee_id = p_payee_id)
+  AND (p_income_source_id IS NULL OR t.income_source_id = p_income_source_id)
+  AND (p_is_cleared IS NULL OR t.is_cleared = p_is_cleared)
+  AND (p_is_reconciled IS NULL OR t.is_reconciled = p_is_reconciled)
+  AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+  AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+  ORDER BY 2 DESC, t.transaction_date DESC, t.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments
+COMMENT ON TABLE public.transaction_search_documents IS 'Full-text search documents for transactions, maintained by triggers';
+COMMENT ON COLUMN public.transaction_search_documents.document IS 'Weighted tsvector: payee name (A), description (B), envelope names (C)';
+COMMENT ON FUNCTION public.refresh_transaction_search_documents(UUID[]) IS 'Rebuilds the search documents of the given transactions';
+COMMENT ON FUNCTION public.search_transactions(UUID, TEXT, DATE, DATE, TEXT, UUID, UUID, UUID, BOOLEAN, BOOLEAN, DECIMAL, DECIMAL, INTEGER, INTEGER) IS 'Ranked full-text search of a budget''s transactions with highlighted matches';
\ No newline at end of file
@@ -0,0 +1,178 @@
+-- Migration: Transaction Attachments
+-- Receipt images and PDFs attached to transactions. Files live in the private
+-- transaction-attachments storage bucket and are read and written through signed URLs.
+
+-- Create private storage bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'transaction-attachments',
+  'transaction-attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create attachments table
+CREATE TABLE IF NOT EXISTS public.attachments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL CHECK (LENGTH(TRIM(file_name)) > 0 AND LENGTH(file_name) <= 255),
+  content_type TEXT NOT NULL CHECK (content_type IN ('image/jpeg', 'image/png', 'image/heic', 'image/webp', 'application/pdf')),
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  storage_path TEXT NOT NULL UNIQUE,
+  is_uploaded BOOLEAN DEFAULT false NOT NULL,
+  is_deleted BOOLEAN DEFAULT false NOT NULL,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Storage objects waiting to be removed after their attachment rows were purged.
+-- The cleanup-jobs function drains this queue through the Storage API.
+CREATE TABLE IF NOT EXISTS public.attachment_blob_deletions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  bucket_id TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  queued_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes
+CREATE INDEX idx_attachments_transaction_id ON public.attachments(transaction_id);
+CREATE INDEX idx_attachments_budget_id ON public.attachments(budget_id);
+CREATE INDEX idx_attachment_blob_deletions_queued_at ON public.attachment_blob_deletions(queued_at);
+
+-- Enable RLS (attachment_blob_deletions has no policies: service role only)
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attachment_blob_deletions ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for attachments
+CREATE POLICY "Users can view attachments in their budgets"
+  ON public.attachments
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = attachments.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create attachments in their budgets"
+  ON public.attachments
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = attachments.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update attachments in their budgets"
+  ON public.attachments
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = attachments.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete attachments in their budgets"
+  ON public.attachments
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = attachments.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- Storage policies: objects are stored under {budget_id}/..., so the first folder names the budget
+CREATE POLICY "Users can read attachment files in their budgets"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'transaction-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.budgets
+      WHERE budgets.id::TEXT = (storage.foldername(objects.name))[1]
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can upload attachment files in their budgets"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'transaction-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.budgets
+      WHERE budgets.id::TEXT = (storage.foldername(objects.name))[1]
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete attachment files in their budgets"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'transaction-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.budgets
+      WHERE budgets.id::TEXT = (storage.foldername(objects.name))[1]
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+-- Add trigger for auto-updating updated_at
+CREATE TRIGGER update_attachments_updated_at
+  BEFORE UPDATE ON public.attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Soft delete and restore of a transaction (soft_delete_transaction / restore_transaction)
+-- cascade to its attachments
+CREATE OR REPLACE FUNCTION public.sync_transaction_attachment_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.attachments
+  SET is_deleted = NEW.is_deleted
+  WHERE transaction_id = NEW.id
+  AND is_deleted = OLD.is_deleted;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_attachment_deletion_on_transaction
+  AFTER UPDATE OF is_deleted ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.is_deleted IS DISTINCT FROM NEW.is_deleted)
+  EXECUTE FUNCTION public.sync_transaction_attachment_deletion();
+
+-- Permanently delete old soft-deleted transactions, queueing their attachment files for removal
+CREATE OR REPLACE FUNCTION public.cleanup_deleted_transactions(
+  days_old INTEGER DEFAULT 30
+) RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  INSERT INTO public.attachment_blob_deletions (bucket_id, storage_path)
+  SELECT 'transaction-attachments', a.storage_path
+  FROM public.attachments a
+  JOIN public.transactions t ON t.id = a.transaction_id
+  WHERE t.is_deleted = true
+    AND t.deleted_at < NOW() - INTERVAL '1 day' * days_old;
+
+  DELETE FROM public.transactions
+  WHERE is_deleted = true
+    AND deleted_at < NOW() - INTERVAL '1 day' * days_old;
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments
+COMMENT ON TABLE public.attachments IS 'Receipt images and PDFs attached to transactions';
+COMMENT ON COLUMN public.attachments.storage_path IS 'Object path in the transaction-attachments bucket: {budget_id}/{transaction_id}/{upload_key}/{file_name}';
+COMMENT ON COLUMN public.attachments.is_uploaded IS 'False until the client confirms the signed upload finished';
+COMMENT ON TABLE public.attachment_blob_deletions IS 'Storage objects queued for removal after their attachments were purged';
+COMMENT ON FUNCTION public.cleanup_deleted_transactions(INTEGER) IS 'Permanently deletes old soft-deleted transactions and queues their attachment files for removal';
\ No newline at end of file
@@ -0,0 +1,135 @@
+-- Migration: Transaction Tags
+-- Many-to-many labels on transactions for questions that cut across envelopes,
+-- such as "vacation 2026" or "tax-deductible".
+
+-- Create tags table
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0 AND LENGTH(name) <= 50),
+  color TEXT CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Create transaction_tags join table
+CREATE TABLE IF NOT EXISTS public.transaction_tags (
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES public.tags(id) ON DELETE CASCADE NOT NULL,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (transaction_id, tag_id)
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX idx_tags_budget_name ON public.tags(budget_id, LOWER(name));
+CREATE INDEX idx_transaction_tags_tag_id ON public.transaction_tags(tag_id);
+CREATE INDEX idx_transaction_tags_budget_id ON public.transaction_tags(budget_id);
+
+-- Enable RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for tags
+CREATE POLICY "Users can view tags in their budgets"
+  ON public.tags
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = tags.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create tags in their budgets"
+  ON public.tags
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = tags.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update tags in their budgets"
+  ON public.tags
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = tags.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete tags in their budgets"
+  ON public.tags
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = tags.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- RLS policies for transaction_tags (rows are never updated, only added and removed)
+CREATE POLICY "Users can view transaction tags in their budgets"
+  ON public.transaction_tags
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_tags.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create transaction tags in their budgets"
+  ON public.transaction_tags
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_tags.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete transaction tags in their budgets"
+  ON public.transaction_tags
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = transaction_tags.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- Add trigger for auto-updating updated_at
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A tag can only be applied to transactions in its own budget
+CREATE OR REPLACE FUNCTION public.validate_transaction_tag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE id = NEW.transaction_id AND budget_id = NEW.budget_id
+  ) THEN
+    RAISE EXCEPTION 'Transaction does not belong to this budget';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tags
+    WHERE id = NEW.tag_id AND budget_id = NEW.budget_id
+  ) THEN
+    RAISE EXCEPTION 'Tag does not belong to this budget';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_transaction_tag_budget
+  BEFORE INSERT ON public.transaction_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_transaction_tag();
+
+-- Add comments
+COMMENT ON TABLE public.tags IS 'Free-form labels applied to transactions across envelopes';
+COMMENT ON COLUMN public.tags.name IS 'Tag name, unique per budget regardless of case';
+COMMENT ON TABLE public.transaction_tags IS 'Tags applied to transactions';
+COMMENT ON COLUMN public.transaction_tags.budget_id IS 'Budget of both the transaction and the tag, used for RLS';
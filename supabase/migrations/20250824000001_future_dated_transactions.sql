@@ -0,0 +1,667 @@
+-- Migration: Future-Dated Transactions
+-- Transactions dated after today are stored with status 'scheduled'. They leave envelope
+-- balances and the budget's available amount untouched until their date arrives and
+-- post_due_transactions flips them to 'posted'.
+
+-- Add status column (existing rows are all posted)
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'posted' NOT NULL
+  CHECK (status IN ('posted', 'scheduled'));
+
+-- Split lines and payoffs act on balances directly, so they must be posted when created
+ALTER TABLE public.transactions
+ADD CONSTRAINT valid_scheduled_transaction CHECK (
+  status = 'posted' OR (is_split = false AND transaction_type != 'payoff')
+);
+
+-- Create index for the auto-posting sweep
+CREATE INDEX idx_transactions_scheduled_date ON public.transactions(transaction_date)
+  WHERE status = 'scheduled' AND is_deleted = false;
+
+-- Derive status from the date on insert and whenever the date changes
+CREATE OR REPLACE FUNCTION public.set_transaction_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.transaction_date IS DISTINCT FROM OLD.transaction_date THEN
+    NEW.status := CASE WHEN NEW.transaction_date > CURRENT_DATE THEN 'scheduled' ELSE 'posted' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_transaction_status_on_transaction
+  BEFORE INSERT OR UPDATE OF transaction_date ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_transaction_status();
+
+-- Envelope balance trigger: skip scheduled rows until they post
+CREATE OR REPLACE FUNCTION public.update_envelope_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  amount_change DECIMAL(12, 2);
+  envelope_type TEXT;
+  current_balance_amount DECIMAL(12, 2);
+  excess_amount DECIMAL(12, 2);
+BEGIN
+  -- A scheduled row has not touched any balance yet. Treat it like a soft-deleted
+  -- row, so posting applies it and moving a posted row to a future date reverses it.
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'scheduled' THEN
+    OLD.is_deleted := true;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'scheduled' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status = 'posted' THEN
+      -- Reverse exactly what was applied when the row was posted
+      NEW := OLD;
+    END IF;
+    NEW.is_deleted := true;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.status = 'scheduled')
+    OR (TG_OP = 'DELETE' AND OLD.status = 'scheduled')
+    OR (TG_OP = 'UPDATE' AND OLD.is_deleted AND NEW.is_deleted
+        AND (OLD.status = 'scheduled' OR NEW.status = 'scheduled')) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Handle INSERT
+  IF TG_OP = 'INSERT' THEN
+    -- For transfers and expenses, decrease from_envelope balance
+    IF NEW.from_envelope_id IS NOT NULL THEN
+      -- Handle payoff transactions specially
+      IF NEW.transaction_type = 'payoff' THEN
+        -- Get current envelope state
+        SELECT e.envelope_type, e.current_balance INTO envelope_type, current_balance_amount
+        FROM public.envelopes e 
+        WHERE e.id = NEW.from_envelope_id;
+        
+        -- Calculate excess (current_balance minus payoff amount)
+        excess_amount := current_balance_amount - NEW.amount;
+        
+        -- Update envelope: clear current_balance completely, clear target_amount
+        UPDATE public.envelopes 
+        SET 
+          current_balance = 0,
+          target_amount = 0
+        WHERE id = NEW.from_envelope_id;
+        
+        -- Return excess to budget available_amount if any
+        IF excess_amount > 0 THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount + excess_amount
+          WHERE id = NEW.budget_id;
+        END IF;
+        
+      -- Handle expense transactions based on envelope type
+      ELSIF NEW.transaction_type = 'expense' THEN
+        SELECT e.envelope_type INTO envelope_type 
+        FROM public.envelopes e 
+        WHERE e.id = NEW.from_envelope_id;
+        
+        -- Update current_balance for all envelope types
+        UPDATE public.envelopes 
+        SET current_balance = current_balance - NEW.amount
+        WHERE id = NEW.from_envelope_id;
+        
+        -- For debt envelopes, also decrease target_amount (paying down debt)
+        IF envelope_type = 'debt' THEN
+          UPDATE public.envelopes 
+          SET target_amount = target_amount - NEW.amount
+          WHERE id = NEW.from_envelope_id;
+        END IF;
+      ELSE
+        -- Non-expense/payoff transactions: just update current_balance
+        UPDATE public.envelopes 
+        SET current_balance = current_balance - NEW.amount
+        WHERE id = NEW.from_envelope_id;
+      END IF;
+    END IF;
+    
+    -- For transfers and allocations, increase to_envelope balance
+    IF NEW.to_envelope_id IS NOT NULL THEN
+      UPDATE public.envelopes 
+      SET current_balance = current_balance + NEW.amount
+      WHERE id = NEW.to_envelope_id;
+    END IF;
+    
+  -- Handle UPDATE (simplified for payoff - they shouldn't be updated)
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Only process if not just a soft delete/restore
+    IF OLD.is_deleted = NEW.is_deleted THEN
+      -- Handle from_envelope changes
+      IF OLD.from_envelope_id IS DISTINCT FROM NEW.from_envelope_id OR OLD.amount != NEW.amount OR OLD.transaction_type != NEW.transaction_type THEN
+        -- Reverse old transaction
+        IF OLD.from_envelope_id IS NOT NULL THEN
+          -- Handle old payoff transaction reversal (complex - not recommended)
+          IF OLD.transaction_type = 'payoff' THEN
+            -- For payoff reversals, we'd need to restore the original target_amount and remove excess from budget
+            -- This is complex and not recommended for payoff transactions
+            RAISE EXCEPTION 'Payoff transactions should not be updated - delete and recreate instead';
+            
+          -- Handle old expense transaction reversal
+          ELSIF OLD.transaction_type = 'expense' THEN
+            SELECT e.envelope_type INTO envelope_type 
+            FROM public.envelopes e 
+            WHERE e.id = OLD.from_envelope_id;
+            
+            -- Reverse current_balance change
+            UPDATE public.envelopes 
+            SET current_balance = current_balance + OLD.amount
+            WHERE id = OLD.from_envelope_id;
+            
+            -- For debt envelopes, also reverse target_amount change
+            IF envelope_type = 'debt' THEN
+              UPDATE public.envelopes 
+              SET target_amount = target_amount + OLD.amount
+              WHERE id = OLD.from_envelope_id;
+            END IF;
+          ELSE
+            -- Non-expense/payoff transactions: just reverse current_balance
+            UPDATE public.envelopes 
+            SET current_balance = current_balance + OLD.amount
+            WHERE id = OLD.from_envelope_id;
+          END IF;
+        END IF;
+        
+        -- Apply new transaction
+        IF NEW.from_envelope_id IS NOT NULL THEN
+          -- Handle new payoff transaction
+          IF NEW.transaction_type = 'payoff' THEN
+            SELECT e.envelope_type, e.current_balance INTO envelope_type, current_balance_amount
+            FROM public.envelopes e 
+            WHERE e.id = NEW.from_envelope_id;
+            
+            -- Calculate excess
+            excess_amount := current_balance_amount - NEW.amount;
+            
+            -- Update envelope: clear completely
+            UPDATE public.envelopes 
+            SET 
+              current_balance = 0,
+              target_amount = 0
+            WHERE id = NEW.from_envelope_id;
+            
+            -- Return excess to budget
+            IF excess_amount > 0 THEN
+              UPDATE public.budgets 
+              SET available_amount = available_amount + excess_amount
+              WHERE id = NEW.budget_id;
+            END IF;
+            
+          -- Handle new expense transaction
+          ELSIF NEW.transaction_type = 'expense' THEN
+            SELECT e.envelope_type INTO envelope_type 
+            FROM public.envelopes e 
+            WHERE e.id = NEW.from_envelope_id;
+            
+            -- Update current_balance
+            UPDATE public.envelopes 
+            SET current_balance = current_balance - NEW.amount
+            WHERE id = NEW.from_envelope_id;
+            
+            -- For debt envelopes, also decrease target_amount
+            IF envelope_type = 'debt' THEN
+              UPDATE public.envelopes 
+              SET target_amount = target_amount - NEW.amount
+              WHERE id = NEW.from_envelope_id;
+            END IF;
+          ELSE
+            -- Non-expense/payoff transactions: just update current_balance
+            UPDATE public.envelopes 
+            SET current_balance = current_balance - NEW.amount
+            WHERE id = NEW.from_envelope_id;
+          END IF;
+        END IF;
+      END IF;
+      
+      -- Handle to_envelope changes (no special logic needed for debt envelopes here)
+      IF OLD.to_envelope_id IS DISTINCT FROM NEW.to_envelope_id OR OLD.amount != NEW.amount THEN
+        -- Reverse old transaction
+        IF OLD.to_envelope_id IS NOT NULL THEN
+          UPDATE public.envelopes 
+          SET current_balance = current_balance - OLD.amount
+          WHERE id = OLD.to_envelope_id;
+        END IF;
+        -- Apply new transaction
+        IF NEW.to_envelope_id IS NOT NULL THEN
+          UPDATE public.envelopes 
+          SET current_balance = current_balance + NEW.amount
+          WHERE id = NEW.to_envelope_id;
+        END IF;
+      END IF;
+    -- Handle soft delete
+    ELSIF OLD.is_deleted = false AND NEW.is_deleted = true THEN
+      -- Reverse the transaction
+      IF NEW.from_envelope_id IS NOT NULL THEN
+        -- Handle payoff transaction reversal
+        IF NEW.transaction_type = 'payoff' THEN
+          -- Complex reversal - restore original state
+          RAISE EXCEPTION 'Payoff transactions should be hard deleted, not soft deleted';
+          
+        -- Handle expense transaction reversal
+        ELSIF NEW.transaction_type = 'expense' THEN
+          SELECT e.envelope_type INTO envelope_type 
+          FROM public.envelopes e 
+          WHERE e.id = NEW.from_envelope_id;
+          
+          -- Reverse current_balance change
+          UPDATE public.envelopes 
+          SET current_balance = current_balance + NEW.amount
+          WHERE id = NEW.from_envelope_id;
+          
+          -- For debt envelopes, also reverse target_amount change
+          IF envelope_type = 'debt' THEN
+            UPDATE public.envelopes 
+            SET target_amount = target_amount + NEW.amount
+            WHERE id = NEW.from_envelope_id;
+          END IF;
+        ELSE
+          -- Non-expense/payoff transactions: just reverse current_balance
+          UPDATE public.envelopes 
+          SET current_balance = current_balance + NEW.amount
+          WHERE id = NEW.from_envelope_id;
+        END IF;
+      END IF;
+      IF NEW.to_envelope_id IS NOT NULL THEN
+        UPDATE public.envelopes 
+        SET current_balance = current_balance - NEW.amount
+        WHERE id = NEW.to_envelope_id;
+      END IF;
+    -- Handle restore from soft delete
+    ELSIF OLD.is_deleted = true AND NEW.is_deleted = false THEN
+      -- Reapply the transaction
+      IF NEW.from_envelope_id IS NOT NULL THEN
+        -- Handle payoff transaction
+        IF NEW.transaction_type = 'payoff' THEN
+          -- Complex restoration - not recommended
+          RAISE EXCEPTION 'Payoff transactions should not be restored from soft delete';
+          
+        -- Handle expense transaction
+        ELSIF NEW.transaction_type = 'expense' THEN
+          SELECT e.envelope_type INTO envelope_type 
+          FROM public.envelopes e 
+          WHERE e.id = NEW.from_envelope_id;
+          
+          -- Update current_balance
+          UPDATE public.envelopes 
+          SET current_balance = current_balance - NEW.amount
+          WHERE id = NEW.from_envelope_id;
+          
+          -- For debt envelopes, also decrease target_amount
+          IF envelope_type = 'debt' THEN
+            UPDATE public.envelopes 
+            SET target_amount = target_amount - NEW.amount
+            WHERE id = NEW.from_envelope_id;
+          END IF;
+        ELSE
+          -- Non-expense/payoff transactions: just update current_balance
+          UPDATE public.envelopes 
+          SET current_balance = current_balance - NEW.amount
+          WHERE id = NEW.from_envelope_id;
+        END IF;
+      END IF;
+      IF NEW.to_envelope_id IS NOT NULL THEN
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + NEW.amount
+        WHERE id = NEW.to_envelope_id;
+      END IF;
+    END IF;
+    
+  -- Handle DELETE (hard delete)
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Reverse the transaction
+    IF OLD.from_envelope_id IS NOT NULL THEN
+      -- Handle payoff transaction reversal
+      IF OLD.transaction_type = 'payoff' THEN
+        -- For payoff, we need to restore the original target_amount and remove excess from budget
+        -- This would require storing the original target_amount, which we don't have
+        -- For now, just reverse the current_balance change
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + OLD.amount
+        WHERE id = OLD.from_envelope_id;
+        
+      -- Handle expense transaction reversal
+      ELSIF OLD.transaction_type = 'expense' THEN
+        SELECT e.envelope_type INTO envelope_type 
+        FROM public.envelopes e 
+        WHERE e.id = OLD.from_envelope_id;
+        
+        -- Reverse current_balance change
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + OLD.amount
+        WHERE id = OLD.from_envelope_id;
+        
+        -- For debt envelopes, also reverse target_amount change
+        IF envelope_type = 'debt' THEN
+          UPDATE public.envelopes 
+          SET target_amount = target_amount + OLD.amount
+          WHERE id = OLD.from_envelope_id;
+        END IF;
+      ELSE
+        -- Non-expense/payoff transactions: just reverse current_balance
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + OLD.amount
+        WHERE id = OLD.from_envelope_id;
+      END IF;
+    END IF;
+    IF OLD.to_envelope_id IS NOT NULL THEN
+      UPDATE public.envelopes 
+      SET current_balance = current_balance - OLD.amount
+      WHERE id = OLD.to_envelope_id;
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Budget available_amount trigger: skip scheduled rows until they post
+CREATE OR REPLACE FUNCTION public.update_budget_available()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- A scheduled row has not touched any balance yet. Treat it like a soft-deleted
+  -- row, so posting applies it and moving a posted row to a future date reverses it.
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'scheduled' THEN
+    OLD.is_deleted := true;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'scheduled' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status = 'posted' THEN
+      -- Reverse exactly what was applied when the row was posted
+      NEW := OLD;
+    END IF;
+    NEW.is_deleted := true;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.status = 'scheduled')
+    OR (TG_OP = 'DELETE' AND OLD.status = 'scheduled')
+    OR (TG_OP = 'UPDATE' AND OLD.is_deleted AND NEW.is_deleted
+        AND (OLD.status = 'scheduled' OR NEW.status = 'scheduled')) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Handle INSERT
+  IF TG_OP = 'INSERT' THEN
+    -- For income transactions, increase budget available_amount
+    IF NEW.transaction_type = 'income' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount + NEW.amount
+      WHERE id = NEW.budget_id;
+    -- For allocation transactions, decrease budget available_amount
+    ELSIF NEW.transaction_type = 'allocation' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount - NEW.amount
+      WHERE id = NEW.budget_id;
+    END IF;
+    
+  -- Handle UPDATE
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Only process if not just a soft delete/restore
+    IF OLD.is_deleted = NEW.is_deleted THEN
+      -- Handle income transactions
+      IF OLD.transaction_type = 'income' OR NEW.transaction_type = 'income' THEN
+        -- Reverse old amount
+        IF OLD.transaction_type = 'income' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount - OLD.amount
+          WHERE id = OLD.budget_id;
+        END IF;
+        -- Apply new amount
+        IF NEW.transaction_type = 'income' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount + NEW.amount
+          WHERE id = NEW.budget_id;
+        END IF;
+      END IF;
+      
+      -- Handle allocation transactions
+      IF OLD.transaction_type = 'allocation' OR NEW.transaction_type = 'allocation' THEN
+        -- Reverse old amount
+        IF OLD.transaction_type = 'allocation' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount + OLD.amount
+          WHERE id = OLD.budget_id;
+        END IF;
+        -- Apply new amount
+        IF NEW.transaction_type = 'allocation' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount - NEW.amount
+          WHERE id = NEW.budget_id;
+        END IF;
+      END IF;
+    -- Handle soft delete
+    ELSIF OLD.is_deleted = false AND NEW.is_deleted = true THEN
+      -- Reverse the transaction
+      IF NEW.transaction_type = 'income' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount - NEW.amount
+        WHERE id = NEW.budget_id;
+      ELSIF NEW.transaction_type = 'allocation' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount + NEW.amount
+        WHERE id = NEW.budget_id;
+      END IF;
+    -- Handle restore from soft delete
+    ELSIF OLD.is_deleted = true AND NEW.is_deleted = false THEN
+      -- Reapply the transaction
+      IF NEW.transaction_type = 'income' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount + NEW.amount
+        WHERE id = NEW.budget_id;
+      ELSIF NEW.transaction_type = 'allocation' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount - NEW.amount
+        WHERE id = NEW.budget_id;
+      END IF;
+    END IF;
+    
+  -- Handle DELETE (hard delete - should not happen with soft deletes)
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Reverse the transaction
+    IF OLD.transaction_type = 'income' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount - OLD.amount
+      WHERE id = OLD.budget_id;
+    ELSIF OLD.transaction_type = 'allocation' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount + OLD.amount
+      WHERE id = OLD.budget_id;
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Post scheduled transactions whose date has arrived. The balance triggers apply them
+-- as the status changes. Runs for a single budget, or for every budget when the
+-- budget id is NULL (service role).
+CREATE OR REPLACE FUNCTION public.post_due_transactions(
+  p_budget_id UUID DEFAULT NULL,
+  p_as_of DATE DEFAULT CURRENT_DATE
+) RETURNS INTEGER AS $$
+DECLARE
+  posted_count INTEGER;
+BEGIN
+  UPDATE public.transactions
+  SET status = 'posted'
+  WHERE status = 'scheduled'
+    AND is_deleted = false
+    AND transaction_date <= p_as_of
+    AND (p_budget_id IS NULL OR budget_id = p_budget_id);
+
+  GET DIAGNOSTICS posted_count = ROW_COUNT;
+  RETURN posted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Current envelope balances alongside the effect of scheduled transactions,
+-- optionally only those dated on or before p_through_date
+CREATE OR REPLACE FUNCTION public.get_projected_envelope_balances(
+  p_budget_id UUID,
+  p_through_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+  envelope_id UUID,
+  current_balance DECIMAL(12, 2),
+  pending_amount DECIMAL(12, 2),
+  pending_count INTEGER,
+  projected_balance DECIMAL(12, 2)
+) AS $$
+  WITH pending AS (
+    SELECT t.from_envelope_id AS envelope_id, -t.amount AS amount
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'scheduled'
+      AND t.is_deleted = false
+      AND t.from_envelope_id IS NOT NULL
+      AND (p_through_date IS NULL OR t.transaction_date <= p_through_date)
+    UNION ALL
+    SELECT t.to_envelope_id, t.amount
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'scheduled'
+      AND t.is_deleted = false
+      AND t.to_envelope_id IS NOT NULL
+      AND (p_through_date IS NULL OR t.transaction_date <= p_through_date)
+  )
+  SELECT
+    e.id,
+    e.current_balance,
+    COALESCE(SUM(p.amount), 0),
+    COUNT(p.envelope_id)::INTEGER,
+    e.current_balance + COALESCE(SUM(p.amount), 0)
+  FROM public.envelopes e
+  LEFT JOIN pending p ON p.envelope_id = e.id
+  WHERE e.budget_id = p_budget_id
+  GROUP BY e.id, e.current_balance
+  ORDER BY e.display_order;
+$$ LANGUAGE sql STABLE;
+
+-- Dashboard summary: month-to-date figures cover posted transactions only; scheduled
+-- ones are reported separately with projected balances
+CREATE OR REPLACE FUNCTION get_dashboard_summary(p_budget_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+  current_month_start DATE;
+  current_month_end DATE;
+BEGIN
+  -- Get current month boundaries
+  current_month_start := DATE_TRUNC('month', CURRENT_DATE);
+  current_month_end := DATE_TRUNC('month', CURRENT_DATE) + INTERVAL '1 month' - INTERVAL '1 day';
+
+  WITH envelope_stats AS (
+    SELECT 
+      COUNT(*) as total_envelopes,
+      COUNT(CASE WHEN is_active THEN 1 END) as active_envelopes,
+      COUNT(CASE WHEN current_balance < 0 AND is_active THEN 1 END) as negative_envelopes,
+      COALESCE(SUM(CASE WHEN is_active THEN current_balance ELSE 0 END), 0) as total_balance,
+      COALESCE(SUM(CASE WHEN is_active THEN target_amount ELSE 0 END), 0) as total_targets,
+      COALESCE(SUM(CASE WHEN is_active THEN projected_balance ELSE 0 END), 0) as projected_balance
+    FROM envelopes
+    JOIN (
+      SELECT envelope_id, projected_balance
+      FROM public.get_projected_envelope_balances(p_budget_id)
+    ) pb ON pb.envelope_id = envelopes.id
+    WHERE budget_id = p_budget_id
+  ),
+  monthly_transactions AS (
+    SELECT 
+      COUNT(CASE WHEN transaction_type = 'income' THEN 1 END) as income_count,
+      COUNT(CASE WHEN transaction_type IN ('expense', 'debt_payment') THEN 1 END) as expense_count,
+      COUNT(CASE WHEN NOT is_cleared THEN 1 END) as uncleared_count,
+      COALESCE(SUM(CASE WHEN transaction_type = 'income' THEN amount ELSE 0 END), 0) as monthly_income,
+      COALESCE(SUM(CASE WHEN transaction_type IN ('expense', 'debt_payment') THEN amount ELSE 0 END), 0) as monthly_spending
+    FROM transactions 
+    WHERE budget_id = p_budget_id 
+      AND is_deleted = false
+      AND status = 'posted'
+      AND transaction_date >= current_month_start
+      AND transaction_date <= current_month_end
+  ),
+  recent_activity AS (
+    SELECT JSON_AGG(
+      JSON_BUILD_OBJECT(
+        'id', id,
+        'transaction_type', transaction_type,
+        'amount', amount,
+        'transaction_date', transaction_date,
+        'description', description,
+        'is_cleared', is_cleared
+      ) ORDER BY created_at DESC
+    ) as recent_transactions
+    FROM (
+      SELECT * FROM transactions 
+      WHERE budget_id = p_budget_id 
+        AND is_deleted = false
+        AND status = 'posted'
+      ORDER BY created_at DESC 
+      LIMIT 10
+    ) t
+  ),
+  pending_transactions AS (
+    SELECT
+      COUNT(*) as pending_count,
+      COALESCE(SUM(CASE WHEN transaction_type = 'income' THEN amount ELSE 0 END), 0) as pending_income,
+      COALESCE(SUM(CASE WHEN transaction_type = 'expense' THEN amount ELSE 0 END), 0) as pending_spending,
+      COALESCE(SUM(CASE WHEN transaction_type = 'allocation' THEN amount ELSE 0 END), 0) as pending_allocations
+    FROM transactions
+    WHERE budget_id = p_budget_id
+      AND is_deleted = false
+      AND status = 'scheduled'
+  ),
+  budget_info AS (
+    SELECT available_amount
+    FROM budgets
+    WHERE id = p_budget_id
+  )
+  SELECT JSON_BUILD_OBJECT(
+    'available_amount', b.available_amount,
+    'total_envelope_balance', e.total_balance,
+    'total_envelope_targets', e.total_targets,
+    'budget_utilization_percentage', 
+      CASE 
+        WHEN e.total_targets > 0 THEN ROUND((e.total_balance / e.total_targets * 100)::numeric, 2)
+        ELSE 0 
+      END,
+    'envelope_stats', JSON_BUILD_OBJECT(
+      'total_envelopes', e.total_envelopes,
+      'active_envelopes', e.active_envelopes,
+      'negative_envelopes', e.negative_envelopes,
+      'allocation_percentage', 
+        CASE 
+          WHEN b.available_amount + e.total_balance > 0 
+          THEN ROUND((e.total_balance / (b.available_amount + e.total_balance) * 100)::numeric, 2)
+          ELSE 0 
+        END
+    ),
+    'monthly_summary', JSON_BUILD_OBJECT(
+      'income', m.monthly_income,
+      'spending', m.monthly_spending,
+      'net_flow', m.monthly_income - m.monthly_spending,
+      'income_transactions', m.income_count,
+      'expense_transactions', m.expense_count,
+      'uncleared_transactions', m.uncleared_count
+    ),
+    'recent_activity', COALESCE(r.recent_transactions, '[]'::json),
+    'pending_summary', JSON_BUILD_OBJECT(
+      'pending_transactions', p.pending_count,
+      'income', p.pending_income,
+      'spending', p.pending_spending,
+      'projected_available_amount', b.available_amount + p.pending_income - p.pending_allocations,
+      'projected_envelope_balance', e.projected_balance
+    )
+  ) INTO result
+  FROM budget_info b, envelope_stats e, monthly_transactions m, recent_activity r, pending_transactions p;
+
+  RETURN result;
+END;
+$$;
+
+-- Add comments
+COMMENT ON COLUMN public.transactions.status IS 'posted once the transaction affects balances; scheduled while its date is in the future';
+COMMENT ON FUNCTION public.post_due_transactions(UUID, DATE) IS 'Posts scheduled transactions dated on or before p_as_of, for one budget or all budgets';
+COMMENT ON FUNCTION public.get_projected_envelope_balances(UUID, DATE) IS 'Envelope balances including scheduled transactions, optionally up to a date';
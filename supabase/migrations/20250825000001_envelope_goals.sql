@@ -0,0 +1,263 @@
+-- Migration: Envelope Goals
+-- Gives an envelope's target_amount a cadence: have it saved by a date, assign it
+-- every month, or keep at least that much in the envelope. Progress is measured
+-- per calendar month so "what do I still need to assign this month" is one query.
+
+-- Add goal columns to envelopes
+ALTER TABLE public.envelopes
+ADD COLUMN IF NOT EXISTS goal_type TEXT CHECK (goal_type IN ('target_by_date', 'monthly', 'minimum_balance')),
+ADD COLUMN IF NOT EXISTS target_date DATE;
+
+-- A goal needs a positive amount, a due date when it is date based, and cannot sit
+-- on a debt envelope where target_amount tracks the amount owed
+ALTER TABLE public.envelopes
+ADD CONSTRAINT valid_envelope_goal CHECK (
+  goal_type IS NULL OR (
+    envelope_type != 'debt' AND
+    target_amount IS NOT NULL AND
+    target_amount > 0 AND
+    (goal_type != 'target_by_date' OR target_date IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_envelopes_goal_type ON public.envelopes(budget_id)
+  WHERE goal_type IS NOT NULL;
+
+-- Goal progress for every active envelope with a goal, for the month containing p_as_of.
+-- funded_this_period is the net amount assigned this month: posted allocations and
+-- transfers in, less transfers out.
+CREATE OR REPLACE FUNCTION public.get_envelope_goal_progress(
+  p_budget_id UUID,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  envelope_id UUID,
+  goal_type TEXT,
+  target_amount DECIMAL(12, 2),
+  target_date DATE,
+  current_balance DECIMAL(12, 2),
+  funded_this_period DECIMAL(12, 2),
+  required_this_period DECIMAL(12, 2),
+  funded_percentage DECIMAL(5, 2),
+  underfunded_amount DECIMAL(12, 2)
+) AS $$
+  WITH period AS (
+    SELECT
+      DATE_TRUNC('month', p_as_of)::DATE AS period_start,
+      (DATE_TRUNC('month', p_as_of) + INTERVAL '1 month' - INTERVAL '1 day')::DATE AS period_end
+  ),
+  funding AS (
+    SELECT t.to_envelope_id AS envelope_id, t.amount
+    FROM public.transactions t, period
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type IN ('allocation', 'transfer')
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date BETWEEN period.period_start AND period.period_end
+    UNION ALL
+    SELECT t.from_envelope_id, -t.amount
+    FROM public.transactions t, period
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type = 'transfer'
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date BETWEEN period.period_start AND period.period_end
+  ),
+  goals AS (
+    SELECT
+      e.id,
+      e.goal_type,
+      e.target_amount,
+      e.target_date,
+      e.current_balance,
+      e.display_order,
+      COALESCE(SUM(f.amount), 0) AS funded,
+      -- Months left including this one; an overdue goal is due in full now
+      GREATEST(
+        (EXTRACT(YEAR FROM e.target_date) - EXTRACT(YEAR FROM p_as_of)) * 12 +
+        (EXTRACT(MONTH FROM e.target_date) - EXTRACT(MONTH FROM p_as_of)) + 1,
+        1
+      )::INTEGER AS months_left
+    FROM public.envelopes e
+    LEFT JOIN funding f ON f.envelope_id = e.id
+    WHERE e.budget_id = p_budget_id
+      AND e.is_active = true
+      AND e.goal_type IS NOT NULL
+    GROUP BY e.id
+  ),
+  required AS (
+    SELECT
+      g.*,
+      CASE g.goal_type
+        -- Spread what was still missing at the start of the month over the months left
+        WHEN 'target_by_date' THEN
+          ROUND(GREATEST(g.target_amount - (g.current_balance - g.funded), 0) / g.months_left, 2)
+        WHEN 'monthly' THEN g.target_amount
+        ELSE GREATEST(g.target_amount - g.current_balance, 0)
+      END AS required_amount
+    FROM goals g
+  )
+  SELECT
+    r.id,
+    r.goal_type,
+    r.target_amount,
+    r.target_date,
+    r.current_balance,
+    r.funded,
+    r.required_amount,
+    ROUND(LEAST(GREATEST(
+      CASE r.goal_type
+        WHEN 'monthly' THEN r.funded
+        ELSE r.current_balance
+      END, 0) / r.target_amount * 100, 100), 2),
+    CASE r.goal_type
+      WHEN 'minimum_balance' THEN r.required_amount
+      ELSE GREATEST(r.required_amount - GREATEST(r.funded, 0), 0)
+    END
+  FROM required r
+  ORDER BY r.display_order;
+$$ LANGUAGE sql STABLE;
+
+-- Dashboard summary: add what envelope goals still need this month
+CREATE OR REPLACE FUNCTION get_dashboard_summary(p_budget_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+  current_month_start DATE;
+  current_month_end DATE;
+BEGIN
+  -- Get current month boundaries
+  current_month_start := DATE_TRUNC('month', CURRENT_DATE);
+  current_month_end := DATE_TRUNC('month', CURRENT_DATE) + INTERVAL '1 month' - INTERVAL '1 day';
+
+  WITH envelope_stats AS (
+    SELECT 
+      COUNT(*) as total_envelopes,
+      COUNT(CASE WHEN is_active THEN 1 END) as active_envelopes,
+      COUNT(CASE WHEN current_balance < 0 AND is_active THEN 1 END) as negative_envelopes,
+      COALESCE(SUM(CASE WHEN is_active THEN current_balance ELSE 0 END), 0) as total_balance,
+      COALESCE(SUM(CASE WHEN is_active THEN target_amount ELSE 0 END), 0) as total_targets,
+      COALESCE(SUM(CASE WHEN is_active THEN projected_balance ELSE 0 END), 0) as projected_balance
+    FROM envelopes
+    JOIN (
+      SELECT envelope_id, projected_balance
+      FROM public.get_projected_envelope_balances(p_budget_id)
+    ) pb ON pb.envelope_id = envelopes.id
+    WHERE budget_id = p_budget_id
+  ),
+  monthly_transactions AS (
+    SELECT 
+      COUNT(CASE WHEN transaction_type = 'income' THEN 1 END) as income_count,
+      COUNT(CASE WHEN transaction_type IN ('expense', 'debt_payment') THEN 1 END) as expense_count,
+      COUNT(CASE WHEN NOT is_cleared THEN 1 END) as uncleared_count,
+      COALESCE(SUM(CASE WHEN transaction_type = 'income' THEN amount ELSE 0 END), 0) as monthly_income,
+      COALESCE(SUM(CASE WHEN transaction_type IN ('expense', 'debt_payment') THEN amount ELSE 0 END), 0) as monthly_spending
+    FROM transactions 
+    WHERE budget_id = p_budget_id 
+      AND is_deleted = false
+      AND status = 'posted'
+      AND transaction_date >= current_month_start
+      AND transaction_date <= current_month_end
+  ),
+  recent_activity AS (
+    SELECT JSON_AGG(
+      JSON_BUILD_OBJECT(
+        'id', id,
+        'transaction_type', transaction_type,
+        'amount', amount,
+        'transaction_date', transaction_date,
+        'description', description,
+        'is_cleared', is_cleared
+      ) ORDER BY created_at DESC
+    ) as recent_transactions
+    FROM (
+      SELECT * FROM transactions 
+      WHERE budget_id = p_budget_id 
+        AND is_deleted = false
+        AND status = 'posted'
+      ORDER BY created_at DESC 
+      LIMIT 10
+    ) t
+  ),
+  pending_transactions AS (
+    SELECT
+      COUNT(*) as pending_count,
+      COALESCE(SUM(CASE WHEN transaction_type = 'income' THEN amount ELSE 0 END), 0) as pending_income,
+      COALESCE(SUM(CASE WHEN transaction_type = 'expense' THEN amount ELSE 0 END), 0) as pending_spending,
+      COALESCE(SUM(CASE WHEN transaction_type = 'allocation' THEN amount ELSE 0 END), 0) as pending_allocations
+    FROM transactions
+    WHERE budget_id = p_budget_id
+      AND is_deleted = false
+      AND status = 'scheduled'
+  ),
+  goal_progress AS (
+    SELECT
+      COUNT(*) as goal_count,
+      COUNT(CASE WHEN underfunded_amount > 0 THEN 1 END) as underfunded_count,
+      COALESCE(SUM(required_this_period), 0) as required_this_period,
+      COALESCE(SUM(funded_this_period), 0) as funded_this_period,
+      COALESCE(SUM(underfunded_amount), 0) as underfunded_amount
+    FROM public.get_envelope_goal_progress(p_budget_id)
+  ),
+  budget_info AS (
+    SELECT available_amount
+    FROM budgets
+    WHERE id = p_budget_id
+  )
+  SELECT JSON_BUILD_OBJECT(
+    'available_amount', b.available_amount,
+    'total_envelope_balance', e.total_balance,
+    'total_envelope_targets', e.total_targets,
+    'budget_utilization_percentage', 
+      CASE 
+        WHEN e.total_targets > 0 THEN ROUND((e.total_balance / e.total_targets * 100)::numeric, 2)
+        ELSE 0 
+      END,
+    'envelope_stats', JSON_BUILD_OBJECT(
+      'total_envelopes', e.total_envelopes,
+      'active_envelopes', e.active_envelopes,
+      'negative_envelopes', e.negative_envelopes,
+      'allocation_percentage', 
+        CASE 
+          WHEN b.available_amount + e.total_balance > 0 
+          THEN ROUND((e.total_balance / (b.available_amount + e.total_balance) * 100)::numeric, 2)
+          ELSE 0 
+        END
+    ),
+    'monthly_summary', JSON_BUILD_OBJECT(
+      'income', m.monthly_income,
+      'spending', m.monthly_spending,
+      'net_flow', m.monthly_income - m.monthly_spending,
+      'income_transactions', m.income_count,
+      'expense_transactions', m.expense_count,
+      'uncleared_transactions', m.uncleared_count
+    ),
+    'recent_activity', COALESCE(r.recent_transactions, '[]'::json),
+    'pending_summary', JSON_BUILD_OBJECT(
+      'pending_transactions', p.pending_count,
+      'income', p.pending_income,
+      'spending', p.pending_spending,
+      'projected_available_amount', b.available_amount + p.pending_income - p.pending_allocations,
+      'projected_envelope_balance', e.projected_balance
+    ),
+    'goal_summary', JSON_BUILD_OBJECT(
+      'goal_count', g.goal_count,
+      'underfunded_count', g.underfunded_count,
+      'required_this_period', g.required_this_period,
+      'funded_this_period', g.funded_this_period,
+      'underfunded_amount', g.underfunded_amount
+    )
+  ) INTO result
+  FROM budget_info b, envelope_stats e, monthly_transactions m, recent_activity r, pending_transactions p, goal_progress g;
+
+  RETURN result;
+END;
+$$;
+
+-- Add comments
+COMMENT ON COLUMN public.envelopes.goal_type IS 'target_by_date, monthly or minimum_balance; target_amount is the goal amount';
+COMMENT ON COLUMN public.envelopes.target_date IS 'Date a target_by_date goal should be fully funded';
+COMMENT ON FUNCTION public.get_envelope_goal_progress(UUID, DATE) IS 'Per-envelope goal progress for the month containing p_as_of';
\ No newline at end of file
@@ -0,0 +1,357 @@
+-- Migration: Allocation Plans
+-- Saved recipes for splitting income across envelopes. Running a plan creates one
+-- allocation transaction per step in a single database transaction, so either the
+-- whole plan is applied to budgets.available_amount or none of it is.
+
+-- Create allocation_plans table
+CREATE TABLE IF NOT EXISTS public.allocation_plans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  description TEXT,
+  income_source_id UUID REFERENCES public.income_sources(id) ON DELETE SET NULL,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Create allocation_plan_steps table. Steps run in step_order: fixed and percentage
+-- steps must be covered in full, fill_to_target and remainder steps take what is left.
+CREATE TABLE IF NOT EXISTS public.allocation_plan_steps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID REFERENCES public.allocation_plans(id) ON DELETE CASCADE NOT NULL,
+  envelope_id UUID REFERENCES public.envelopes(id) ON DELETE CASCADE NOT NULL,
+  step_type TEXT NOT NULL CHECK (step_type IN ('fixed', 'percentage', 'fill_to_target', 'remainder')),
+  amount DECIMAL(12, 2) CHECK (amount > 0),
+  percentage DECIMAL(5, 2) CHECK (percentage > 0 AND percentage <= 100),
+  step_order INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT valid_allocation_step CHECK (
+    (step_type = 'fixed' AND amount IS NOT NULL AND percentage IS NULL) OR
+    (step_type = 'percentage' AND percentage IS NOT NULL AND amount IS NULL) OR
+    (step_type IN ('fill_to_target', 'remainder') AND amount IS NULL AND percentage IS NULL)
+  ),
+  CONSTRAINT unique_allocation_step_order UNIQUE (plan_id, step_order)
+);
+
+-- Create indexes
+CREATE INDEX idx_allocation_plans_budget_id ON public.allocation_plans(budget_id);
+CREATE INDEX idx_allocation_plans_income_source_id ON public.allocation_plans(income_source_id)
+  WHERE income_source_id IS NOT NULL;
+CREATE INDEX idx_allocation_plan_steps_envelope_id ON public.allocation_plan_steps(envelope_id);
+
+-- Enable RLS
+ALTER TABLE public.allocation_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.allocation_plan_steps ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for allocation_plans
+CREATE POLICY "Users can view allocation plans in their budgets"
+  ON public.allocation_plans
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = allocation_plans.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create allocation plans in their budgets"
+  ON public.allocation_plans
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = allocation_plans.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update allocation plans in their budgets"
+  ON public.allocation_plans
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = allocation_plans.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete allocation plans in their budgets"
+  ON public.allocation_plans
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = allocation_plans.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- RLS policies for allocation_plan_steps (steps are replaced as a set, never updated)
+CREATE POLICY "Users can view allocation plan steps in their budgets"
+  ON public.allocation_plan_steps
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.allocation_plans
+    JOIN public.budgets ON budgets.id = allocation_plans.budget_id
+    WHERE allocation_plans.id = allocation_plan_steps.plan_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create allocation plan steps in their budgets"
+  ON public.allocation_plan_steps
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.allocation_plans
+    JOIN public.budgets ON budgets.id = allocation_plans.budget_id
+    WHERE allocation_plans.id = allocation_plan_steps.plan_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete allocation plan steps in their budgets"
+  ON public.allocation_plan_steps
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.allocation_plans
+    JOIN public.budgets ON budgets.id = allocation_plans.budget_id
+    WHERE allocation_plans.id = allocation_plan_steps.plan_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- Add trigger for auto-updating updated_at
+CREATE TRIGGER update_allocation_plans_updated_at
+  BEFORE UPDATE ON public.allocation_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A plan's income source and step envelopes must belong to the plan's budget
+CREATE OR REPLACE FUNCTION public.validate_allocation_plan_income_source()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.income_source_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.income_sources
+    WHERE id = NEW.income_source_id AND budget_id = NEW.budget_id
+  ) THEN
+    RAISE EXCEPTION 'Income source does not belong to this budget';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_allocation_plan_income_source
+  BEFORE INSERT OR UPDATE OF income_source_id ON public.allocation_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_allocation_plan_income_source();
+
+CREATE OR REPLACE FUNCTION public.validate_allocation_plan_step()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.allocation_plans p
+    JOIN public.envelopes e ON e.budget_id = p.budget_id
+    WHERE p.id = NEW.plan_id AND e.id = NEW.envelope_id
+  ) THEN
+    RAISE EXCEPTION 'Envelope does not belong to this budget';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_allocation_plan_step_budget
+  BEFORE INSERT ON public.allocation_plan_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_allocation_plan_step();
+
+-- Replace the steps of a plan with p_steps, numbered in array order.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.replace_allocation_plan_steps(
+  p_plan_id UUID,
+  p_steps JSONB
+)
+RETURNS SETOF public.allocation_plan_steps AS $$
+BEGIN
+  IF p_steps IS NULL OR jsonb_array_length(p_steps) = 0 THEN
+    RAISE EXCEPTION 'Allocation plans require at least one step';
+  END IF;
+
+  DELETE FROM public.allocation_plan_steps
+  WHERE plan_id = p_plan_id;
+
+  INSERT INTO public.allocation_plan_steps (plan_id, envelope_id, step_type, amount, percentage, step_order)
+  SELECT
+    p_plan_id,
+    (steps.step->>'envelope_id')::UUID,
+    steps.step->>'step_type',
+    (steps.step->>'amount')::DECIMAL(12, 2),
+    (steps.step->>'percentage')::DECIMAL(5, 2),
+    (steps.step_number - 1)::INTEGER
+  FROM jsonb_array_elements(p_steps) WITH ORDINALITY AS steps(step, step_number);
+
+  RETURN QUERY
+  SELECT * FROM public.allocation_plan_steps
+  WHERE plan_id = p_plan_id
+  ORDER BY step_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Work out a plan's allocations and, unless p_preview, create them as allocation
+-- transactions. The amount to distribute is p_amount, else the amount of
+-- p_income_transaction_id, else everything available in the budget. Percentages are
+-- of that amount. A real run fails as a whole when the plan needs more than is
+-- available; a preview reports the shortfall instead.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.run_allocation_plan(
+  p_plan_id UUID,
+  p_amount DECIMAL(12, 2) DEFAULT NULL,
+  p_income_transaction_id UUID DEFAULT NULL,
+  p_transaction_date DATE DEFAULT CURRENT_DATE,
+  p_preview BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_plan public.allocation_plans;
+  v_income public.transactions;
+  v_available DECIMAL(12, 2);
+  v_pool DECIMAL(12, 2);
+  v_remaining DECIMAL(12, 2);
+  v_total DECIMAL(12, 2);
+  v_covered DECIMAL(12, 2);
+  v_shortfall DECIMAL(12, 2);
+  v_step RECORD;
+  v_amount DECIMAL(12, 2);
+  v_transaction_id UUID;
+  v_lines JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_plan FROM public.allocation_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Allocation plan % not found', p_plan_id;
+  END IF;
+
+  IF NOT p_preview AND NOT v_plan.is_active THEN
+    RAISE EXCEPTION 'Allocation plan is inactive'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_transaction_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Allocation plans cannot be run with a future date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialize runs against the same budget so the available amount can't change underneath
+  IF p_preview THEN
+    SELECT available_amount INTO v_available FROM public.budgets WHERE id = v_plan.budget_id;
+  ELSE
+    SELECT available_amount INTO v_available FROM public.budgets WHERE id = v_plan.budget_id FOR UPDATE;
+  END IF;
+
+  IF p_income_transaction_id IS NOT NULL THEN
+    SELECT * INTO v_income
+    FROM public.transactions
+    WHERE id = p_income_transaction_id
+    AND budget_id = v_plan.budget_id
+    AND transaction_type = 'income'
+    AND status = 'posted'
+    AND is_deleted = false;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Income transaction not found'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_plan.income_source_id IS NOT NULL AND v_income.income_source_id IS DISTINCT FROM v_plan.income_source_id THEN
+      RAISE EXCEPTION 'Income transaction is not from this plan''s income source'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  v_pool := COALESCE(p_amount, v_income.amount, v_available);
+  IF v_pool <= 0 THEN
+    RAISE EXCEPTION 'There is nothing available to allocate'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_remaining := v_pool;
+
+  FOR v_step IN
+    SELECT s.*, e.current_balance, e.target_amount
+    FROM public.allocation_plan_steps s
+    JOIN public.envelopes e ON e.id = s.envelope_id
+    WHERE s.plan_id = p_plan_id
+    ORDER BY s.step_order
+  LOOP
+    v_amount := CASE v_step.step_type
+      WHEN 'fixed' THEN v_step.amount
+      WHEN 'percentage' THEN ROUND(v_pool * v_step.percentage / 100, 2)
+      WHEN 'fill_to_target' THEN LEAST(
+        GREATEST(COALESCE(v_step.target_amount, 0) - v_step.current_balance, 0),
+        GREATEST(v_remaining, 0)
+      )
+      ELSE GREATEST(v_remaining, 0)
+    END;
+
+    v_remaining := v_remaining - v_amount;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'step_id', v_step.id,
+      'envelope_id', v_step.envelope_id,
+      'step_type', v_step.step_type,
+      'amount', v_amount,
+      'transaction_id', NULL
+    ));
+  END LOOP;
+
+  IF jsonb_array_length(v_lines) = 0 THEN
+    RAISE EXCEPTION 'Allocation plan has no steps'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_total := v_pool - v_remaining;
+  v_covered := LEAST(v_pool, v_available);
+  v_shortfall := GREATEST(v_total - v_covered, 0);
+
+  IF NOT p_preview THEN
+    IF v_shortfall > 0 THEN
+      RAISE EXCEPTION 'Not enough available to cover the allocation plan: it needs % but only % is available', v_total, v_covered
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- The balance triggers move each amount from available_amount into its envelope
+    FOR i IN 0 .. jsonb_array_length(v_lines) - 1 LOOP
+      IF (v_lines->i->>'amount')::DECIMAL(12, 2) > 0 THEN
+        INSERT INTO public.transactions (
+          budget_id,
+          transaction_type,
+          amount,
+          description,
+          transaction_date,
+          to_envelope_id
+        ) VALUES (
+          v_plan.budget_id,
+          'allocation',
+          (v_lines->i->>'amount')::DECIMAL(12, 2),
+          v_plan.name,
+          p_transaction_date,
+          (v_lines->i->>'envelope_id')::UUID
+        )
+        RETURNING id INTO v_transaction_id;
+
+        v_lines := jsonb_set(v_lines, ARRAY[i::TEXT, 'transaction_id'], to_jsonb(v_transaction_id));
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'plan_id', v_plan.id,
+    'amount', v_pool,
+    'available_amount', v_available,
+    'total_allocated', v_total,
+    'shortfall', v_shortfall,
+    'transaction_date', p_transaction_date,
+    'allocations', v_lines
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON TABLE public.allocation_plans IS 'Saved plans for distributing income across envelopes';
+COMMENT ON COLUMN public.allocation_plans.income_source_id IS 'Income source the plan is meant for; runs from an income transaction must match it';
+COMMENT ON TABLE public.allocation_plan_steps IS 'Ordered steps of an allocation plan';
+COMMENT ON COLUMN public.allocation_plan_steps.step_type IS 'fixed amount, percentage of the amount distributed, fill_to_target (up to envelope target_amount) or remainder';
+COMMENT ON FUNCTION public.replace_allocation_plan_steps(UUID, JSONB) IS 'Atomically replaces the steps of an allocation plan';
+COMMENT ON FUNCTION public.run_allocation_plan(UUID, DECIMAL, UUID, DATE, BOOLEAN) IS 'Previews or atomically runs an allocation plan as allocation transactions';
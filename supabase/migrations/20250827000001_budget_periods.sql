@@ -0,0 +1,563 @@
+-- Migration: Budget Periods
+-- Calendar-month view of envelope balances. For any month we report what was assigned
+-- to and spent from each envelope and what it had left. Closing a month applies the
+-- budget's rollover rule for each envelope type and snapshots the figures, so the
+-- history stays fixed once a month is closed.
+
+-- Create budget_rollover_rules table. Envelope types without a rule carry over.
+CREATE TABLE IF NOT EXISTS public.budget_rollover_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  envelope_type TEXT NOT NULL CHECK (envelope_type IN ('regular', 'debt', 'savings')),
+  rollover_rule TEXT NOT NULL CHECK (rollover_rule IN ('carry_over', 'reset', 'return_overspending')),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_budget_rollover_rule UNIQUE (budget_id, envelope_type)
+);
+
+-- Create budget_periods table (one row per closed month)
+CREATE TABLE IF NOT EXISTS public.budget_periods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  period_start DATE NOT NULL CHECK (period_start = DATE_TRUNC('month', period_start)::DATE),
+  period_end DATE NOT NULL,
+  closed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  closed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_budget_period UNIQUE (budget_id, period_start)
+);
+
+-- Create envelope_period_balances table (snapshot of each envelope when a month closes)
+CREATE TABLE IF NOT EXISTS public.envelope_period_balances (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_id UUID REFERENCES public.budget_periods(id) ON DELETE CASCADE NOT NULL,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  envelope_id UUID REFERENCES public.envelopes(id) ON DELETE CASCADE NOT NULL,
+  opening_balance DECIMAL(12, 2) NOT NULL,
+  assigned DECIMAL(12, 2) NOT NULL,
+  spent DECIMAL(12, 2) NOT NULL,
+  available DECIMAL(12, 2) NOT NULL,
+  rollover_rule TEXT NOT NULL CHECK (rollover_rule IN ('carry_over', 'reset', 'return_overspending')),
+  rollover_adjustment DECIMAL(12, 2) DEFAULT 0 NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT unique_envelope_period_balance UNIQUE (period_id, envelope_id)
+);
+
+-- Create indexes
+CREATE INDEX idx_budget_periods_budget_start ON public.budget_periods(budget_id, period_start DESC);
+CREATE INDEX idx_envelope_period_balances_envelope_id ON public.envelope_period_balances(envelope_id);
+CREATE INDEX idx_envelope_period_balances_budget_id ON public.envelope_period_balances(budget_id);
+
+-- Enable RLS
+ALTER TABLE public.budget_rollover_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budget_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.envelope_period_balances ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for budget_rollover_rules
+CREATE POLICY "Users can view rollover rules in their budgets"
+  ON public.budget_rollover_rules
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = budget_rollover_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create rollover rules in their budgets"
+  ON public.budget_rollover_rules
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = budget_rollover_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update rollover rules in their budgets"
+  ON public.budget_rollover_rules
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = budget_rollover_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete rollover rules in their budgets"
+  ON public.budget_rollover_rules
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = budget_rollover_rules.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- RLS policies for budget_periods and envelope_period_balances. Rows are written by
+-- close_budget_period and never changed afterwards.
+CREATE POLICY "Users can view budget periods in their budgets"
+  ON public.budget_periods
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = budget_periods.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create budget periods in their budgets"
+  ON public.budget_periods
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = budget_periods.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can view envelope period balances in their budgets"
+  ON public.envelope_period_balances
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = envelope_period_balances.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create envelope period balances in their budgets"
+  ON public.envelope_period_balances
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = envelope_period_balances.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- Add trigger for auto-updating updated_at
+CREATE TRIGGER update_budget_rollover_rules_updated_at
+  BEFORE UPDATE ON public.budget_rollover_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allocations move money between available and one envelope: into it (to_envelope_id),
+-- or back out of it (from_envelope_id). Closing a month posts both kinds.
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS valid_allocation_transaction;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT valid_allocation_transaction CHECK (
+  transaction_type != 'allocation' OR (
+    (to_envelope_id IS NULL) != (from_envelope_id IS NULL) AND
+    payee_id IS NULL AND
+    income_source_id IS NULL
+  )
+);
+
+-- Budget available_amount trigger: allocations returned to available add to it
+CREATE OR REPLACE FUNCTION public.update_budget_available()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_allocation DECIMAL(12, 2);
+  old_allocation DECIMAL(12, 2);
+BEGIN
+  -- A scheduled row has not touched any balance yet. Treat it like a soft-deleted
+  -- row, so posting applies it and moving a posted row to a future date reverses it.
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'scheduled' THEN
+    OLD.is_deleted := true;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'scheduled' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status = 'posted' THEN
+      -- Reverse exactly what was applied when the row was posted
+      NEW := OLD;
+    END IF;
+    NEW.is_deleted := true;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.status = 'scheduled')
+    OR (TG_OP = 'DELETE' AND OLD.status = 'scheduled')
+    OR (TG_OP = 'UPDATE' AND OLD.is_deleted AND NEW.is_deleted
+        AND (OLD.status = 'scheduled' OR NEW.status = 'scheduled')) THEN
+    RETURN NULL;
+  END IF;
+
+  -- What an allocation takes from available; a return to available gives it back
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_allocation := CASE WHEN NEW.from_envelope_id IS NULL THEN NEW.amount ELSE -NEW.amount END;
+  END IF;
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_allocation := CASE WHEN OLD.from_envelope_id IS NULL THEN OLD.amount ELSE -OLD.amount END;
+  END IF;
+
+  -- Handle INSERT
+  IF TG_OP = 'INSERT' THEN
+    -- For income transactions, increase budget available_amount
+    IF NEW.transaction_type = 'income' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount + NEW.amount
+      WHERE id = NEW.budget_id;
+    -- For allocation transactions, decrease budget available_amount
+    ELSIF NEW.transaction_type = 'allocation' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount - new_allocation
+      WHERE id = NEW.budget_id;
+    END IF;
+    
+  -- Handle UPDATE
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Only process if not just a soft delete/restore
+    IF OLD.is_deleted = NEW.is_deleted THEN
+      -- Handle income transactions
+      IF OLD.transaction_type = 'income' OR NEW.transaction_type = 'income' THEN
+        -- Reverse old amount
+        IF OLD.transaction_type = 'income' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount - OLD.amount
+          WHERE id = OLD.budget_id;
+        END IF;
+        -- Apply new amount
+        IF NEW.transaction_type = 'income' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount + NEW.amount
+          WHERE id = NEW.budget_id;
+        END IF;
+      END IF;
+      
+      -- Handle allocation transactions
+      IF OLD.transaction_type = 'allocation' OR NEW.transaction_type = 'allocation' THEN
+        -- Reverse old amount
+        IF OLD.transaction_type = 'allocation' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount + old_allocation
+          WHERE id = OLD.budget_id;
+        END IF;
+        -- Apply new amount
+        IF NEW.transaction_type = 'allocation' THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount - new_allocation
+          WHERE id = NEW.budget_id;
+        END IF;
+      END IF;
+    -- Handle soft delete
+    ELSIF OLD.is_deleted = false AND NEW.is_deleted = true THEN
+      -- Reverse the transaction
+      IF NEW.transaction_type = 'income' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount - NEW.amount
+        WHERE id = NEW.budget_id;
+      ELSIF NEW.transaction_type = 'allocation' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount + new_allocation
+        WHERE id = NEW.budget_id;
+      END IF;
+    -- Handle restore from soft delete
+    ELSIF OLD.is_deleted = true AND NEW.is_deleted = false THEN
+      -- Reapply the transaction
+      IF NEW.transaction_type = 'income' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount + NEW.amount
+        WHERE id = NEW.budget_id;
+      ELSIF NEW.transaction_type = 'allocation' THEN
+        UPDATE public.budgets 
+        SET available_amount = available_amount - new_allocation
+        WHERE id = NEW.budget_id;
+      END IF;
+    END IF;
+    
+  -- Handle DELETE (hard delete - should not happen with soft deletes)
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Reverse the transaction
+    IF OLD.transaction_type = 'income' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount - OLD.amount
+      WHERE id = OLD.budget_id;
+    ELSIF OLD.transaction_type = 'allocation' THEN
+      UPDATE public.budgets 
+      SET available_amount = available_amount + old_allocation
+      WHERE id = OLD.budget_id;
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Net amount assigned to and spent from each envelope by posted transactions dated in
+-- [p_from, p_to]; a NULL p_to leaves the range open-ended. Assigned is allocations and
+-- transfers in less allocations returned and transfers out. Spent is expenses
+-- (including split lines) and payoffs.
+CREATE OR REPLACE FUNCTION public.get_envelope_activity(
+  p_budget_id UUID,
+  p_from DATE,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE(
+  envelope_id UUID,
+  assigned DECIMAL(12, 2),
+  spent DECIMAL(12, 2)
+) AS $$
+  WITH movements AS (
+    SELECT t.to_envelope_id AS envelope_id, t.amount AS assigned, 0::DECIMAL(12, 2) AS spent
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type IN ('allocation', 'transfer')
+      AND t.to_envelope_id IS NOT NULL
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date >= p_from
+      AND (p_to IS NULL OR t.transaction_date <= p_to)
+    UNION ALL
+    SELECT t.from_envelope_id,
+      CASE WHEN t.transaction_type IN ('allocation', 'transfer') THEN -t.amount ELSE 0 END,
+      CASE WHEN t.transaction_type IN ('allocation', 'transfer') THEN 0 ELSE t.amount END
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type IN ('allocation', 'transfer', 'expense', 'payoff')
+      AND t.from_envelope_id IS NOT NULL
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date >= p_from
+      AND (p_to IS NULL OR t.transaction_date <= p_to)
+    UNION ALL
+    SELECT s.envelope_id, 0, s.amount
+    FROM public.transaction_splits s
+    JOIN public.transactions t ON t.id = s.transaction_id
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND s.is_deleted = false
+      AND t.transaction_date >= p_from
+      AND (p_to IS NULL OR t.transaction_date <= p_to)
+  )
+  SELECT m.envelope_id, SUM(m.assigned), SUM(m.spent)
+  FROM movements m
+  GROUP BY m.envelope_id;
+$$ LANGUAGE sql STABLE;
+
+-- Per-envelope figures for the month starting p_period_start. Closed months come from
+-- their snapshot. Open months are worked back from today's balance: available is the
+-- current balance less everything that moved the envelope after the month, including
+-- the rollover allocations posted when later months closed.
+CREATE OR REPLACE FUNCTION public.get_envelope_period_summary(
+  p_budget_id UUID,
+  p_period_start DATE
+)
+RETURNS TABLE(
+  period_start DATE,
+  period_end DATE,
+  envelope_id UUID,
+  envelope_type TEXT,
+  opening_balance DECIMAL(12, 2),
+  assigned DECIMAL(12, 2),
+  spent DECIMAL(12, 2),
+  available DECIMAL(12, 2),
+  rollover_rule TEXT,
+  rollover_adjustment DECIMAL(12, 2),
+  is_closed BOOLEAN
+) AS $$
+  WITH bounds AS (
+    SELECT
+      DATE_TRUNC('month', p_period_start)::DATE AS start_date,
+      (DATE_TRUNC('month', p_period_start) + INTERVAL '1 month' - INTERVAL '1 day')::DATE AS end_date
+  ),
+  closed AS (
+    SELECT bp.id
+    FROM public.budget_periods bp, bounds
+    WHERE bp.budget_id = p_budget_id
+      AND bp.period_start = bounds.start_date
+  ),
+  during AS (
+    SELECT a.* FROM bounds, public.get_envelope_activity(p_budget_id, bounds.start_date, bounds.end_date) a
+  ),
+  after AS (
+    SELECT a.* FROM bounds, public.get_envelope_activity(p_budget_id, bounds.end_date + 1) a
+  )
+  SELECT
+    bounds.start_date,
+    bounds.end_date,
+    epb.envelope_id,
+    e.envelope_type,
+    epb.opening_balance,
+    epb.assigned,
+    epb.spent,
+    epb.available,
+    epb.rollover_rule,
+    epb.rollover_adjustment,
+    true
+  FROM bounds, closed
+  JOIN public.envelope_period_balances epb ON epb.period_id = closed.id
+  JOIN public.envelopes e ON e.id = epb.envelope_id
+  UNION ALL
+  SELECT
+    bounds.start_date,
+    bounds.end_date,
+    e.id,
+    e.envelope_type,
+    live.available - live.assigned + live.spent,
+    live.assigned,
+    live.spent,
+    live.available,
+    COALESCE(r.rollover_rule, 'carry_over'),
+    0::DECIMAL(12, 2),
+    false
+  FROM bounds, public.envelopes e
+  LEFT JOIN during d ON d.envelope_id = e.id
+  LEFT JOIN after a ON a.envelope_id = e.id
+  LEFT JOIN public.budget_rollover_rules r
+    ON r.budget_id = e.budget_id AND r.envelope_type = e.envelope_type
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(d.assigned, 0) AS assigned,
+      COALESCE(d.spent, 0) AS spent,
+      e.current_balance
+        - COALESCE(a.assigned, 0) + COALESCE(a.spent, 0) AS available
+  ) live
+  WHERE e.budget_id = p_budget_id
+    AND NOT EXISTS (SELECT 1 FROM closed);
+$$ LANGUAGE sql STABLE;
+
+-- Month-by-month envelope figures from p_from through p_to, for comparing what was
+-- assigned against what was spent
+CREATE OR REPLACE FUNCTION public.get_budget_period_history(
+  p_budget_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE(
+  period_start DATE,
+  period_end DATE,
+  envelope_id UUID,
+  envelope_type TEXT,
+  opening_balance DECIMAL(12, 2),
+  assigned DECIMAL(12, 2),
+  spent DECIMAL(12, 2),
+  available DECIMAL(12, 2),
+  rollover_rule TEXT,
+  rollover_adjustment DECIMAL(12, 2),
+  is_closed BOOLEAN
+) AS $$
+  SELECT s.*
+  FROM generate_series(
+    DATE_TRUNC('month', p_from)::DATE,
+    DATE_TRUNC('month', p_to)::DATE,
+    INTERVAL '1 month'
+  ) AS months(month_start)
+  CROSS JOIN LATERAL public.get_envelope_period_summary(p_budget_id, months.month_start::DATE) s
+  ORDER BY s.period_start, s.envelope_id;
+$$ LANGUAGE sql STABLE;
+
+-- Close a finished month: snapshot every envelope and apply the rollover rules.
+--   carry_over           the balance stays in the envelope
+--   reset                the envelope returns to zero; leftovers go back to available
+--                        and overspending is covered from it
+--   return_overspending  leftovers stay; overspending is covered from available
+-- Leftovers are returned before overspending is covered. If available can't cover all
+-- of the overspending, the rest stays negative in the envelope. Each adjustment is
+-- posted as an allocation dated the last day of the month, so the balance triggers
+-- move the envelope and available_amount together.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.close_budget_period(
+  p_budget_id UUID,
+  p_period_start DATE
+)
+RETURNS public.budget_periods AS $$
+DECLARE
+  v_period public.budget_periods;
+  v_start DATE := DATE_TRUNC('month', p_period_start)::DATE;
+  v_end DATE := (DATE_TRUNC('month', p_period_start) + INTERVAL '1 month' - INTERVAL '1 day')::DATE;
+  v_description TEXT := 'Rollover: ' || TO_CHAR(p_period_start, 'FMMonth YYYY');
+  v_available DECIMAL(12, 2);
+  v_envelope RECORD;
+  v_adjustment DECIMAL(12, 2);
+  v_summary CURSOR FOR
+    SELECT s.*
+    FROM public.get_envelope_period_summary(p_budget_id, v_start) s
+    ORDER BY s.available DESC;
+BEGIN
+  -- Serialize closes of the same budget
+  SELECT available_amount INTO v_available
+  FROM public.budgets WHERE id = p_budget_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Budget % not found', p_budget_id;
+  END IF;
+
+  IF v_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Only months that have ended can be closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.budget_periods
+    WHERE budget_id = p_budget_id AND period_start >= v_start
+  ) THEN
+    RAISE EXCEPTION 'This month or a later one is already closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Open the cursor first: it reads the month as of now, while it is still open.
+  -- Once the period row exists the summary would read its (still empty) snapshot.
+  OPEN v_summary;
+
+  INSERT INTO public.budget_periods (budget_id, period_start, period_end, closed_by)
+  VALUES (p_budget_id, v_start, v_end, auth.uid())
+  RETURNING * INTO v_period;
+
+  LOOP
+    FETCH v_summary INTO v_envelope;
+    EXIT WHEN NOT FOUND;
+
+    v_adjustment := CASE
+      WHEN v_envelope.rollover_rule = 'reset' AND v_envelope.available > 0
+        THEN -v_envelope.available
+      WHEN v_envelope.rollover_rule IN ('reset', 'return_overspending') AND v_envelope.available < 0
+        THEN LEAST(-v_envelope.available, v_available)
+      ELSE 0
+    END;
+
+    IF v_adjustment > 0 THEN
+      INSERT INTO public.transactions (
+        budget_id, transaction_type, amount, description, transaction_date, to_envelope_id
+      ) VALUES (
+        p_budget_id, 'allocation', v_adjustment, v_description, v_end, v_envelope.envelope_id
+      );
+    ELSIF v_adjustment < 0 THEN
+      INSERT INTO public.transactions (
+        budget_id, transaction_type, amount, description, transaction_date, from_envelope_id
+      ) VALUES (
+        p_budget_id, 'allocation', -v_adjustment, v_description, v_end, v_envelope.envelope_id
+      );
+    END IF;
+    v_available := v_available - v_adjustment;
+
+    INSERT INTO public.envelope_period_balances (
+      period_id,
+      budget_id,
+      envelope_id,
+      opening_balance,
+      assigned,
+      spent,
+      available,
+      rollover_rule,
+      rollover_adjustment
+    ) VALUES (
+      v_period.id,
+      p_budget_id,
+      v_envelope.envelope_id,
+      v_envelope.opening_balance,
+      v_envelope.assigned,
+      v_envelope.spent,
+      v_envelope.available,
+      v_envelope.rollover_rule,
+      v_adjustment
+    );
+  END LOOP;
+  CLOSE v_summary;
+
+  RETURN v_period;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON TABLE public.budget_rollover_rules IS 'What happens to envelope balances of each type when a month closes; carry_over when absent';
+COMMENT ON TABLE public.budget_periods IS 'Closed budget months';
+COMMENT ON TABLE public.envelope_period_balances IS 'Envelope figures for a closed month';
+COMMENT ON COLUMN public.envelope_period_balances.available IS 'Balance at the end of the month, before the rollover adjustment';
+COMMENT ON COLUMN public.envelope_period_balances.rollover_adjustment IS 'Change to the envelope balance made at close, posted as an allocation to or from available';
+COMMENT ON FUNCTION public.get_envelope_activity(UUID, DATE, DATE) IS 'Amounts assigned to and spent from each envelope over a date range';
+COMMENT ON FUNCTION public.get_envelope_period_summary(UUID, DATE) IS 'Opening, assigned, spent and available per envelope for one month';
+COMMENT ON FUNCTION public.get_budget_period_history(UUID, DATE, DATE) IS 'get_envelope_period_summary for every month in a range';
+COMMENT ON FUNCTION public.close_budget_period(UUID, DATE) IS 'Atomically closes a month, applying rollover rules and snapshotting envelope figures';
@@ -0,0 +1,242 @@
+-- Migration: Envelope Archive and Merge
+-- Envelopes referenced by transactions can't be deleted (ON DELETE RESTRICT). Archiving
+-- hides an envelope and stops new activity while keeping its history; merging moves
+-- everything that references one envelope onto another and then deletes it.
+
+-- Add archive columns to envelopes
+ALTER TABLE public.envelopes
+ADD COLUMN IF NOT EXISTS is_archived BOOLEAN DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE INDEX idx_envelopes_budget_id_unarchived ON public.envelopes(budget_id)
+  WHERE is_archived = false;
+
+-- Archived envelopes can't be given new transactions or split lines. Existing rows
+-- that already reference them can still be edited or deleted.
+CREATE OR REPLACE FUNCTION public.prevent_archived_envelope_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_envelope_ids UUID[];
+BEGIN
+  IF TG_TABLE_NAME = 'transaction_splits' THEN
+    v_envelope_ids := ARRAY[NEW.envelope_id];
+    IF TG_OP = 'UPDATE' AND NEW.envelope_id IS NOT DISTINCT FROM OLD.envelope_id THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    v_envelope_ids := ARRAY[]::UUID[];
+    IF TG_OP = 'INSERT' OR NEW.from_envelope_id IS DISTINCT FROM OLD.from_envelope_id THEN
+      v_envelope_ids := v_envelope_ids || NEW.from_envelope_id;
+    END IF;
+    IF TG_OP = 'INSERT' OR NEW.to_envelope_id IS DISTINCT FROM OLD.to_envelope_id THEN
+      v_envelope_ids := v_envelope_ids || NEW.to_envelope_id;
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.envelopes
+    WHERE id = ANY(v_envelope_ids) AND is_archived = true
+  ) THEN
+    RAISE EXCEPTION 'Envelope is archived'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prevent_archived_envelope_transactions
+  BEFORE INSERT OR UPDATE OF from_envelope_id, to_envelope_id ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_envelope_activity();
+
+CREATE TRIGGER prevent_archived_envelope_splits
+  BEFORE INSERT OR UPDATE OF envelope_id ON public.transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_envelope_activity();
+
+-- Archive an envelope with a zero balance. Schedules and rules that would create new
+-- activity in it are deactivated.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.archive_envelope(p_envelope_id UUID)
+RETURNS public.envelopes AS $$
+DECLARE
+  v_envelope public.envelopes;
+BEGIN
+  SELECT * INTO v_envelope FROM public.envelopes WHERE id = p_envelope_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Envelope % not found', p_envelope_id;
+  END IF;
+
+  IF v_envelope.is_archived THEN
+    RETURN v_envelope;
+  END IF;
+
+  IF v_envelope.current_balance <> 0 THEN
+    RAISE EXCEPTION 'Only envelopes with a zero balance can be archived; move or merge the remaining % first', v_envelope.current_balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.scheduled_transactions
+  SET is_active = false
+  WHERE (from_envelope_id = p_envelope_id OR to_envelope_id = p_envelope_id)
+  AND is_active = true;
+
+  UPDATE public.transaction_rules
+  SET is_active = false
+  WHERE set_envelope_id = p_envelope_id
+  AND is_active = true;
+
+  UPDATE public.envelopes
+  SET
+    is_archived = true,
+    archived_at = NOW(),
+    is_active = false
+  WHERE id = p_envelope_id
+  RETURNING * INTO v_envelope;
+
+  RETURN v_envelope;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Balance triggers skip rows rewritten by merge_envelopes, which sets the final
+-- balances itself. Without this, moving a payoff would raise, and deleting transfers
+-- between the two envelopes would change their balances.
+DROP TRIGGER IF EXISTS update_envelope_balance_on_transaction ON public.transactions;
+CREATE TRIGGER update_envelope_balance_on_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_envelopes', true) IS DISTINCT FROM 'true')
+  EXECUTE FUNCTION public.update_envelope_balance();
+
+DROP TRIGGER IF EXISTS update_budget_available_on_transaction ON public.transactions;
+CREATE TRIGGER update_budget_available_on_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_envelopes', true) IS DISTINCT FROM 'true')
+  EXECUTE FUNCTION public.update_budget_available();
+
+DROP TRIGGER IF EXISTS update_envelope_balance_on_transaction_split ON public.transaction_splits;
+CREATE TRIGGER update_envelope_balance_on_transaction_split
+  AFTER INSERT OR UPDATE OR DELETE ON public.transaction_splits
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_envelopes', true) IS DISTINCT FROM 'true')
+  EXECUTE FUNCTION public.update_split_envelope_balance();
+
+-- Merge p_source_id into p_target_id and delete the source. Every transaction, split
+-- line, schedule, rule, allocation step and closed-month figure that referenced the
+-- source is moved to the target, and the source balance is added to the target's.
+-- Transfers between the two envelopes would become transfers to themselves, so they
+-- are removed; they moved money within the pair, so the combined balance and
+-- budgets.available_amount are unchanged.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.merge_envelopes(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS public.envelopes AS $$
+DECLARE
+  v_source public.envelopes;
+  v_target public.envelopes;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'An envelope cannot be merged into itself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lock both envelopes in a fixed order to avoid deadlocks between concurrent merges
+  PERFORM 1 FROM public.envelopes
+  WHERE id IN (p_source_id, p_target_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_source FROM public.envelopes WHERE id = p_source_id;
+  SELECT * INTO v_target FROM public.envelopes WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Envelope not found';
+  END IF;
+
+  IF v_source.budget_id <> v_target.budget_id THEN
+    RAISE EXCEPTION 'Envelopes must belong to the same budget'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_target.is_archived THEN
+    RAISE EXCEPTION 'Cannot merge into an archived envelope'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.merging_envelopes', 'true', true);
+
+  -- Transfers between the two envelopes
+  DELETE FROM public.transactions
+  WHERE transaction_type = 'transfer'
+  AND (
+    (from_envelope_id = p_source_id AND to_envelope_id = p_target_id) OR
+    (from_envelope_id = p_target_id AND to_envelope_id = p_source_id)
+  );
+
+  DELETE FROM public.scheduled_transactions
+  WHERE (from_envelope_id = p_source_id AND to_envelope_id = p_target_id)
+  OR (from_envelope_id = p_target_id AND to_envelope_id = p_source_id);
+
+  -- Everything else moves to the target
+  UPDATE public.transactions SET from_envelope_id = p_target_id WHERE from_envelope_id = p_source_id;
+  UPDATE public.transactions SET to_envelope_id = p_target_id WHERE to_envelope_id = p_source_id;
+  UPDATE public.transaction_splits SET envelope_id = p_target_id WHERE envelope_id = p_source_id;
+  UPDATE public.scheduled_transactions SET from_envelope_id = p_target_id WHERE from_envelope_id = p_source_id;
+  UPDATE public.scheduled_transactions SET to_envelope_id = p_target_id WHERE to_envelope_id = p_source_id;
+  UPDATE public.transaction_rules SET set_envelope_id = p_target_id WHERE set_envelope_id = p_source_id;
+  UPDATE public.allocation_plan_steps SET envelope_id = p_target_id WHERE envelope_id = p_source_id;
+
+  -- Closed months: add the source figures to the target's where both have a row
+  UPDATE public.envelope_period_balances target
+  SET
+    opening_balance = target.opening_balance + source.opening_balance,
+    assigned = target.assigned + source.assigned,
+    spent = target.spent + source.spent,
+    available = target.available + source.available,
+    rollover_adjustment = target.rollover_adjustment + source.rollover_adjustment
+  FROM public.envelope_period_balances source
+  WHERE source.envelope_id = p_source_id
+  AND target.envelope_id = p_target_id
+  AND target.period_id = source.period_id;
+
+  DELETE FROM public.envelope_period_balances source
+  WHERE source.envelope_id = p_source_id
+  AND EXISTS (
+    SELECT 1 FROM public.envelope_period_balances target
+    WHERE target.envelope_id = p_target_id
+    AND target.period_id = source.period_id
+  );
+
+  UPDATE public.envelope_period_balances
+  SET envelope_id = p_target_id
+  WHERE envelope_id = p_source_id;
+
+  -- Set the final balances
+  UPDATE public.envelopes
+  SET
+    current_balance = v_target.current_balance + v_source.current_balance,
+    target_amount = CASE
+      WHEN v_target.envelope_type = 'debt' AND v_source.envelope_type = 'debt'
+        THEN COALESCE(v_target.target_amount, 0) + COALESCE(v_source.target_amount, 0)
+      ELSE v_target.target_amount
+    END
+  WHERE id = p_target_id
+  RETURNING * INTO v_target;
+
+  DELETE FROM public.envelopes WHERE id = p_source_id;
+
+  PERFORM set_config('app.merging_envelopes', 'false', true);
+
+  RETURN v_target;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON COLUMN public.envelopes.is_archived IS 'Hidden and closed to new transactions; history is kept';
+COMMENT ON COLUMN public.envelopes.archived_at IS 'When the envelope was archived';
+COMMENT ON FUNCTION public.archive_envelope(UUID) IS 'Archives a zero-balance envelope and deactivates schedules and rules that target it';
+COMMENT ON FUNCTION public.merge_envelopes(UUID, UUID) IS 'Atomically moves all history and the balance of one envelope into another and deletes the first';
@@ -0,0 +1,360 @@
+-- Migration: Savings Interest
+-- Savings envelopes can carry an APY. Interest is projected forward together with
+-- scheduled contributions, and an optional job posts it each month as income that
+-- is allocated straight into the envelope, so available_amount is unchanged.
+
+-- Add interest columns to envelopes
+ALTER TABLE public.envelopes
+ADD COLUMN IF NOT EXISTS apy DECIMAL(6, 3),
+ADD COLUMN IF NOT EXISTS interest_income_source_id UUID REFERENCES public.income_sources(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS interest_posted_through DATE;
+
+ALTER TABLE public.envelopes
+ADD CONSTRAINT valid_envelope_apy CHECK (
+  apy IS NULL OR (
+    envelope_type = 'savings' AND
+    apy >= 0 AND
+    apy <= 100
+  )
+);
+
+CREATE INDEX idx_envelopes_apy ON public.envelopes(budget_id)
+  WHERE apy IS NOT NULL;
+
+-- Interest starts with the month the APY is set in; earlier months are never posted
+CREATE OR REPLACE FUNCTION public.set_envelope_interest_start()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.apy IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.apy IS NULL) THEN
+    NEW.interest_posted_through := (DATE_TRUNC('month', CURRENT_DATE) - INTERVAL '1 day')::DATE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_envelope_interest_start
+  BEFORE INSERT OR UPDATE OF apy ON public.envelopes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_envelope_interest_start();
+
+-- Month-by-month balance of each savings envelope for p_months months, starting with
+-- the current month. Contributions are scheduled transactions and future-dated
+-- transactions into (or out of) the envelope; the current month also picks up
+-- anything already due but not yet posted. Interest compounds monthly at the rate
+-- equivalent to the APY, on the balance after the month's contributions.
+CREATE OR REPLACE FUNCTION public.get_savings_projection(
+  p_budget_id UUID,
+  p_months INTEGER DEFAULT 12
+)
+RETURNS TABLE(
+  envelope_id UUID,
+  month_start DATE,
+  month_end DATE,
+  opening_balance DECIMAL(12, 2),
+  contributions DECIMAL(12, 2),
+  interest DECIMAL(12, 2),
+  projected_balance DECIMAL(12, 2)
+) AS $$
+  WITH RECURSIVE savings AS (
+    SELECT
+      e.id,
+      e.current_balance,
+      CASE WHEN COALESCE(e.apy, 0) > 0
+        THEN POWER(1 + e.apy / 100, 1.0 / 12) - 1
+        ELSE 0
+      END AS monthly_rate
+    FROM public.envelopes e
+    WHERE e.budget_id = p_budget_id
+      AND e.envelope_type = 'savings'
+      AND e.is_archived = false
+  ),
+  months AS (
+    SELECT
+      n,
+      (DATE_TRUNC('month', CURRENT_DATE) + n * INTERVAL '1 month')::DATE AS month_start,
+      (DATE_TRUNC('month', CURRENT_DATE) + (n + 1) * INTERVAL '1 month' - INTERVAL '1 day')::DATE AS month_end
+    FROM generate_series(0, GREATEST(p_months, 1) - 1) AS n
+  ),
+  occurrences AS (
+    SELECT st.from_envelope_id, st.to_envelope_id, st.amount, o.occurrence_date AS flow_date
+    FROM public.scheduled_transactions st
+    CROSS JOIN LATERAL public.get_schedule_occurrences(
+      st.schedule_type,
+      st.schedule_config,
+      st.next_occurrence_date,
+      1000,
+      LEAST(st.end_date, (SELECT MAX(m.month_end) FROM months m))
+    ) o
+    WHERE st.budget_id = p_budget_id
+      AND st.is_active = true
+      AND st.next_occurrence_date IS NOT NULL
+    UNION ALL
+    SELECT t.from_envelope_id, t.to_envelope_id, t.amount, t.transaction_date
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'scheduled'
+      AND t.is_deleted = false
+  ),
+  flows AS (
+    SELECT to_envelope_id AS envelope_id, flow_date, amount
+    FROM occurrences WHERE to_envelope_id IS NOT NULL
+    UNION ALL
+    SELECT from_envelope_id, flow_date, -amount
+    FROM occurrences WHERE from_envelope_id IS NOT NULL
+  ),
+  monthly AS (
+    SELECT s.id, m.n, m.month_start, m.month_end, COALESCE(SUM(f.amount), 0) AS contributions
+    FROM savings s
+    CROSS JOIN months m
+    LEFT JOIN flows f
+      ON f.envelope_id = s.id
+      AND f.flow_date <= m.month_end
+      AND (m.n = 0 OR f.flow_date >= m.month_start)
+    GROUP BY s.id, m.n, m.month_start, m.month_end
+  ),
+  -- Both branches cast to NUMERIC(12, 2): a recursive CTE needs the same column types
+  projection AS (
+    SELECT
+      m.id, m.n, m.month_start, m.month_end,
+      s.current_balance::NUMERIC(12, 2) AS opening_balance,
+      m.contributions::NUMERIC(12, 2) AS contributions,
+      ROUND(GREATEST(s.current_balance + m.contributions, 0) * s.monthly_rate, 2)::NUMERIC(12, 2) AS interest
+    FROM monthly m
+    JOIN savings s ON s.id = m.id
+    WHERE m.n = 0
+    UNION ALL
+    SELECT
+      m.id, m.n, m.month_start, m.month_end,
+      (p.opening_balance + p.contributions + p.interest)::NUMERIC(12, 2),
+      m.contributions::NUMERIC(12, 2),
+      ROUND(GREATEST(p.opening_balance + p.contributions + p.interest + m.contributions, 0) * s.monthly_rate, 2)::NUMERIC(12, 2)
+    FROM projection p
+    JOIN monthly m ON m.id = p.id AND m.n = p.n + 1
+    JOIN savings s ON s.id = p.id
+  )
+  SELECT
+    id,
+    month_start,
+    month_end,
+    opening_balance,
+    contributions,
+    interest,
+    opening_balance + contributions + interest
+  FROM projection
+  ORDER BY id, month_start;
+$$ LANGUAGE sql STABLE;
+
+-- Post a month of interest for every month that has ended since interest was last
+-- posted. Each posting is an income transaction from the envelope's interest income
+-- source plus an allocation of the same amount into the envelope, dated the last day
+-- of the month. Interest is worked out on the balance at the time of posting.
+-- Runs for a single budget, or for every budget when the budget id is NULL (service role).
+CREATE OR REPLACE FUNCTION public.post_savings_interest(
+  p_budget_id UUID DEFAULT NULL,
+  p_as_of DATE DEFAULT CURRENT_DATE
+) RETURNS INTEGER AS $$
+DECLARE
+  v_envelope RECORD;
+  v_source_id UUID;
+  v_balance DECIMAL(12, 2);
+  v_monthly_rate NUMERIC;
+  v_month_end DATE;
+  v_interest DECIMAL(12, 2);
+  v_posted_count INTEGER := 0;
+BEGIN
+  FOR v_envelope IN
+    SELECT e.*
+    FROM public.envelopes e
+    WHERE e.envelope_type = 'savings'
+      AND e.apy > 0
+      AND e.is_archived = false
+      AND e.interest_posted_through < DATE_TRUNC('month', p_as_of)::DATE - 1
+      AND (p_budget_id IS NULL OR e.budget_id = p_budget_id)
+    FOR UPDATE
+  LOOP
+    v_source_id := v_envelope.interest_income_source_id;
+
+    IF v_source_id IS NULL THEN
+      SELECT id INTO v_source_id
+      FROM public.income_sources
+      WHERE budget_id = v_envelope.budget_id AND name = 'Interest'
+      ORDER BY created_at
+      LIMIT 1;
+
+      IF v_source_id IS NULL THEN
+        INSERT INTO public.income_sources (budget_id, name, description)
+        VALUES (v_envelope.budget_id, 'Interest', 'Interest earned on savings envelopes')
+        RETURNING id INTO v_source_id;
+      END IF;
+    END IF;
+
+    v_balance := v_envelope.current_balance;
+    v_monthly_rate := POWER(1 + v_envelope.apy / 100, 1.0 / 12) - 1;
+    v_month_end := (DATE_TRUNC('month', v_envelope.interest_posted_through + 1) + INTERVAL '1 month - 1 day')::DATE;
+
+    WHILE v_month_end < DATE_TRUNC('month', p_as_of)::DATE LOOP
+      v_interest := ROUND(GREATEST(v_balance, 0) * v_monthly_rate, 2);
+
+      IF v_interest > 0 THEN
+        INSERT INTO public.transactions (
+          budget_id, transaction_type, amount, description, transaction_date, income_source_id
+        ) VALUES (
+          v_envelope.budget_id, 'income', v_interest, 'Interest: ' || v_envelope.name, v_month_end, v_source_id
+        );
+
+        INSERT INTO public.transactions (
+          budget_id, transaction_type, amount, description, transaction_date, to_envelope_id
+        ) VALUES (
+          v_envelope.budget_id, 'allocation', v_interest, 'Interest: ' || v_envelope.name, v_month_end, v_envelope.id
+        );
+
+        v_balance := v_balance + v_interest;
+        v_posted_count := v_posted_count + 1;
+      END IF;
+
+      v_month_end := (DATE_TRUNC('month', v_month_end + 1) + INTERVAL '1 month - 1 day')::DATE;
+    END LOOP;
+
+    UPDATE public.envelopes
+    SET
+      interest_posted_through = (DATE_TRUNC('month', p_as_of) - INTERVAL '1 day')::DATE,
+      interest_income_source_id = v_source_id
+    WHERE id = v_envelope.id;
+  END LOOP;
+
+  RETURN v_posted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cash flow forecast: projected savings interest is added to each month, and interest
+-- already posted is left out of the income averages so it isn't counted twice
+CREATE OR REPLACE FUNCTION get_cash_flow_forecast(p_budget_id UUID, p_forecast_months INTEGER DEFAULT 3)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  WITH monthly_averages AS (
+    SELECT
+      transaction_type,
+      AVG(amount) as avg_monthly_amount,
+      COUNT(*) / 6.0 as avg_monthly_frequency  -- 6 months of history
+    FROM transactions
+    WHERE budget_id = p_budget_id
+      AND is_deleted = false
+      AND transaction_date >= CURRENT_DATE - INTERVAL '6 months'
+      AND (income_source_id IS NULL OR income_source_id NOT IN (
+        SELECT interest_income_source_id FROM envelopes
+        WHERE budget_id = p_budget_id AND interest_income_source_id IS NOT NULL
+      ))
+    GROUP BY transaction_type
+  ),
+  current_state AS (
+    SELECT
+      b.available_amount,
+      SUM(e.current_balance) as total_envelope_balance
+    FROM budgets b
+    LEFT JOIN envelopes e ON b.id = e.budget_id AND e.is_active = true
+    WHERE b.id = p_budget_id
+    GROUP BY b.id, b.available_amount
+  ),
+  savings_interest AS (
+    SELECT month_start, SUM(interest) AS interest
+    FROM public.get_savings_projection(p_budget_id, p_forecast_months)
+    GROUP BY month_start
+  ),
+  projections AS (
+    SELECT
+      generate_series,
+      COALESCE(income_avg.avg_monthly_amount * income_avg.avg_monthly_frequency, 0) AS projected_income,
+      COALESCE(expense_avg.avg_monthly_amount * expense_avg.avg_monthly_frequency, 0) AS projected_expenses,
+      -- Month n of the forecast picks up the interest projected for the nth calendar month
+      COALESCE((
+        SELECT si.interest FROM savings_interest si
+        WHERE si.month_start = (DATE_TRUNC('month', CURRENT_DATE) + (generate_series - 1) * INTERVAL '1 month')::DATE
+      ), 0) AS projected_interest,
+      COALESCE((
+        SELECT SUM(si.interest) FROM savings_interest si
+        WHERE si.month_start < (DATE_TRUNC('month', CURRENT_DATE) + generate_series * INTERVAL '1 month')::DATE
+      ), 0) AS cumulative_interest
+    FROM generate_series(1, p_forecast_months)
+    LEFT JOIN monthly_averages income_avg ON income_avg.transaction_type = 'income'
+    LEFT JOIN monthly_averages expense_avg ON expense_avg.transaction_type IN ('expense', 'debt_payment')
+  )
+  SELECT JSON_BUILD_OBJECT(
+    'forecast_period', JSON_BUILD_OBJECT(
+      'start_date', CURRENT_DATE,
+      'months', p_forecast_months,
+      'end_date', CURRENT_DATE + (p_forecast_months || ' months')::INTERVAL
+    ),
+    'current_position', JSON_BUILD_OBJECT(
+      'available_amount', cs.available_amount,
+      'total_envelope_balance', cs.total_envelope_balance,
+      'total_liquid_funds', cs.available_amount + cs.total_envelope_balance
+    ),
+    'monthly_projections', (
+      SELECT JSON_AGG(
+        JSON_BUILD_OBJECT(
+          'month', p.generate_series,
+          'month_date', (CURRENT_DATE + (p.generate_series || ' months')::INTERVAL)::DATE,
+          'projected_income', p.projected_income,
+          'projected_expenses', p.projected_expenses,
+          'projected_interest', p.projected_interest,
+          'net_flow', p.projected_income - p.projected_expenses + p.projected_interest,
+          'projected_balance',
+            cs.available_amount + cs.total_envelope_balance +
+            p.generate_series * (p.projected_income - p.projected_expenses) +
+            p.cumulative_interest
+        ) ORDER BY p.generate_series
+      )
+      FROM projections p
+    ),
+    'risk_analysis', JSON_BUILD_OBJECT(
+      'cash_depletion_risk',
+        CASE
+          WHEN (
+            SELECT MIN(
+              cs.available_amount + cs.total_envelope_balance +
+              p.generate_series * (p.projected_income - p.projected_expenses) +
+              p.cumulative_interest
+            )
+            FROM projections p
+          ) < 0 THEN 'high'
+          WHEN (
+            SELECT MIN(
+              cs.available_amount + cs.total_envelope_balance +
+              p.generate_series * (p.projected_income - p.projected_expenses) +
+              p.cumulative_interest
+            )
+            FROM projections p
+          ) < 500 THEN 'medium'
+          ELSE 'low'
+        END,
+      'income_stability',
+        CASE
+          WHEN (SELECT COUNT(*) FROM monthly_averages WHERE transaction_type = 'income') = 0 THEN 'none'
+          WHEN (SELECT avg_monthly_frequency FROM monthly_averages WHERE transaction_type = 'income') < 1 THEN 'irregular'
+          WHEN (SELECT avg_monthly_frequency FROM monthly_averages WHERE transaction_type = 'income') < 4 THEN 'moderate'
+          ELSE 'stable'
+        END
+    )
+  ) INTO result
+  FROM current_state cs;
+
+  RETURN result;
+END;
+$$;
+
+-- Posted daily by the scheduled-transactions function when the run sets post_interest
+-- (the workflow does so when the POST_SAVINGS_INTEREST repository variable is 'true').
+-- Later runs in the month find nothing left to post.
+
+-- Add comments
+COMMENT ON COLUMN public.envelopes.apy IS 'Annual percentage yield for savings envelopes, percent';
+COMMENT ON COLUMN public.envelopes.interest_income_source_id IS 'Income source posted interest is recorded against; set on first posting when empty';
+COMMENT ON COLUMN public.envelopes.interest_posted_through IS 'Last day interest has been posted for';
+COMMENT ON FUNCTION public.get_savings_projection(UUID, INTEGER) IS 'Month-by-month savings envelope balances from contributions and compounding interest';
+COMMENT ON FUNCTION public.post_savings_interest(UUID, DATE) IS 'Posts monthly savings interest as income allocated into the envelope, for one budget or all budgets';
@@ -0,0 +1,203 @@
+-- Migration: Category Tree
+-- Categories can nest to any depth. categories.total now rolls up every level below
+-- a category instead of only its direct children, and parent changes that would
+-- put a category under itself are rejected.
+
+-- Recalculate the total of a category and then of each of its ancestors in turn.
+-- A category's total is its own active envelopes plus the totals of its children.
+CREATE OR REPLACE FUNCTION public.refresh_category_total_chain(p_category_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_category_id UUID := p_category_id;
+  v_levels INTEGER := 0;
+BEGIN
+  -- The level cap only guards against a cycle that predates the parent check below
+  WHILE v_category_id IS NOT NULL AND v_levels < 100 LOOP
+    UPDATE public.categories c
+    SET total = COALESCE((
+      SELECT SUM(e.current_balance)
+      FROM public.envelopes e
+      WHERE e.category_id = c.id
+      AND e.is_active = true
+    ), 0) + COALESCE((
+      SELECT SUM(child.total)
+      FROM public.categories child
+      WHERE child.parent_id = c.id
+    ), 0)
+    WHERE c.id = v_category_id
+    RETURNING c.parent_id INTO v_category_id;
+
+    v_levels := v_levels + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Envelope changes: refresh the old and new category chains
+CREATE OR REPLACE FUNCTION public.update_category_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.category_id IS NOT NULL
+    AND (TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.category_id IS DISTINCT FROM NEW.category_id)) THEN
+    PERFORM public.refresh_category_total_chain(OLD.category_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.category_id IS NOT NULL THEN
+    PERFORM public.refresh_category_total_chain(NEW.category_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Category moves and deletes: the subtree's total leaves one chain and joins another
+CREATE OR REPLACE FUNCTION public.update_category_totals_on_move()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.parent_id IS NOT NULL THEN
+    PERFORM public.refresh_category_total_chain(OLD.parent_id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.parent_id IS NOT NULL THEN
+    PERFORM public.refresh_category_total_chain(NEW.parent_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_category_totals_on_category_move
+  AFTER UPDATE OF parent_id OR DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_category_totals_on_move();
+
+-- A parent must be in the same budget and must not be the category or one of its
+-- descendants
+CREATE OR REPLACE FUNCTION public.validate_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.categories
+    WHERE id = NEW.parent_id AND budget_id = NEW.budget_id
+  ) THEN
+    RAISE EXCEPTION 'Parent category must belong to the same budget'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be moved under itself or one of its subcategories'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_category_parent();
+
+-- Move a category, with its subcategories, under a new parent (NULL for the top
+-- level). Without a display order it goes after its new siblings; with one, the
+-- siblings at or after that position move down. Both scopes are renumbered by
+-- reorder_categories_in_scope afterwards so neither is left with gaps. Other column
+-- changes in p_fields (name, description, is_income, is_system, icon, color) are
+-- applied in the same update, so an edit that also moves the category is all or nothing.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.move_category(
+  p_category_id UUID,
+  p_parent_id UUID DEFAULT NULL,
+  p_display_order INTEGER DEFAULT NULL,
+  p_fields JSONB DEFAULT '{}'::JSONB
+)
+RETURNS public.categories AS $$
+DECLARE
+  v_category public.categories;
+  v_old_parent_id UUID;
+  v_display_order INTEGER;
+BEGIN
+  SELECT * INTO v_category
+  FROM public.categories
+  WHERE id = p_category_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category % not found', p_category_id;
+  END IF;
+
+  v_old_parent_id := v_category.parent_id;
+
+  IF p_display_order IS NOT NULL AND p_display_order < 0 THEN
+    RAISE EXCEPTION 'Display order cannot be negative'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_display_order IS NULL THEN
+    v_display_order := public.get_next_category_display_order(v_category.budget_id, p_parent_id);
+  ELSE
+    v_display_order := p_display_order;
+
+    UPDATE public.categories
+    SET display_order = display_order + 1
+    WHERE budget_id = v_category.budget_id
+      AND parent_id IS NOT DISTINCT FROM p_parent_id
+      AND display_order >= p_display_order
+      AND id <> p_category_id;
+  END IF;
+
+  UPDATE public.categories
+  SET
+    parent_id = p_parent_id,
+    display_order = v_display_order,
+    name = CASE WHEN p_fields ? 'name' THEN p_fields->>'name' ELSE name END,
+    description = CASE WHEN p_fields ? 'description' THEN p_fields->>'description' ELSE description END,
+    is_income = CASE WHEN p_fields ? 'is_income' THEN (p_fields->>'is_income')::BOOLEAN ELSE is_income END,
+    is_system = CASE WHEN p_fields ? 'is_system' THEN (p_fields->>'is_system')::BOOLEAN ELSE is_system END,
+    icon = CASE WHEN p_fields ? 'icon' THEN p_fields->>'icon' ELSE icon END,
+    color = CASE WHEN p_fields ? 'color' THEN p_fields->>'color' ELSE color END,
+    updated_at = NOW()
+  WHERE id = p_category_id;
+
+  PERFORM public.reorder_categories_in_scope(v_category.budget_id, p_parent_id);
+  IF v_old_parent_id IS DISTINCT FROM p_parent_id THEN
+    PERFORM public.reorder_categories_in_scope(v_category.budget_id, v_old_parent_id);
+  END IF;
+
+  SELECT * INTO v_category FROM public.categories WHERE id = p_category_id;
+  RETURN v_category;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Bring existing totals in line with the full rollup
+WITH RECURSIVE subtree AS (
+  SELECT id AS root_id, id FROM public.categories
+  UNION ALL
+  SELECT s.root_id, c.id
+  FROM subtree s
+  JOIN public.categories c ON c.parent_id = s.id
+)
+UPDATE public.categories c
+SET total = COALESCE((
+  SELECT SUM(e.current_balance)
+  FROM subtree s
+  JOIN public.envelopes e ON e.category_id = s.id AND e.is_active = true
+  WHERE s.root_id = c.id
+), 0);
+
+-- Add comments
+COMMENT ON COLUMN public.categories.total IS 'Cached total of active envelope balances in this category and all of its subcategories';
+COMMENT ON FUNCTION public.refresh_category_total_chain(UUID) IS 'Recalculates a category total and the totals of all its ancestors';
+COMMENT ON FUNCTION public.move_category(UUID, UUID, INTEGER, JSONB) IS 'Moves a category and its subcategories under a new parent, applying any other field changes, and renumbers both sibling scopes';
@@ -0,0 +1,365 @@
+-- Migration: Budget Templates
+-- Saved budget layouts (categories, envelopes with their targets, and income
+-- schedules) stored as versioned JSON. A template belongs to the user who saved it
+-- and can be shared so that any user can apply it to their own budgets.
+
+-- Create budget_templates table
+CREATE TABLE IF NOT EXISTS public.budget_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  description TEXT,
+  version INTEGER DEFAULT 1 NOT NULL CHECK (version > 0),
+  is_shared BOOLEAN DEFAULT false NOT NULL,
+  template JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT valid_budget_template CHECK (
+    jsonb_typeof(template) = 'object' AND
+    jsonb_typeof(template->'format_version') = 'number' AND
+    jsonb_typeof(template->'categories') = 'array' AND
+    jsonb_typeof(template->'envelopes') = 'array' AND
+    jsonb_typeof(template->'income_sources') = 'array'
+  )
+);
+
+-- Create indexes
+CREATE INDEX idx_budget_templates_user_id ON public.budget_templates(user_id);
+CREATE INDEX idx_budget_templates_shared ON public.budget_templates(name) WHERE is_shared = true;
+
+-- Enable RLS
+ALTER TABLE public.budget_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for budget_templates
+CREATE POLICY "Users can view their own and shared budget templates"
+  ON public.budget_templates
+  FOR SELECT
+  USING (user_id = auth.uid() OR is_shared = true);
+
+CREATE POLICY "Users can create their own budget templates"
+  ON public.budget_templates
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own budget templates"
+  ON public.budget_templates
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own budget templates"
+  ON public.budget_templates
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Add trigger for auto-updating updated_at
+CREATE TRIGGER update_budget_templates_updated_at
+  BEFORE UPDATE ON public.budget_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The first "name (2)", "name (3)", ... that is not in p_taken (lower-cased names)
+CREATE OR REPLACE FUNCTION public.unused_template_name(p_name TEXT, p_taken TEXT[])
+RETURNS TEXT AS $$
+DECLARE
+  v_suffix INTEGER := 2;
+BEGIN
+  WHILE LOWER(p_name || ' (' || v_suffix || ')') = ANY(p_taken) LOOP
+    v_suffix := v_suffix + 1;
+  END LOOP;
+
+  RETURN p_name || ' (' || v_suffix || ')';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Add a template's categories, envelopes and income sources to a budget in one
+-- transaction. The template has already been validated by the API. Names are
+-- compared trimmed and case-insensitively; category names only clash with their
+-- siblings, envelope and income source names across the budget. p_conflict_mode:
+--   skip    items whose names are taken are left out; a skipped category's children
+--           go under the existing one
+--   rename  items whose names are taken get the first free "name (n)"
+--   fail    nothing is written and the result lists the conflicts
+-- Returns the counts created plus skipped and renamed lists (and conflicts in fail
+-- mode), in the shape of BudgetTemplateApplyResult.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.apply_budget_template(
+  p_budget_id UUID,
+  p_template JSONB,
+  p_conflict_mode TEXT DEFAULT 'skip'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_conflicts JSONB;
+  v_skipped JSONB := '[]'::JSONB;
+  v_renamed JSONB := '[]'::JSONB;
+  v_categories_created INTEGER := 0;
+  v_envelopes_created INTEGER := 0;
+  v_income_sources_created INTEGER := 0;
+  v_category_ids JSONB := '{}'::JSONB;
+  v_level_keys TEXT[];
+  v_next_keys TEXT[] := ARRAY[]::TEXT[];
+  v_item JSONB;
+  v_name TEXT;
+  v_parent_id UUID;
+  v_category_id UUID;
+  v_display_order INTEGER;
+BEGIN
+  IF p_conflict_mode IS NULL OR p_conflict_mode NOT IN ('skip', 'rename', 'fail') THEN
+    RAISE EXCEPTION 'Invalid conflict mode'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Serialize applies to the same budget so two can't claim the same name
+  PERFORM 1 FROM public.budgets WHERE id = p_budget_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Budget % not found', p_budget_id;
+  END IF;
+
+  IF p_conflict_mode = 'fail' THEN
+    -- Only top-level categories can clash: the children of a new category are new too
+    SELECT COALESCE(jsonb_agg(c.conflict ORDER BY c.item_order, c.ordinality), '[]'::JSONB)
+    INTO v_conflicts
+    FROM (
+      SELECT 1 AS item_order, t.ordinality, jsonb_build_object('item_type', 'category', 'name', t.value->>'name') AS conflict
+      FROM jsonb_array_elements(p_template->'categories') WITH ORDINALITY t
+      WHERE NULLIF(t.value->>'parent_key', '') IS NULL
+        AND EXISTS (
+          SELECT 1 FROM public.categories
+          WHERE budget_id = p_budget_id AND parent_id IS NULL
+            AND LOWER(TRIM(name)) = LOWER(TRIM(t.value->>'name'))
+        )
+      UNION ALL
+      SELECT 2, t.ordinality, jsonb_build_object('item_type', 'envelope', 'name', t.value->>'name')
+      FROM jsonb_array_elements(p_template->'envelopes') WITH ORDINALITY t
+      WHERE EXISTS (
+        SELECT 1 FROM public.envelopes
+        WHERE budget_id = p_budget_id AND LOWER(TRIM(name)) = LOWER(TRIM(t.value->>'name'))
+      )
+      UNION ALL
+      SELECT 3, t.ordinality, jsonb_build_object('item_type', 'income_source', 'name', t.value->>'name')
+      FROM jsonb_array_elements(p_template->'income_sources') WITH ORDINALITY t
+      WHERE EXISTS (
+        SELECT 1 FROM public.income_sources
+        WHERE budget_id = p_budget_id AND LOWER(TRIM(name)) = LOWER(TRIM(t.value->>'name'))
+      )
+    ) c;
+
+    IF jsonb_array_length(v_conflicts) > 0 THEN
+      RETURN jsonb_build_object(
+        'budget_id', p_budget_id,
+        'categories_created', 0,
+        'envelopes_created', 0,
+        'income_sources_created', 0,
+        'skipped', v_skipped,
+        'renamed', v_renamed,
+        'conflicts', v_conflicts
+      );
+    END IF;
+  END IF;
+
+  -- Categories go in one level at a time so each level can point at the ids of the
+  -- one above it. New categories get their display_order from the database, after
+  -- the existing ones.
+  LOOP
+    FOR v_item IN
+      SELECT t.value
+      FROM jsonb_array_elements(p_template->'categories') WITH ORDINALITY t
+      WHERE CASE
+        WHEN v_level_keys IS NULL THEN NULLIF(t.value->>'parent_key', '') IS NULL
+        ELSE t.value->>'parent_key' = ANY(v_level_keys)
+      END
+      ORDER BY COALESCE((t.value->>'display_order')::INTEGER, 0), t.ordinality
+    LOOP
+      v_next_keys := v_next_keys || (v_item->>'key');
+      v_parent_id := (v_category_ids->>(v_item->>'parent_key'))::UUID;
+      v_name := TRIM(v_item->>'name');
+
+      SELECT id INTO v_category_id
+      FROM public.categories
+      WHERE budget_id = p_budget_id
+        AND parent_id IS NOT DISTINCT FROM v_parent_id
+        AND LOWER(TRIM(name)) = LOWER(v_name)
+      LIMIT 1;
+
+      IF FOUND AND p_conflict_mode = 'skip' THEN
+        v_skipped := v_skipped || jsonb_build_object('item_type', 'category', 'name', v_name);
+        v_category_ids := v_category_ids || jsonb_build_object(v_item->>'key', v_category_id);
+        CONTINUE;
+      ELSIF FOUND THEN
+        v_renamed := v_renamed || jsonb_build_object(
+          'item_type', 'category',
+          'template_name', v_name,
+          'created_name', public.unused_template_name(v_name, ARRAY(
+            SELECT LOWER(TRIM(name)) FROM public.categories
+            WHERE budget_id = p_budget_id AND parent_id IS NOT DISTINCT FROM v_parent_id
+          ))
+        );
+        v_name := v_renamed->-1->>'created_name';
+      END IF;
+
+      INSERT INTO public.categories (budget_id, parent_id, name, description, is_income, icon, color)
+      VALUES (
+        p_budget_id,
+        v_parent_id,
+        v_name,
+        v_item->>'description',
+        COALESCE((v_item->>'is_income')::BOOLEAN, false),
+        v_item->>'icon',
+        v_item->>'color'
+      )
+      RETURNING id INTO v_category_id;
+
+      v_category_ids := v_category_ids || jsonb_build_object(v_item->>'key', v_category_id);
+      v_categories_created := v_categories_created + 1;
+    END LOOP;
+
+    EXIT WHEN CARDINALITY(v_next_keys) = 0;
+    v_level_keys := v_next_keys;
+    v_next_keys := ARRAY[]::TEXT[];
+  END LOOP;
+
+  -- Template envelopes keep their order, after whatever is already in the category
+  FOR v_item IN
+    SELECT t.value
+    FROM jsonb_array_elements(p_template->'envelopes') WITH ORDINALITY t
+    ORDER BY COALESCE((t.value->>'display_order')::INTEGER, 0), t.ordinality
+  LOOP
+    v_name := TRIM(v_item->>'name');
+
+    IF EXISTS (
+      SELECT 1 FROM public.envelopes
+      WHERE budget_id = p_budget_id AND LOWER(TRIM(name)) = LOWER(v_name)
+    ) THEN
+      IF p_conflict_mode = 'skip' THEN
+        v_skipped := v_skipped || jsonb_build_object('item_type', 'envelope', 'name', v_name);
+        CONTINUE;
+      END IF;
+
+      v_renamed := v_renamed || jsonb_build_object(
+        'item_type', 'envelope',
+        'template_name', v_name,
+        'created_name', public.unused_template_name(v_name, ARRAY(
+          SELECT LOWER(TRIM(name)) FROM public.envelopes WHERE budget_id = p_budget_id
+        ))
+      );
+      v_name := v_renamed->-1->>'created_name';
+    END IF;
+
+    v_category_id := (v_category_ids->>(v_item->>'category_key'))::UUID;
+
+    SELECT COALESCE(MAX(display_order) + 1, 0) INTO v_display_order
+    FROM public.envelopes
+    WHERE budget_id = p_budget_id AND category_id IS NOT DISTINCT FROM v_category_id;
+
+    INSERT INTO public.envelopes (
+      budget_id, category_id, name, description, envelope_type, target_amount, goal_type,
+      target_date, icon, color, display_order, notify_on_low_balance, low_balance_threshold, apy
+    ) VALUES (
+      p_budget_id,
+      v_category_id,
+      v_name,
+      v_item->>'description',
+      COALESCE(v_item->>'envelope_type', 'regular'),
+      (v_item->>'target_amount')::DECIMAL(12, 2),
+      v_item->>'goal_type',
+      (v_item->>'target_date')::DATE,
+      v_item->>'icon',
+      v_item->>'color',
+      v_display_order,
+      COALESCE((v_item->>'notify_on_low_balance')::BOOLEAN, false),
+      (v_item->>'low_balance_threshold')::DECIMAL(12, 2),
+      (v_item->>'apy')::DECIMAL(6, 3)
+    );
+
+    v_envelopes_created := v_envelopes_created + 1;
+  END LOOP;
+
+  FOR v_item IN
+    SELECT t.value
+    FROM jsonb_array_elements(p_template->'income_sources') WITH ORDINALITY t
+    ORDER BY t.ordinality
+  LOOP
+    v_name := TRIM(v_item->>'name');
+
+    IF EXISTS (
+      SELECT 1 FROM public.income_sources
+      WHERE budget_id = p_budget_id AND LOWER(TRIM(name)) = LOWER(v_name)
+    ) THEN
+      IF p_conflict_mode = 'skip' THEN
+        v_skipped := v_skipped || jsonb_build_object('item_type', 'income_source', 'name', v_name);
+        CONTINUE;
+      END IF;
+
+      v_renamed := v_renamed || jsonb_build_object(
+        'item_type', 'income_source',
+        'template_name', v_name,
+        'created_name', public.unused_template_name(v_name, ARRAY(
+          SELECT LOWER(TRIM(name)) FROM public.income_sources WHERE budget_id = p_budget_id
+        ))
+      );
+      v_name := v_renamed->-1->>'created_name';
+    END IF;
+
+    INSERT INTO public.income_sources (
+      budget_id, name, description, expected_amount, schedule_type, schedule_config
+    ) VALUES (
+      p_budget_id,
+      v_name,
+      v_item->>'description',
+      (v_item->>'expected_amount')::DECIMAL(12, 2),
+      v_item->>'schedule_type',
+      v_item->'schedule_config'
+    );
+
+    v_income_sources_created := v_income_sources_created + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'budget_id', p_budget_id,
+    'categories_created', v_categories_created,
+    'envelopes_created', v_envelopes_created,
+    'income_sources_created', v_income_sources_created,
+    'skipped', v_skipped,
+    'renamed', v_renamed
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a budget and lay it out from a template in one transaction, so a template
+-- that fails part way leaves no half-built budget behind. The currency defaults to
+-- the user's default currency. A new budget only has its system categories, so
+-- the template is applied in skip mode.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.create_budget_from_template(
+  p_template JSONB,
+  p_name TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT true
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_budget public.budgets;
+BEGIN
+  INSERT INTO public.budgets (user_id, name, description, currency, is_active)
+  VALUES (
+    auth.uid(),
+    p_name,
+    p_description,
+    COALESCE(p_currency, public.get_user_default_currency(auth.uid())),
+    COALESCE(p_is_active, true)
+  )
+  RETURNING * INTO v_budget;
+
+  RETURN public.apply_budget_template(v_budget.id, p_template, 'skip');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON TABLE public.budget_templates IS 'Saved budget layouts that can be applied to new or existing budgets';
+COMMENT ON COLUMN public.budget_templates.version IS 'Incremented each time the template is saved again from a budget';
+COMMENT ON COLUMN public.budget_templates.is_shared IS 'Shared templates are visible to every user, who can apply but not change them';
+COMMENT ON COLUMN public.budget_templates.template IS 'Template content: format_version plus categories, envelopes and income_sources arrays';
+COMMENT ON FUNCTION public.apply_budget_template(UUID, JSONB, TEXT) IS 'Adds a template''s categories, envelopes and income sources to a budget in one transaction';
+COMMENT ON FUNCTION public.create_budget_from_template(JSONB, TEXT, TEXT, TEXT, BOOLEAN) IS 'Creates a budget laid out from a template, atomically';
@@ -0,0 +1,430 @@
+-- Migration: Budget Cloning
+-- Copies a budget into a new one, e.g. to start a new year without losing last
+-- year's data. There are three modes:
+--   structure  categories, envelopes with their targets, payees, income sources, tags,
+--              rollover rules, allocation plans, schedules and rules; no money moves
+--   balances   the structure, then opening balance transactions that carry each
+--              envelope balance and the available amount over
+--   full       the structure plus every transaction, split, transaction tag and
+--              closed budget period, so the copy matches the source exactly
+
+-- A full copy brings envelope balances and the available amount across with the
+-- history they came from, so the balance triggers stand down while it runs, as they
+-- already do during an envelope merge.
+DROP TRIGGER IF EXISTS update_envelope_balance_on_transaction ON public.transactions;
+CREATE TRIGGER update_envelope_balance_on_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_envelopes', true) IS DISTINCT FROM 'true'
+    AND current_setting('app.cloning_budget', true) IS DISTINCT FROM 'true')
+  EXECUTE FUNCTION public.update_envelope_balance();
+
+DROP TRIGGER IF EXISTS update_budget_available_on_transaction ON public.transactions;
+CREATE TRIGGER update_budget_available_on_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_envelopes', true) IS DISTINCT FROM 'true'
+    AND current_setting('app.cloning_budget', true) IS DISTINCT FROM 'true')
+  EXECUTE FUNCTION public.update_budget_available();
+
+DROP TRIGGER IF EXISTS update_envelope_balance_on_transaction_split ON public.transaction_splits;
+CREATE TRIGGER update_envelope_balance_on_transaction_split
+  AFTER INSERT OR UPDATE OR DELETE ON public.transaction_splits
+  FOR EACH ROW
+  WHEN (current_setting('app.merging_envelopes', true) IS DISTINCT FROM 'true'
+    AND current_setting('app.cloning_budget', true) IS DISTINCT FROM 'true')
+  EXECUTE FUNCTION public.update_split_envelope_balance();
+
+-- Copy p_budget_id into a new budget named p_name and return the new budget.
+-- Rows are copied whole with jsonb_populate_record, so columns added later come
+-- along too; only ids, references and running totals are overridden. v_ids maps
+-- each copied row's id to its new id.
+-- In balances mode the carried-over amounts are posted on p_as_of as an income
+-- from an "Opening Balance" income source, one allocation per funded envelope, and
+-- an expense to an "Opening Balance" payee per overspent envelope.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.clone_budget(
+  p_budget_id UUID,
+  p_name TEXT,
+  p_mode TEXT DEFAULT 'structure',
+  p_description TEXT DEFAULT NULL,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS public.budgets AS $$
+DECLARE
+  v_source public.budgets;
+  v_budget public.budgets;
+  v_full BOOLEAN := p_mode = 'full';
+  v_ids JSONB := '{}'::JSONB;
+  v_funded DECIMAL(12, 2);
+  v_income_source_id UUID;
+  v_payee_id UUID;
+BEGIN
+  IF p_mode IS NULL OR p_mode NOT IN ('structure', 'balances', 'full') THEN
+    RAISE EXCEPTION 'Clone mode must be structure, balances or full'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_name IS NULL OR LENGTH(TRIM(p_name)) = 0 THEN
+    RAISE EXCEPTION 'Budget name is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_source
+  FROM public.budgets
+  WHERE id = p_budget_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Budget % not found', p_budget_id;
+  END IF;
+
+  IF p_mode = 'balances' THEN
+    IF p_as_of IS NULL OR p_as_of > CURRENT_DATE THEN
+      RAISE EXCEPTION 'Opening balances cannot be dated in the future'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Income can only add to available, so an over-assigned budget has no opening
+    -- transaction that reproduces it
+    IF v_source.available_amount < 0 THEN
+      RAISE EXCEPTION 'Budget has a negative available amount; cover it before carrying balances over'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  INSERT INTO public.budgets (user_id, name, description, currency, is_active)
+  VALUES (v_source.user_id, TRIM(p_name), COALESCE(p_description, v_source.description), v_source.currency, true)
+  RETURNING * INTO v_budget;
+
+  -- Categories. System categories such as Uncategorized were created with the new
+  -- budget; the rest are copied a level at a time so parents exist first.
+  v_ids := v_ids || COALESCE((
+    SELECT jsonb_object_agg(s.id::TEXT, n.id)
+    FROM public.categories s
+    JOIN public.categories n ON n.budget_id = v_budget.id AND n.is_system AND n.name = s.name
+    WHERE s.budget_id = p_budget_id AND s.is_system
+  ), '{}'::JSONB) || COALESCE((
+    SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+    FROM public.categories
+    WHERE budget_id = p_budget_id AND NOT is_system
+  ), '{}'::JSONB);
+
+  LOOP
+    INSERT INTO public.categories
+    SELECT (jsonb_populate_record(NULL::public.categories, to_jsonb(c) || jsonb_build_object(
+      'id', v_ids ->> c.id::TEXT,
+      'budget_id', v_budget.id,
+      'parent_id', v_ids ->> c.parent_id::TEXT,
+      'total', 0,
+      'created_at', NOW(),
+      'updated_at', NOW()
+    ))).*
+    FROM public.categories c
+    WHERE c.budget_id = p_budget_id
+      AND NOT c.is_system
+      AND NOT EXISTS (SELECT 1 FROM public.categories n WHERE n.id = (v_ids ->> c.id::TEXT)::UUID)
+      AND (c.parent_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.categories n WHERE n.id = (v_ids ->> c.parent_id::TEXT)::UUID
+      ));
+
+    EXIT WHEN NOT FOUND;
+  END LOOP;
+
+  -- Income sources and payees. Structure copies leave out inactive ones; a full copy
+  -- needs them for its history.
+  v_ids := v_ids || COALESCE((
+    SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+    FROM public.income_sources
+    WHERE budget_id = p_budget_id AND (v_full OR is_active)
+  ), '{}'::JSONB) || COALESCE((
+    SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+    FROM public.payees
+    WHERE budget_id = p_budget_id AND (v_full OR is_active)
+  ), '{}'::JSONB);
+
+  INSERT INTO public.income_sources
+  SELECT (jsonb_populate_record(NULL::public.income_sources, to_jsonb(s) || jsonb_build_object(
+    'id', v_ids ->> s.id::TEXT,
+    'budget_id', v_budget.id,
+    'category_id', v_ids ->> s.category_id::TEXT,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))).*
+  FROM public.income_sources s
+  WHERE s.budget_id = p_budget_id AND (v_full OR s.is_active);
+
+  INSERT INTO public.payees
+  SELECT (jsonb_populate_record(NULL::public.payees, to_jsonb(p) || jsonb_build_object(
+    'id', v_ids ->> p.id::TEXT,
+    'budget_id', v_budget.id,
+    'category_id', v_ids ->> p.category_id::TEXT,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ) || CASE WHEN v_full THEN '{}'::JSONB
+       ELSE jsonb_build_object('total_paid', 0, 'last_payment_date', NULL) END)).*
+  FROM public.payees p
+  WHERE p.budget_id = p_budget_id AND (v_full OR p.is_active);
+
+  -- Envelopes start empty unless this is a full copy. Archived envelopes are only
+  -- copied in full, and stay open until their history is in.
+  v_ids := v_ids || COALESCE((
+    SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+    FROM public.envelopes
+    WHERE budget_id = p_budget_id AND (v_full OR (is_active AND NOT is_archived))
+  ), '{}'::JSONB);
+
+  INSERT INTO public.envelopes
+  SELECT (jsonb_populate_record(NULL::public.envelopes, to_jsonb(e) || jsonb_build_object(
+    'id', v_ids ->> e.id::TEXT,
+    'budget_id', v_budget.id,
+    'category_id', v_ids ->> e.category_id::TEXT,
+    'interest_income_source_id', v_ids ->> e.interest_income_source_id::TEXT,
+    'current_balance', CASE WHEN v_full THEN e.current_balance ELSE 0 END,
+    -- The opening expense on an overspent debt envelope also pays down its debt,
+    -- so the debt starts that much higher
+    'target_amount', CASE
+      WHEN p_mode = 'balances' AND e.envelope_type = 'debt' AND e.current_balance < 0
+        THEN e.target_amount - e.current_balance
+      ELSE e.target_amount
+    END,
+    'is_archived', false,
+    'archived_at', NULL,
+    'interest_posted_through', NULL,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))).*
+  FROM public.envelopes e
+  WHERE e.budget_id = p_budget_id AND (v_full OR (e.is_active AND NOT e.is_archived));
+
+  -- Tags and rollover rules
+  v_ids := v_ids || COALESCE((
+    SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+    FROM public.tags
+    WHERE budget_id = p_budget_id
+  ), '{}'::JSONB);
+
+  INSERT INTO public.tags
+  SELECT (jsonb_populate_record(NULL::public.tags, to_jsonb(t) || jsonb_build_object(
+    'id', v_ids ->> t.id::TEXT,
+    'budget_id', v_budget.id,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))).*
+  FROM public.tags t
+  WHERE t.budget_id = p_budget_id;
+
+  INSERT INTO public.budget_rollover_rules
+  SELECT (jsonb_populate_record(NULL::public.budget_rollover_rules, to_jsonb(r) || jsonb_build_object(
+    'id', gen_random_uuid(),
+    'budget_id', v_budget.id,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))).*
+  FROM public.budget_rollover_rules r
+  WHERE r.budget_id = p_budget_id;
+
+  -- Allocation plans, keeping only the steps whose envelopes were copied
+  v_ids := v_ids || COALESCE((
+    SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+    FROM public.allocation_plans
+    WHERE budget_id = p_budget_id AND (v_full OR is_active)
+  ), '{}'::JSONB);
+
+  INSERT INTO public.allocation_plans
+  SELECT (jsonb_populate_record(NULL::public.allocation_plans, to_jsonb(a) || jsonb_build_object(
+    'id', v_ids ->> a.id::TEXT,
+    'budget_id', v_budget.id,
+    'income_source_id', v_ids ->> a.income_source_id::TEXT,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))).*
+  FROM public.allocation_plans a
+  WHERE a.budget_id = p_budget_id AND (v_full OR a.is_active);
+
+  INSERT INTO public.allocation_plan_steps
+  SELECT (jsonb_populate_record(NULL::public.allocation_plan_steps, to_jsonb(s) || jsonb_build_object(
+    'id', gen_random_uuid(),
+    'plan_id', v_ids ->> s.plan_id::TEXT,
+    'envelope_id', v_ids ->> s.envelope_id::TEXT,
+    'created_at', NOW()
+  ))).*
+  FROM public.allocation_plan_steps s
+  WHERE v_ids ? s.plan_id::TEXT AND v_ids ? s.envelope_id::TEXT;
+
+  -- Scheduled transactions and rules, when everything they point at was copied
+  v_ids := v_ids || COALESCE((
+    SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+    FROM public.scheduled_transactions
+    WHERE budget_id = p_budget_id
+      AND (v_full OR is_active)
+      AND (from_envelope_id IS NULL OR v_ids ? from_envelope_id::TEXT)
+      AND (to_envelope_id IS NULL OR v_ids ? to_envelope_id::TEXT)
+      AND (payee_id IS NULL OR v_ids ? payee_id::TEXT)
+      AND (income_source_id IS NULL OR v_ids ? income_source_id::TEXT)
+  ), '{}'::JSONB);
+
+  INSERT INTO public.scheduled_transactions
+  SELECT (jsonb_populate_record(NULL::public.scheduled_transactions, to_jsonb(s) || jsonb_build_object(
+    'id', v_ids ->> s.id::TEXT,
+    'budget_id', v_budget.id,
+    'from_envelope_id', v_ids ->> s.from_envelope_id::TEXT,
+    'to_envelope_id', v_ids ->> s.to_envelope_id::TEXT,
+    'payee_id', v_ids ->> s.payee_id::TEXT,
+    'income_source_id', v_ids ->> s.income_source_id::TEXT,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))).*
+  FROM public.scheduled_transactions s
+  WHERE s.budget_id = p_budget_id AND v_ids ? s.id::TEXT;
+
+  INSERT INTO public.transaction_rules
+  SELECT (jsonb_populate_record(NULL::public.transaction_rules, to_jsonb(r) || jsonb_build_object(
+    'id', gen_random_uuid(),
+    'budget_id', v_budget.id,
+    'match_payee_id', v_ids ->> r.match_payee_id::TEXT,
+    'set_envelope_id', v_ids ->> r.set_envelope_id::TEXT,
+    'set_payee_id', v_ids ->> r.set_payee_id::TEXT,
+    'created_at', NOW(),
+    'updated_at', NOW()
+  ))).*
+  FROM public.transaction_rules r
+  WHERE r.budget_id = p_budget_id
+    AND (v_full OR r.is_active)
+    AND (r.match_payee_id IS NULL OR v_ids ? r.match_payee_id::TEXT)
+    AND (r.set_envelope_id IS NULL OR v_ids ? r.set_envelope_id::TEXT)
+    AND (r.set_payee_id IS NULL OR v_ids ? r.set_payee_id::TEXT);
+
+  IF p_mode = 'balances' THEN
+    SELECT COALESCE(SUM(current_balance), 0) INTO v_funded
+    FROM public.envelopes
+    WHERE budget_id = p_budget_id AND is_active AND NOT is_archived AND current_balance > 0;
+
+    IF v_funded + v_source.available_amount > 0 THEN
+      INSERT INTO public.income_sources (budget_id, name, description, is_active)
+      VALUES (v_budget.id, 'Opening Balance', format('Balances carried over from %s', v_source.name), false)
+      RETURNING id INTO v_income_source_id;
+
+      INSERT INTO public.transactions (
+        budget_id, transaction_type, amount, description, transaction_date, income_source_id, is_cleared
+      ) VALUES (
+        v_budget.id, 'income', v_funded + v_source.available_amount,
+        format('Opening balance carried over from %s', v_source.name), p_as_of, v_income_source_id, true
+      );
+    END IF;
+
+    INSERT INTO public.transactions (
+      budget_id, transaction_type, amount, description, transaction_date, to_envelope_id, is_cleared
+    )
+    SELECT v_budget.id, 'allocation', e.current_balance, 'Opening balance', p_as_of,
+      (v_ids ->> e.id::TEXT)::UUID, true
+    FROM public.envelopes e
+    WHERE e.budget_id = p_budget_id AND e.is_active AND NOT e.is_archived AND e.current_balance > 0;
+
+    IF EXISTS (
+      SELECT 1 FROM public.envelopes
+      WHERE budget_id = p_budget_id AND is_active AND NOT is_archived AND current_balance < 0
+    ) THEN
+      INSERT INTO public.payees (budget_id, name, description, is_active)
+      VALUES (v_budget.id, 'Opening Balance', format('Overspending carried over from %s', v_source.name), false)
+      RETURNING id INTO v_payee_id;
+
+      INSERT INTO public.transactions (
+        budget_id, transaction_type, amount, description, transaction_date, from_envelope_id, payee_id, is_cleared
+      )
+      SELECT v_budget.id, 'expense', -e.current_balance, 'Opening balance', p_as_of,
+        (v_ids ->> e.id::TEXT)::UUID, v_payee_id, true
+      FROM public.envelopes e
+      WHERE e.budget_id = p_budget_id AND e.is_active AND NOT e.is_archived AND e.current_balance < 0;
+    END IF;
+  END IF;
+
+  IF v_full THEN
+    PERFORM set_config('app.cloning_budget', 'true', true);
+
+    v_ids := v_ids || COALESCE((
+      SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+      FROM public.transactions
+      WHERE budget_id = p_budget_id AND NOT is_deleted
+    ), '{}'::JSONB) || COALESCE((
+      SELECT jsonb_object_agg(id::TEXT, gen_random_uuid())
+      FROM public.budget_periods
+      WHERE budget_id = p_budget_id
+    ), '{}'::JSONB);
+
+    -- Reconciliations stay with the source budget
+    INSERT INTO public.transactions
+    SELECT (jsonb_populate_record(NULL::public.transactions, to_jsonb(t) || jsonb_build_object(
+      'id', v_ids ->> t.id::TEXT,
+      'budget_id', v_budget.id,
+      'from_envelope_id', v_ids ->> t.from_envelope_id::TEXT,
+      'to_envelope_id', v_ids ->> t.to_envelope_id::TEXT,
+      'payee_id', v_ids ->> t.payee_id::TEXT,
+      'income_source_id', v_ids ->> t.income_source_id::TEXT,
+      'scheduled_transaction_id', v_ids ->> t.scheduled_transaction_id::TEXT,
+      'reconciliation_id', NULL
+    ))).*
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id AND NOT t.is_deleted
+    ORDER BY t.transaction_date, t.created_at;
+
+    INSERT INTO public.transaction_splits
+    SELECT (jsonb_populate_record(NULL::public.transaction_splits, to_jsonb(s) || jsonb_build_object(
+      'id', gen_random_uuid(),
+      'transaction_id', v_ids ->> s.transaction_id::TEXT,
+      'envelope_id', v_ids ->> s.envelope_id::TEXT
+    ))).*
+    FROM public.transaction_splits s
+    WHERE v_ids ? s.transaction_id::TEXT;
+
+    INSERT INTO public.transaction_tags
+    SELECT (jsonb_populate_record(NULL::public.transaction_tags, to_jsonb(tt) || jsonb_build_object(
+      'transaction_id', v_ids ->> tt.transaction_id::TEXT,
+      'tag_id', v_ids ->> tt.tag_id::TEXT,
+      'budget_id', v_budget.id
+    ))).*
+    FROM public.transaction_tags tt
+    WHERE tt.budget_id = p_budget_id AND v_ids ? tt.transaction_id::TEXT;
+
+    INSERT INTO public.budget_periods
+    SELECT (jsonb_populate_record(NULL::public.budget_periods, to_jsonb(bp) || jsonb_build_object(
+      'id', v_ids ->> bp.id::TEXT,
+      'budget_id', v_budget.id
+    ))).*
+    FROM public.budget_periods bp
+    WHERE bp.budget_id = p_budget_id;
+
+    INSERT INTO public.envelope_period_balances
+    SELECT (jsonb_populate_record(NULL::public.envelope_period_balances, to_jsonb(b) || jsonb_build_object(
+      'id', gen_random_uuid(),
+      'period_id', v_ids ->> b.period_id::TEXT,
+      'budget_id', v_budget.id,
+      'envelope_id', v_ids ->> b.envelope_id::TEXT
+    ))).*
+    FROM public.envelope_period_balances b
+    WHERE b.budget_id = p_budget_id;
+
+    -- Now that their history is in, close the envelopes that were archived
+    UPDATE public.envelopes n
+    SET
+      is_active = e.is_active,
+      is_archived = e.is_archived,
+      archived_at = e.archived_at,
+      interest_posted_through = e.interest_posted_through
+    FROM public.envelopes e
+    WHERE e.budget_id = p_budget_id
+      AND n.id = (v_ids ->> e.id::TEXT)::UUID;
+
+    UPDATE public.budgets
+    SET available_amount = v_source.available_amount
+    WHERE id = v_budget.id;
+
+    PERFORM set_config('app.cloning_budget', 'false', true);
+  END IF;
+
+  SELECT * INTO v_budget FROM public.budgets WHERE id = v_budget.id;
+  RETURN v_budget;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON FUNCTION public.clone_budget(UUID, TEXT, TEXT, TEXT, DATE) IS 'Copies a budget into a new budget: structure only, structure with opening balances, or a full copy including transactions';
@@ -0,0 +1,1523 @@
+-- Migration: Multi-Currency Envelopes
+-- An envelope can hold money in a currency other than the budget's, and a transaction
+-- can be recorded in the currency it happened in. transactions.amount stays in the
+-- budget currency, so the available amount and every report keep working in one
+-- currency; original_amount and exchange_rate keep what was actually recorded.
+-- Envelope balances are kept in the envelope's own currency.
+--
+-- Functions that move or add up envelope balances are redefined at the end to move
+-- each envelope in its own currency and total in the budget currency through
+-- convert_amount: balance updates, envelope activity and goals, split edits, merges,
+-- month close, category totals and the dashboard figures. Scheduled transactions gain
+-- a currency. Savings envelopes and allocation plan steps stay in the budget currency,
+-- and cloning with opening balances is rejected for envelopes in other currencies.
+--
+-- Rates live in exchange_rates, which is shared by all users and written only by the
+-- service role from a rate provider (see ExchangeRateService.refreshRates).
+
+-- Create exchange_rates table: 1 base_currency = rate quote_currency on rate_date
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL,
+  source TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT distinct_exchange_rate_currencies CHECK (base_currency <> quote_currency),
+  CONSTRAINT unique_exchange_rate UNIQUE (base_currency, quote_currency, rate_date)
+);
+
+-- Create indexes
+CREATE INDEX idx_exchange_rates_quote ON public.exchange_rates(quote_currency, rate_date DESC);
+
+-- Enable RLS
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for exchange_rates. There are no write policies: only the service role
+-- records rates.
+CREATE POLICY "Authenticated users can view exchange rates"
+  ON public.exchange_rates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Rate to convert p_from into p_to on p_date: the most recent rate on or before the
+-- date, taken directly, inverted, or crossed through a currency both are quoted
+-- against on the same day. NULL when no rate is known.
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(
+  p_from TEXT,
+  p_to TEXT,
+  p_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS DECIMAL(18, 8) AS $$
+  SELECT CASE WHEN p_from = p_to THEN 1::DECIMAL(18, 8) ELSE (
+    SELECT r.rate::DECIMAL(18, 8)
+    FROM (
+      SELECT x.rate, x.rate_date, 0 AS preference
+      FROM public.exchange_rates x
+      WHERE x.base_currency = p_from AND x.quote_currency = p_to AND x.rate_date <= p_date
+      UNION ALL
+      SELECT 1 / x.rate, x.rate_date, 1
+      FROM public.exchange_rates x
+      WHERE x.base_currency = p_to AND x.quote_currency = p_from AND x.rate_date <= p_date
+      UNION ALL
+      SELECT q.rate / b.rate, b.rate_date, 2
+      FROM public.exchange_rates b
+      JOIN public.exchange_rates q
+        ON q.base_currency = b.base_currency AND q.rate_date = b.rate_date
+      WHERE b.quote_currency = p_from AND q.quote_currency = p_to AND b.rate_date <= p_date
+    ) r
+    ORDER BY r.rate_date DESC, r.preference
+    LIMIT 1
+  ) END;
+$$ LANGUAGE sql STABLE;
+
+-- Convert an amount between currencies at the rate on p_date. A NULL p_from means the
+-- amount is already in p_to, matching envelopes.currency.
+CREATE OR REPLACE FUNCTION public.convert_amount(
+  p_amount DECIMAL(12, 2),
+  p_from TEXT,
+  p_to TEXT,
+  p_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS DECIMAL(12, 2) AS $$
+DECLARE
+  v_rate DECIMAL(18, 8);
+BEGIN
+  IF p_amount IS NULL OR p_from IS NULL OR p_from = p_to THEN
+    RETURN p_amount;
+  END IF;
+
+  v_rate := public.get_exchange_rate(p_from, p_to, p_date);
+
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'No exchange rate from % to % on or before %', p_from, p_to, p_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN ROUND(p_amount * v_rate, 2);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Add currency to envelopes. NULL means the budget currency.
+ALTER TABLE public.envelopes
+ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Add the recorded currency to transactions. All three are NULL for transactions in
+-- the budget currency.
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+ADD COLUMN IF NOT EXISTS original_amount DECIMAL(12, 2) CHECK (original_amount > 0),
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8) CHECK (exchange_rate > 0);
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT valid_transaction_currency CHECK (
+  (currency IS NULL AND original_amount IS NULL AND exchange_rate IS NULL) OR
+  (currency IS NOT NULL AND original_amount IS NOT NULL AND exchange_rate IS NOT NULL)
+);
+
+-- Scheduled transactions post in their currency, at the rate on each occurrence date.
+-- NULL means the budget currency.
+ALTER TABLE public.scheduled_transactions
+ADD COLUMN IF NOT EXISTS currency TEXT CHECK (currency ~ '^[A-Z]{3}$');
+
+-- An envelope in the budget currency stores NULL, and its currency is fixed once
+-- transactions have moved money in or out of it. Savings interest and allocation plans
+-- work in the budget currency, so savings envelopes and plan steps stay in it.
+CREATE OR REPLACE FUNCTION public.validate_envelope_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency = (SELECT currency FROM public.budgets WHERE id = NEW.budget_id) THEN
+    NEW.currency := NULL;
+  END IF;
+
+  IF NEW.currency IS NOT NULL AND NEW.envelope_type = 'savings' THEN
+    RAISE EXCEPTION 'Savings envelopes must be in the budget currency'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.currency IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.allocation_plan_steps WHERE envelope_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Envelopes in allocation plans must be in the budget currency'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.currency IS DISTINCT FROM OLD.currency AND (
+    EXISTS (
+      SELECT 1 FROM public.transactions
+      WHERE from_envelope_id = NEW.id OR to_envelope_id = NEW.id
+    ) OR EXISTS (
+      SELECT 1 FROM public.transaction_splits WHERE envelope_id = NEW.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'The currency of an envelope with transactions cannot be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_envelope_currency_on_envelope
+  BEFORE INSERT OR UPDATE OF currency, envelope_type ON public.envelopes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_envelope_currency();
+
+-- Envelopes and transactions in other currencies are stored relative to the budget
+-- currency, so it is fixed once any exist
+CREATE OR REPLACE FUNCTION public.validate_budget_currency_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.envelopes WHERE budget_id = NEW.id AND currency IS NOT NULL
+  ) OR EXISTS (
+    SELECT 1 FROM public.transactions WHERE budget_id = NEW.id AND currency IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'The budget currency cannot be changed while envelopes or transactions use other currencies'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_budget_currency_change_on_budget
+  BEFORE UPDATE OF currency ON public.budgets
+  FOR EACH ROW
+  WHEN (OLD.currency IS DISTINCT FROM NEW.currency)
+  EXECUTE FUNCTION public.validate_budget_currency_change();
+
+-- Convert transactions recorded in another currency. For those, amount is written in
+-- the recorded currency (unless original_amount is given on insert): it is kept as
+-- original_amount and replaced by the converted amount. The rate is looked up for the
+-- transaction date unless one is given, and is kept when only the date changes. Every
+-- envelope the transaction moves must be in the budget currency or the recorded one.
+CREATE OR REPLACE FUNCTION public.apply_transaction_currency()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_budget_currency TEXT;
+BEGIN
+  SELECT currency INTO v_budget_currency
+  FROM public.budgets
+  WHERE id = NEW.budget_id;
+
+  IF NEW.currency = v_budget_currency THEN
+    NEW.currency := NULL;
+  END IF;
+
+  IF NEW.currency IS NULL THEN
+    -- Moved back to the budget currency without a new amount: keep the recorded one.
+    -- A split's amount is always the total of its lines.
+    IF TG_OP = 'UPDATE' AND OLD.currency IS NOT NULL AND NEW.amount = OLD.amount AND NOT NEW.is_split THEN
+      NEW.amount := OLD.original_amount;
+    END IF;
+    NEW.original_amount := NULL;
+    NEW.exchange_rate := NULL;
+  ELSE
+    IF TG_OP = 'INSERT' THEN
+      NEW.original_amount := COALESCE(NEW.original_amount, NEW.amount);
+    ELSIF OLD.currency IS NULL OR NEW.amount IS DISTINCT FROM OLD.amount THEN
+      NEW.original_amount := NEW.amount;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.currency IS DISTINCT FROM OLD.currency
+      AND NEW.exchange_rate IS NOT DISTINCT FROM OLD.exchange_rate THEN
+      NEW.exchange_rate := NULL;
+    END IF;
+
+    IF NEW.exchange_rate IS NULL THEN
+      NEW.exchange_rate := public.get_exchange_rate(NEW.currency, v_budget_currency, NEW.transaction_date);
+    END IF;
+
+    IF NEW.exchange_rate IS NULL THEN
+      RAISE EXCEPTION 'No exchange rate from % to % on or before %; give one with the transaction',
+        NEW.currency, v_budget_currency, NEW.transaction_date
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.amount := ROUND(NEW.original_amount * NEW.exchange_rate, 2);
+
+    IF NEW.is_split THEN
+      RAISE EXCEPTION 'Split transactions must be recorded in the budget currency'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.envelopes
+    WHERE id IN (NEW.from_envelope_id, NEW.to_envelope_id)
+      AND currency IS NOT NULL
+      AND currency IS DISTINCT FROM NEW.currency
+  ) THEN
+    RAISE EXCEPTION 'Transactions with an envelope in another currency must be recorded in that currency'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER apply_transaction_currency_on_transaction
+  BEFORE INSERT OR UPDATE OF amount, original_amount, currency, exchange_rate, from_envelope_id, to_envelope_id, is_split
+  ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_transaction_currency();
+
+-- Split lines are in the budget currency, like their parent
+CREATE OR REPLACE FUNCTION public.validate_split_envelope_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.envelopes
+    WHERE id = NEW.envelope_id AND currency IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Split lines can only use envelopes in the budget currency'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_split_envelope_currency_on_split
+  BEFORE INSERT OR UPDATE OF envelope_id ON public.transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_split_envelope_currency();
+
+-- Allocation plan steps only fund envelopes in the budget currency
+CREATE OR REPLACE FUNCTION public.validate_allocation_step_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.envelopes
+    WHERE id = NEW.envelope_id AND currency IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Envelopes in allocation plans must be in the budget currency'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_allocation_step_currency_on_step
+  BEFORE INSERT OR UPDATE OF envelope_id ON public.allocation_plan_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_allocation_step_currency();
+
+-- Scheduled transactions follow the same envelope currency rule as the transactions
+-- they post, so a template that could never post is rejected when it is saved
+CREATE OR REPLACE FUNCTION public.validate_scheduled_transaction_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency = (SELECT currency FROM public.budgets WHERE id = NEW.budget_id) THEN
+    NEW.currency := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.envelopes
+    WHERE id IN (NEW.from_envelope_id, NEW.to_envelope_id)
+      AND currency IS NOT NULL
+      AND currency IS DISTINCT FROM NEW.currency
+  ) THEN
+    RAISE EXCEPTION 'Scheduled transactions with an envelope in another currency must be in that currency'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_scheduled_transaction_currency_on_scheduled_transaction
+  BEFORE INSERT OR UPDATE OF currency, from_envelope_id, to_envelope_id ON public.scheduled_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_scheduled_transaction_currency();
+
+-- What a transaction moves in an envelope, in the envelope's currency: the recorded
+-- amount for an envelope in another currency, otherwise the budget-currency amount
+CREATE OR REPLACE FUNCTION public.envelope_transaction_amount(
+  p_envelope_id UUID,
+  p_amount DECIMAL(12, 2),
+  p_original_amount DECIMAL(12, 2)
+)
+RETURNS DECIMAL(12, 2) AS $$
+  SELECT CASE
+    WHEN p_original_amount IS NOT NULL AND EXISTS (
+      SELECT 1 FROM public.envelopes WHERE id = p_envelope_id AND currency IS NOT NULL
+    ) THEN p_original_amount
+    ELSE p_amount
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Envelope balance trigger: move each envelope by the amount in its own currency
+CREATE OR REPLACE FUNCTION public.update_envelope_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  amount_change DECIMAL(12, 2);
+  envelope_type TEXT;
+  current_balance_amount DECIMAL(12, 2);
+  excess_amount DECIMAL(12, 2);
+  envelope_currency TEXT;
+  new_from_amount DECIMAL(12, 2);
+  new_to_amount DECIMAL(12, 2);
+  old_from_amount DECIMAL(12, 2);
+  old_to_amount DECIMAL(12, 2);
+BEGIN
+  -- A scheduled row has not touched any balance yet. Treat it like a soft-deleted
+  -- row, so posting applies it and moving a posted row to a future date reverses it.
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'scheduled' THEN
+    OLD.is_deleted := true;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'scheduled' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status = 'posted' THEN
+      -- Reverse exactly what was applied when the row was posted
+      NEW := OLD;
+    END IF;
+    NEW.is_deleted := true;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.status = 'scheduled')
+    OR (TG_OP = 'DELETE' AND OLD.status = 'scheduled')
+    OR (TG_OP = 'UPDATE' AND OLD.is_deleted AND NEW.is_deleted
+        AND (OLD.status = 'scheduled' OR NEW.status = 'scheduled')) THEN
+    RETURN NULL;
+  END IF;
+
+  -- What the transaction moves in each envelope, in that envelope's currency
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_from_amount := public.envelope_transaction_amount(NEW.from_envelope_id, NEW.amount, NEW.original_amount);
+    new_to_amount := public.envelope_transaction_amount(NEW.to_envelope_id, NEW.amount, NEW.original_amount);
+  END IF;
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_from_amount := public.envelope_transaction_amount(OLD.from_envelope_id, OLD.amount, OLD.original_amount);
+    old_to_amount := public.envelope_transaction_amount(OLD.to_envelope_id, OLD.amount, OLD.original_amount);
+  END IF;
+
+  -- Handle INSERT
+  IF TG_OP = 'INSERT' THEN
+    -- For transfers and expenses, decrease from_envelope balance
+    IF NEW.from_envelope_id IS NOT NULL THEN
+      -- Handle payoff transactions specially
+      IF NEW.transaction_type = 'payoff' THEN
+        -- Get current envelope state
+        SELECT e.envelope_type, e.current_balance, e.currency INTO envelope_type, current_balance_amount, envelope_currency
+        FROM public.envelopes e 
+        WHERE e.id = NEW.from_envelope_id;
+        
+        -- Calculate excess (current_balance minus payoff amount)
+        excess_amount := current_balance_amount - new_from_amount;
+        -- The excess goes back to the budget, converted at the transaction's rate
+        IF envelope_currency IS NOT NULL THEN
+          excess_amount := ROUND(excess_amount * NEW.exchange_rate, 2);
+        END IF;
+        
+        -- Update envelope: clear current_balance completely, clear target_amount
+        UPDATE public.envelopes 
+        SET 
+          current_balance = 0,
+          target_amount = 0
+        WHERE id = NEW.from_envelope_id;
+        
+        -- Return excess to budget available_amount if any
+        IF excess_amount > 0 THEN
+          UPDATE public.budgets 
+          SET available_amount = available_amount + excess_amount
+          WHERE id = NEW.budget_id;
+        END IF;
+        
+      -- Handle expense transactions based on envelope type
+      ELSIF NEW.transaction_type = 'expense' THEN
+        SELECT e.envelope_type INTO envelope_type 
+        FROM public.envelopes e 
+        WHERE e.id = NEW.from_envelope_id;
+        
+        -- Update current_balance for all envelope types
+        UPDATE public.envelopes 
+        SET current_balance = current_balance - new_from_amount
+        WHERE id = NEW.from_envelope_id;
+        
+        -- For debt envelopes, also decrease target_amount (paying down debt)
+        IF envelope_type = 'debt' THEN
+          UPDATE public.envelopes 
+          SET target_amount = target_amount - new_from_amount
+          WHERE id = NEW.from_envelope_id;
+        END IF;
+      ELSE
+        -- Non-expense/payoff transactions: just update current_balance
+        UPDATE public.envelopes 
+        SET current_balance = current_balance - new_from_amount
+        WHERE id = NEW.from_envelope_id;
+      END IF;
+    END IF;
+    
+    -- For transfers and allocations, increase to_envelope balance
+    IF NEW.to_envelope_id IS NOT NULL THEN
+      UPDATE public.envelopes 
+      SET current_balance = current_balance + new_to_amount
+      WHERE id = NEW.to_envelope_id;
+    END IF;
+    
+  -- Handle UPDATE (simplified for payoff - they shouldn't be updated)
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Only process if not just a soft delete/restore
+    IF OLD.is_deleted = NEW.is_deleted THEN
+      -- Handle from_envelope changes
+      IF OLD.from_envelope_id IS DISTINCT FROM NEW.from_envelope_id OR old_from_amount != new_from_amount OR OLD.transaction_type != NEW.transaction_type THEN
+        -- Reverse old transaction
+        IF OLD.from_envelope_id IS NOT NULL THEN
+          -- Handle old payoff transaction reversal (complex - not recommended)
+          IF OLD.transaction_type = 'payoff' THEN
+            -- For payoff reversals, we'd need to restore the original target_amount and remove excess from budget
+            -- This is complex and not recommended for payoff transactions
+            RAISE EXCEPTION 'Payoff transactions should not be updated - delete and recreate instead';
+            
+          -- Handle old expense transaction reversal
+          ELSIF OLD.transaction_type = 'expense' THEN
+            SELECT e.envelope_type INTO envelope_type 
+            FROM public.envelopes e 
+            WHERE e.id = OLD.from_envelope_id;
+            
+            -- Reverse current_balance change
+            UPDATE public.envelopes 
+            SET current_balance = current_balance + old_from_amount
+            WHERE id = OLD.from_envelope_id;
+            
+            -- For debt envelopes, also reverse target_amount change
+            IF envelope_type = 'debt' THEN
+              UPDATE public.envelopes 
+              SET target_amount = target_amount + old_from_amount
+              WHERE id = OLD.from_envelope_id;
+            END IF;
+          ELSE
+            -- Non-expense/payoff transactions: just reverse current_balance
+            UPDATE public.envelopes 
+            SET current_balance = current_balance + old_from_amount
+            WHERE id = OLD.from_envelope_id;
+          END IF;
+        END IF;
+        
+        -- Apply new transaction
+        IF NEW.from_envelope_id IS NOT NULL THEN
+          -- Handle new payoff transaction
+          IF NEW.transaction_type = 'payoff' THEN
+            SELECT e.envelope_type, e.current_balance, e.currency INTO envelope_type, current_balance_amount, envelope_currency
+            FROM public.envelopes e 
+            WHERE e.id = NEW.from_envelope_id;
+            
+            -- Calculate excess
+            excess_amount := current_balance_amount - new_from_amount;
+            -- The excess goes back to the budget, converted at the transaction's rate
+            IF envelope_currency IS NOT NULL THEN
+              excess_amount := ROUND(excess_amount * NEW.exchange_rate, 2);
+            END IF;
+            
+            -- Update envelope: clear completely
+            UPDATE public.envelopes 
+            SET 
+              current_balance = 0,
+              target_amount = 0
+            WHERE id = NEW.from_envelope_id;
+            
+            -- Return excess to budget
+            IF excess_amount > 0 THEN
+              UPDATE public.budgets 
+              SET available_amount = available_amount + excess_amount
+              WHERE id = NEW.budget_id;
+            END IF;
+            
+          -- Handle new expense transaction
+          ELSIF NEW.transaction_type = 'expense' THEN
+            SELECT e.envelope_type INTO envelope_type 
+            FROM public.envelopes e 
+            WHERE e.id = NEW.from_envelope_id;
+            
+            -- Update current_balance
+            UPDATE public.envelopes 
+            SET current_balance = current_balance - new_from_amount
+            WHERE id = NEW.from_envelope_id;
+            
+            -- For debt envelopes, also decrease target_amount
+            IF envelope_type = 'debt' THEN
+              UPDATE public.envelopes 
+              SET target_amount = target_amount - new_from_amount
+              WHERE id = NEW.from_envelope_id;
+            END IF;
+          ELSE
+            -- Non-expense/payoff transactions: just update current_balance
+            UPDATE public.envelopes 
+            SET current_balance = current_balance - new_from_amount
+            WHERE id = NEW.from_envelope_id;
+          END IF;
+        END IF;
+      END IF;
+      
+      -- Handle to_envelope changes (no special logic needed for debt envelopes here)
+      IF OLD.to_envelope_id IS DISTINCT FROM NEW.to_envelope_id OR old_to_amount != new_to_amount THEN
+        -- Reverse old transaction
+        IF OLD.to_envelope_id IS NOT NULL THEN
+          UPDATE public.envelopes 
+          SET current_balance = current_balance - old_to_amount
+          WHERE id = OLD.to_envelope_id;
+        END IF;
+        -- Apply new transaction
+        IF NEW.to_envelope_id IS NOT NULL THEN
+          UPDATE public.envelopes 
+          SET current_balance = current_balance + new_to_amount
+          WHERE id = NEW.to_envelope_id;
+        END IF;
+      END IF;
+    -- Handle soft delete
+    ELSIF OLD.is_deleted = false AND NEW.is_deleted = true THEN
+      -- Reverse the transaction
+      IF NEW.from_envelope_id IS NOT NULL THEN
+        -- Handle payoff transaction reversal
+        IF NEW.transaction_type = 'payoff' THEN
+          -- Complex reversal - restore original state
+          RAISE EXCEPTION 'Payoff transactions should be hard deleted, not soft deleted';
+          
+        -- Handle expense transaction reversal
+        ELSIF NEW.transaction_type = 'expense' THEN
+          SELECT e.envelope_type INTO envelope_type 
+          FROM public.envelopes e 
+          WHERE e.id = NEW.from_envelope_id;
+          
+          -- Reverse current_balance change
+          UPDATE public.envelopes 
+          SET current_balance = current_balance + new_from_amount
+          WHERE id = NEW.from_envelope_id;
+          
+          -- For debt envelopes, also reverse target_amount change
+          IF envelope_type = 'debt' THEN
+            UPDATE public.envelopes 
+            SET target_amount = target_amount + new_from_amount
+            WHERE id = NEW.from_envelope_id;
+          END IF;
+        ELSE
+          -- Non-expense/payoff transactions: just reverse current_balance
+          UPDATE public.envelopes 
+          SET current_balance = current_balance + new_from_amount
+          WHERE id = NEW.from_envelope_id;
+        END IF;
+      END IF;
+      IF NEW.to_envelope_id IS NOT NULL THEN
+        UPDATE public.envelopes 
+        SET current_balance = current_balance - new_to_amount
+        WHERE id = NEW.to_envelope_id;
+      END IF;
+    -- Handle restore from soft delete
+    ELSIF OLD.is_deleted = true AND NEW.is_deleted = false THEN
+      -- Reapply the transaction
+      IF NEW.from_envelope_id IS NOT NULL THEN
+        -- Handle payoff transaction
+        IF NEW.transaction_type = 'payoff' THEN
+          -- Complex restoration - not recommended
+          RAISE EXCEPTION 'Payoff transactions should not be restored from soft delete';
+          
+        -- Handle expense transaction
+        ELSIF NEW.transaction_type = 'expense' THEN
+          SELECT e.envelope_type INTO envelope_type 
+          FROM public.envelopes e 
+          WHERE e.id = NEW.from_envelope_id;
+          
+          -- Update current_balance
+          UPDATE public.envelopes 
+          SET current_balance = current_balance - new_from_amount
+          WHERE id = NEW.from_envelope_id;
+          
+          -- For debt envelopes, also decrease target_amount
+          IF envelope_type = 'debt' THEN
+            UPDATE public.envelopes 
+            SET target_amount = target_amount - new_from_amount
+            WHERE id = NEW.from_envelope_id;
+          END IF;
+        ELSE
+          -- Non-expense/payoff transactions: just update current_balance
+          UPDATE public.envelopes 
+          SET current_balance = current_balance - new_from_amount
+          WHERE id = NEW.from_envelope_id;
+        END IF;
+      END IF;
+      IF NEW.to_envelope_id IS NOT NULL THEN
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + new_to_amount
+        WHERE id = NEW.to_envelope_id;
+      END IF;
+    END IF;
+    
+  -- Handle DELETE (hard delete)
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Reverse the transaction
+    IF OLD.from_envelope_id IS NOT NULL THEN
+      -- Handle payoff transaction reversal
+      IF OLD.transaction_type = 'payoff' THEN
+        -- For payoff, we need to restore the original target_amount and remove excess from budget
+        -- This would require storing the original target_amount, which we don't have
+        -- For now, just reverse the current_balance change
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + old_from_amount
+        WHERE id = OLD.from_envelope_id;
+        
+      -- Handle expense transaction reversal
+      ELSIF OLD.transaction_type = 'expense' THEN
+        SELECT e.envelope_type INTO envelope_type 
+        FROM public.envelopes e 
+        WHERE e.id = OLD.from_envelope_id;
+        
+        -- Reverse current_balance change
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + old_from_amount
+        WHERE id = OLD.from_envelope_id;
+        
+        -- For debt envelopes, also reverse target_amount change
+        IF envelope_type = 'debt' THEN
+          UPDATE public.envelopes 
+          SET target_amount = target_amount + old_from_amount
+          WHERE id = OLD.from_envelope_id;
+        END IF;
+      ELSE
+        -- Non-expense/payoff transactions: just reverse current_balance
+        UPDATE public.envelopes 
+        SET current_balance = current_balance + old_from_amount
+        WHERE id = OLD.from_envelope_id;
+      END IF;
+    END IF;
+    IF OLD.to_envelope_id IS NOT NULL THEN
+      UPDATE public.envelopes 
+      SET current_balance = current_balance - old_to_amount
+      WHERE id = OLD.to_envelope_id;
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Projected envelope balances, in each envelope's own currency
+CREATE OR REPLACE FUNCTION public.get_projected_envelope_balances(
+  p_budget_id UUID,
+  p_through_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+  envelope_id UUID,
+  current_balance DECIMAL(12, 2),
+  pending_amount DECIMAL(12, 2),
+  pending_count INTEGER,
+  projected_balance DECIMAL(12, 2)
+) AS $$
+  WITH pending AS (
+    SELECT t.from_envelope_id AS envelope_id,
+      -public.envelope_transaction_amount(t.from_envelope_id, t.amount, t.original_amount) AS amount
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'scheduled'
+      AND t.is_deleted = false
+      AND t.from_envelope_id IS NOT NULL
+      AND (p_through_date IS NULL OR t.transaction_date <= p_through_date)
+    UNION ALL
+    SELECT t.to_envelope_id,
+      public.envelope_transaction_amount(t.to_envelope_id, t.amount, t.original_amount)
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'scheduled'
+      AND t.is_deleted = false
+      AND t.to_envelope_id IS NOT NULL
+      AND (p_through_date IS NULL OR t.transaction_date <= p_through_date)
+  )
+  SELECT
+    e.id,
+    e.current_balance,
+    COALESCE(SUM(p.amount), 0),
+    COUNT(p.envelope_id)::INTEGER,
+    e.current_balance + COALESCE(SUM(p.amount), 0)
+  FROM public.envelopes e
+  LEFT JOIN pending p ON p.envelope_id = e.id
+  WHERE e.budget_id = p_budget_id
+  GROUP BY e.id, e.current_balance
+  ORDER BY e.display_order;
+$$ LANGUAGE sql STABLE;
+
+-- Envelope activity, in each envelope's own currency
+CREATE OR REPLACE FUNCTION public.get_envelope_activity(
+  p_budget_id UUID,
+  p_from DATE,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE(
+  envelope_id UUID,
+  assigned DECIMAL(12, 2),
+  spent DECIMAL(12, 2)
+) AS $$
+  WITH movements AS (
+    SELECT t.to_envelope_id AS envelope_id,
+      public.envelope_transaction_amount(t.to_envelope_id, t.amount, t.original_amount) AS assigned, 0::DECIMAL(12, 2) AS spent
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type IN ('allocation', 'transfer')
+      AND t.to_envelope_id IS NOT NULL
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date >= p_from
+      AND (p_to IS NULL OR t.transaction_date <= p_to)
+    UNION ALL
+    SELECT t.from_envelope_id,
+      CASE WHEN t.transaction_type IN ('allocation', 'transfer') THEN -f.amount ELSE 0 END,
+      CASE WHEN t.transaction_type IN ('allocation', 'transfer') THEN 0 ELSE f.amount END
+    FROM public.transactions t
+    CROSS JOIN LATERAL (
+      SELECT public.envelope_transaction_amount(t.from_envelope_id, t.amount, t.original_amount) AS amount
+    ) f
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type IN ('allocation', 'transfer', 'expense', 'payoff')
+      AND t.from_envelope_id IS NOT NULL
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date >= p_from
+      AND (p_to IS NULL OR t.transaction_date <= p_to)
+    UNION ALL
+    SELECT s.envelope_id, 0, s.amount
+    FROM public.transaction_splits s
+    JOIN public.transactions t ON t.id = s.transaction_id
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND s.is_deleted = false
+      AND t.transaction_date >= p_from
+      AND (p_to IS NULL OR t.transaction_date <= p_to)
+  )
+  SELECT m.envelope_id, SUM(m.assigned), SUM(m.spent)
+  FROM movements m
+  GROUP BY m.envelope_id;
+$$ LANGUAGE sql STABLE;
+
+-- Envelope goal progress: funding counts in each envelope's own currency
+CREATE OR REPLACE FUNCTION public.get_envelope_goal_progress(
+  p_budget_id UUID,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  envelope_id UUID,
+  goal_type TEXT,
+  target_amount DECIMAL(12, 2),
+  target_date DATE,
+  current_balance DECIMAL(12, 2),
+  funded_this_period DECIMAL(12, 2),
+  required_this_period DECIMAL(12, 2),
+  funded_percentage DECIMAL(5, 2),
+  underfunded_amount DECIMAL(12, 2)
+) AS $$
+  WITH period AS (
+    SELECT
+      DATE_TRUNC('month', p_as_of)::DATE AS period_start,
+      (DATE_TRUNC('month', p_as_of) + INTERVAL '1 month' - INTERVAL '1 day')::DATE AS period_end
+  ),
+  funding AS (
+    SELECT t.to_envelope_id AS envelope_id,
+      public.envelope_transaction_amount(t.to_envelope_id, t.amount, t.original_amount) AS amount
+    FROM public.transactions t, period
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type IN ('allocation', 'transfer')
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date BETWEEN period.period_start AND period.period_end
+    UNION ALL
+    SELECT t.from_envelope_id,
+      -public.envelope_transaction_amount(t.from_envelope_id, t.amount, t.original_amount)
+    FROM public.transactions t, period
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type = 'transfer'
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date BETWEEN period.period_start AND period.period_end
+  ),
+  goals AS (
+    SELECT
+      e.id,
+      e.goal_type,
+      e.target_amount,
+      e.target_date,
+      e.current_balance,
+      e.display_order,
+      COALESCE(SUM(f.amount), 0) AS funded,
+      -- Months left including this one; an overdue goal is due in full now
+      GREATEST(
+        (EXTRACT(YEAR FROM e.target_date) - EXTRACT(YEAR FROM p_as_of)) * 12 +
+        (EXTRACT(MONTH FROM e.target_date) - EXTRACT(MONTH FROM p_as_of)) + 1,
+        1
+      )::INTEGER AS months_left
+    FROM public.envelopes e
+    LEFT JOIN funding f ON f.envelope_id = e.id
+    WHERE e.budget_id = p_budget_id
+      AND e.is_active = true
+      AND e.goal_type IS NOT NULL
+    GROUP BY e.id
+  ),
+  required AS (
+    SELECT
+      g.*,
+      CASE g.goal_type
+        -- Spread what was still missing at the start of the month over the months left
+        WHEN 'target_by_date' THEN
+          ROUND(GREATEST(g.target_amount - (g.current_balance - g.funded), 0) / g.months_left, 2)
+        WHEN 'monthly' THEN g.target_amount
+        ELSE GREATEST(g.target_amount - g.current_balance, 0)
+      END AS required_amount
+    FROM goals g
+  )
+  SELECT
+    r.id,
+    r.goal_type,
+    r.target_amount,
+    r.target_date,
+    r.current_balance,
+    r.funded,
+    r.required_amount,
+    ROUND(LEAST(GREATEST(
+      CASE r.goal_type
+        WHEN 'monthly' THEN r.funded
+        ELSE r.current_balance
+      END, 0) / r.target_amount * 100, 100), 2),
+    CASE r.goal_type
+      WHEN 'minimum_balance' THEN r.required_amount
+      ELSE GREATEST(r.required_amount - GREATEST(r.funded, 0), 0)
+    END
+  FROM required r
+  ORDER BY r.display_order;
+$$ LANGUAGE sql STABLE;
+
+-- Budget summary: envelope balances in other currencies count at today's rate
+CREATE OR REPLACE FUNCTION public.get_budget_summary(
+  budget_id_param UUID
+) RETURNS TABLE (
+  budget_id UUID,
+  available_amount DECIMAL(12, 2),
+  total_allocated DECIMAL(12, 2),
+  total_in_envelopes DECIMAL(12, 2),
+  total_income DECIMAL(12, 2),
+  total_expenses DECIMAL(12, 2),
+  envelope_count INTEGER,
+  negative_envelope_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    b.id AS budget_id,
+    b.available_amount,
+    COALESCE(SUM(CASE WHEN t.transaction_type = 'allocation' AND NOT t.is_deleted THEN t.amount ELSE 0 END), 0) AS total_allocated,
+    COALESCE((SELECT SUM(public.convert_amount(e.current_balance, e.currency, b.currency)) FROM public.envelopes e WHERE e.budget_id = b.id AND e.is_active), 0) AS total_in_envelopes,
+    COALESCE(SUM(CASE WHEN t.transaction_type = 'income' AND NOT t.is_deleted THEN t.amount ELSE 0 END), 0) AS total_income,
+    COALESCE(SUM(CASE WHEN t.transaction_type IN ('expense', 'payoff') AND NOT t.is_deleted THEN t.amount ELSE 0 END), 0) AS total_expenses,
+    COALESCE((SELECT COUNT(*) FROM public.envelopes e WHERE e.budget_id = b.id AND e.is_active), 0)::INTEGER AS envelope_count,
+    COALESCE((SELECT COUNT(*) FROM public.envelopes e WHERE e.budget_id = b.id AND e.is_active AND e.current_balance < 0), 0)::INTEGER AS negative_envelope_count
+  FROM public.budgets b
+  LEFT JOIN public.transactions t ON t.budget_id = b.id
+  WHERE b.id = budget_id_param
+    AND b.user_id = auth.uid()
+  GROUP BY b.id, b.available_amount, b.currency;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Dashboard summary: envelope totals in the budget currency
+CREATE OR REPLACE FUNCTION get_dashboard_summary(p_budget_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+  current_month_start DATE;
+  current_month_end DATE;
+  v_currency TEXT;
+BEGIN
+  SELECT currency INTO v_currency FROM budgets WHERE id = p_budget_id;
+
+  -- Get current month boundaries
+  current_month_start := DATE_TRUNC('month', CURRENT_DATE);
+  current_month_end := DATE_TRUNC('month', CURRENT_DATE) + INTERVAL '1 month' - INTERVAL '1 day';
+
+  -- Envelope figures are converted to the budget currency at today's rate
+  WITH envelope_stats AS (
+    SELECT 
+      COUNT(*) as total_envelopes,
+      COUNT(CASE WHEN is_active THEN 1 END) as active_envelopes,
+      COUNT(CASE WHEN current_balance < 0 AND is_active THEN 1 END) as negative_envelopes,
+      COALESCE(SUM(CASE WHEN is_active THEN public.convert_amount(current_balance, envelopes.currency, v_currency) ELSE 0 END), 0) as total_balance,
+      COALESCE(SUM(CASE WHEN is_active THEN public.convert_amount(target_amount, envelopes.currency, v_currency) ELSE 0 END), 0) as total_targets,
+      COALESCE(SUM(CASE WHEN is_active THEN public.convert_amount(projected_balance, envelopes.currency, v_currency) ELSE 0 END), 0) as projected_balance
+    FROM envelopes
+    JOIN (
+      SELECT envelope_id, projected_balance
+      FROM public.get_projected_envelope_balances(p_budget_id)
+    ) pb ON pb.envelope_id = envelopes.id
+    WHERE budget_id = p_budget_id
+  ),
+  monthly_transactions AS (
+    SELECT 
+      COUNT(CASE WHEN transaction_type = 'income' THEN 1 END) as income_count,
+      COUNT(CASE WHEN transaction_type IN ('expense', 'debt_payment') THEN 1 END) as expense_count,
+      COUNT(CASE WHEN NOT is_cleared THEN 1 END) as uncleared_count,
+      COALESCE(SUM(CASE WHEN transaction_type = 'income' THEN amount ELSE 0 END), 0) as monthly_income,
+      COALESCE(SUM(CASE WHEN transaction_type IN ('expense', 'debt_payment') THEN amount ELSE 0 END), 0) as monthly_spending
+    FROM transactions 
+    WHERE budget_id = p_budget_id 
+      AND is_deleted = false
+      AND status = 'posted'
+      AND transaction_date >= current_month_start
+      AND transaction_date <= current_month_end
+  ),
+  recent_activity AS (
+    SELECT JSON_AGG(
+      JSON_BUILD_OBJECT(
+        'id', id,
+        'transaction_type', transaction_type,
+        'amount', amount,
+        'transaction_date', transaction_date,
+        'description', description,
+        'is_cleared', is_cleared
+      ) ORDER BY created_at DESC
+    ) as recent_transactions
+    FROM (
+      SELECT * FROM transactions 
+      WHERE budget_id = p_budget_id 
+        AND is_deleted = false
+        AND status = 'posted'
+      ORDER BY created_at DESC 
+      LIMIT 10
+    ) t
+  ),
+  pending_transactions AS (
+    SELECT
+      COUNT(*) as pending_count,
+      COALESCE(SUM(CASE WHEN transaction_type = 'income' THEN amount ELSE 0 END), 0) as pending_income,
+      COALESCE(SUM(CASE WHEN transaction_type = 'expense' THEN amount ELSE 0 END), 0) as pending_spending,
+      COALESCE(SUM(CASE WHEN transaction_type = 'allocation' THEN amount ELSE 0 END), 0) as pending_allocations
+    FROM transactions
+    WHERE budget_id = p_budget_id
+      AND is_deleted = false
+      AND status = 'scheduled'
+  ),
+  goal_progress AS (
+    SELECT
+      COUNT(*) as goal_count,
+      COUNT(CASE WHEN gp.underfunded_amount > 0 THEN 1 END) as underfunded_count,
+      COALESCE(SUM(public.convert_amount(gp.required_this_period, e.currency, v_currency)), 0) as required_this_period,
+      COALESCE(SUM(public.convert_amount(gp.funded_this_period, e.currency, v_currency)), 0) as funded_this_period,
+      COALESCE(SUM(public.convert_amount(gp.underfunded_amount, e.currency, v_currency)), 0) as underfunded_amount
+    FROM public.get_envelope_goal_progress(p_budget_id) gp
+    JOIN public.envelopes e ON e.id = gp.envelope_id
+  ),
+  budget_info AS (
+    SELECT available_amount, currency
+    FROM budgets
+    WHERE id = p_budget_id
+  )
+  SELECT JSON_BUILD_OBJECT(
+    'currency', b.currency,
+    'available_amount', b.available_amount,
+    'total_envelope_balance', e.total_balance,
+    'total_envelope_targets', e.total_targets,
+    'budget_utilization_percentage', 
+      CASE 
+        WHEN e.total_targets > 0 THEN ROUND((e.total_balance / e.total_targets * 100)::numeric, 2)
+        ELSE 0 
+      END,
+    'envelope_stats', JSON_BUILD_OBJECT(
+      'total_envelopes', e.total_envelopes,
+      'active_envelopes', e.active_envelopes,
+      'negative_envelopes', e.negative_envelopes,
+      'allocation_percentage', 
+        CASE 
+          WHEN b.available_amount + e.total_balance > 0 
+          THEN ROUND((e.total_balance / (b.available_amount + e.total_balance) * 100)::numeric, 2)
+          ELSE 0 
+        END
+    ),
+    'monthly_summary', JSON_BUILD_OBJECT(
+      'income', m.monthly_income,
+      'spending', m.monthly_spending,
+      'net_flow', m.monthly_income - m.monthly_spending,
+      'income_transactions', m.income_count,
+      'expense_transactions', m.expense_count,
+      'uncleared_transactions', m.uncleared_count
+    ),
+    'recent_activity', COALESCE(r.recent_transactions, '[]'::json),
+    'pending_summary', JSON_BUILD_OBJECT(
+      'pending_transactions', p.pending_count,
+      'income', p.pending_income,
+      'spending', p.pending_spending,
+      'projected_available_amount', b.available_amount + p.pending_income - p.pending_allocations,
+      'projected_envelope_balance', e.projected_balance
+    ),
+    'goal_summary', JSON_BUILD_OBJECT(
+      'goal_count', g.goal_count,
+      'underfunded_count', g.underfunded_count,
+      'required_this_period', g.required_this_period,
+      'funded_this_period', g.funded_this_period,
+      'underfunded_amount', g.underfunded_amount
+    )
+  ) INTO result
+  FROM budget_info b, envelope_stats e, monthly_transactions m, recent_activity r, pending_transactions p, goal_progress g;
+
+  RETURN result;
+END;
+$$;
+
+-- Envelope merge: only envelopes in the same currency can be merged.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.merge_envelopes(
+  p_source_id UUID,
+  p_target_id UUID
+)
+RETURNS public.envelopes AS $$
+DECLARE
+  v_source public.envelopes;
+  v_target public.envelopes;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'An envelope cannot be merged into itself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lock both envelopes in a fixed order to avoid deadlocks between concurrent merges
+  PERFORM 1 FROM public.envelopes
+  WHERE id IN (p_source_id, p_target_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_source FROM public.envelopes WHERE id = p_source_id;
+  SELECT * INTO v_target FROM public.envelopes WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Envelope not found';
+  END IF;
+
+  IF v_source.budget_id <> v_target.budget_id THEN
+    RAISE EXCEPTION 'Envelopes must belong to the same budget'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_source.currency IS DISTINCT FROM v_target.currency THEN
+    RAISE EXCEPTION 'Envelopes must use the same currency'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_target.is_archived THEN
+    RAISE EXCEPTION 'Cannot merge into an archived envelope'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.merging_envelopes', 'true', true);
+
+  -- Transfers between the two envelopes
+  DELETE FROM public.transactions
+  WHERE transaction_type = 'transfer'
+  AND (
+    (from_envelope_id = p_source_id AND to_envelope_id = p_target_id) OR
+    (from_envelope_id = p_target_id AND to_envelope_id = p_source_id)
+  );
+
+  DELETE FROM public.scheduled_transactions
+  WHERE (from_envelope_id = p_source_id AND to_envelope_id = p_target_id)
+  OR (from_envelope_id = p_target_id AND to_envelope_id = p_source_id);
+
+  -- Everything else moves to the target
+  UPDATE public.transactions SET from_envelope_id = p_target_id WHERE from_envelope_id = p_source_id;
+  UPDATE public.transactions SET to_envelope_id = p_target_id WHERE to_envelope_id = p_source_id;
+  UPDATE public.transaction_splits SET envelope_id = p_target_id WHERE envelope_id = p_source_id;
+  UPDATE public.scheduled_transactions SET from_envelope_id = p_target_id WHERE from_envelope_id = p_source_id;
+  UPDATE public.scheduled_transactions SET to_envelope_id = p_target_id WHERE to_envelope_id = p_source_id;
+  UPDATE public.transaction_rules SET set_envelope_id = p_target_id WHERE set_envelope_id = p_source_id;
+  UPDATE public.allocation_plan_steps SET envelope_id = p_target_id WHERE envelope_id = p_source_id;
+
+  -- Closed months: add the source figures to the target's where both have a row
+  UPDATE public.envelope_period_balances target
+  SET
+    opening_balance = target.opening_balance + source.opening_balance,
+    assigned = target.assigned + source.assigned,
+    spent = target.spent + source.spent,
+    available = target.available + source.available,
+    rollover_adjustment = target.rollover_adjustment + source.rollover_adjustment
+  FROM public.envelope_period_balances source
+  WHERE source.envelope_id = p_source_id
+  AND target.envelope_id = p_target_id
+  AND target.period_id = source.period_id;
+
+  DELETE FROM public.envelope_period_balances source
+  WHERE source.envelope_id = p_source_id
+  AND EXISTS (
+    SELECT 1 FROM public.envelope_period_balances target
+    WHERE target.envelope_id = p_target_id
+    AND target.period_id = source.period_id
+  );
+
+  UPDATE public.envelope_period_balances
+  SET envelope_id = p_target_id
+  WHERE envelope_id = p_source_id;
+
+  -- Set the final balances
+  UPDATE public.envelopes
+  SET
+    current_balance = v_target.current_balance + v_source.current_balance,
+    target_amount = CASE
+      WHEN v_target.envelope_type = 'debt' AND v_source.envelope_type = 'debt'
+        THEN COALESCE(v_target.target_amount, 0) + COALESCE(v_source.target_amount, 0)
+      ELSE v_target.target_amount
+    END
+  WHERE id = p_target_id
+  RETURNING * INTO v_target;
+
+  DELETE FROM public.envelopes WHERE id = p_source_id;
+
+  PERFORM set_config('app.merging_envelopes', 'false', true);
+
+  RETURN v_target;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Split edits: currency and exchange_rate in p_fields are applied with the other
+-- fields, so a transaction recorded in another currency can be moved back to the
+-- budget currency (currency NULL) in the same call that splits it
+CREATE OR REPLACE FUNCTION public.replace_transaction_splits(
+  p_transaction_id UUID,
+  p_splits JSONB,
+  p_fields JSONB DEFAULT '{}'::JSONB
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_transaction public.transactions;
+  v_total DECIMAL(12, 2);
+BEGIN
+  IF p_splits IS NULL OR jsonb_array_length(p_splits) < 2 THEN
+    RAISE EXCEPTION 'Split transactions require at least two split lines';
+  END IF;
+
+  SELECT COALESCE(SUM((split->>'amount')::DECIMAL(12, 2)), 0) INTO v_total
+  FROM jsonb_array_elements(p_splits) AS split;
+
+  UPDATE public.transactions
+  SET
+    amount = v_total,
+    from_envelope_id = NULL,
+    is_split = true,
+    description = CASE WHEN p_fields ? 'description' THEN p_fields->>'description' ELSE description END,
+    transaction_date = CASE WHEN p_fields ? 'transaction_date' THEN (p_fields->>'transaction_date')::DATE ELSE transaction_date END,
+    payee_id = CASE WHEN p_fields ? 'payee_id' THEN (p_fields->>'payee_id')::UUID ELSE payee_id END,
+    to_envelope_id = CASE WHEN p_fields ? 'to_envelope_id' THEN (p_fields->>'to_envelope_id')::UUID ELSE to_envelope_id END,
+    income_source_id = CASE WHEN p_fields ? 'income_source_id' THEN (p_fields->>'income_source_id')::UUID ELSE income_source_id END,
+    is_cleared = CASE WHEN p_fields ? 'is_cleared' THEN (p_fields->>'is_cleared')::BOOLEAN ELSE is_cleared END,
+    is_reconciled = CASE WHEN p_fields ? 'is_reconciled' THEN (p_fields->>'is_reconciled')::BOOLEAN ELSE is_reconciled END,
+    currency = CASE WHEN p_fields ? 'currency' THEN p_fields->>'currency' ELSE currency END,
+    exchange_rate = CASE WHEN p_fields ? 'exchange_rate' THEN (p_fields->>'exchange_rate')::DECIMAL(18, 8) ELSE exchange_rate END,
+    updated_at = NOW()
+  WHERE id = p_transaction_id
+  AND transaction_type = 'expense'
+  AND is_deleted = false
+  RETURNING * INTO v_transaction;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense transaction % not found', p_transaction_id;
+  END IF;
+
+  -- Deleting reverses the old envelope debits; inserting applies the new ones
+  DELETE FROM public.transaction_splits
+  WHERE transaction_id = p_transaction_id;
+
+  INSERT INTO public.transaction_splits (transaction_id, envelope_id, amount, description)
+  SELECT
+    p_transaction_id,
+    (split->>'envelope_id')::UUID,
+    (split->>'amount')::DECIMAL(12, 2),
+    split->>'description'
+  FROM jsonb_array_elements(p_splits) AS split;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Month close: rollover adjustments are worked out and posted in each envelope's own
+-- currency, at the rate on the last day of the month. Overspending is covered from as
+-- much of available as converts into the envelope's currency.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.close_budget_period(
+  p_budget_id UUID,
+  p_period_start DATE
+)
+RETURNS public.budget_periods AS $$
+DECLARE
+  v_period public.budget_periods;
+  v_start DATE := DATE_TRUNC('month', p_period_start)::DATE;
+  v_end DATE := (DATE_TRUNC('month', p_period_start) + INTERVAL '1 month' - INTERVAL '1 day')::DATE;
+  v_description TEXT := 'Rollover: ' || TO_CHAR(p_period_start, 'FMMonth YYYY');
+  v_available DECIMAL(12, 2);
+  v_currency TEXT;
+  v_envelope RECORD;
+  v_adjustment DECIMAL(12, 2);
+  v_rate DECIMAL(18, 8);
+  v_posted DECIMAL(12, 2);
+  v_summary CURSOR FOR
+    SELECT s.*, e.currency
+    FROM public.get_envelope_period_summary(p_budget_id, v_start) s
+    JOIN public.envelopes e ON e.id = s.envelope_id
+    ORDER BY s.available DESC;
+BEGIN
+  -- Serialize closes of the same budget
+  SELECT available_amount, currency INTO v_available, v_currency
+  FROM public.budgets WHERE id = p_budget_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Budget % not found', p_budget_id;
+  END IF;
+
+  IF v_end >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Only months that have ended can be closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.budget_periods
+    WHERE budget_id = p_budget_id AND period_start >= v_start
+  ) THEN
+    RAISE EXCEPTION 'This month or a later one is already closed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Open the cursor first: it reads the month as of now, while it is still open.
+  -- Once the period row exists the summary would read its (still empty) snapshot.
+  OPEN v_summary;
+
+  INSERT INTO public.budget_periods (budget_id, period_start, period_end, closed_by)
+  VALUES (p_budget_id, v_start, v_end, auth.uid())
+  RETURNING * INTO v_period;
+
+  LOOP
+    FETCH v_summary INTO v_envelope;
+    EXIT WHEN NOT FOUND;
+
+    v_rate := NULL;
+    IF v_envelope.currency IS NOT NULL AND v_envelope.rollover_rule <> 'carry_over' AND v_envelope.available <> 0 THEN
+      v_rate := public.get_exchange_rate(v_envelope.currency, v_currency, v_end);
+      IF v_rate IS NULL THEN
+        RAISE EXCEPTION 'No exchange rate from % to % on or before %', v_envelope.currency, v_currency, v_end
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+
+    v_adjustment := CASE
+      WHEN v_envelope.rollover_rule = 'reset' AND v_envelope.available > 0
+        THEN -v_envelope.available
+      WHEN v_envelope.rollover_rule IN ('reset', 'return_overspending') AND v_envelope.available < 0
+        -- Rounded down so the converted cover never exceeds what is available
+        THEN LEAST(-v_envelope.available, GREATEST(FLOOR(v_available / COALESCE(v_rate, 1) * 100) / 100, 0))
+      ELSE 0
+    END;
+
+    v_posted := 0;
+    IF v_adjustment > 0 THEN
+      INSERT INTO public.transactions (
+        budget_id, transaction_type, amount, currency, exchange_rate, description, transaction_date, to_envelope_id
+      ) VALUES (
+        p_budget_id, 'allocation', v_adjustment, v_envelope.currency, v_rate, v_description, v_end, v_envelope.envelope_id
+      )
+      RETURNING amount INTO v_posted;
+    ELSIF v_adjustment < 0 THEN
+      INSERT INTO public.transactions (
+        budget_id, transaction_type, amount, currency, exchange_rate, description, transaction_date, from_envelope_id
+      ) VALUES (
+        p_budget_id, 'allocation', -v_adjustment, v_envelope.currency, v_rate, v_description, v_end, v_envelope.envelope_id
+      )
+      RETURNING -amount INTO v_posted;
+    END IF;
+    -- What the posting moved out of available, in the budget currency
+    v_available := v_available - v_posted;
+
+    INSERT INTO public.envelope_period_balances (
+      period_id,
+      budget_id,
+      envelope_id,
+      opening_balance,
+      assigned,
+      spent,
+      available,
+      rollover_rule,
+      rollover_adjustment
+    ) VALUES (
+      v_period.id,
+      p_budget_id,
+      v_envelope.envelope_id,
+      v_envelope.opening_balance,
+      v_envelope.assigned,
+      v_envelope.spent,
+      v_envelope.available,
+      v_envelope.rollover_rule,
+      v_adjustment
+    );
+  END LOOP;
+  CLOSE v_summary;
+
+  RETURN v_period;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Category totals are in the budget currency: balances in other currencies count at
+-- today's rate
+CREATE OR REPLACE FUNCTION public.refresh_category_total_chain(p_category_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_category_id UUID := p_category_id;
+  v_levels INTEGER := 0;
+BEGIN
+  -- The level cap only guards against a cycle that predates the parent check below
+  WHILE v_category_id IS NOT NULL AND v_levels < 100 LOOP
+    UPDATE public.categories c
+    SET total = COALESCE((
+      SELECT SUM(public.convert_amount(e.current_balance, e.currency, b.currency))
+      FROM public.envelopes e
+      JOIN public.budgets b ON b.id = e.budget_id
+      WHERE e.category_id = c.id
+      AND e.is_active = true
+    ), 0) + COALESCE((
+      SELECT SUM(child.total)
+      FROM public.categories child
+      WHERE child.parent_id = c.id
+    ), 0)
+    WHERE c.id = v_category_id
+    RETURNING c.parent_id INTO v_category_id;
+
+    v_levels := v_levels + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cash flow forecast in the budget currency: envelope balances in other currencies
+-- count at today's rate
+CREATE OR REPLACE FUNCTION get_cash_flow_forecast(p_budget_id UUID, p_forecast_months INTEGER DEFAULT 3)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+  v_currency TEXT;
+BEGIN
+  SELECT currency INTO v_currency FROM budgets WHERE id = p_budget_id;
+
+  WITH monthly_averages AS (
+    SELECT
+      transaction_type,
+      AVG(amount) as avg_monthly_amount,
+      COUNT(*) / 6.0 as avg_monthly_frequency  -- 6 months of history
+    FROM transactions
+    WHERE budget_id = p_budget_id
+      AND is_deleted = false
+      AND transaction_date >= CURRENT_DATE - INTERVAL '6 months'
+      AND (income_source_id IS NULL OR income_source_id NOT IN (
+        SELECT interest_income_source_id FROM envelopes
+        WHERE budget_id = p_budget_id AND interest_income_source_id IS NOT NULL
+      ))
+    GROUP BY transaction_type
+  ),
+  current_state AS (
+    SELECT
+      b.available_amount,
+      SUM(public.convert_amount(e.current_balance, e.currency, v_currency)) as total_envelope_balance
+    FROM budgets b
+    LEFT JOIN envelopes e ON b.id = e.budget_id AND e.is_active = true
+    WHERE b.id = p_budget_id
+    GROUP BY b.id, b.available_amount
+  ),
+  savings_interest AS (
+    SELECT month_start, SUM(interest) AS interest
+    FROM public.get_savings_projection(p_budget_id, p_forecast_months)
+    GROUP BY month_start
+  ),
+  projections AS (
+    SELECT
+      generate_series,
+      COALESCE(income_avg.avg_monthly_amount * income_avg.avg_monthly_frequency, 0) AS projected_income,
+      COALESCE(expense_avg.avg_monthly_amount * expense_avg.avg_monthly_frequency, 0) AS projected_expenses,
+      -- Month n of the forecast picks up the interest projected for the nth calendar month
+      COALESCE((
+        SELECT si.interest FROM savings_interest si
+        WHERE si.month_start = (DATE_TRUNC('month', CURRENT_DATE) + (generate_series - 1) * INTERVAL '1 month')::DATE
+      ), 0) AS projected_interest,
+      COALESCE((
+        SELECT SUM(si.interest) FROM savings_interest si
+        WHERE si.month_start < (DATE_TRUNC('month', CURRENT_DATE) + generate_series * INTERVAL '1 month')::DATE
+      ), 0) AS cumulative_interest
+    FROM generate_series(1, p_forecast_months)
+    LEFT JOIN monthly_averages income_avg ON income_avg.transaction_type = 'income'
+    LEFT JOIN monthly_averages expense_avg ON expense_avg.transaction_type IN ('expense', 'debt_payment')
+  )
+  SELECT JSON_BUILD_OBJECT(
+    'forecast_period', JSON_BUILD_OBJECT(
+      'start_date', CURRENT_DATE,
+      'months', p_forecast_months,
+      'end_date', CURRENT_DATE + (p_forecast_months || ' months')::INTERVAL
+    ),
+    'current_position', JSON_BUILD_OBJECT(
+      'available_amount', cs.available_amount,
+      'total_envelope_balance', cs.total_envelope_balance,
+      'total_liquid_funds', cs.available_amount + cs.total_envelope_balance
+    ),
+    'monthly_projections', (
+      SELECT JSON_AGG(
+        JSON_BUILD_OBJECT(
+          'month', p.generate_series,
+          'month_date', (CURRENT_DATE + (p.generate_series || ' months')::INTERVAL)::DATE,
+          'projected_income', p.projected_income,
+          'projected_expenses', p.projected_expenses,
+          'projected_interest', p.projected_interest,
+          'net_flow', p.projected_income - p.projected_expenses + p.projected_interest,
+          'projected_balance',
+            cs.available_amount + cs.total_envelope_balance +
+            p.generate_series * (p.projected_income - p.projected_expenses) +
+            p.cumulative_interest
+        ) ORDER BY p.generate_series
+      )
+      FROM projections p
+    ),
+    'risk_analysis', JSON_BUILD_OBJECT(
+      'cash_depletion_risk',
+        CASE
+          WHEN (
+            SELECT MIN(
+              cs.available_amount + cs.total_envelope_balance +
+              p.generate_series * (p.projected_income - p.projected_expenses) +
+              p.cumulative_interest
+            )
+            FROM projections p
+          ) < 0 THEN 'high'
+          WHEN (
+            SELECT MIN(
+              cs.available_amount + cs.total_envelope_balance +
+              p.generate_series * (p.projected_income - p.projected_expenses) +
+              p.cumulative_interest
+            )
+            FROM projections p
+          ) < 500 THEN 'medium'
+          ELSE 'low'
+        END,
+      'income_stability',
+        CASE
+          WHEN (SELECT COUNT(*) FROM monthly_averages WHERE transaction_type = 'income') = 0 THEN 'none'
+          WHEN (SELECT avg_monthly_frequency FROM monthly_averages WHERE transaction_type = 'income') < 1 THEN 'irregular'
+          WHEN (SELECT avg_monthly_frequency FROM monthly_averages WHERE transaction_type = 'income') < 4 THEN 'moderate'
+          ELSE 'stable'
+        END
+    )
+  ) INTO result
+  FROM current_state cs;
+
+  RETURN result;
+END;
+$$;
+
+-- Add comments
+COMMENT ON TABLE public.exchange_rates IS 'Daily exchange rates from a rate provider: 1 base_currency = rate quote_currency';
+COMMENT ON COLUMN public.envelopes.currency IS 'Currency the envelope holds; NULL for the budget currency. current_balance is in this currency';
+COMMENT ON COLUMN public.transactions.currency IS 'Currency the transaction was recorded in; NULL for the budget currency';
+COMMENT ON COLUMN public.transactions.original_amount IS 'Amount in the recorded currency; amount is this converted to the budget currency';
+COMMENT ON COLUMN public.transactions.exchange_rate IS 'Budget currency per unit of the recorded currency';
+COMMENT ON COLUMN public.scheduled_transactions.currency IS 'Currency the amount is in and occurrences are posted in; NULL for the budget currency';
+COMMENT ON FUNCTION public.get_exchange_rate(TEXT, TEXT, DATE) IS 'Most recent direct, inverse or cross rate on or before a date, or NULL';
+COMMENT ON FUNCTION public.convert_amount(DECIMAL, TEXT, TEXT, DATE) IS 'Converts an amount between currencies, failing when no rate is known';
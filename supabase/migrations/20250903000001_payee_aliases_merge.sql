@@ -0,0 +1,212 @@
+-- Migration: Payee Aliases and Merge
+-- Imports and quick entry create a payee per spelling ("AMZN Mktp", "Amazon.com",
+-- "Amazon"). Aliases let raw descriptions resolve to one payee, and merging folds
+-- duplicates together. payees.total_paid and last_payment_date are now kept up to
+-- date from transactions so a merged payee carries the combined history.
+
+-- Create payee_aliases table
+CREATE TABLE IF NOT EXISTS public.payee_aliases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payee_id UUID REFERENCES public.payees(id) ON DELETE CASCADE NOT NULL,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  alias TEXT NOT NULL CHECK (LENGTH(TRIM(alias)) > 0 AND LENGTH(alias) <= 100),
+  -- Lowercased words with punctuation, digits and bank noise words removed; set by
+  -- the API so matching is the same everywhere descriptions are matched
+  normalized_alias TEXT NOT NULL CHECK (LENGTH(normalized_alias) > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes
+-- An alias can only point at one payee per budget
+CREATE UNIQUE INDEX idx_payee_aliases_budget_normalized ON public.payee_aliases(budget_id, normalized_alias);
+CREATE INDEX idx_payee_aliases_payee_id ON public.payee_aliases(payee_id);
+
+-- Enable RLS
+ALTER TABLE public.payee_aliases ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for payee_aliases (rows are never updated, only added and removed)
+CREATE POLICY "Users can view payee aliases in their budgets"
+  ON public.payee_aliases
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = payee_aliases.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create payee aliases in their budgets"
+  ON public.payee_aliases
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = payee_aliases.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete payee aliases in their budgets"
+  ON public.payee_aliases
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = payee_aliases.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- The alias must belong to the payee's budget
+CREATE OR REPLACE FUNCTION public.validate_payee_alias_budget()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.payees
+    WHERE id = NEW.payee_id AND budget_id = NEW.budget_id
+  ) THEN
+    RAISE EXCEPTION 'Payee alias must belong to the payee''s budget'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER validate_payee_alias_budget
+  BEFORE INSERT OR UPDATE ON public.payee_aliases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payee_alias_budget();
+
+-- Recompute a payee's total_paid and last_payment_date from its posted expenses and
+-- payoffs. Split expenses count once, at the parent amount.
+CREATE OR REPLACE FUNCTION public.recalculate_payee_totals(p_payee_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.payees p
+  SET
+    total_paid = totals.total_paid,
+    last_payment_date = totals.last_payment_date
+  FROM (
+    SELECT
+      COALESCE(SUM(t.amount), 0) AS total_paid,
+      MAX(t.transaction_date) AS last_payment_date
+    FROM public.transactions t
+    WHERE t.payee_id = p_payee_id
+      AND t.transaction_type IN ('expense', 'payoff')
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+  ) totals
+  WHERE p.id = p_payee_id
+    AND (p.total_paid IS DISTINCT FROM totals.total_paid
+      OR p.last_payment_date IS DISTINCT FROM totals.last_payment_date);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep payee totals in step with their transactions. merge_payees recomputes once at
+-- the end instead of once per moved row.
+CREATE OR REPLACE FUNCTION public.update_payee_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.merging_payees', true) = 'true' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.payee_id IS NOT NULL THEN
+    PERFORM public.recalculate_payee_totals(OLD.payee_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.payee_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.payee_id IS DISTINCT FROM OLD.payee_id) THEN
+    PERFORM public.recalculate_payee_totals(NEW.payee_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_payee_totals_on_transaction
+  AFTER INSERT OR UPDATE OF payee_id, amount, transaction_type, transaction_date, status, is_deleted OR DELETE
+  ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_payee_totals();
+
+-- Backfill totals for existing payees
+SELECT public.recalculate_payee_totals(id) FROM public.payees;
+
+-- Merge p_source_id into p_target_id and delete the source. Transactions, schedules
+-- and rules that referenced the source move to the target, the source's aliases and
+-- name become aliases of the target, and the target's totals are recomputed. Debt
+-- terms and details the target lacks are taken from the source.
+-- SECURITY INVOKER so the caller's RLS policies apply.
+CREATE OR REPLACE FUNCTION public.merge_payees(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_normalized_source_name TEXT DEFAULT NULL
+)
+RETURNS public.payees AS $$
+DECLARE
+  v_source public.payees;
+  v_target public.payees;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'A payee cannot be merged into itself'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Lock both payees in a fixed order to avoid deadlocks between concurrent merges
+  PERFORM 1 FROM public.payees
+  WHERE id IN (p_source_id, p_target_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_source FROM public.payees WHERE id = p_source_id;
+  SELECT * INTO v_target FROM public.payees WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Payee not found';
+  END IF;
+
+  IF v_source.budget_id <> v_target.budget_id THEN
+    RAISE EXCEPTION 'Payees must belong to the same budget'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.merging_payees', 'true', true);
+
+  UPDATE public.transactions SET payee_id = p_target_id WHERE payee_id = p_source_id;
+  UPDATE public.scheduled_transactions SET payee_id = p_target_id WHERE payee_id = p_source_id;
+  UPDATE public.transaction_rules SET match_payee_id = p_target_id WHERE match_payee_id = p_source_id;
+  UPDATE public.transaction_rules SET set_payee_id = p_target_id WHERE set_payee_id = p_source_id;
+
+  UPDATE public.payee_aliases SET payee_id = p_target_id WHERE payee_id = p_source_id;
+
+  -- The source name keeps matching descriptions it used to match by name
+  IF p_normalized_source_name IS NOT NULL AND LENGTH(p_normalized_source_name) > 0 THEN
+    INSERT INTO public.payee_aliases (payee_id, budget_id, alias, normalized_alias)
+    VALUES (p_target_id, v_target.budget_id, v_source.name, p_normalized_source_name)
+    ON CONFLICT (budget_id, normalized_alias) DO NOTHING;
+  END IF;
+
+  UPDATE public.payees
+  SET
+    description = COALESCE(v_target.description, v_source.description),
+    category_id = COALESCE(v_target.category_id, v_source.category_id),
+    payee_type = CASE WHEN v_source.payee_type = 'debt' THEN 'debt' ELSE v_target.payee_type END,
+    interest_rate = COALESCE(v_target.interest_rate, v_source.interest_rate),
+    minimum_payment = COALESCE(v_target.minimum_payment, v_source.minimum_payment),
+    due_date = COALESCE(v_target.due_date, v_source.due_date),
+    is_active = v_target.is_active OR v_source.is_active
+  WHERE id = p_target_id;
+
+  DELETE FROM public.payees WHERE id = p_source_id;
+
+  PERFORM set_config('app.merging_payees', 'false', true);
+
+  PERFORM public.recalculate_payee_totals(p_target_id);
+
+  SELECT * INTO v_target FROM public.payees WHERE id = p_target_id;
+  RETURN v_target;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments
+COMMENT ON TABLE public.payee_aliases IS 'Alternative spellings that resolve raw transaction descriptions to a payee';
+COMMENT ON COLUMN public.payee_aliases.normalized_alias IS 'Alias as matched against normalized descriptions; unique per budget';
+COMMENT ON FUNCTION public.recalculate_payee_totals(UUID) IS 'Recomputes total_paid and last_payment_date from posted expenses and payoffs';
+COMMENT ON FUNCTION public.merge_payees(UUID, UUID, TEXT) IS 'Atomically moves all transactions, schedules, rules and aliases of one payee to another and deletes the first';
@@ -0,0 +1,111 @@
+-- Migration: Bill Tracking
+-- Payees with a due_date (day of month) are bills. For each month a bill is due, it
+-- counts as paid when posted expenses or payoffs to the payee in its payment window
+-- reach minimum_payment (or any amount when there is no minimum). The window runs
+-- from 15 days before the due date to 16 days before the next one, so a payment made
+-- a little early or a little late lands on the bill it was meant for and never on
+-- two bills at once.
+
+-- Due date of a bill in the month containing p_month; days past the end of a short
+-- month fall on its last day (a bill due on the 31st is due Feb 28/29)
+CREATE OR REPLACE FUNCTION public.bill_due_date(p_month DATE, p_due_day INTEGER)
+RETURNS DATE AS $$
+  SELECT DATE_TRUNC('month', p_month)::DATE + LEAST(
+    p_due_day,
+    EXTRACT(DAY FROM DATE_TRUNC('month', p_month) + INTERVAL '1 month' - INTERVAL '1 day')::INTEGER
+  ) - 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Every bill due between p_from and p_to with what has been paid toward it and its
+-- status as of p_as_of:
+--   paid     payments in the window cover the amount due
+--   partial  something has been paid but not enough, and the due date hasn't passed
+--   unpaid   nothing has been paid and the due date hasn't passed
+--   overdue  the due date has passed without the amount due being paid
+-- Bills due before the payee was created are left out.
+CREATE OR REPLACE FUNCTION public.get_bills(
+  p_budget_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  payee_id UUID,
+  payee_name TEXT,
+  payee_type TEXT,
+  due_date DATE,
+  window_start DATE,
+  window_end DATE,
+  amount_due DECIMAL(12, 2),
+  amount_paid DECIMAL(12, 2),
+  payment_count INTEGER,
+  last_payment_date DATE,
+  status TEXT,
+  days_until_due INTEGER
+) AS $$
+  WITH bills AS (
+    SELECT
+      p.id AS payee_id,
+      p.name AS payee_name,
+      p.payee_type,
+      p.minimum_payment AS amount_due,
+      p.created_at,
+      public.bill_due_date(months.month_start::DATE, p.due_date) AS due_date,
+      public.bill_due_date((months.month_start + INTERVAL '1 month')::DATE, p.due_date) AS next_due_date
+    FROM public.payees p
+    CROSS JOIN generate_series(
+      DATE_TRUNC('month', p_from)::DATE,
+      DATE_TRUNC('month', p_to)::DATE,
+      INTERVAL '1 month'
+    ) AS months(month_start)
+    WHERE p.budget_id = p_budget_id
+      AND p.is_active = true
+      AND p.due_date IS NOT NULL
+  ),
+  windows AS (
+    SELECT
+      bills.*,
+      bills.due_date - 15 AS window_start,
+      bills.next_due_date - 16 AS window_end
+    FROM bills
+    WHERE bills.due_date BETWEEN p_from AND p_to
+      AND bills.due_date >= bills.created_at::DATE
+  )
+  SELECT
+    w.payee_id,
+    w.payee_name,
+    w.payee_type,
+    w.due_date,
+    w.window_start,
+    w.window_end,
+    w.amount_due,
+    payments.amount_paid,
+    payments.payment_count,
+    payments.last_payment_date,
+    CASE
+      WHEN payments.payment_count > 0 AND payments.amount_paid >= COALESCE(w.amount_due, 0) THEN 'paid'
+      WHEN w.due_date < p_as_of THEN 'overdue'
+      WHEN payments.payment_count > 0 THEN 'partial'
+      ELSE 'unpaid'
+    END,
+    w.due_date - p_as_of
+  FROM windows w
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(SUM(t.amount), 0)::DECIMAL(12, 2) AS amount_paid,
+      COUNT(t.id)::INTEGER AS payment_count,
+      MAX(t.transaction_date) AS last_payment_date
+    FROM public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.payee_id = w.payee_id
+      AND t.transaction_type IN ('expense', 'payoff')
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date BETWEEN w.window_start AND w.window_end
+  ) payments
+  ORDER BY w.due_date, w.payee_name;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments
+COMMENT ON FUNCTION public.bill_due_date(DATE, INTEGER) IS 'Due date of a monthly bill in a given month, clamped to the last day of short months';
+COMMENT ON FUNCTION public.get_bills(UUID, DATE, DATE, DATE) IS 'Bills due in a date range with amounts paid in each payment window and paid/partial/unpaid/overdue status';
@@ -0,0 +1,264 @@
+-- Migration: Income Occurrences
+-- Ties each posted income transaction to the scheduled occurrence of its income source
+-- that it pays, so every paycheck has an expected and an actual amount. A payment
+-- matches the outstanding or missed occurrence closest to its date, within 7 days
+-- either way, so income entered out of order still settles the earlier occurrence.
+-- Outstanding occurrences it skips over are recorded as missed, and the source's
+-- next_expected_date moves past the matched one. One-time sources are deactivated
+-- once received.
+
+-- Create income_occurrences table
+CREATE TABLE IF NOT EXISTS public.income_occurrences (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  income_source_id UUID REFERENCES public.income_sources(id) ON DELETE CASCADE NOT NULL,
+  budget_id UUID REFERENCES public.budgets(id) ON DELETE CASCADE NOT NULL,
+  expected_date DATE NOT NULL,
+  -- The source's expected_amount when the occurrence was settled
+  expected_amount DECIMAL(12, 2),
+  status TEXT NOT NULL CHECK (status IN ('received', 'missed')),
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE,
+  actual_amount DECIMAL(12, 2),
+  received_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT income_occurrences_status_fields_check CHECK (
+    (status = 'received' AND transaction_id IS NOT NULL AND actual_amount IS NOT NULL AND received_date IS NOT NULL) OR
+    (status = 'missed' AND transaction_id IS NULL AND actual_amount IS NULL AND received_date IS NULL)
+  )
+);
+
+-- Create indexes
+CREATE UNIQUE INDEX idx_income_occurrences_source_date ON public.income_occurrences(income_source_id, expected_date);
+CREATE UNIQUE INDEX idx_income_occurrences_transaction_id ON public.income_occurrences(transaction_id)
+  WHERE transaction_id IS NOT NULL;
+CREATE INDEX idx_income_occurrences_budget_date ON public.income_occurrences(budget_id, expected_date);
+
+-- Enable RLS
+ALTER TABLE public.income_occurrences ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for income_occurrences (rows are written by the transaction trigger)
+CREATE POLICY "Users can view income occurrences in their budgets"
+  ON public.income_occurrences
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = income_occurrences.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can create income occurrences in their budgets"
+  ON public.income_occurrences
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = income_occurrences.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can update income occurrences in their budgets"
+  ON public.income_occurrences
+  FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = income_occurrences.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Users can delete income occurrences in their budgets"
+  ON public.income_occurrences
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.budgets
+    WHERE budgets.id = income_occurrences.budget_id
+    AND budgets.user_id = auth.uid()
+  ));
+
+-- Match a posted income transaction to the occurrence of its source closest to the
+-- transaction date. Outstanding occurrences start at next_expected_date; the walk stops
+-- at the first one after the transaction date. A missed occurrence within 7 days is
+-- upgraded to received when it is at least as close, leaving next_expected_date alone.
+CREATE OR REPLACE FUNCTION public.match_income_occurrence(p_transaction public.transactions)
+RETURNS VOID AS $$
+DECLARE
+  v_source public.income_sources;
+  v_date DATE;
+  v_next DATE;
+  v_matched DATE;
+  v_missed DATE;
+  v_steps INTEGER := 0;
+BEGIN
+  SELECT * INTO v_source
+  FROM public.income_sources
+  WHERE id = p_transaction.income_source_id
+  FOR UPDATE;
+
+  IF v_source.id IS NULL OR v_source.schedule_type IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_date := v_source.next_expected_date;
+  WHILE v_date IS NOT NULL LOOP
+    IF ABS(p_transaction.transaction_date - v_date) <= 7
+      AND (v_matched IS NULL OR ABS(p_transaction.transaction_date - v_date) < ABS(p_transaction.transaction_date - v_matched)) THEN
+      v_matched := v_date;
+    END IF;
+
+    v_steps := v_steps + 1;
+    EXIT WHEN v_date > p_transaction.transaction_date OR v_steps > 400;
+
+    v_next := calculate_next_expected_date(v_source.schedule_type, v_source.schedule_config, v_date);
+    EXIT WHEN v_next IS NULL OR v_next <= v_date;
+    v_date := v_next;
+  END LOOP;
+
+  -- Missed occurrences are all before next_expected_date, so one wins a tie
+  SELECT expected_date INTO v_missed
+  FROM public.income_occurrences
+  WHERE income_source_id = v_source.id
+    AND status = 'missed'
+    AND ABS(p_transaction.transaction_date - expected_date) <= 7
+  ORDER BY ABS(p_transaction.transaction_date - expected_date), expected_date
+  LIMIT 1;
+
+  IF v_missed IS NOT NULL
+    AND (v_matched IS NULL OR ABS(p_transaction.transaction_date - v_missed) <= ABS(p_transaction.transaction_date - v_matched)) THEN
+    v_matched := v_missed;
+  ELSE
+    v_missed := NULL;
+  END IF;
+
+  -- Income that isn't near any expected occurrence (a bonus, a refund) stays unmatched
+  IF v_matched IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Occurrences passed over on the way to the matched one were never paid
+  IF v_missed IS NULL THEN
+    INSERT INTO public.income_occurrences (income_source_id, budget_id, expected_date, expected_amount, status)
+    SELECT v_source.id, v_source.budget_id, o.occurrence_date, v_source.expected_amount, 'missed'
+    FROM public.get_schedule_occurrences(
+      v_source.schedule_type, v_source.schedule_config, v_source.next_expected_date, 400, v_matched - 1
+    ) o
+    ON CONFLICT (income_source_id, expected_date) DO NOTHING;
+  END IF;
+
+  INSERT INTO public.income_occurrences (
+    income_source_id, budget_id, expected_date, expected_amount, status,
+    transaction_id, actual_amount, received_date
+  )
+  VALUES (
+    v_source.id, v_source.budget_id, v_matched, v_source.expected_amount, 'received',
+    p_transaction.id, p_transaction.amount, p_transaction.transaction_date
+  )
+  ON CONFLICT (income_source_id, expected_date) DO UPDATE SET
+    expected_amount = EXCLUDED.expected_amount,
+    status = 'received',
+    transaction_id = EXCLUDED.transaction_id,
+    actual_amount = EXCLUDED.actual_amount,
+    received_date = EXCLUDED.received_date;
+
+  -- A late payment for a missed occurrence doesn't move the schedule
+  IF v_missed IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  v_next := calculate_next_expected_date(v_source.schedule_type, v_source.schedule_config, v_matched);
+
+  IF v_next IS NULL OR v_next <= v_matched THEN
+    UPDATE public.income_sources
+    SET is_active = false, updated_at = NOW()
+    WHERE id = v_source.id;
+  ELSE
+    UPDATE public.income_sources
+    SET next_expected_date = v_next, updated_at = NOW()
+    WHERE id = v_source.id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Undo a transaction's match. The occurrence becomes the next expected one again unless
+-- a later occurrence has already been received, in which case it is missed.
+CREATE OR REPLACE FUNCTION public.unmatch_income_occurrence(p_transaction_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_occurrence public.income_occurrences;
+BEGIN
+  SELECT * INTO v_occurrence
+  FROM public.income_occurrences
+  WHERE transaction_id = p_transaction_id;
+
+  IF v_occurrence.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.income_occurrences
+    WHERE income_source_id = v_occurrence.income_source_id
+      AND status = 'received'
+      AND expected_date > v_occurrence.expected_date
+  ) THEN
+    UPDATE public.income_occurrences
+    SET status = 'missed', transaction_id = NULL, actual_amount = NULL, received_date = NULL
+    WHERE id = v_occurrence.id;
+    RETURN;
+  END IF;
+
+  DELETE FROM public.income_occurrences
+  WHERE id = v_occurrence.id;
+
+  UPDATE public.income_sources
+  SET
+    next_expected_date = LEAST(next_expected_date, v_occurrence.expected_date),
+    is_active = CASE WHEN schedule_type = 'one_time' THEN true ELSE is_active END,
+    updated_at = NOW()
+  WHERE id = v_occurrence.income_source_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep occurrences in step with income transactions. Posting, deleting or moving a
+-- transaction to another source re-matches it; edits to the amount or date of a matched
+-- transaction update the actual figures in place.
+CREATE OR REPLACE FUNCTION public.sync_income_occurrence()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_was_eligible BOOLEAN := false;
+  v_is_eligible BOOLEAN := false;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_was_eligible := OLD.transaction_type = 'income' AND OLD.income_source_id IS NOT NULL
+      AND OLD.status = 'posted' AND OLD.is_deleted = false;
+  END IF;
+
+  v_is_eligible := NEW.transaction_type = 'income' AND NEW.income_source_id IS NOT NULL
+    AND NEW.status = 'posted' AND NEW.is_deleted = false;
+
+  IF v_was_eligible AND v_is_eligible AND OLD.income_source_id = NEW.income_source_id THEN
+    UPDATE public.income_occurrences
+    SET actual_amount = NEW.amount, received_date = NEW.transaction_date
+    WHERE transaction_id = NEW.id;
+    RETURN NULL;
+  END IF;
+
+  IF v_was_eligible THEN
+    PERFORM public.unmatch_income_occurrence(OLD.id);
+  END IF;
+
+  IF v_is_eligible THEN
+    PERFORM public.match_income_occurrence(NEW);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_income_occurrence_on_transaction
+  AFTER INSERT OR UPDATE OF transaction_type, income_source_id, amount, transaction_date, status, is_deleted
+  ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_income_occurrence();
+
+-- Add comments
+COMMENT ON TABLE public.income_occurrences IS 'Scheduled income occurrences that have been received or missed, with expected and actual amounts';
+COMMENT ON COLUMN public.income_occurrences.expected_amount IS 'Expected amount of the income source when the occurrence was settled';
+COMMENT ON FUNCTION public.match_income_occurrence(public.transactions) IS 'Matches an income transaction to its outstanding or missed scheduled occurrence and advances next_expected_date past an outstanding one';
+COMMENT ON FUNCTION public.unmatch_income_occurrence(UUID) IS 'Removes a transaction''s occurrence match and reopens the occurrence, or marks it missed when a later one was received';
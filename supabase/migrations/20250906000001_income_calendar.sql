@@ -0,0 +1,185 @@
+-- Migration: Income Calendar
+-- Rewrites calculate_next_expected_date() so that it agrees with the TypeScript version
+-- in packages/api (utils/income-schedule.ts). Both are checked against the same fixtures.
+-- Fixes along the way:
+--   monthly       a day past the end of a short month fell on the end of the next month
+--                 (the 31st skipped April entirely); it now falls on the month's last day
+--   biweekly      weeks were counted from the reference date's Sunday, so the first
+--                 pay day after a mid-week reference could land on an off week
+--   semi_monthly  days past the end of a short month spilled into the next month, and
+--                 pay dates listed out of order could skip an occurrence
+-- Every caller follows the new rules: get_schedule_occurrences() and so scheduled
+-- transaction runs, savings projections and income occurrence matching. Stored
+-- income_sources.next_expected_date and scheduled_transactions.next_occurrence_date
+-- values are moved onto the new schedule (see the end of this migration), so a
+-- biweekly pay day on an off week moves to the following pay day.
+-- Also adds get_income_calendar() for the income calendar endpoint.
+
+-- The configured day in the month containing p_month. -1 and days past the end of the
+-- month fall on its last day.
+CREATE OR REPLACE FUNCTION public.schedule_day_in_month(p_month DATE, p_day INTEGER)
+RETURNS DATE AS $$
+  SELECT DATE_TRUNC('month', p_month)::DATE + LEAST(
+    CASE WHEN p_day = -1 THEN 31 ELSE p_day END,
+    EXTRACT(DAY FROM DATE_TRUNC('month', p_month) + INTERVAL '1 month' - INTERVAL '1 day')::INTEGER
+  ) - 1;
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+-- Next occurrence strictly after reference_date, or NULL when the config is incomplete.
+-- one_time schedules always return their date.
+CREATE OR REPLACE FUNCTION calculate_next_expected_date(
+  schedule_type TEXT,
+  schedule_config JSONB,
+  reference_date DATE DEFAULT CURRENT_DATE
+) RETURNS DATE AS $$
+DECLARE
+  v_day_of_week INT;
+  v_day INT;
+  v_anchor DATE;
+  v_reference_month DATE := DATE_TRUNC('month', reference_date)::DATE;
+  v_month DATE;
+  v_candidate DATE;
+  v_next DATE;
+  v_pay_date INT;
+BEGIN
+  IF schedule_type IS NULL OR schedule_config IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  CASE schedule_type
+    WHEN 'weekly' THEN
+      v_day_of_week := (schedule_config->>'day_of_week')::INT;
+      RETURN reference_date + ((v_day_of_week - EXTRACT(DOW FROM reference_date)::INT + 6) % 7) + 1;
+
+    WHEN 'biweekly' THEN
+      -- First pay day on or after start_date; every 14 days from there, both ways
+      v_day_of_week := (schedule_config->>'day_of_week')::INT;
+      v_anchor := (schedule_config->>'start_date')::DATE;
+      v_anchor := v_anchor + ((v_day_of_week - EXTRACT(DOW FROM v_anchor)::INT + 7) % 7);
+      RETURN v_anchor + 14 * (FLOOR((reference_date - v_anchor)::NUMERIC / 14)::INT + 1);
+
+    WHEN 'monthly' THEN
+      v_day := (schedule_config->>'day_of_month')::INT;
+      v_next := public.schedule_day_in_month(v_reference_month, v_day);
+      IF v_next <= reference_date THEN
+        v_next := public.schedule_day_in_month((v_reference_month + INTERVAL '1 month')::DATE, v_day);
+      END IF;
+      RETURN v_next;
+
+    WHEN 'semi_monthly' THEN
+      FOR v_pay_date IN SELECT jsonb_array_elements_text(schedule_config->'pay_dates')::INT LOOP
+        FOR i IN 0..1 LOOP
+          v_candidate := public.schedule_day_in_month((v_reference_month + i * INTERVAL '1 month')::DATE, v_pay_date);
+          IF v_candidate > reference_date AND (v_next IS NULL OR v_candidate < v_next) THEN
+            v_next := v_candidate;
+          END IF;
+        END LOOP;
+      END LOOP;
+      RETURN v_next;
+
+    WHEN 'quarterly' THEN
+      -- month_of_quarter 1 is Jan/Apr/Jul/Oct, 2 is Feb/May/Aug/Nov, 3 is Mar/Jun/Sep/Dec
+      v_day := (schedule_config->>'day_of_month')::INT;
+      FOR i IN 0..3 LOOP
+        v_month := (v_reference_month + i * INTERVAL '1 month')::DATE;
+        IF (EXTRACT(MONTH FROM v_month)::INT - 1) % 3 + 1 = (schedule_config->>'month_of_quarter')::INT THEN
+          v_candidate := public.schedule_day_in_month(v_month, v_day);
+          IF v_candidate > reference_date THEN
+            RETURN v_candidate;
+          END IF;
+        END IF;
+      END LOOP;
+      RETURN NULL;
+
+    WHEN 'yearly' THEN
+      v_day := (schedule_config->>'day_of_month')::INT;
+      v_month := make_date(EXTRACT(YEAR FROM reference_date)::INT, (schedule_config->>'month')::INT, 1);
+      v_next := public.schedule_day_in_month(v_month, v_day);
+      IF v_next <= reference_date THEN
+        v_next := public.schedule_day_in_month((v_month + INTERVAL '1 year')::DATE, v_day);
+      END IF;
+      RETURN v_next;
+
+    WHEN 'one_time' THEN
+      RETURN (schedule_config->>'date')::DATE;
+
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Every occurrence of every active income source from p_from through p_to, with the
+-- received or missed figures for occurrences that have been settled
+CREATE OR REPLACE FUNCTION public.get_income_calendar(
+  p_budget_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS TABLE(
+  income_source_id UUID,
+  income_source_name TEXT,
+  expected_date DATE,
+  expected_amount DECIMAL(12, 2),
+  status TEXT,
+  actual_amount DECIMAL(12, 2),
+  received_date DATE,
+  transaction_id UUID
+) AS $$
+  SELECT
+    s.id,
+    s.name,
+    o.occurrence_date,
+    COALESCE(io.expected_amount, s.expected_amount),
+    COALESCE(io.status, 'expected'),
+    io.actual_amount,
+    io.received_date,
+    io.transaction_id
+  FROM public.income_sources s
+  CROSS JOIN LATERAL public.get_schedule_occurrences(
+    s.schedule_type,
+    s.schedule_config,
+    calculate_next_expected_date(s.schedule_type, s.schedule_config, p_from - 1),
+    600,
+    p_to
+  ) o
+  LEFT JOIN public.income_occurrences io
+    ON io.income_source_id = s.id AND io.expected_date = o.occurrence_date
+  WHERE s.budget_id = p_budget_id
+    AND s.is_active = true
+    AND o.occurrence_date >= p_from
+  ORDER BY o.occurrence_date, s.name;
+$$ LANGUAGE sql STABLE;
+
+-- Move each stored date to the first occurrence on or after it under the new rules.
+-- Dates in the past stay in the past, so scheduled transaction runs still catch up.
+UPDATE public.income_sources s
+SET next_expected_date = r.next_date
+FROM (
+  SELECT id, calculate_next_expected_date(schedule_type, schedule_config, next_expected_date - 1) AS next_date
+  FROM public.income_sources
+  WHERE schedule_type IS NOT NULL
+    AND schedule_type <> 'one_time'
+    AND next_expected_date IS NOT NULL
+) r
+WHERE s.id = r.id
+  AND r.next_date IS NOT NULL
+  AND r.next_date <> s.next_expected_date;
+
+UPDATE public.scheduled_transactions s
+SET next_occurrence_date = r.next_date
+FROM (
+  SELECT id, calculate_next_expected_date(schedule_type, schedule_config, next_occurrence_date - 1) AS next_date
+  FROM public.scheduled_transactions
+  WHERE is_active = true
+    AND schedule_type <> 'one_time'
+    AND next_occurrence_date IS NOT NULL
+) r
+WHERE s.id = r.id
+  AND r.next_date IS NOT NULL
+  AND r.next_date <> s.next_occurrence_date;
+
+-- Add comments
+COMMENT ON FUNCTION public.schedule_day_in_month(DATE, INTEGER) IS 'Day of a schedule in a given month; -1 and days past the end of the month are its last day';
+COMMENT ON FUNCTION calculate_next_expected_date IS 'Calculates the next expected date for an income source based on its schedule type and configuration';
+COMMENT ON FUNCTION public.get_income_calendar(UUID, DATE, DATE) IS 'Expected occurrences of active income sources in a date range with received/missed status';
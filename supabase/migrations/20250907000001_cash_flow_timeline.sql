@@ -0,0 +1,153 @@
+-- Migration: Cash Flow Timeline
+-- Day-by-day projection of the money in a budget. It starts from the available amount
+-- plus every active envelope balance, in the budget currency: income arrives in
+-- available while bills and spending are paid from envelopes, so only the two together
+-- move with the events below. This is total_liquid_funds in get_cash_flow_forecast, and
+-- a negative day means the budget as a whole cannot cover what is due. Each day adds:
+--   income       expected occurrences of active income sources not yet received
+--   bills        what is left to pay on unpaid bills (payees with a due date and a
+--                minimum payment)
+--   scheduled    occurrences of scheduled income and expenses (converted from their
+--                currency), and future-dated income and expense transactions
+--   spending     average daily spending over the previous 90 days, leaving out bill
+--                payees and scheduled transactions, which are already counted above
+-- Scheduled items for an income source or bill payee that the timeline already counts
+-- are left out so nothing is counted twice.
+
+CREATE OR REPLACE FUNCTION public.get_cash_flow_timeline(
+  p_budget_id UUID,
+  p_days INTEGER DEFAULT 90,
+  p_start DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  day DATE,
+  opening_balance DECIMAL(12, 2),
+  income DECIMAL(12, 2),
+  bills DECIMAL(12, 2),
+  scheduled DECIMAL(12, 2),
+  average_spending DECIMAL(12, 2),
+  net_flow DECIMAL(12, 2),
+  projected_balance DECIMAL(12, 2),
+  is_negative BOOLEAN,
+  events JSONB
+) AS $$
+  WITH bounds AS (
+    SELECT p_start AS start_date, p_start + LEAST(GREATEST(p_days, 1), 366) - 1 AS end_date
+  ),
+  budget AS (
+    SELECT b.available_amount + COALESCE((
+      SELECT SUM(public.convert_amount(e.current_balance, e.currency, b.currency))
+      FROM public.envelopes e
+      WHERE e.budget_id = b.id AND e.is_active = true
+    ), 0) AS starting_balance,
+      b.currency
+    FROM public.budgets b
+    WHERE b.id = p_budget_id
+  ),
+  counted_sources AS (
+    SELECT s.id FROM public.income_sources s
+    WHERE s.budget_id = p_budget_id AND s.is_active = true AND s.schedule_type IS NOT NULL
+  ),
+  counted_payees AS (
+    SELECT p.id FROM public.payees p
+    WHERE p.budget_id = p_budget_id AND p.is_active = true
+      AND p.due_date IS NOT NULL AND p.minimum_payment IS NOT NULL
+  ),
+  timeline_events AS (
+    SELECT c.expected_date AS day, 'income' AS event_type, c.income_source_name AS name,
+      c.expected_amount AS amount, c.income_source_id AS source_id
+    FROM bounds, public.get_income_calendar(p_budget_id, bounds.start_date, bounds.end_date) c
+    WHERE c.status = 'expected' AND c.expected_amount IS NOT NULL
+
+    UNION ALL
+
+    SELECT b.due_date, 'bill', b.payee_name, -(b.amount_due - b.amount_paid), b.payee_id
+    FROM bounds, public.get_bills(p_budget_id, bounds.start_date, bounds.end_date, bounds.start_date) b
+    WHERE b.status IN ('unpaid', 'partial') AND b.amount_due IS NOT NULL
+
+    UNION ALL
+
+    SELECT o.occurrence_date, 'scheduled', st.name,
+      CASE WHEN st.transaction_type = 'income' THEN 1 ELSE -1 END *
+        public.convert_amount(st.amount, st.currency, budget.currency, o.occurrence_date),
+      st.id
+    FROM bounds, budget, public.scheduled_transactions st
+    CROSS JOIN LATERAL public.get_schedule_occurrences(
+      st.schedule_type, st.schedule_config, st.next_occurrence_date, 600, LEAST(bounds.end_date, st.end_date)
+    ) o
+    WHERE st.budget_id = p_budget_id
+      AND st.is_active = true
+      AND st.transaction_type IN ('income', 'expense')
+      AND o.occurrence_date >= bounds.start_date
+      AND (st.income_source_id IS NULL OR st.income_source_id NOT IN (SELECT id FROM counted_sources))
+      AND (st.payee_id IS NULL OR st.payee_id NOT IN (SELECT id FROM counted_payees))
+
+    UNION ALL
+
+    SELECT t.transaction_date, 'transaction', COALESCE(t.description, INITCAP(t.transaction_type::TEXT)),
+      CASE WHEN t.transaction_type = 'income' THEN t.amount ELSE -t.amount END, t.id
+    FROM bounds, public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.status = 'scheduled'
+      AND t.is_deleted = false
+      AND t.transaction_type IN ('income', 'expense', 'payoff')
+      AND t.transaction_date BETWEEN bounds.start_date AND bounds.end_date
+      AND (t.income_source_id IS NULL OR t.income_source_id NOT IN (SELECT id FROM counted_sources))
+      AND (t.payee_id IS NULL OR t.payee_id NOT IN (SELECT id FROM counted_payees))
+  ),
+  spending AS (
+    SELECT ROUND(COALESCE(SUM(t.amount), 0) / 90, 2) AS daily
+    FROM bounds, public.transactions t
+    WHERE t.budget_id = p_budget_id
+      AND t.transaction_type = 'expense'
+      AND t.status = 'posted'
+      AND t.is_deleted = false
+      AND t.transaction_date >= bounds.start_date - 90
+      AND t.transaction_date < bounds.start_date
+      AND t.scheduled_transaction_id IS NULL
+      AND (t.payee_id IS NULL OR t.payee_id NOT IN (SELECT id FROM counted_payees))
+  ),
+  daily AS (
+    SELECT
+      d::DATE AS day,
+      COALESCE(SUM(ev.amount) FILTER (WHERE ev.event_type = 'income'), 0) AS income,
+      COALESCE(-SUM(ev.amount) FILTER (WHERE ev.event_type = 'bill'), 0) AS bills,
+      COALESCE(SUM(ev.amount) FILTER (WHERE ev.event_type IN ('scheduled', 'transaction')), 0) AS scheduled,
+      COALESCE(
+        JSONB_AGG(
+          JSONB_BUILD_OBJECT('type', ev.event_type, 'name', ev.name, 'amount', ev.amount, 'source_id', ev.source_id)
+          ORDER BY ev.amount DESC, ev.name
+        ) FILTER (WHERE ev.day IS NOT NULL),
+        '[]'::JSONB
+      ) AS events
+    FROM bounds
+    CROSS JOIN generate_series(bounds.start_date, bounds.end_date, INTERVAL '1 day') AS d
+    LEFT JOIN timeline_events ev ON ev.day = d::DATE
+    GROUP BY d
+  ),
+  flows AS (
+    SELECT
+      daily.*,
+      spending.daily AS average_spending,
+      daily.income - daily.bills + daily.scheduled - spending.daily AS net_flow
+    FROM daily, spending
+  )
+  SELECT
+    f.day,
+    (budget.starting_balance + COALESCE(SUM(f.net_flow) OVER (
+      ORDER BY f.day ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+    ), 0))::DECIMAL(12, 2),
+    f.income::DECIMAL(12, 2),
+    f.bills::DECIMAL(12, 2),
+    f.scheduled::DECIMAL(12, 2),
+    f.average_spending::DECIMAL(12, 2),
+    f.net_flow::DECIMAL(12, 2),
+    (budget.starting_balance + SUM(f.net_flow) OVER (ORDER BY f.day))::DECIMAL(12, 2),
+    budget.starting_balance + SUM(f.net_flow) OVER (ORDER BY f.day) < 0,
+    f.events
+  FROM flows f, budget
+  ORDER BY f.day;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments
+COMMENT ON FUNCTION public.get_cash_flow_timeline(UUID, INTEGER, DATE) IS 'Day-by-day projected balance from expected income, unpaid bills, scheduled transactions and average spending';